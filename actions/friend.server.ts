@@ -0,0 +1,447 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import authOptions from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+    ChallengeStatus,
+    FriendshipStatus,
+    MatchStatus,
+    type GameMode,
+    type TargetLanguage,
+} from '@prisma/client';
+import { createWaitingMatch, joinWaitingMatch } from '@/actions/game.server';
+import {
+    findFriendship,
+    areFriends,
+    getHeadToHead,
+    getPresence,
+    touchPresence,
+    type HeadToHead,
+} from '@/lib/friends/friends';
+import { realtimeServer } from '@/lib/realtime/server';
+import { getUserChannel, USER_EVENTS } from '@/lib/realtime/channels';
+import { GAME_MODES, MATCH_RULE_PRESETS, questionCounts, type MatchRulePreset } from '@/lib/config/game';
+import {
+    CHALLENGE_EXPIRY_MS,
+    FRIEND_LIMIT,
+    FRIEND_SEARCH_LIMIT,
+    FRIEND_SEARCH_MIN_LENGTH,
+    type FriendPresence,
+} from '@/lib/config/friends';
+
+// ============================================
+// Friends & Challenges
+// ============================================
+//
+// Friend requests are accepted or declined by the addressee; removing a friend (or cancelling
+// a request) deletes the record. A challenge opens a private duel room hosted by the challenger
+// and notifies the friend on their user channel; accepting joins the room with its code.
+//
+// Every action acts for the signed-in user only.
+
+export interface FriendInfo {
+    userId: string;
+    name: string;
+    avatar: string | null;
+    presence: FriendPresence;
+    headToHead: Omit<HeadToHead, 'lastPlayedAt'> & { lastPlayedAt: string | null };
+    friendsSince: string;
+}
+
+export interface FriendRequestInfo {
+    id: string;
+    userId: string;      // The other user
+    name: string;
+    avatar: string | null;
+    direction: 'incoming' | 'outgoing';
+    createdAt: string;
+}
+
+export interface UserSearchResult {
+    userId: string;
+    name: string;
+    avatar: string | null;
+    relation: 'none' | 'friend' | 'incoming' | 'outgoing';
+}
+
+export interface ChallengeInfo {
+    id: string;
+    matchId: string;
+    challengerId: string;
+    challengerName: string;
+    challengerAvatar: string | null;
+    targetLanguage: TargetLanguage;
+    rank: number;
+    questionCount: number;
+    gameMode: GameMode;
+    expiresAt: number;
+}
+
+type FriendActionResult = { success: boolean; error?: string };
+
+async function getSessionUserId(): Promise<string | null> {
+    const session = await getServerSession(authOptions);
+    return session?.user?.id ?? null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Friends list
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The signed-in user's friends with presence and head-to-head records
+ * Live and online friends first, then by name
+ */
+export async function getFriends(): Promise<FriendInfo[]> {
+    const userId = await getSessionUserId();
+    if (!userId) return [];
+
+    const friendships = await prisma.friendship.findMany({
+        where: {
+            status: FriendshipStatus.accepted,
+            OR: [{ requesterId: userId }, { addresseeId: userId }],
+        },
+    });
+    const friendIds = friendships.map(f => f.requesterId === userId ? f.addresseeId : f.requesterId);
+
+    const [users, presence, records] = await Promise.all([
+        prisma.user.findMany({
+            where: { id: { in: friendIds } },
+            select: { id: true, name: true, image: true },
+        }),
+        getPresence(friendIds),
+        getHeadToHead(userId, friendIds),
+    ]);
+
+    const order: FriendPresence[] = ['playing', 'online', 'offline'];
+    return users
+        .map(user => {
+            const friendship = friendships.find(f => f.requesterId === user.id || f.addresseeId === user.id)!;
+            const record = records.get(user.id) ?? { wins: 0, losses: 0, draws: 0, lastPlayedAt: null };
+            return {
+                userId: user.id,
+                name: user.name || 'Player',
+                avatar: user.image,
+                presence: presence.get(user.id) ?? 'offline',
+                headToHead: { ...record, lastPlayedAt: record.lastPlayedAt?.toISOString() ?? null },
+                friendsSince: (friendship.acceptedAt ?? friendship.createdAt).toISOString(),
+            };
+        })
+        .sort((a, b) => order.indexOf(a.presence) - order.indexOf(b.presence) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Pending requests to and from the signed-in user, newest first
+ */
+export async function getFriendRequests(): Promise<FriendRequestInfo[]> {
+    const userId = await getSessionUserId();
+    if (!userId) return [];
+
+    const requests = await prisma.friendship.findMany({
+        where: {
+            status: FriendshipStatus.pending,
+            OR: [{ requesterId: userId }, { addresseeId: userId }],
+        },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    const otherIds = requests.map(r => r.requesterId === userId ? r.addresseeId : r.requesterId);
+    const users = await prisma.user.findMany({
+        where: { id: { in: otherIds } },
+        select: { id: true, name: true, image: true },
+    });
+
+    return requests.flatMap(request => {
+        const isOutgoing = request.requesterId === userId;
+        const user = users.find(u => u.id === (isOutgoing ? request.addresseeId : request.requesterId));
+        if (!user) return []; // Deleted user
+
+        return [{
+            id: request.id,
+            userId: user.id,
+            name: user.name || 'Player',
+            avatar: user.image,
+            direction: isOutgoing ? 'outgoing' : 'incoming',
+            createdAt: request.createdAt.toISOString(),
+        }];
+    });
+}
+
+/**
+ * Find players by name to send a request to (bots and the caller are left out)
+ */
+export async function searchUsers(query: string): Promise<UserSearchResult[]> {
+    const userId = await getSessionUserId();
+    const name = query.trim();
+    if (!userId || name.length < FRIEND_SEARCH_MIN_LENGTH) return [];
+
+    const users = await prisma.user.findMany({
+        where: {
+            id: { not: userId },
+            isBot: false,
+            name: { contains: name, mode: 'insensitive' },
+        },
+        select: { id: true, name: true, image: true },
+        take: FRIEND_SEARCH_LIMIT,
+    });
+
+    const friendships = await prisma.friendship.findMany({
+        where: {
+            OR: [
+                { requesterId: userId, addresseeId: { in: users.map(u => u.id) } },
+                { addresseeId: userId, requesterId: { in: users.map(u => u.id) } },
+            ],
+        },
+    });
+
+    return users.map(user => {
+        const friendship = friendships.find(f => f.requesterId === user.id || f.addresseeId === user.id);
+        return {
+            userId: user.id,
+            name: user.name || 'Player',
+            avatar: user.image,
+            relation: !friendship
+                ? 'none'
+                : friendship.status === FriendshipStatus.accepted
+                    ? 'friend'
+                    : friendship.requesterId === userId ? 'outgoing' : 'incoming',
+        };
+    });
+}
+
+/**
+ * Send a friend request (a pending request the other way is accepted instead)
+ */
+export async function sendFriendRequest(targetUserId: string): Promise<FriendActionResult> {
+    const userId = await getSessionUserId();
+    if (!userId) return { success: false, error: 'Not signed in' };
+    if (targetUserId === userId) return { success: false, error: 'Cannot add yourself' };
+
+    const target = await prisma.user.findUnique({ where: { id: targetUserId }, select: { isBot: true } });
+    if (!target || target.isBot) return { success: false, error: 'User not found' };
+
+    const existing = await findFriendship(userId, targetUserId);
+    if (existing?.status === FriendshipStatus.accepted) {
+        return { success: false, error: 'Already friends' };
+    }
+    if (existing?.requesterId === userId) {
+        return { success: false, error: 'Request already sent' };
+    }
+    if (existing) {
+        return respondToFriendRequest(existing.id, true);
+    }
+
+    const count = await prisma.friendship.count({
+        where: { OR: [{ requesterId: userId }, { addresseeId: userId, status: FriendshipStatus.accepted }] },
+    });
+    if (count >= FRIEND_LIMIT) {
+        return { success: false, error: 'Friend limit reached' };
+    }
+
+    try {
+        await prisma.friendship.create({
+            data: { requesterId: userId, addresseeId: targetUserId, acceptedAt: null },
+        });
+    } catch {
+        // Double click (the pair is unique)
+        return { success: false, error: 'Request already sent' };
+    }
+    return { success: true };
+}
+
+/**
+ * Accept or decline a request sent to the signed-in user (declining deletes it)
+ */
+export async function respondToFriendRequest(requestId: string, accept: boolean): Promise<FriendActionResult> {
+    const userId = await getSessionUserId();
+    if (!userId) return { success: false, error: 'Not signed in' };
+
+    if (!accept) {
+        await prisma.friendship.deleteMany({
+            where: { id: requestId, addresseeId: userId, status: FriendshipStatus.pending },
+        });
+        return { success: true };
+    }
+
+    const { count } = await prisma.friendship.updateMany({
+        where: { id: requestId, addresseeId: userId, status: FriendshipStatus.pending },
+        data: { status: FriendshipStatus.accepted, acceptedAt: new Date() },
+    });
+    return count === 1 ? { success: true } : { success: false, error: 'Request not found' };
+}
+
+/**
+ * Remove a friend, or cancel a request the signed-in user sent
+ */
+export async function removeFriend(friendUserId: string): Promise<FriendActionResult> {
+    const userId = await getSessionUserId();
+    if (!userId) return { success: false, error: 'Not signed in' };
+
+    const friendship = await findFriendship(userId, friendUserId);
+    if (!friendship) return { success: false, error: 'Not friends' };
+
+    await prisma.friendship.delete({ where: { id: friendship.id } });
+    return { success: true };
+}
+
+/**
+ * Heartbeat from signed-in pages (friends see the user as online)
+ */
+export async function updatePresence(): Promise<void> {
+    const userId = await getSessionUserId();
+    if (userId) await touchPresence(userId);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Challenges
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Challenge a friend: opens a private duel room hosted by the signed-in user and notifies the friend
+ * The challenger goes to the room and waits there like any host
+ */
+export async function challengeFriend(
+    friendUserId: string,
+    config: {
+        targetLanguage: TargetLanguage;
+        rank: number;
+        questionCount: number;
+        gameMode?: GameMode;
+        rulesPreset?: MatchRulePreset;
+    }
+): Promise<FriendActionResult & { matchId?: string }> {
+    const userId = await getSessionUserId();
+    if (!userId) return { success: false, error: 'Not signed in' };
+    if (!(await areFriends(userId, friendUserId))) {
+        return { success: false, error: 'Not friends' };
+    }
+
+    let room: { matchId: string; joinCode: string | null };
+    try {
+        room = await createWaitingMatch(userId, {
+            targetLanguage: config.targetLanguage,
+            rank: config.rank,
+            questionCount: questionCounts.includes(config.questionCount as typeof questionCounts[number])
+                ? config.questionCount
+                : questionCounts[1],
+            isBot: false,
+            gameMode: config.gameMode && GAME_MODES[config.gameMode] ? config.gameMode : 'classic',
+            rulesPreset: config.rulesPreset && MATCH_RULE_PRESETS[config.rulesPreset] ? config.rulesPreset : 'standard',
+            isPrivate: true,
+        });
+    } catch (error) {
+        console.error('challengeFriend error:', error);
+        return { success: false, error: 'No questions for this language and level' };
+    }
+
+    const challenge = await prisma.challenge.create({
+        data: {
+            challengerId: userId,
+            challengedId: friendUserId,
+            matchId: room.matchId,
+            joinCode: room.joinCode!,
+            expiresAt: new Date(Date.now() + CHALLENGE_EXPIRY_MS),
+            respondedAt: null,
+        },
+    });
+
+    await realtimeServer.trigger(
+        getUserChannel(friendUserId),
+        USER_EVENTS.CHALLENGE_RECEIVED,
+        { challengeId: challenge.id }
+    );
+
+    return { success: true, matchId: room.matchId };
+}
+
+/**
+ * Open challenges to the signed-in user (not expired, room still waiting), newest first
+ */
+export async function getIncomingChallenges(): Promise<ChallengeInfo[]> {
+    const userId = await getSessionUserId();
+    if (!userId) return [];
+
+    const challenges = await prisma.challenge.findMany({
+        where: { challengedId: userId, status: ChallengeStatus.pending, expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: 'desc' },
+    });
+    if (challenges.length === 0) return [];
+
+    const [matches, challengers] = await Promise.all([
+        prisma.match.findMany({
+            where: { id: { in: challenges.map(c => c.matchId) }, status: MatchStatus.waiting },
+            select: { id: true, targetLanguage: true, rank: true, questionCount: true, gameMode: true },
+        }),
+        prisma.user.findMany({
+            where: { id: { in: challenges.map(c => c.challengerId) } },
+            select: { id: true, name: true, image: true },
+        }),
+    ]);
+
+    return challenges.flatMap(challenge => {
+        const match = matches.find(m => m.id === challenge.matchId);
+        const challenger = challengers.find(u => u.id === challenge.challengerId);
+        if (!match || !challenger) return [];
+
+        return [{
+            id: challenge.id,
+            matchId: match.id,
+            challengerId: challenger.id,
+            challengerName: challenger.name || 'Player',
+            challengerAvatar: challenger.image,
+            targetLanguage: match.targetLanguage,
+            rank: match.rank,
+            questionCount: match.questionCount,
+            gameMode: match.gameMode,
+            expiresAt: challenge.expiresAt.getTime(),
+        }];
+    });
+}
+
+/**
+ * Accept (join the room) or decline a challenge; the challenger is told either way
+ */
+export async function respondToChallenge(
+    challengeId: string,
+    accept: boolean
+): Promise<FriendActionResult & { matchId?: string }> {
+    const userId = await getSessionUserId();
+    if (!userId) return { success: false, error: 'Not signed in' };
+
+    const challenge = await prisma.challenge.findUnique({ where: { id: challengeId } });
+    if (!challenge || challenge.challengedId !== userId) {
+        return { success: false, error: 'Challenge not found' };
+    }
+
+    // Answered once (a second tab or double click loses)
+    const { count } = await prisma.challenge.updateMany({
+        where: { id: challengeId, status: ChallengeStatus.pending, expiresAt: { gt: new Date() } },
+        data: {
+            status: accept ? ChallengeStatus.accepted : ChallengeStatus.declined,
+            respondedAt: new Date(),
+        },
+    });
+    if (count === 0) return { success: false, error: 'Challenge expired' };
+
+    if (accept) {
+        const joined = await joinWaitingMatch(challenge.matchId, userId, { joinCode: challenge.joinCode });
+        if (!joined.success) {
+            // Not in the room after all (full, closed or started) - the challenge was never accepted
+            await prisma.challenge.updateMany({
+                where: { id: challengeId, status: ChallengeStatus.accepted },
+                data: { status: ChallengeStatus.pending, respondedAt: null },
+            });
+            return { success: false, error: joined.error };
+        }
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { name: true } });
+    await realtimeServer.trigger(
+        getUserChannel(challenge.challengerId),
+        USER_EVENTS.CHALLENGE_ANSWERED,
+        { challengeId, accepted: accept, name: user?.name || 'Player' }
+    );
+
+    return { success: true, matchId: challenge.matchId };
+}
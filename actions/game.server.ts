@@ -1,21 +1,12 @@
 'use server';
 
 import { prisma } from '@/lib/prisma';
-import { TargetLanguage, MatchStatus, MatchMode } from '@prisma/client';
+import { TargetLanguage, MatchStatus, MatchMode, ChallengeStatus } from '@prisma/client';
 import type { GameSession, ClientQuestion } from '@/types/game';
 import type { LiveGameState } from '@/lib/game-engine/server/GameStore';
-import type { MatchPlayer } from '@prisma/client';
-
-/** Simple hash function for answer validation */
-function hashAnswer(answer: string): string {
-    let hash = 0;
-    for (let i = 0; i < answer.length; i++) {
-        const char = answer.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash; // Convert to 32bit integer
-    }
-    return hash.toString(36);
-}
+import type { GameMode, MatchPlayer, MatchRules, PowerUpType } from '@prisma/client';
+import { DEFAULT_RULE_BOT_MODEL } from '@/lib/config/bot';
+import { buildMatchRules, getMatchRules, GAME_MODES, type MatchRulePreset } from '@/lib/config/game';
 
 
 
@@ -75,11 +66,8 @@ export async function getMatch(matchId: string): Promise<GameInitResult> {
         options: q.interaction as Record<string, string>,
     }));
 
-    // Generate answer hashes
-    const correctAnswerHashes: Record<string, string> = {};
-    questions.forEach((q) => {
-        correctAnswerHashes[q.id] = hashAnswer(q.correctAnswer);
-    });
+    // NOTE: Correct answers never leave the server before a round resolves.
+    // Players learn correctness from submitServerAnswer's acknowledgement after committing.
 
     // Ensure order matches questionIds
     const orderedClientQuestions = match.questionIds.map(id =>
@@ -89,10 +77,10 @@ export async function getMatch(matchId: string): Promise<GameInitResult> {
     return {
         matchId: match.id,
         questions: orderedClientQuestions,
-        correctAnswerHashes,
         players: match.players as MatchPlayer[],
         targetLanguage: match.targetLanguage,
         rank: match.rank,
+        rules: getMatchRules(match),
     };
 }
 
@@ -171,7 +159,7 @@ export async function createMatch(
     // Fetch bot user if botUserId provided, otherwise use first available bot
     let botName = 'RiceBot';
     let botAvatar: string | null = null;
-    let botModel: string | null = 'rule';
+    let botModel: string | null = DEFAULT_RULE_BOT_MODEL;
     let actualBotUserId: string | null = null;
 
     if (botUserId) {
@@ -214,20 +202,21 @@ export async function createMatch(
             name: botName,
             avatar: botAvatar,
             isBot: true,
-            botType: 'llm',
             botModel: botModel,
             finalScore: 0,
         },
     ];
 
     // Create match
+    const rules = buildMatchRules();
     const match = await prisma.match.create({
         data: {
             mode: MatchMode.duel,
             targetLanguage: config.lang,
             rank: config.rank,
             questionCount: questionCount,
-            timePerQuestion: 15,
+            timePerQuestion: rules.timePerQuestionSec,
+            rules,
             status: MatchStatus.playing,
             questionIds: selectedIds,
             players: players,
@@ -248,18 +237,61 @@ import {
     initGameRoom as initRoom,
     startRound as startGameRound,
     submitAnswer as submitGameRoomAnswer,
-    handleTimeout as handleGameTimeout,
-    triggerBotAnswer as performGameRoomBotAnswer,
-    advanceGamePhase as advanceGameRoomPhase,
+    activatePowerUp as activateGameRoomPowerUp,
+    tickMatch,
 } from '@/lib/game-engine/server/GameRoom';
-import { getGameState } from '@/lib/game-engine/server/GameStore';
+import {
+    getGameState,
+    projectGameState,
+    touchPlayerPresence,
+    getPlayerPresence,
+    touchSpectatorPresence,
+    getSpectatorCount,
+} from '@/lib/game-engine/server/GameStore';
+import { PRESENCE_TIMEOUT_MS } from '@/lib/config/game';
+
+/**
+ * Resolve which player the current request views the match as (for state projection)
+ * Falls back to player_1 only when player_1 is a logged-out guest (bot matches)
+ * @returns null for spectators (everyone else) - they only ever get redacted state
+ */
+async function getViewerPlayerId(matchId: string, asSpectator = false): Promise<string | null> {
+    if (asSpectator) return null;
+
+    const [session, match] = await Promise.all([
+        getServerSession(authOptions),
+        prisma.match.findUnique({
+            where: { id: matchId },
+            select: { players: true },
+        }),
+    ]);
+    if (!match) return null;
+
+    const userId = session?.user?.id;
+    const viewer = userId
+        ? match.players.find(p => p.userId === userId)
+        : match.players.find(p => p.playerId === 'player_1' && !p.userId);
+    return viewer?.playerId ?? null;
+}
 
 /**
  * Initialize and start a game room
  * Returns the latest state (handles both new games and reconnecting players)
+ * Only players may start a room - everyone else gets NOT_A_PLAYER and should watch instead
  */
 export async function initAndStartGameRoom(matchId: string) {
     try {
+        const viewerPlayerId = await getViewerPlayerId(matchId);
+        if (!viewerPlayerId) {
+            return { success: false, error: 'NOT_A_PLAYER' };
+        }
+
+        // Presenter sessions are started and paced by their host (presenter.server.ts)
+        const match = await prisma.match.findUnique({ where: { id: matchId }, select: { mode: true } });
+        if (match?.mode === MatchMode.presenter) {
+            return { success: false, error: 'PRESENTER_SESSION' };
+        }
+
         // Initialize room (idempotent - returns existing state if already playing)
         await initRoom(matchId);
 
@@ -274,7 +306,8 @@ export async function initAndStartGameRoom(matchId: string) {
             return { success: false, error: 'Failed to get game state' };
         }
 
-        return { success: true, state: latestState };
+        // Reconnecting players see their own answer, never anyone else's before RESOLVING
+        return { success: true, state: projectGameState(latestState, viewerPlayerId), viewerPlayerId };
     } catch (error) {
         console.error('initAndStartGameRoom error:', error);
         return { success: false, error: (error as Error).message };
@@ -285,17 +318,33 @@ export async function initAndStartGameRoom(matchId: string) {
 
 /**
  * Submit an answer (server validates and scores)
+ * Acknowledges with the player's own correctness - the only way a client learns it before RESOLVING
  * @param responseTimeMs - Optional response time from client (ms)
+ * @param questionIndex - Question the client answered (guards double submits in time attack)
  */
 export async function submitServerAnswer(
     matchId: string,
     playerId: string,
     answer: string,
-    responseTimeMs?: number
+    responseTimeMs?: number,
+    questionIndex?: number
 ) {
     try {
-        const state = await submitGameRoomAnswer(matchId, playerId, answer, responseTimeMs);
-        return { success: true, state };
+        // The ack reveals the player's correctness, so only that player may answer for the seat
+        if (await getViewerPlayerId(matchId) !== playerId) {
+            return { success: false, error: 'NOT_A_PLAYER' };
+        }
+
+        const state = await submitGameRoomAnswer(matchId, playerId, answer, responseTimeMs, questionIndex);
+        const playerState = state.playerStates[playerId];
+
+        // Late answers are ignored (answer stays unset) - no correctness to report
+        // Time attack moves on right away, so the answer is found in lastAnswer
+        const lastAnswer = playerState?.lastAnswer;
+        const isCorrect = lastAnswer && lastAnswer.questionIndex === questionIndex && lastAnswer.answer === answer
+            ? lastAnswer.isCorrect
+            : playerState?.answer === answer ? playerState.isCorrect : null;
+        return { success: true, isCorrect, state: projectGameState(state, playerId) };
     } catch (error) {
         console.error('submitServerAnswer error:', error);
         return { success: false, error: (error as Error).message };
@@ -303,54 +352,116 @@ export async function submitServerAnswer(
 }
 
 /**
- * Report timeout (client calls when endTime is reached)
+ * Spend a power-up on the current question (server validates and applies it)
+ * Returns the player's own view - the only place a 50:50's removed options appear before RESOLVING
+ * @param questionIndex - Question the client used it on
  */
-export async function reportTimeout(matchId: string) {
+export async function activateServerPowerUp(
+    matchId: string,
+    playerId: string,
+    powerUp: PowerUpType,
+    questionIndex?: number
+) {
     try {
-        const state = await handleGameTimeout(matchId);
-        return { success: true, state };
+        if (await getViewerPlayerId(matchId) !== playerId) {
+            return { success: false, error: 'NOT_A_PLAYER' };
+        }
+
+        const state = await activateGameRoomPowerUp(matchId, playerId, powerUp, questionIndex);
+        return { success: true, state: projectGameState(state, playerId) };
     } catch (error) {
-        console.error('reportTimeout error:', error);
+        console.error('activateServerPowerUp error:', error);
         return { success: false, error: (error as Error).message };
     }
 }
 
 /**
- * Trigger bot move (client-driven)
+ * Wake up the round scheduler (client calls when a phase deadline passed without an update)
+ * The server decides whether anything is due - clients never force a transition
  */
-export async function performBotMove(
-    matchId: string,
-    botPlayerId: string,
-    questionIndex: number,
-    botModel?: string
-) {
+export async function syncMatchPhase(matchId: string, options: { spectator?: boolean } = {}) {
     try {
-        await performGameRoomBotAnswer(matchId, botPlayerId, questionIndex, botModel);
-        return { success: true };
+        const state = await tickMatch(matchId);
+        const viewerPlayerId = await getViewerPlayerId(matchId, options.spectator);
+        return { success: true, state: state && projectGameState(state, viewerPlayerId) };
     } catch (error) {
-        console.error('performBotMove error:', error);
+        console.error('syncMatchPhase error:', error);
         return { success: false, error: (error as Error).message };
     }
 }
 
 /**
- * Proceed to next phase/question (client-driven)
+ * Full state snapshot for a client that missed events (seq gap, reconnect, tab wake-up)
+ * Also ticks the scheduler so a stalled phase catches up before the snapshot is taken
  */
-export async function proceedToNextPhase(matchId: string) {
+export async function resyncGameState(matchId: string, options: { spectator?: boolean } = {}) {
     try {
-        const state = await advanceGameRoomPhase(matchId);
-        return { success: true, state };
+        const state = await tickMatch(matchId);
+        if (!state) {
+            return { success: false, error: 'Game not found' };
+        }
+
+        const viewerPlayerId = await getViewerPlayerId(matchId, options.spectator);
+        return { success: true, state: projectGameState(state, viewerPlayerId), viewerPlayerId };
+    } catch (error) {
+        console.error('resyncGameState error:', error);
+        return { success: false, error: (error as Error).message };
+    }
+}
+
+/**
+ * Presence heartbeat from a battle or watch client
+ * Returns the latest seq (so the client can detect missed events), which humans went quiet
+ * and how many spectators are watching
+ * @param spectatorId - Per-tab ID of a watch client (logged-in spectators are counted by user ID)
+ */
+export async function reportPresence(matchId: string, spectatorId?: string) {
+    try {
+        const viewerPlayerId = await getViewerPlayerId(matchId, !!spectatorId);
+        if (viewerPlayerId) {
+            await touchPlayerPresence(matchId, viewerPlayerId);
+        } else if (spectatorId) {
+            const session = await getServerSession(authOptions);
+            await touchSpectatorPresence(matchId, session?.user?.id ?? spectatorId);
+        }
+
+        const [state, presence, spectatorCount] = await Promise.all([
+            getGameState(matchId),
+            getPlayerPresence(matchId),
+            getSpectatorCount(matchId),
+        ]);
+        if (!state) {
+            return { success: false, error: 'Game not found' };
+        }
+
+        // Only players who heartbeat at least once appear (bots never do, and a player
+        // still loading the page has not "disconnected" yet)
+        const now = Date.now();
+        const disconnectedPlayerIds = Object.entries(presence)
+            .filter(([playerId, lastSeenAt]) =>
+                playerId !== viewerPlayerId && now - lastSeenAt > PRESENCE_TIMEOUT_MS
+            )
+            .map(([playerId]) => playerId);
+
+        return { success: true, seq: state.seq ?? 0, disconnectedPlayerIds, spectatorCount };
     } catch (error) {
-        console.error('proceedToNextPhase error:', error);
+        console.error('reportPresence error:', error);
         return { success: false, error: (error as Error).message };
     }
 }
 
+/**
+ * Server clock reading for the client clock sync handshake (lib/game-engine/clockSync.ts)
+ */
+export async function getServerTime(): Promise<number> {
+    return Date.now();
+}
+
 // ============================================
 // Match Result (for results page)
 // ============================================
 
-import { rankToLevel } from '@/lib/config/game';
+import { rankToLevel, calculatePlacements } from '@/lib/config/game';
 import type { GameResult, PlayerResult } from '@/types/game';
 import { getServerSession } from 'next-auth';
 import authOptions from '@/lib/auth';
@@ -375,7 +486,11 @@ export async function getMatchResult(matchId: string): Promise<GameResult | null
                 rank: true,
                 liveState: true,
                 questionCount: true,
+                timePerQuestion: true,
+                rules: true,
                 players: true,
+                mode: true,
+                gameMode: true,
             },
         });
 
@@ -388,18 +503,22 @@ export async function getMatchResult(matchId: string): Promise<GameResult | null
             where: { matchId },
             select: {
                 userId: true,
+                answer: true,
                 responseTimeMs: true,
                 isCorrect: true,
+                powerUps: true,
             },
         });
 
         // Group answer data by userId
-        const answerDataByUser = new Map<string, { responseTimes: number[], correctCount: number }>();
+        const answerDataByUser = new Map<string, { responseTimes: number[], correctCount: number, answeredCount: number, assistedCount: number }>();
         for (const record of answerRecords) {
             if (!record.userId) continue; // Skip if userId is null
-            const data = answerDataByUser.get(record.userId) || { responseTimes: [], correctCount: 0 };
+            const data = answerDataByUser.get(record.userId) || { responseTimes: [], correctCount: 0, answeredCount: 0, assistedCount: 0 };
             data.responseTimes.push(record.responseTimeMs);
             if (record.isCorrect) data.correctCount++;
+            if (record.answer !== '') data.answeredCount++; // Empty = timeout
+            if (record.powerUps.length > 0) data.assistedCount++;
             answerDataByUser.set(record.userId, data);
         }
 
@@ -409,26 +528,34 @@ export async function getMatchResult(matchId: string): Promise<GameResult | null
             // Fallback: if no session or user not in match (e.g. spectator), use player_1
             selfPlayer = match.players.find(p => p.playerId === 'player_1');
         }
-        const opponentPlayer = match.players.find(p => p.playerId !== selfPlayer?.playerId);
 
-        if (!selfPlayer || !opponentPlayer) {
+        // A presenter session ranks its students - one student is still a result (the host is not seated)
+        const minPlayers = match.mode === MatchMode.presenter ? 1 : 2;
+        if (!selfPlayer || match.players.length < minPlayers) {
             return null;
         }
 
         const totalQuestions = match.questionCount;
         const liveState = match.liveState as unknown as LiveGameState | null;
 
+        // Placements are written by finishGame; derive from scores for older matches
+        const fallbackPlacements = calculatePlacements(
+            Object.fromEntries(match.players.map(p => [p.playerId, p.finalScore]))
+        );
+
         // Calculate stats
-        const createPlayerResult = (player: typeof selfPlayer): PlayerResult => {
+        const createPlayerResult = (player: MatchPlayer): PlayerResult => {
             // Get correct answers from AnswerRecord (not from score)
             const answerData = player.userId ? answerDataByUser.get(player.userId) : null;
             const correctAnswers = answerData?.correctCount || 0;
 
-            // Retrieve maxStreak from liveState if available
-            let maxStreak = 0;
-            if (liveState && liveState.playerStates && liveState.playerStates[player.playerId]) {
-                maxStreak = liveState.playerStates[player.playerId].maxStreak || 0;
-            }
+            // Retrieve maxStreak and mode progress from liveState if available
+            const finalState = liveState?.playerStates?.[player.playerId];
+            const maxStreak = finalState?.maxStreak || 0;
+            const answeredCount = answerData?.answeredCount ?? finalState?.answeredCount ?? 0;
+
+            // Only classic matches play every drawn question - otherwise accuracy is per answered question
+            const accuracyBase = match.gameMode === 'classic' ? totalQuestions : answeredCount;
 
             // Calculate average response time
             const responseTimes = answerData?.responseTimes || [];
@@ -444,31 +571,47 @@ export async function getMatchResult(matchId: string): Promise<GameResult | null
                 avatar: player.avatar,
                 isBot: player.isBot,
                 correctAnswers,
-                accuracy: totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0,
+                accuracy: accuracyBase > 0 ? Math.round((correctAnswers / accuracyBase) * 100) : 0,
                 maxStreak,
                 avgResponseTime,
+                placement: player.placement ?? fallbackPlacements[player.playerId],
+                answeredCount,
+                livesLeft: finalState?.lives ?? null,
+                eliminatedAt: typeof finalState?.eliminatedAtQuestion === 'number' ? finalState.eliminatedAtQuestion + 1 : null,
+                powerUpsUsed: finalState?.usedPowerUps ?? [],
+                assistedAnswers: answerData?.assistedCount ?? 0,
             };
         };
 
-        // Determine outcome
+        const standings = match.players
+            .map(createPlayerResult)
+            .sort((a, b) => a.placement - b.placement);
+
+        const self = standings.find(p => p.id === selfPlayer.playerId)!;
+        const opponent = standings.find(p => p.id !== self.id) ?? null;
+
+        // Determine outcome: first place wins, a shared first place is a tie
         let outcome: 'win' | 'lose' | 'tie';
-        if (selfPlayer.finalScore > opponentPlayer.finalScore) {
-            outcome = 'win';
-        } else if (selfPlayer.finalScore < opponentPlayer.finalScore) {
-            outcome = 'lose';
+        const sharedFirst = standings.filter(p => p.placement === 1).length > 1;
+        if (self.placement === 1) {
+            outcome = sharedFirst ? 'tie' : 'win';
         } else {
-            outcome = 'tie';
+            outcome = 'lose';
         }
 
         return {
             matchId: match.id,
             outcome,
-            self: createPlayerResult(selfPlayer),
-            opponent: createPlayerResult(opponentPlayer),
+            self,
+            opponent,
+            standings,
             match: {
                 totalQuestions,
                 language: match.targetLanguage,
                 level: rankToLevel(match.targetLanguage, match.rank),
+                mode: match.mode,
+                gameMode: match.gameMode,
+                rules: getMatchRules(match),
             },
         };
     } catch (error) {
@@ -481,7 +624,19 @@ export async function getMatchResult(matchId: string): Promise<GameResult | null
 // Room System Functions (for unified waiting room)
 // ============================================
 
-import { pusherServer, getRoomChannel, ROOM_EVENTS } from '@/lib/pusher';
+import { realtimeServer } from '@/lib/realtime/server';
+import { getRoomChannel, ROOM_EVENTS } from '@/lib/realtime/channels';
+import { createHash } from 'crypto';
+import {
+    MIN_PLAYERS,
+    MAX_PLAYERS,
+    START_COUNTDOWN_MS,
+    ROOM_CODE_LENGTH,
+    ROOM_CODE_ALPHABET,
+    ROOM_PASSPHRASE_MAX_LENGTH,
+    PRESENTER_MAX_PLAYERS,
+} from '@/lib/config/game';
+import { MATCHMAKING_START_DELAY_MS } from '@/lib/config/matchmaking';
 
 /**
  * Info about a waiting match (for room list)
@@ -491,15 +646,69 @@ export interface WaitingMatchInfo {
     targetLanguage: TargetLanguage;
     rank: number;
     questionCount: number;
+    gameMode: GameMode;
+    rules: MatchRules;
+    playerCount: number;
+    maxPlayers: number;
     hostName: string;
     hostAvatar: string | null;
     createdAt: Date;
 }
 
+/**
+ * Next free playerId in a room (player_2, player_3, ...)
+ * Reuses slots freed by players who left the waiting room.
+ */
+function getNextPlayerId(players: MatchPlayer[]): string {
+    const taken = new Set(players.map(p => p.playerId));
+    let slot = 1;
+    while (taken.has(`player_${slot}`)) slot++;
+    return `player_${slot}`;
+}
+
+/**
+ * Join code not used by any other waiting room
+ */
+async function generateJoinCode(): Promise<string> {
+    for (let attempt = 0; attempt < 10; attempt++) {
+        const code = Array.from({ length: ROOM_CODE_LENGTH }, () =>
+            ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)]
+        ).join('');
+
+        const taken = await prisma.match.findFirst({
+            where: { joinCode: code, status: MatchStatus.waiting },
+            select: { id: true },
+        });
+        if (!taken) return code;
+    }
+    throw new Error('Failed to generate a unique join code');
+}
+
+/**
+ * Passphrases are only ever compared, so only a hash is stored
+ */
+function hashPassphrase(passphrase: string): string {
+    return createHash('sha256').update(passphrase.trim()).digest('hex');
+}
+
+/** Codes are case-insensitive and may be typed with spaces */
+function normalizeJoinCode(code: string): string {
+    return code.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Host of a waiting room: the presenter of a classroom session, otherwise player_1
+ */
+function isRoomHost(match: { hostUserId: string | null; players: MatchPlayer[] }, userId: string): boolean {
+    if (match.hostUserId) return match.hostUserId === userId;
+    return match.players.find(p => p.playerId === 'player_1')?.userId === userId;
+}
+
 /**
  * Create a waiting match (acts as "room")
  * For Bot mode: botId is required, bot added immediately
- * For PvP mode: botId is null, second player joins later
+ * For PvP mode: botId is null, other players join later (up to maxPlayers)
+ * For presenter sessions: the host only controls the game - students join with the code (PIN)
  */
 export async function createWaitingMatch(
     userId: string,
@@ -509,8 +718,26 @@ export async function createWaitingMatch(
         questionCount: number;
         isBot: boolean;
         botId?: string;
+        maxPlayers?: number; // PvP only: room capacity (2-8), defaults to a duel
+        gameMode?: GameMode; // Defaults to classic
+        rulesPreset?: MatchRulePreset; // Defaults to the standard rules
+        customRules?: Partial<Omit<MatchRules, 'preset'>>; // Overrides on top of the preset (clamped)
+        matchmade?: boolean; // Quick Match room (starts on its own, see matchmaking.server.ts)
+        isPrivate?: boolean; // PvP only: hidden from /join, joined with the returned joinCode
+        passphrase?: string; // Private rooms only: also required to join
+        presenter?: boolean; // Classroom session paced by a non-playing host (see presenter.server.ts)
+        tournamentId?: string; // Tournament pairing room (see lib/tournament) - both players are seated by the tournament
     }
-): Promise<{ matchId: string }> {
+): Promise<{ matchId: string; joinCode: string | null }> {
+    const isPresenter = !config.isBot && !!config.presenter;
+
+    // Bot rooms are always duels; PvP rooms are clamped to the supported capacity
+    const maxPlayers = config.isBot
+        ? MIN_PLAYERS
+        : isPresenter
+            ? PRESENTER_MAX_PLAYERS
+            : Math.min(MAX_PLAYERS, Math.max(MIN_PLAYERS, config.maxPlayers ?? MIN_PLAYERS));
+
     // 1. Fetch questions
     const allQuestionIds = await prisma.question.findMany({
         where: {
@@ -524,7 +751,10 @@ export async function createWaitingMatch(
         throw new Error(`No questions found for ${config.targetLanguage} rank ${config.rank}.`);
     }
 
-    const questionCount = Math.min(allQuestionIds.length, config.questionCount);
+    // Survival, sudden death and time attack draw a larger pool instead of the chosen count
+    // Presenter sessions go question by question at the host's pace, so they are always classic
+    const gameMode = isPresenter ? 'classic' : config.gameMode ?? 'classic';
+    const questionCount = Math.min(allQuestionIds.length, GAME_MODES[gameMode].questionPool ?? config.questionCount);
     const shuffled = allQuestionIds.sort(() => 0.5 - Math.random());
     const selectedIds = shuffled.slice(0, questionCount).map((q) => q.id);
 
@@ -534,7 +764,7 @@ export async function createWaitingMatch(
         select: { name: true, image: true }
     });
 
-    const players: MatchPlayer[] = [
+    const players: MatchPlayer[] = isPresenter ? [] : [
         {
             userId: userId,
             playerId: 'player_1',
@@ -543,6 +773,8 @@ export async function createWaitingMatch(
             isBot: false,
             botModel: null,
             finalScore: 0,
+            placement: null,
+            lastSeenAt: null,
         },
     ];
 
@@ -561,25 +793,46 @@ export async function createWaitingMatch(
                 isBot: true,
                 botModel: botUser.botModel,
                 finalScore: 0,
+                placement: null,
+                lastSeenAt: null,
             });
         }
     }
 
-    // 4. Create match with 'waiting' status
+    // 4. Private PvP rooms get a join code (and an optional passphrase) - for presenter sessions it is the PIN
+    const isPrivate = !config.isBot && (!!config.isPrivate || isPresenter);
+    const joinCode = isPrivate ? await generateJoinCode() : null;
+    const passphrase = config.passphrase?.trim().slice(0, ROOM_PASSPHRASE_MAX_LENGTH);
+    const passphraseHash = isPrivate && passphrase ? hashPassphrase(passphrase) : null;
+
+    // 5. Create match with 'waiting' status
+    const rules = buildMatchRules(config.rulesPreset, config.customRules);
     const match = await prisma.match.create({
         data: {
-            mode: MatchMode.duel,
+            mode: isPresenter
+                ? MatchMode.presenter
+                : maxPlayers > MIN_PLAYERS ? MatchMode.multiplayer : MatchMode.duel,
+            gameMode,
             targetLanguage: config.targetLanguage,
             rank: config.rank,
             questionCount: questionCount,
-            timePerQuestion: 15,
+            timePerQuestion: rules.timePerQuestionSec,
+            rules,
+            maxPlayers,
+            matchmade: config.matchmade ?? false,
+            hostUserId: isPresenter ? userId : null,
+            tournamentId: config.tournamentId ?? null,
+            startsAt: null,
+            isPrivate,
+            joinCode,
+            passphraseHash,
             status: MatchStatus.waiting,
             questionIds: selectedIds,
             players: players,
         },
     });
 
-    return { matchId: match.id };
+    return { matchId: match.id, joinCode };
 }
 
 /**
@@ -600,14 +853,20 @@ export async function getWaitingMatches(filter?: {
         take: 20,
     });
 
-    // Filter to only matches with 1 player (waiting for guest)
-    const waitingMatches = matches.filter(m => m.players.length === 1);
+    // Filter to public PvP rooms with free seats (bot rooms are created full, Quick Match and tournament rooms are private)
+    const waitingMatches = matches.filter(m =>
+        !m.isPrivate && !m.matchmade && !m.tournamentId && !m.players.some(p => p.isBot) && m.players.length < m.maxPlayers
+    );
 
     return waitingMatches.map(m => ({
         id: m.id,
         targetLanguage: m.targetLanguage,
         rank: m.rank,
         questionCount: m.questionCount,
+        gameMode: m.gameMode,
+        rules: getMatchRules(m),
+        playerCount: m.players.length,
+        maxPlayers: m.maxPlayers,
         hostName: m.players[0]?.name || 'Player',
         hostAvatar: m.players[0]?.avatar || null,
         createdAt: m.createdAt,
@@ -615,13 +874,25 @@ export async function getWaitingMatches(filter?: {
 }
 
 /**
- * Join a waiting match as player_2
+ * Result of joining a room
+ * passphraseRequired: the room has a passphrase that was missing or wrong - ask for it and retry
+ */
+export interface JoinRoomResult {
+    success: boolean;
+    error?: string;
+    passphraseRequired?: boolean;
+}
+
+/**
+ * Join a waiting match in the next free seat (player_2 ... player_8)
+ * Private rooms also need their join code (and passphrase, if set); kicked players are refused
  * Uses transaction to prevent concurrent join race condition
  */
 export async function joinWaitingMatch(
     matchId: string,
-    userId: string
-): Promise<{ success: boolean; error?: string }> {
+    userId: string,
+    credentials?: { joinCode?: string; passphrase?: string }
+): Promise<JoinRoomResult> {
     try {
         // Use transaction for atomic read-check-update
         const result = await prisma.$transaction(async (tx) => {
@@ -638,7 +909,32 @@ export async function joinWaitingMatch(
                 return { success: false, error: 'Match is no longer waiting' };
             }
 
-            if (match.players.length >= 2) {
+            if (match.players.some(p => p.userId === userId)) {
+                return { success: false, error: 'Already in this match' };
+            }
+
+            if (match.hostUserId === userId) {
+                return { success: false, error: 'The presenter cannot join as a player' };
+            }
+
+            if (match.kickedUserIds.includes(userId)) {
+                return { success: false, error: 'Removed from this match by the host' };
+            }
+
+            if (match.isPrivate && normalizeJoinCode(credentials?.joinCode ?? '') !== match.joinCode) {
+                return { success: false, error: 'Invalid join code' };
+            }
+
+            if (match.passphraseHash) {
+                if (!credentials?.passphrase) {
+                    return { success: false, error: 'Passphrase required', passphraseRequired: true };
+                }
+                if (hashPassphrase(credentials.passphrase) !== match.passphraseHash) {
+                    return { success: false, error: 'Wrong passphrase', passphraseRequired: true };
+                }
+            }
+
+            if (match.players.length >= match.maxPlayers) {
                 return { success: false, error: 'Match is full' };
             }
 
@@ -648,13 +944,16 @@ export async function joinWaitingMatch(
                 select: { name: true, image: true }
             });
 
-            const newPlayer = {
+            const newPlayer: MatchPlayer = {
                 userId: userId,
-                playerId: 'player_2',
+                playerId: getNextPlayerId(match.players),
                 name: user?.name || 'Player',
                 avatar: user?.image || null,
                 isBot: false,
+                botModel: null,
                 finalScore: 0,
+                placement: null,
+                lastSeenAt: null,
             };
 
             // 3. Add player to match (atomic within transaction)
@@ -669,11 +968,11 @@ export async function joinWaitingMatch(
         });
 
         if (!result.success) {
-            return { success: false, error: result.error };
+            return { success: false, error: result.error, passphraseRequired: result.passphraseRequired };
         }
 
         // 4. Broadcast player joined (outside transaction)
-        await pusherServer.trigger(
+        await realtimeServer.trigger(
             getRoomChannel(matchId),
             ROOM_EVENTS.PLAYER_JOINED,
             { player: result.player }
@@ -686,6 +985,93 @@ export async function joinWaitingMatch(
     }
 }
 
+/**
+ * Join a private room with its code (invite links land here too)
+ * Members following their own invite link are sent straight to the room
+ * presenter: the code was a classroom session PIN - students go to the answer pad, not the room
+ */
+export async function joinWaitingMatchByCode(
+    joinCode: string,
+    userId: string,
+    passphrase?: string
+): Promise<JoinRoomResult & { matchId?: string; presenter?: boolean }> {
+    const code = normalizeJoinCode(joinCode);
+    const match = await prisma.match.findFirst({
+        where: { joinCode: code, status: MatchStatus.waiting },
+        select: { id: true, players: true, mode: true },
+    });
+
+    if (!match) {
+        return { success: false, error: 'Room not found' };
+    }
+
+    const presenter = match.mode === MatchMode.presenter;
+    if (match.players.some(p => p.userId === userId)) {
+        return { success: true, matchId: match.id, presenter };
+    }
+
+    const result = await joinWaitingMatch(match.id, userId, { joinCode: code, passphrase });
+    return result.success ? { ...result, matchId: match.id, presenter } : result;
+}
+
+/**
+ * Host removes a player from the waiting room
+ * The player's User is remembered, so the code alone does not let them back in
+ * The host is the signed-in caller - never a userId from the client
+ */
+export async function kickPlayer(
+    matchId: string,
+    playerId: string
+): Promise<{ success: boolean; error?: string }> {
+    try {
+        const [session, match] = await Promise.all([
+            getServerSession(authOptions),
+            prisma.match.findUnique({ where: { id: matchId } }),
+        ]);
+        const hostUserId = session?.user?.id;
+
+        if (!match) {
+            return { success: false, error: 'Match not found' };
+        }
+
+        if (match.status !== MatchStatus.waiting) {
+            return { success: false, error: 'Match is not in waiting state' };
+        }
+
+        if (!hostUserId || !isRoomHost(match, hostUserId) || match.tournamentId) {
+            return { success: false, error: 'Only the host can remove players' };
+        }
+
+        const target = match.players.find(p => p.playerId === playerId);
+        if (!target || target.userId === hostUserId) {
+            return { success: false, error: 'Player not found' };
+        }
+
+        // Only update if the player is still seated (a concurrent leave wins)
+        const { count } = await prisma.match.updateMany({
+            where: { id: matchId, status: MatchStatus.waiting, players: { some: { playerId } } },
+            data: {
+                players: match.players.filter(p => p.playerId !== playerId),
+                ...(target.userId && { kickedUserIds: { push: target.userId } }),
+            },
+        });
+        if (count === 0) {
+            return { success: false, error: 'Player not found' };
+        }
+
+        await realtimeServer.trigger(
+            getRoomChannel(matchId),
+            ROOM_EVENTS.PLAYER_KICKED,
+            { playerId, userId: target.userId }
+        );
+
+        return { success: true };
+    } catch (error) {
+        console.error('kickPlayer error:', error);
+        return { success: false, error: 'Failed to remove player' };
+    }
+}
+
 /**
  * Trigger bot "join" for Bot mode waiting room
  * Bot is already in players[], this just broadcasts for UI update
@@ -701,7 +1087,7 @@ export async function triggerBotJoin(matchId: string): Promise<void> {
     if (!botPlayer) return;
 
     // Broadcast that bot "joined"
-    await pusherServer.trigger(
+    await realtimeServer.trigger(
         getRoomChannel(matchId),
         ROOM_EVENTS.PLAYER_JOINED,
         { player: botPlayer }
@@ -722,7 +1108,7 @@ export async function startWaitingMatch(matchId: string): Promise<void> {
     });
 
     // Broadcast game started
-    await pusherServer.trigger(
+    await realtimeServer.trigger(
         getRoomChannel(matchId),
         ROOM_EVENTS.GAME_STARTED,
         { matchId }
@@ -731,7 +1117,7 @@ export async function startWaitingMatch(matchId: string): Promise<void> {
 
 /**
  * Host initiates the game start countdown
- * Validates that the caller is the host and there are 2 players
+ * Validates that the caller is the host and there are at least 2 players
  */
 export async function hostStartGame(
     matchId: string,
@@ -756,16 +1142,22 @@ export async function hostStartGame(
             return { success: false, error: 'Only the host can start the game' };
         }
 
-        // Validate there are 2 players
-        if (match.players.length < 2) {
-            return { success: false, error: 'Need 2 players to start' };
+        // Tournament rooms start on their own once both players checked in
+        if (match.tournamentId) {
+            return { success: false, error: 'Tournament rooms start on their own' };
+        }
+
+        // Validate there are enough players (rooms may start before they are full)
+        if (match.players.length < MIN_PLAYERS) {
+            return { success: false, error: `Need at least ${MIN_PLAYERS} players to start` };
         }
 
         // Broadcast START_COUNTDOWN to all players in the room
-        await pusherServer.trigger(
+        // startsAt is on the server clock so every client's countdown ends together
+        await realtimeServer.trigger(
             getRoomChannel(matchId),
             ROOM_EVENTS.START_COUNTDOWN,
-            { matchId }
+            { matchId, startsAt: Date.now() + START_COUNTDOWN_MS }
         );
 
         return { success: true };
@@ -777,36 +1169,60 @@ export async function hostStartGame(
 
 /**
  * Get basic match info for waiting room
+ * The join code only goes to the host and seated players - anyone else with the matchId
+ * (a spectator, a shared /room link) must not get past the code and passphrase this way
  */
 export async function getMatchInfo(matchId: string): Promise<{
     id: string;
     targetLanguage: TargetLanguage;
     rank: number;
     questionCount: number;
+    gameMode: GameMode;
+    rules: MatchRules;
+    maxPlayers: number;
     status: MatchStatus;
     players: MatchPlayer[];
     isBot: boolean;
+    startsAt: number | null; // Quick Match and tournament rooms start on their own at this server time
+    tournamentId: string | null;
+    isPrivate: boolean;
+    joinCode: string | null;
+    hasPassphrase: boolean; // The passphrase itself is never sent back
 } | null> {
-    const match = await prisma.match.findUnique({
-        where: { id: matchId },
-    });
+    const [session, match] = await Promise.all([
+        getServerSession(authOptions),
+        prisma.match.findUnique({ where: { id: matchId } }),
+    ]);
 
     if (!match) return null;
 
+    const userId = session?.user?.id;
+    const canSeeJoinCode = !!userId && (isRoomHost(match, userId) || match.players.some(p => p.userId === userId));
+
     return {
         id: match.id,
         targetLanguage: match.targetLanguage,
         rank: match.rank,
         questionCount: match.questionCount,
+        gameMode: match.gameMode,
+        rules: getMatchRules(match),
+        maxPlayers: match.maxPlayers,
         status: match.status,
         players: match.players,
         isBot: match.players.some(p => p.isBot),
+        startsAt: match.startsAt?.getTime()
+            ?? (match.matchmade ? match.createdAt.getTime() + MATCHMAKING_START_DELAY_MS : null),
+        tournamentId: match.tournamentId,
+        isPrivate: match.isPrivate,
+        joinCode: canSeeJoinCode ? match.joinCode : null,
+        hasPassphrase: !!match.passphraseHash,
     };
 }
 
 /**
  * Leave/cancel a waiting room
  * If host leaves, cancels the match
+ * Tournament rooms are left by forfeiting (see tournament.server.ts)
  */
 export async function leaveWaitingMatch(
     matchId: string,
@@ -816,9 +1232,9 @@ export async function leaveWaitingMatch(
         where: { id: matchId },
     });
 
-    if (!match || match.status !== MatchStatus.waiting) return;
+    if (!match || match.status !== MatchStatus.waiting || match.tournamentId) return;
 
-    const isHost = match.players[0]?.userId === userId;
+    const isHost = isRoomHost(match, userId);
 
     if (isHost) {
         // Host leaving cancels the match
@@ -827,24 +1243,33 @@ export async function leaveWaitingMatch(
             data: { status: MatchStatus.cancelled },
         });
 
-        await pusherServer.trigger(
+        // ...and any friend challenge still waiting for an answer
+        await prisma.challenge.updateMany({
+            where: { matchId, status: ChallengeStatus.pending },
+            data: { status: ChallengeStatus.cancelled },
+        });
+
+        await realtimeServer.trigger(
             getRoomChannel(matchId),
             ROOM_EVENTS.HOST_LEFT,
             {}
         );
     } else {
         // Guest leaving removes them from players
+        const leavingPlayer = match.players.find(p => p.userId === userId);
+        if (!leavingPlayer) return;
+
         const updatedPlayers = match.players.filter(p => p.userId !== userId);
         await prisma.match.update({
             where: { id: matchId },
             data: { players: updatedPlayers },
         });
 
-        // Notify host that guest left
-        await pusherServer.trigger(
+        // Notify the room which seat was freed
+        await realtimeServer.trigger(
             getRoomChannel(matchId),
             ROOM_EVENTS.GUEST_LEFT,
-            {}
+            { playerId: leavingPlayer.playerId }
         );
     }
 }
@@ -1,7 +1,13 @@
 'use server';
 
+import { getServerSession } from 'next-auth';
+import authOptions from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { MatchStatus, TargetLanguage } from '@prisma/client';
+import { MatchMode, MatchStatus, TargetLanguage, type LadderTier } from '@prisma/client';
+import { RANKED_MIN_MATCHES, RANKED_LEADERBOARD_SIZE } from '@/lib/config/rating';
+import { SEASON_PLACEMENT_MATCHES, getLadderTier } from '@/lib/config/season';
+import { ensureCurrentSeason } from '@/lib/rating/seasons';
+import { getFriendIds } from '@/lib/friends/friends';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -85,11 +91,23 @@ function calculateRating(stats: {
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Get aggregated stats for all users (including bots)
+ * The signed-in user and their friends (friends-only filter)
+ * Signed out: nobody
  */
-async function getAllUserStats(langFilter?: TargetLanguage): Promise<UserStats[]> {
+async function getFriendCircle(): Promise<string[]> {
+    const session = await getServerSession(authOptions);
+    const userId = session?.user?.id;
+    if (!userId) return [];
+    return [userId, ...await getFriendIds(userId)];
+}
+
+/**
+ * Get aggregated stats for all users (including bots), or only the given ones
+ */
+async function getAllUserStats(langFilter?: TargetLanguage, userIds?: string[]): Promise<UserStats[]> {
     // 1. Get all users (include bots)
     const users = await prisma.user.findMany({
+        where: userIds ? { id: { in: userIds } } : undefined,
         select: {
             id: true,
             name: true,
@@ -170,12 +188,14 @@ async function getAllUserStats(langFilter?: TargetLanguage): Promise<UserStats[]
 
 /**
  * Get leaderboard entries
- * Returns top 5 players sorted by rating
+ * Returns top 5 players sorted by rating (friendsOnly: the signed-in user and their friends)
  */
 export async function getLeaderboard(filter?: {
     lang?: TargetLanguage;
+    friendsOnly?: boolean;
 }): Promise<LeaderboardEntry[]> {
-    const userStats = await getAllUserStats(filter?.lang);
+    const userIds = filter?.friendsOnly ? await getFriendCircle() : undefined;
+    const userStats = await getAllUserStats(filter?.lang, userIds);
 
     // Calculate entries with rating
     const entries: Omit<LeaderboardEntry, 'rank'>[] = userStats.map(stats => {
@@ -219,3 +239,216 @@ export async function getLeaderboard(filter?: {
         rank: index + 1,
     }));
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ranked (Glicko-2 ratings, see lib/rating)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RankedEntry {
+    rank: number;
+    userId: string;
+    name: string;
+    avatar: string | null;
+    isBot: boolean;
+    botModel: string | null;
+
+    rating: number;      // Rounded Glicko rating
+    deviation: number;   // Rounded RD (lower = more certain)
+    peakRating: number;
+    matchesPlayed: number;
+    winRate: number;     // 0-100
+
+    tier: LadderTier | null;  // Season ladders only
+    title: string | null;     // Season-end reward title (finished seasons only)
+}
+
+export interface SeasonInfo {
+    id: string;
+    number: number;
+    startsAt: string;
+    endsAt: string;     // Exclusive
+    isCurrent: boolean;
+    isFinalized: boolean;  // Final standings archived
+}
+
+/**
+ * Ranked seasons, newest first (the current one always exists)
+ */
+export async function getSeasons(): Promise<SeasonInfo[]> {
+    const current = await ensureCurrentSeason();
+    const seasons = await prisma.season.findMany({ orderBy: { number: 'desc' } });
+
+    return seasons.map(season => ({
+        id: season.id,
+        number: season.number,
+        startsAt: season.startsAt.toISOString(),
+        endsAt: season.endsAt.toISOString(),
+        isCurrent: season.id === current.id,
+        isFinalized: season.finalizedAt !== null,
+    }));
+}
+
+interface RankedRow {
+    userId: string;
+    rating: number;
+    deviation: number;
+    peakRating: number;
+    matchesPlayed: number;
+    wins: number;
+    tier: LadderTier | null;
+    title: string | null;
+}
+
+/**
+ * Ranked leaderboard for one language
+ * - No season: all-time ratings, provisional ones (fewer than RANKED_MIN_MATCHES rated matches) left out
+ * - Running season: live ladder of the players past their placement matches
+ * - Finished season: the archived final standings
+ * friendsOnly ranks the signed-in user and their friends among themselves
+ */
+export async function getRankedLeaderboard(lang: TargetLanguage, filter?: {
+    seasonId?: string;
+    friendsOnly?: boolean;
+}): Promise<RankedEntry[]> {
+    const userIds = filter?.friendsOnly ? await getFriendCircle() : undefined;
+    const rows = filter?.seasonId
+        ? await getSeasonRows(lang, filter.seasonId, userIds)
+        : await getAllTimeRows(lang, userIds);
+
+    const users = await prisma.user.findMany({
+        where: { id: { in: rows.map(r => r.userId) } },
+        select: { id: true, name: true, image: true, isBot: true, botModel: true },
+    });
+
+    return rows.flatMap((entry, index) => {
+        const user = users.find(u => u.id === entry.userId);
+        if (!user) return []; // Deleted user
+
+        return [{
+            rank: index + 1,
+            userId: user.id,
+            name: user.name || 'Player',
+            avatar: user.image,
+            isBot: user.isBot,
+            botModel: user.botModel,
+            rating: Math.round(entry.rating),
+            deviation: Math.round(entry.deviation),
+            peakRating: Math.round(entry.peakRating),
+            matchesPlayed: entry.matchesPlayed,
+            winRate: Math.round((entry.wins / entry.matchesPlayed) * 100),
+            tier: entry.tier,
+            title: entry.title,
+        }];
+    });
+}
+
+async function getAllTimeRows(lang: TargetLanguage, userIds?: string[]): Promise<RankedRow[]> {
+    const ratings = await prisma.playerRating.findMany({
+        where: {
+            targetLanguage: lang,
+            matchesPlayed: { gte: RANKED_MIN_MATCHES },
+            ...(userIds && { userId: { in: userIds } }),
+        },
+        orderBy: { rating: 'desc' },
+        take: RANKED_LEADERBOARD_SIZE,
+    });
+
+    return ratings.map(rating => ({ ...rating, tier: null, title: null }));
+}
+
+async function getSeasonRows(lang: TargetLanguage, seasonId: string, userIds?: string[]): Promise<RankedRow[]> {
+    const season = await prisma.season.findUnique({ where: { id: seasonId } });
+    if (!season) return [];
+
+    if (season.finalizedAt) {
+        return prisma.seasonStanding.findMany({
+            where: { seasonId, targetLanguage: lang, ...(userIds && { userId: { in: userIds } }) },
+            orderBy: { rank: 'asc' },
+            take: RANKED_LEADERBOARD_SIZE,
+        });
+    }
+
+    const ratings = await prisma.seasonRating.findMany({
+        where: {
+            seasonId,
+            targetLanguage: lang,
+            matchesPlayed: { gte: SEASON_PLACEMENT_MATCHES },
+            ...(userIds && { userId: { in: userIds } }),
+        },
+        orderBy: { rating: 'desc' },
+        take: RANKED_LEADERBOARD_SIZE,
+    });
+
+    return ratings.map(rating => ({ ...rating, tier: getLadderTier(rating.rating), title: null }));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Bot Head-to-Head (exhibitions)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface HeadToHeadBot {
+    userId: string;
+    name: string;
+    avatar: string | null;
+    botModel: string | null;
+}
+
+export interface HeadToHeadRecord {
+    bots: [HeadToHeadBot, HeadToHeadBot];
+    wins: [number, number];  // Same order as bots
+    ties: number;
+    totalMatches: number;
+}
+
+/**
+ * Head-to-head records between bots from finished exhibitions
+ * Sorted by number of matches played
+ */
+export async function getBotHeadToHead(filter?: {
+    lang?: TargetLanguage;
+}): Promise<HeadToHeadRecord[]> {
+    const matches = await prisma.match.findMany({
+        where: {
+            mode: MatchMode.exhibition,
+            status: MatchStatus.finished,
+            ...(filter?.lang && { targetLanguage: filter.lang }),
+        },
+        select: {
+            players: true,
+            winnerId: true,
+            isTie: true,
+        },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    const records = new Map<string, HeadToHeadRecord>();
+
+    for (const match of matches) {
+        // Pair key is order-independent (sorted userIds)
+        const bots = match.players
+            .filter(p => p.userId)
+            .map(p => ({ userId: p.userId!, name: p.name, avatar: p.avatar, botModel: p.botModel }))
+            .sort((a, b) => a.userId.localeCompare(b.userId));
+        if (bots.length !== 2) continue;
+
+        const key = `${bots[0].userId}:${bots[1].userId}`;
+        const record = records.get(key) ?? {
+            bots: [bots[0], bots[1]], // Newest match first, so names are the latest ones
+            wins: [0, 0],
+            ties: 0,
+            totalMatches: 0,
+        };
+
+        record.totalMatches++;
+        if (match.isTie) {
+            record.ties++;
+        } else if (match.winnerId === bots[0].userId) {
+            record.wins[0]++;
+        } else if (match.winnerId === bots[1].userId) {
+            record.wins[1]++;
+        }
+        records.set(key, record);
+    }
+
+    return [...records.values()].sort((a, b) => b.totalMatches - a.totalMatches);
+}
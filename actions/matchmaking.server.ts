@@ -0,0 +1,283 @@
+'use server';
+
+import { prisma } from '@/lib/prisma';
+import { MatchmakingStatus, type MatchmakingTicket, type TargetLanguage } from '@prisma/client';
+import { createWaitingMatch, joinWaitingMatch } from '@/actions/game.server';
+import { DEFAULT_RATING, RULE_BOT_RATINGS } from '@/lib/config/rating';
+import { isRuleBotModel } from '@/lib/config/bot';
+import {
+    MATCHMAKING_INITIAL_RANGE,
+    MATCHMAKING_RANGE_GROWTH_PER_SEC,
+    MATCHMAKING_MAX_RANGE,
+    MATCHMAKING_PRESENCE_TIMEOUT_MS,
+    MATCHMAKING_BOT_FALLBACK_MS,
+    MATCHMAKING_QUESTION_COUNT,
+} from '@/lib/config/matchmaking';
+
+// ============================================
+// Quick Match queue
+// ============================================
+//
+// A MatchmakingTicket per queued player. Clients poll every few seconds; each poll is the
+// ticket's presence heartbeat and a matching attempt, so the queue needs no background worker.
+// Tickets are claimed with compare-and-set updates (status: searching -> matched), older ticket
+// first, so two players polling at once can never both pair the same opponent.
+//
+// The paired room is an ordinary waiting match (matchmade: true) that the room page counts
+// down and starts with startWaitingMatch - no host has to press start.
+
+/**
+ * Queue state reported to the client
+ */
+export type MatchmakingState =
+    | { status: 'searching'; ticketId: string; waitedMs: number; range: number }
+    | { status: 'matched'; ticketId: string; matchId: string }
+    | { status: 'cancelled' | 'expired'; ticketId: string };
+
+/**
+ * Accepted rating gap after waiting this long
+ */
+function getSearchRange(waitedMs: number): number {
+    const grown = MATCHMAKING_INITIAL_RANGE + Math.floor(waitedMs / 1000) * MATCHMAKING_RANGE_GROWTH_PER_SEC;
+    return Math.min(MATCHMAKING_MAX_RANGE, grown);
+}
+
+function searchingState(ticket: MatchmakingTicket, now: number): MatchmakingState {
+    const waitedMs = now - ticket.createdAt.getTime();
+    return { status: 'searching', ticketId: ticket.id, waitedMs, range: getSearchRange(waitedMs) };
+}
+
+/**
+ * Claim a searching ticket (compare-and-set)
+ * @returns false if it was already matched, cancelled or expired
+ */
+async function claimTicket(ticketId: string): Promise<boolean> {
+    const { count } = await prisma.matchmakingTicket.updateMany({
+        where: { id: ticketId, status: MatchmakingStatus.searching },
+        data: { status: MatchmakingStatus.matched },
+    });
+    return count === 1;
+}
+
+/**
+ * Put a claimed ticket back in the queue (its partner could not be claimed)
+ */
+async function releaseTicket(ticketId: string): Promise<void> {
+    await prisma.matchmakingTicket.updateMany({
+        where: { id: ticketId, status: MatchmakingStatus.matched },
+        data: { status: MatchmakingStatus.searching },
+    });
+}
+
+/**
+ * Expire tickets whose client stopped polling (closed tab, lost connection)
+ */
+async function expireStaleTickets(now: number): Promise<void> {
+    await prisma.matchmakingTicket.updateMany({
+        where: {
+            status: MatchmakingStatus.searching,
+            lastSeenAt: { lt: new Date(now - MATCHMAKING_PRESENCE_TIMEOUT_MS) },
+        },
+        data: { status: MatchmakingStatus.expired },
+    });
+}
+
+/**
+ * Bot user whose rating in the language is closest to the player's
+ * Bots without a PlayerRating count at their rule bot anchor (or the default rating)
+ */
+async function findComparableBot(targetLanguage: TargetLanguage, rating: number): Promise<string | null> {
+    const bots = await prisma.user.findMany({
+        where: { isBot: true },
+        select: { id: true, botModel: true },
+    });
+    if (bots.length === 0) return null;
+
+    const ratings = await prisma.playerRating.findMany({
+        where: { targetLanguage, userId: { in: bots.map(b => b.id) } },
+        select: { userId: true, rating: true },
+    });
+
+    const getStrength = (bot: typeof bots[number]) =>
+        ratings.find(r => r.userId === bot.id)?.rating
+        ?? (isRuleBotModel(bot.botModel) ? RULE_BOT_RATINGS[bot.botModel!] : DEFAULT_RATING);
+
+    const [closest] = bots.sort((a, b) => Math.abs(getStrength(a) - rating) - Math.abs(getStrength(b) - rating));
+    return closest.id;
+}
+
+/**
+ * Create the room for claimed tickets and attach it to them
+ * The longest-waiting player hosts; a single ticket plays the given bot
+ */
+async function createMatchForTickets(tickets: MatchmakingTicket[], botId?: string): Promise<string> {
+    const [host, guest] = tickets;
+
+    try {
+        const { matchId } = await createWaitingMatch(host.userId, {
+            targetLanguage: host.targetLanguage,
+            rank: host.rank,
+            questionCount: MATCHMAKING_QUESTION_COUNT,
+            isBot: !!botId,
+            botId,
+            matchmade: true,
+        });
+
+        if (guest) {
+            const joined = await joinWaitingMatch(matchId, guest.userId);
+            if (!joined.success) throw new Error(joined.error);
+        }
+
+        await prisma.matchmakingTicket.updateMany({
+            where: { id: { in: tickets.map(t => t.id) } },
+            data: { matchId },
+        });
+
+        return matchId;
+    } catch (error) {
+        // Nobody can be seated - drop the tickets rather than retrying a broken pairing forever
+        await prisma.matchmakingTicket.updateMany({
+            where: { id: { in: tickets.map(t => t.id) } },
+            data: { status: MatchmakingStatus.cancelled },
+        });
+        throw error;
+    }
+}
+
+/**
+ * Try to pair a searching ticket: a close human first, a bot once the wait is over
+ */
+async function advanceTicket(ticket: MatchmakingTicket, now: number): Promise<MatchmakingState> {
+    await expireStaleTickets(now);
+
+    const waitedMs = now - ticket.createdAt.getTime();
+    const candidates = await prisma.matchmakingTicket.findMany({
+        where: {
+            status: MatchmakingStatus.searching,
+            targetLanguage: ticket.targetLanguage,
+            rank: ticket.rank,
+            userId: { not: ticket.userId },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: 20,
+    });
+
+    // The longer either player has waited, the wider the accepted gap
+    const opponent = candidates.find(candidate => {
+        const range = Math.max(getSearchRange(waitedMs), getSearchRange(now - candidate.createdAt.getTime()));
+        return Math.abs(candidate.rating - ticket.rating) <= range;
+    });
+
+    if (opponent) {
+        // Claim the older ticket first so concurrent pollers contend on the same ticket
+        const pair = [ticket, opponent].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        if (await claimTicket(pair[0].id)) {
+            if (await claimTicket(pair[1].id)) {
+                const matchId = await createMatchForTickets(pair);
+                console.log(`🤝 [Matchmaking] ${ticket.targetLanguage} rank ${ticket.rank}: paired ${pair[0].userId} and ${pair[1].userId}`);
+                return { status: 'matched', ticketId: ticket.id, matchId };
+            }
+            await releaseTicket(pair[0].id);
+        }
+        return searchingState(ticket, now);
+    }
+
+    if (waitedMs >= MATCHMAKING_BOT_FALLBACK_MS) {
+        const botId = await findComparableBot(ticket.targetLanguage, ticket.rating);
+        if (botId && await claimTicket(ticket.id)) {
+            const matchId = await createMatchForTickets([ticket], botId);
+            console.log(`🤖 [Matchmaking] ${ticket.targetLanguage} rank ${ticket.rank}: no opponent for ${ticket.userId}, playing a bot`);
+            return { status: 'matched', ticketId: ticket.id, matchId };
+        }
+    }
+
+    return searchingState(ticket, now);
+}
+
+/**
+ * Join the Quick Match queue (replaces any ticket the user already has)
+ */
+export async function joinMatchmaking(
+    userId: string,
+    config: { targetLanguage: TargetLanguage; rank: number }
+): Promise<MatchmakingState> {
+    const questionCount = await prisma.question.count({
+        where: { targetLanguage: config.targetLanguage, rank: config.rank },
+    });
+    if (questionCount === 0) {
+        throw new Error(`No questions found for ${config.targetLanguage} rank ${config.rank}.`);
+    }
+
+    await prisma.matchmakingTicket.updateMany({
+        where: { userId, status: MatchmakingStatus.searching },
+        data: { status: MatchmakingStatus.cancelled },
+    });
+
+    const rating = await prisma.playerRating.findUnique({
+        where: { userId_targetLanguage: { userId, targetLanguage: config.targetLanguage } },
+        select: { rating: true },
+    });
+
+    const ticket = await prisma.matchmakingTicket.create({
+        data: {
+            userId,
+            targetLanguage: config.targetLanguage,
+            rank: config.rank,
+            rating: rating?.rating ?? DEFAULT_RATING,
+            lastSeenAt: new Date(),
+        },
+    });
+
+    return advanceTicket(ticket, Date.now());
+}
+
+/**
+ * Poll a ticket: presence heartbeat plus a matching attempt
+ * Called every MATCHMAKING_POLL_INTERVAL_MS while the client is searching
+ */
+export async function pollMatchmaking(ticketId: string, userId: string): Promise<MatchmakingState> {
+    const ticket = await prisma.matchmakingTicket.findUnique({
+        where: { id: ticketId },
+    });
+    if (!ticket || ticket.userId !== userId) {
+        return { status: 'cancelled', ticketId };
+    }
+
+    const now = Date.now();
+
+    if (ticket.status === MatchmakingStatus.matched) {
+        // Paired, the other player's poll may still be creating the room
+        return ticket.matchId
+            ? { status: 'matched', ticketId, matchId: ticket.matchId }
+            : searchingState(ticket, now);
+    }
+    if (ticket.status !== MatchmakingStatus.searching) {
+        return { status: ticket.status, ticketId };
+    }
+
+    // Came back after the presence timeout (e.g. a suspended tab) - the ticket is gone
+    if (now - ticket.lastSeenAt.getTime() > MATCHMAKING_PRESENCE_TIMEOUT_MS) {
+        await prisma.matchmakingTicket.updateMany({
+            where: { id: ticketId, status: MatchmakingStatus.searching },
+            data: { status: MatchmakingStatus.expired },
+        });
+        return { status: 'expired', ticketId };
+    }
+
+    await prisma.matchmakingTicket.updateMany({
+        where: { id: ticketId, status: MatchmakingStatus.searching },
+        data: { lastSeenAt: new Date(now) },
+    });
+
+    return advanceTicket(ticket, now);
+}
+
+/**
+ * Leave the queue (no effect once the ticket has been matched)
+ */
+export async function cancelMatchmaking(ticketId: string, userId: string): Promise<void> {
+    await prisma.matchmakingTicket.updateMany({
+        where: { id: ticketId, userId, status: MatchmakingStatus.searching },
+        data: { status: MatchmakingStatus.cancelled },
+    });
+}
@@ -0,0 +1,232 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import authOptions from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { MatchMode, MatchStatus, type Match, type MatchPlayer, type MatchRules, type TargetLanguage } from '@prisma/client';
+import { createWaitingMatch, startWaitingMatch } from '@/actions/game.server';
+import {
+    initGameRoom,
+    advancePresenterSession,
+    setPresenterPaused,
+    setPresenterLeaderboard,
+} from '@/lib/game-engine/server/GameRoom';
+import { getGameState, projectGameState, type LiveGameState } from '@/lib/game-engine/server/GameStore';
+import { countAnswers, type AnswerDistribution } from '@/lib/game-engine/PresenterMode';
+import { getMatchRules, type MatchRulePreset } from '@/lib/config/game';
+import type { ClientQuestion } from '@/types/game';
+
+// ============================================
+// Presenter Mode (classroom sessions)
+// ============================================
+//
+// A presenter session is a private waiting match (MatchMode.presenter) whose host is stored as
+// Match.hostUserId instead of a seat. Students join with the PIN through joinWaitingMatchByCode
+// and answer with submitServerAnswer like any player; GameRoom scores them.
+//
+// The host's controls reveal live answers, so the host is always taken from the session -
+// never from a client-supplied user ID.
+
+/**
+ * A presenter session as seen by the caller
+ * Students get the option keys only - the question itself is on the big screen
+ */
+export interface PresenterSession {
+    matchId: string;
+    role: 'host' | 'student';
+    viewerPlayerId: string | null; // Student's seat (null for the host)
+    status: MatchStatus;
+    targetLanguage: TargetLanguage;
+    rank: number;
+    questionCount: number;
+    rules: MatchRules;
+    joinCode: string | null;
+    maxPlayers: number;
+    players: MatchPlayer[];
+    questions: ClientQuestion[]; // Host only (empty for students)
+    optionKeys: string[][];      // Per question, in display order
+    state: LiveGameState | null; // Null until the host starts
+}
+
+type PresenterResult = { success: true; state: LiveGameState } | { success: false; error: string };
+
+/**
+ * Load a presenter session the signed-in user hosts
+ * @throws if the match is not a presenter session or the caller is not its host
+ */
+async function getHostedSession(matchId: string): Promise<Match> {
+    const [session, match] = await Promise.all([
+        getServerSession(authOptions),
+        prisma.match.findUnique({ where: { id: matchId } }),
+    ]);
+
+    if (!match || match.mode !== MatchMode.presenter) {
+        throw new Error('Session not found');
+    }
+    if (!session?.user?.id || match.hostUserId !== session.user.id) {
+        throw new Error('Only the presenter can control this session');
+    }
+    return match;
+}
+
+/**
+ * Create a classroom session hosted by the signed-in user
+ * @returns The match and its PIN (students join with it)
+ */
+export async function createPresenterSession(config: {
+    targetLanguage: TargetLanguage;
+    rank: number;
+    questionCount: number;
+    rulesPreset?: MatchRulePreset;
+}): Promise<{ matchId: string; joinCode: string | null }> {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+        throw new Error('Not signed in');
+    }
+
+    return createWaitingMatch(session.user.id, {
+        targetLanguage: config.targetLanguage,
+        rank: config.rank,
+        questionCount: config.questionCount,
+        rulesPreset: config.rulesPreset,
+        isBot: false,
+        presenter: true,
+    });
+}
+
+/**
+ * Load a session for its host (big screen) or one of its students (answer pad)
+ */
+export async function getPresenterSession(matchId: string): Promise<PresenterSession | { error: string }> {
+    const [session, match] = await Promise.all([
+        getServerSession(authOptions),
+        prisma.match.findUnique({ where: { id: matchId } }),
+    ]);
+
+    if (!match || match.mode !== MatchMode.presenter) {
+        return { error: 'SESSION_NOT_FOUND' };
+    }
+    if (match.status === MatchStatus.cancelled || match.status === MatchStatus.abandoned) {
+        return { error: 'SESSION_CANCELLED' };
+    }
+
+    const userId = session?.user?.id;
+    const isHost = !!userId && match.hostUserId === userId;
+    const viewer = userId ? match.players.find(p => p.userId === userId) : undefined;
+    if (!isHost && !viewer) {
+        return { error: 'NOT_IN_SESSION' };
+    }
+
+    const questions = await prisma.question.findMany({
+        where: { id: { in: match.questionIds } },
+        select: { id: true, stimulus: true, interaction: true },
+    });
+    const ordered = match.questionIds.flatMap(id => {
+        const question = questions.find(q => q.id === id);
+        return question
+            ? [{ id: question.id, stimulus: question.stimulus, options: question.interaction as Record<string, string> }]
+            : [];
+    });
+
+    const state = match.status === MatchStatus.waiting ? null : await getGameState(matchId);
+    const viewerPlayerId = viewer?.playerId ?? null;
+
+    return {
+        matchId: match.id,
+        role: isHost ? 'host' : 'student',
+        viewerPlayerId,
+        status: match.status,
+        targetLanguage: match.targetLanguage,
+        rank: match.rank,
+        questionCount: match.questionIds.length,
+        rules: getMatchRules(match),
+        joinCode: match.joinCode,
+        maxPlayers: match.maxPlayers,
+        players: match.players,
+        questions: isHost ? ordered : [],
+        optionKeys: ordered.map(q => Object.keys(q.options)),
+        state: state && projectGameState(state, viewerPlayerId),
+    };
+}
+
+/**
+ * Host starts the session: seats are final and the first question is shown
+ */
+export async function startPresenterSession(matchId: string): Promise<PresenterResult> {
+    try {
+        const match = await getHostedSession(matchId);
+        if (match.status !== MatchStatus.waiting) {
+            return { success: false, error: 'Session already started' };
+        }
+        if (match.players.length === 0) {
+            return { success: false, error: 'No students yet' };
+        }
+
+        // Answer pads switch over on GAME_STARTED, then follow the state broadcasts
+        await initGameRoom(matchId);
+        await startWaitingMatch(matchId);
+
+        const state = await advancePresenterSession(matchId);
+        return { success: true, state: projectGameState(state, null) };
+    } catch (error) {
+        console.error('startPresenterSession error:', error);
+        return { success: false, error: (error as Error).message };
+    }
+}
+
+/**
+ * Host moves on: next question, or end the running one early
+ */
+export async function advancePresenter(matchId: string): Promise<PresenterResult> {
+    try {
+        await getHostedSession(matchId);
+        const state = await advancePresenterSession(matchId);
+        return { success: true, state: projectGameState(state, null) };
+    } catch (error) {
+        console.error('advancePresenter error:', error);
+        return { success: false, error: (error as Error).message };
+    }
+}
+
+/**
+ * Host pauses or resumes the round clock
+ */
+export async function pausePresenterSession(matchId: string, paused: boolean): Promise<PresenterResult> {
+    try {
+        await getHostedSession(matchId);
+        const state = await setPresenterPaused(matchId, paused);
+        return { success: true, state: projectGameState(state, null) };
+    } catch (error) {
+        console.error('pausePresenterSession error:', error);
+        return { success: false, error: (error as Error).message };
+    }
+}
+
+/**
+ * Host shows or hides the standings on the big screen
+ */
+export async function showPresenterLeaderboard(matchId: string, show: boolean): Promise<PresenterResult> {
+    try {
+        await getHostedSession(matchId);
+        const state = await setPresenterLeaderboard(matchId, show);
+        return { success: true, state: projectGameState(state, null) };
+    } catch (error) {
+        console.error('showPresenterLeaderboard error:', error);
+        return { success: false, error: (error as Error).message };
+    }
+}
+
+/**
+ * Live answer distribution for the big screen (host only)
+ * Broadcasts hide answers until RESOLVING, so the host reads them from the unredacted state
+ */
+export async function getPresenterAnswers(matchId: string): Promise<AnswerDistribution | null> {
+    try {
+        await getHostedSession(matchId);
+        const state = await getGameState(matchId);
+        return state && countAnswers(state);
+    } catch (error) {
+        console.error('getPresenterAnswers error:', error);
+        return null;
+    }
+}
@@ -0,0 +1,391 @@
+'use server';
+
+import { getServerSession } from 'next-auth';
+import authOptions from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+    TournamentFormat,
+    TournamentPairingStatus,
+    TournamentStatus,
+    type TargetLanguage,
+} from '@prisma/client';
+import {
+    startTournament as startTournamentBracket,
+    checkInPairing,
+    forfeitPairing,
+    withdrawEntrant,
+    resolveTournamentDeadlines,
+    getTournamentStandings,
+} from '@/lib/tournament/tournaments';
+import type { TournamentStanding } from '@/lib/tournament/pairing';
+import { MATCH_RULE_PRESETS, questionCounts, type MatchRulePreset } from '@/lib/config/game';
+import { DEFAULT_RATING } from '@/lib/config/rating';
+import {
+    TOURNAMENT_CAPACITIES,
+    TOURNAMENT_MIN_PLAYERS,
+    TOURNAMENT_NAME_MAX_LENGTH,
+} from '@/lib/config/tournament';
+
+// ============================================
+// Tournaments
+// ============================================
+//
+// Organizers create a tournament for one language and rank, players register, and the organizer
+// starts it. From then on lib/tournament/tournaments.ts runs the bracket: every pairing gets a
+// duel room, and finishGame, forfeits and the check-in deadline move it forward.
+//
+// Registration, withdrawals and organizer controls act for the signed-in user only.
+
+/** One row of the tournament list */
+export interface TournamentSummary {
+    id: string;
+    name: string;
+    format: TournamentFormat;
+    status: TournamentStatus;
+    targetLanguage: TargetLanguage;
+    rank: number;
+    playerCount: number;
+    capacity: number;
+    currentRound: number;
+    totalRounds: number;
+    createdAt: Date;
+}
+
+export interface TournamentEntrantInfo {
+    userId: string;
+    name: string;
+    avatar: string | null;
+    seed: number | null;
+    withdrawn: boolean;
+    placement: number | null;
+    points: number | null;
+}
+
+export interface TournamentPairingInfo {
+    id: string;
+    round: number;
+    slot: number;
+    player1Id: string | null;
+    player2Id: string | null;
+    status: TournamentPairingStatus;
+    matchId: string | null;
+    winnerId: string | null;
+    isDraw: boolean;
+    deadlineAt: number | null;
+}
+
+/**
+ * A tournament as seen by the caller
+ */
+export interface TournamentView extends TournamentSummary {
+    questionCount: number;
+    rulesPreset: MatchRulePreset;
+    organizerName: string;
+    isOrganizer: boolean;
+    isRegistered: boolean;
+    entrants: TournamentEntrantInfo[];
+    pairings: TournamentPairingInfo[];
+    standings: TournamentStanding[]; // Empty before the start
+    startedAt: Date | null;
+    endedAt: Date | null;
+}
+
+type TournamentActionResult = { success: boolean; error?: string };
+
+async function getSessionUserId(): Promise<string | null> {
+    const session = await getServerSession(authOptions);
+    return session?.user?.id ?? null;
+}
+
+/**
+ * Create a tournament organized by the signed-in user
+ * @throws if there are no questions for the language and rank
+ */
+export async function createTournament(config: {
+    name: string;
+    format: TournamentFormat;
+    targetLanguage: TargetLanguage;
+    rank: number;
+    questionCount: number;
+    rulesPreset?: MatchRulePreset;
+    capacity: number;
+}): Promise<{ tournamentId: string }> {
+    const userId = await getSessionUserId();
+    if (!userId) {
+        throw new Error('Sign in to organize a tournament');
+    }
+
+    const name = config.name.trim().slice(0, TOURNAMENT_NAME_MAX_LENGTH);
+    if (!name) {
+        throw new Error('Tournament name required');
+    }
+
+    const available = await prisma.question.count({
+        where: { targetLanguage: config.targetLanguage, rank: config.rank },
+    });
+    if (available === 0) {
+        throw new Error(`No questions found for ${config.targetLanguage} rank ${config.rank}.`);
+    }
+
+    const maxCapacity = TOURNAMENT_CAPACITIES[TOURNAMENT_CAPACITIES.length - 1];
+    const tournament = await prisma.tournament.create({
+        data: {
+            name,
+            format: config.format,
+            organizerId: userId,
+            targetLanguage: config.targetLanguage,
+            rank: config.rank,
+            questionCount: questionCounts.includes(config.questionCount as typeof questionCounts[number])
+                ? config.questionCount
+                : questionCounts[1],
+            rulesPreset: config.rulesPreset && MATCH_RULE_PRESETS[config.rulesPreset] ? config.rulesPreset : 'standard',
+            capacity: Math.min(maxCapacity, Math.max(TOURNAMENT_MIN_PLAYERS, config.capacity)),
+            entrants: [],
+        },
+    });
+
+    return { tournamentId: tournament.id };
+}
+
+/**
+ * Open and running tournaments, then the latest finished ones
+ */
+export async function getTournaments(): Promise<TournamentSummary[]> {
+    const tournaments = await prisma.tournament.findMany({
+        where: { status: { not: TournamentStatus.cancelled } },
+        orderBy: { createdAt: 'desc' },
+        take: 30,
+    });
+
+    const order: TournamentStatus[] = [TournamentStatus.registration, TournamentStatus.running, TournamentStatus.finished];
+    return tournaments
+        .sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status))
+        .map(t => ({
+            id: t.id,
+            name: t.name,
+            format: t.format,
+            status: t.status,
+            targetLanguage: t.targetLanguage,
+            rank: t.rank,
+            playerCount: t.entrants.filter(e => !e.withdrawn).length,
+            capacity: t.capacity,
+            currentRound: t.currentRound,
+            totalRounds: t.totalRounds,
+            createdAt: t.createdAt,
+        }));
+}
+
+/**
+ * Load a tournament with its bracket and standings
+ * Overdue no-shows are decided first, so the page never shows a stale pairing as open
+ */
+export async function getTournament(tournamentId: string): Promise<TournamentView | null> {
+    const userId = await getSessionUserId();
+
+    await resolveTournamentDeadlines(tournamentId);
+
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) return null;
+
+    const [organizer, pairings, standings] = await Promise.all([
+        prisma.user.findUnique({ where: { id: tournament.organizerId }, select: { name: true } }),
+        prisma.tournamentPairing.findMany({
+            where: { tournamentId },
+            orderBy: [{ round: 'asc' }, { slot: 'asc' }],
+        }),
+        tournament.status === TournamentStatus.registration || tournament.status === TournamentStatus.cancelled
+            ? Promise.resolve([])
+            : getTournamentStandings(tournament),
+    ]);
+
+    return {
+        id: tournament.id,
+        name: tournament.name,
+        format: tournament.format,
+        status: tournament.status,
+        targetLanguage: tournament.targetLanguage,
+        rank: tournament.rank,
+        playerCount: tournament.entrants.filter(e => !e.withdrawn).length,
+        capacity: tournament.capacity,
+        currentRound: tournament.currentRound,
+        totalRounds: tournament.totalRounds,
+        createdAt: tournament.createdAt,
+        questionCount: tournament.questionCount,
+        rulesPreset: tournament.rulesPreset as MatchRulePreset,
+        organizerName: organizer?.name || 'Organizer',
+        isOrganizer: tournament.organizerId === userId,
+        isRegistered: tournament.entrants.some(e => e.userId === userId && !e.withdrawn),
+        entrants: tournament.entrants.map(e => ({
+            userId: e.userId,
+            name: e.name,
+            avatar: e.avatar,
+            seed: e.seed,
+            withdrawn: e.withdrawn,
+            placement: e.placement,
+            points: e.points,
+        })),
+        pairings: pairings.map(p => ({
+            id: p.id,
+            round: p.round,
+            slot: p.slot,
+            player1Id: p.player1Id,
+            player2Id: p.player2Id,
+            status: p.status,
+            matchId: p.matchId,
+            winnerId: p.winnerId,
+            isDraw: p.isDraw,
+            deadlineAt: p.deadlineAt?.getTime() ?? null,
+        })),
+        standings,
+        startedAt: tournament.startedAt,
+        endedAt: tournament.endedAt,
+    };
+}
+
+/**
+ * Register the signed-in user (registration phase only)
+ */
+export async function registerForTournament(tournamentId: string): Promise<TournamentActionResult> {
+    const userId = await getSessionUserId();
+    if (!userId) return { success: false, error: 'Not signed in' };
+
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    if (!tournament) return { success: false, error: 'Tournament not found' };
+    if (tournament.status !== TournamentStatus.registration) {
+        return { success: false, error: 'Registration is closed' };
+    }
+    if (tournament.entrants.some(e => e.userId === userId)) {
+        return { success: false, error: 'Already registered' };
+    }
+    if (tournament.entrants.length >= tournament.capacity) {
+        return { success: false, error: 'Tournament is full' };
+    }
+
+    const [user, rating] = await Promise.all([
+        prisma.user.findUnique({ where: { id: userId }, select: { name: true, image: true } }),
+        prisma.playerRating.findUnique({
+            where: { userId_targetLanguage: { userId, targetLanguage: tournament.targetLanguage } },
+            select: { rating: true },
+        }),
+    ]);
+
+    // Only while registration is open and the user is not in yet (a concurrent start or double click wins)
+    const { count } = await prisma.tournament.updateMany({
+        where: {
+            id: tournamentId,
+            status: TournamentStatus.registration,
+            NOT: { entrants: { some: { userId } } },
+        },
+        data: {
+            entrants: {
+                push: {
+                    userId,
+                    name: user?.name || 'Player',
+                    avatar: user?.image || null,
+                    rating: rating?.rating ?? DEFAULT_RATING,
+                    seed: null,
+                    withdrawn: false,
+                    placement: null,
+                    points: null,
+                    registeredAt: new Date(),
+                },
+            },
+        },
+    });
+
+    return count === 1 ? { success: true } : { success: false, error: 'Registration is closed' };
+}
+
+/**
+ * Withdraw the signed-in user
+ * Before the start the entry is removed; afterwards the open pairing is forfeited
+ */
+export async function withdrawFromTournament(tournamentId: string): Promise<TournamentActionResult> {
+    const userId = await getSessionUserId();
+    if (!userId) return { success: false, error: 'Not signed in' };
+
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+    const entrant = tournament?.entrants.find(e => e.userId === userId);
+    if (!tournament || !entrant || entrant.withdrawn) {
+        return { success: false, error: 'Not registered' };
+    }
+
+    if (tournament.status === TournamentStatus.registration) {
+        await prisma.tournament.update({
+            where: { id: tournamentId },
+            data: { entrants: { deleteMany: { where: { userId } } } },
+        });
+        return { success: true };
+    }
+
+    if (tournament.status !== TournamentStatus.running) {
+        return { success: false, error: 'Tournament is over' };
+    }
+
+    await withdrawEntrant(tournamentId, userId);
+    return { success: true };
+}
+
+/**
+ * Organizer closes registration and starts the first round
+ */
+export async function startTournament(tournamentId: string): Promise<TournamentActionResult> {
+    const userId = await getSessionUserId();
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } });
+
+    if (!tournament) return { success: false, error: 'Tournament not found' };
+    if (!userId || tournament.organizerId !== userId) {
+        return { success: false, error: 'Only the organizer can start the tournament' };
+    }
+    if (tournament.entrants.length < TOURNAMENT_MIN_PLAYERS) {
+        return { success: false, error: `Need at least ${TOURNAMENT_MIN_PLAYERS} players to start` };
+    }
+
+    const started = await startTournamentBracket(tournamentId);
+    return started ? { success: true } : { success: false, error: 'Registration is closed' };
+}
+
+/**
+ * Organizer cancels a tournament that has not started
+ */
+export async function cancelTournament(tournamentId: string): Promise<TournamentActionResult> {
+    const userId = await getSessionUserId();
+    if (!userId) return { success: false, error: 'Not signed in' };
+
+    const { count } = await prisma.tournament.updateMany({
+        where: { id: tournamentId, organizerId: userId, status: TournamentStatus.registration },
+        data: { status: TournamentStatus.cancelled },
+    });
+    return count === 1 ? { success: true } : { success: false, error: 'Tournament cannot be cancelled' };
+}
+
+/**
+ * Check in to a tournament room (the room page calls this on load)
+ * @returns The room's start time once both players are in, and the no-show deadline
+ */
+export async function checkInTournamentMatch(
+    matchId: string
+): Promise<{ startsAt: number | null; deadlineAt: number | null } | null> {
+    const userId = await getSessionUserId();
+    if (!userId) return null;
+
+    return checkInPairing(matchId, userId);
+}
+
+/**
+ * Leave a tournament room before it starts - the opponent wins by forfeit
+ */
+export async function forfeitTournamentMatch(matchId: string): Promise<TournamentActionResult> {
+    const userId = await getSessionUserId();
+    if (!userId) return { success: false, error: 'Not signed in' };
+
+    const pairing = await prisma.tournamentPairing.findFirst({
+        where: { matchId, status: TournamentPairingStatus.ready },
+    });
+    if (!pairing || (pairing.player1Id !== userId && pairing.player2Id !== userId)) {
+        return { success: false, error: 'Not your tournament match' };
+    }
+
+    const forfeited = await forfeitPairing(pairing, userId);
+    return forfeited ? { success: true } : { success: false, error: 'Match already started' };
+}
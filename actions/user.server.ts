@@ -1,7 +1,10 @@
 'use server';
 
 import { prisma } from '@/lib/prisma';
-import { TargetLanguage, MatchStatus } from '@prisma/client';
+import { TargetLanguage, MatchStatus, type LadderTier, type MatchPlayer } from '@prisma/client';
+import { RANKED_MIN_MATCHES, RATING_HISTORY_LIMIT } from '@/lib/config/rating';
+import { SEASON_PLACEMENT_MATCHES, getLadderTier } from '@/lib/config/season';
+import { ensureCurrentSeason, isPlaced } from '@/lib/rating/seasons';
 
 /**
  * Match history item for list display
@@ -16,6 +19,22 @@ export interface MatchHistoryItem {
     isWin: boolean;
     isTie: boolean;
     opponentName: string;
+    playerCount: number;
+    placement: number | null; // Final ranking (multiplayer)
+}
+
+/**
+ * Summarize the other side of a match from one user's perspective
+ * Duels name the opponent; multiplayer matches summarize the field and use the best other score.
+ */
+function summarizeOpponents(players: MatchPlayer[], userId: string) {
+    const others = players.filter(p => p.userId !== userId);
+    const bestOther = [...others].sort((a, b) => b.finalScore - a.finalScore)[0];
+
+    return {
+        opponentName: others.length > 1 ? `${others.length} 位對手` : (bestOther?.name || 'Unknown'),
+        opponentScore: bestOther?.finalScore || 0,
+    };
 }
 
 /**
@@ -39,7 +58,7 @@ export async function getUserMatchHistory(userId: string): Promise<MatchHistoryI
 
     return matches.map(match => {
         const userPlayer = match.players.find(p => p.userId === userId);
-        const opponent = match.players.find(p => p.userId !== userId);
+        const { opponentName, opponentScore } = summarizeOpponents(match.players, userId);
 
         return {
             id: match.id,
@@ -47,10 +66,12 @@ export async function getUserMatchHistory(userId: string): Promise<MatchHistoryI
             language: match.targetLanguage,
             rank: match.rank,
             playerScore: userPlayer?.finalScore || 0,
-            opponentScore: opponent?.finalScore || 0,
+            opponentScore,
             isWin: !match.isTie && match.winnerId === userId,
             isTie: match.isTie,
-            opponentName: opponent?.name || 'Unknown',
+            opponentName,
+            playerCount: match.players.length,
+            placement: userPlayer?.placement ?? null,
         };
     });
 }
@@ -208,7 +229,7 @@ export async function getUserDashboardStats(userId: string): Promise<UserDashboa
     if (matches.length > 0) {
         const m = matches[0];
         const userPlayer = m.players.find(p => p.userId === userId);
-        const opponent = m.players.find(p => p.userId !== userId);
+        const { opponentName, opponentScore } = summarizeOpponents(m.players, userId);
 
         lastMatch = {
             id: m.id,
@@ -216,10 +237,12 @@ export async function getUserDashboardStats(userId: string): Promise<UserDashboa
             language: m.targetLanguage,
             rank: m.rank,
             playerScore: userPlayer?.finalScore || 0,
-            opponentScore: opponent?.finalScore || 0,
+            opponentScore,
             isWin: m.winnerId === userId,
             isTie: m.isTie,
-            opponentName: opponent?.name || 'Unknown',
+            opponentName,
+            playerCount: m.players.length,
+            placement: userPlayer?.placement ?? null,
         };
     }
 
@@ -252,3 +275,93 @@ export async function getUserDashboardStats(userId: string): Promise<UserDashboa
         avgSpeed
     };
 }
+
+/**
+ * A user's skill rating in one language, with its recent history (oldest first, for graphs)
+ */
+export interface UserLanguageRating {
+    language: TargetLanguage;
+    rating: number;
+    deviation: number;
+    peakRating: number;
+    matchesPlayed: number;
+    isProvisional: boolean;  // Fewer than RANKED_MIN_MATCHES rated matches
+    history: { rating: number; delta: number; date: string }[];
+
+    // Current season ladder (null = no season match yet)
+    season: {
+        number: number;
+        rating: number;
+        matchesPlayed: number;
+        tier: LadderTier | null;     // null while placement matches remain
+        placementRemaining: number;
+    } | null;
+    // Reward from the latest finished season the user placed in
+    lastSeasonReward: {
+        seasonNumber: number;
+        rank: number;
+        tier: LadderTier;
+        title: string | null;
+    } | null;
+}
+
+/**
+ * Get the user's Glicko-2 ratings per language (see lib/rating), most played first
+ */
+export async function getUserRatings(userId: string): Promise<UserLanguageRating[]> {
+    const ratings = await prisma.playerRating.findMany({
+        where: { userId },
+        orderBy: { matchesPlayed: 'desc' },
+    });
+
+    const season = await ensureCurrentSeason();
+    const seasonRatings = await prisma.seasonRating.findMany({ where: { seasonId: season.id, userId } });
+    const standings = await prisma.seasonStanding.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+    });
+    const finishedSeasons = await prisma.season.findMany({
+        where: { id: { in: standings.map(s => s.seasonId) } },
+        select: { id: true, number: true },
+    });
+
+    return Promise.all(ratings.map(async (entry) => {
+        const seasonRating = seasonRatings.find(r => r.targetLanguage === entry.targetLanguage);
+        const standing = standings.find(s => s.targetLanguage === entry.targetLanguage);
+        const standingSeason = standing && finishedSeasons.find(s => s.id === standing.seasonId);
+
+        const history = await prisma.ratingHistory.findMany({
+            where: { userId, targetLanguage: entry.targetLanguage },
+            orderBy: { createdAt: 'desc' },
+            take: RATING_HISTORY_LIMIT,
+            select: { rating: true, delta: true, createdAt: true },
+        });
+
+        return {
+            language: entry.targetLanguage,
+            rating: Math.round(entry.rating),
+            deviation: Math.round(entry.deviation),
+            peakRating: Math.round(entry.peakRating),
+            matchesPlayed: entry.matchesPlayed,
+            isProvisional: entry.matchesPlayed < RANKED_MIN_MATCHES,
+            history: history.reverse().map(point => ({
+                rating: Math.round(point.rating),
+                delta: Math.round(point.delta),
+                date: point.createdAt.toISOString(),
+            })),
+            season: seasonRating ? {
+                number: season.number,
+                rating: Math.round(seasonRating.rating),
+                matchesPlayed: seasonRating.matchesPlayed,
+                tier: isPlaced(seasonRating.matchesPlayed) ? getLadderTier(seasonRating.rating) : null,
+                placementRemaining: Math.max(0, SEASON_PLACEMENT_MATCHES - seasonRating.matchesPlayed),
+            } : null,
+            lastSeasonReward: standing && standingSeason ? {
+                seasonNumber: standingSeason.number,
+                rank: standing.rank,
+                tier: standing.tier,
+                title: standing.title,
+            } : null,
+        };
+    }));
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import { motion } from 'framer-motion'
+import Link from 'next/link'
+import { Check, Pause, Trophy, X } from 'lucide-react'
+import { usePresenterClient } from '@/lib/game-engine/usePresenterClient'
+import { isPresenterPaused } from '@/lib/game-engine/PresenterMode'
+import { rankPlayers } from '@/lib/game-engine/GameModes'
+import { GamePhase } from '@/types/game'
+import { PresenterOptionMarker, getPresenterOptionStyle } from '@/components/game/PresenterOption'
+
+/** Session errors shown on the pad */
+const sessionErrorMessages: Record<string, string> = {
+    SESSION_NOT_FOUND: '找不到這個課堂',
+    SESSION_CANCELLED: '老師已結束課堂',
+    NOT_IN_SESSION: '你還沒有加入這個課堂',
+    KICKED: '你已被老師移出課堂',
+}
+
+/**
+ * Student answer pad for a presenter session
+ * Only the option buttons - the question, countdown and answers are on the big screen
+ */
+export default function AnswerPadPage() {
+    const params = useParams<{ matchId: string }>()
+    const { data: authSession } = useSession()
+
+    const { session, state, players, isLoading, error, timeLeftMs, ownAnswer, submitAnswer } =
+        usePresenterClient(params.matchId, authSession?.user?.id)
+
+    if (isLoading) {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC]">
+                <div className="w-12 h-12 border-4 border-[#5B8BD4] border-t-transparent rounded-full animate-spin" />
+                <p className="mt-4 text-[#64748b]">加入課堂中...</p>
+            </div>
+        )
+    }
+
+    if (error || !session || session.role !== 'student' || !session.viewerPlayerId) {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC] p-6">
+                <X className="w-16 h-16 text-red-400 mb-4" />
+                <h1 className="text-xl font-bold text-[#333] mb-6">
+                    {sessionErrorMessages[error ?? 'NOT_IN_SESSION'] ?? '無法加入課堂'}
+                </h1>
+                <Link
+                    href="/join"
+                    className="px-6 py-3 bg-[#5B8BD4] text-white font-semibold rounded-xl"
+                >
+                    輸入 PIN 碼
+                </Link>
+            </div>
+        )
+    }
+
+    const self = players.find(p => p.playerId === session.viewerPlayerId)
+
+    // Waiting for the teacher to start
+    if (!state) {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC] p-6 text-center gap-3">
+                <Check className="w-16 h-16 text-[#2EAD6B]" />
+                <h1 className="text-2xl font-black text-[#333]">已加入！</h1>
+                <p className="text-lg font-bold text-[#5B8BD4]">{self?.name}</p>
+                <p className="text-[#64748b]">看著大螢幕，等待老師開始</p>
+            </div>
+        )
+    }
+
+    const selfState = state.playerStates[session.viewerPlayerId]
+    const placement = (state.placements ?? rankPlayers(state))[session.viewerPlayerId]
+    const statusBar = (
+        <div className="px-4 py-3 bg-white border-b-2 border-[#D5E3F7] flex items-center justify-between">
+            <span className="font-bold text-[#333] truncate">{self?.name}</span>
+            <span className="font-black text-[#5B8BD4]">{selfState?.score ?? 0} 分</span>
+        </div>
+    )
+
+    // Final placement
+    if (state.phase === GamePhase.FINISHED) {
+        return (
+            <div className="min-h-dvh flex flex-col bg-[#F5F8FC]">
+                {statusBar}
+                <div className="flex-1 flex flex-col items-center justify-center gap-3 p-6 text-center">
+                    <Trophy className="w-16 h-16 text-[#F5A623]" />
+                    <h1 className="text-3xl font-black text-[#333]">第 {placement} 名</h1>
+                    <p className="text-[#64748b]">共 {players.length} 位同學 · {selfState?.score ?? 0} 分</p>
+                    <Link
+                        href="/lobby"
+                        className="mt-6 px-6 py-3 bg-[#5B8BD4] text-white font-semibold rounded-xl"
+                    >
+                        返回大廳
+                    </Link>
+                </div>
+            </div>
+        )
+    }
+
+    // Standings are up on the big screen
+    if (state.presenter?.showLeaderboard) {
+        return (
+            <div className="min-h-dvh flex flex-col bg-[#F5F8FC]">
+                {statusBar}
+                <div className="flex-1 flex flex-col items-center justify-center gap-3 p-6 text-center">
+                    <Trophy className="w-14 h-14 text-[#F5A623]" />
+                    <h1 className="text-2xl font-black text-[#333]">你目前第 {placement} 名</h1>
+                </div>
+            </div>
+        )
+    }
+
+    // Round result
+    if (state.phase === GamePhase.RESOLVING) {
+        const isCorrect = selfState?.isCorrect === true
+        return (
+            <div className={`min-h-dvh flex flex-col ${isCorrect ? 'bg-[#2EAD6B]' : 'bg-[#E2445C]'}`}>
+                {statusBar}
+                <div className="flex-1 flex flex-col items-center justify-center gap-3 p-6 text-center text-white">
+                    {isCorrect ? <Check className="w-20 h-20" /> : <X className="w-20 h-20" />}
+                    <h1 className="text-3xl font-black">
+                        {isCorrect ? '答對了！' : selfState?.answer ? '答錯了' : '時間到'}
+                    </h1>
+                    {isCorrect && <p className="text-xl font-bold">+{selfState?.lastScoreChange ?? 0}</p>}
+                    <p className="font-bold opacity-90">目前第 {placement} 名</p>
+                </div>
+            </div>
+        )
+    }
+
+    const optionKeys = session.optionKeys[state.currentQuestionIndex] ?? []
+    const isPaused = isPresenterPaused(state)
+
+    // Answered - wait for the round to end
+    if (ownAnswer) {
+        const index = optionKeys.indexOf(ownAnswer)
+        return (
+            <div className="min-h-dvh flex flex-col bg-[#F5F8FC]">
+                {statusBar}
+                <div className="flex-1 flex flex-col items-center justify-center gap-4 p-6 text-center">
+                    {index >= 0 && <PresenterOptionMarker index={index} optionKey={ownAnswer} size="lg" />}
+                    <h1 className="text-2xl font-black text-[#333]">已作答</h1>
+                    <p className="text-[#64748b]">等待其他同學...</p>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className="min-h-dvh flex flex-col bg-[#F5F8FC]">
+            {statusBar}
+            <div className="px-4 py-2 flex items-center justify-between text-sm font-bold text-[#64748b]">
+                <span>第 {state.currentQuestionIndex + 1} / {session.questionCount} 題</span>
+                <span>{isPaused ? '暫停中' : `${Math.ceil(timeLeftMs / 1000)} 秒`}</span>
+            </div>
+
+            <div className="relative flex-1 grid grid-cols-2 gap-3 p-3">
+                {optionKeys.map((key, index) => (
+                    <motion.button
+                        key={key}
+                        onClick={() => submitAnswer(key)}
+                        disabled={isPaused || state.phase !== GamePhase.PLAYING}
+                        className="rounded-2xl flex items-center justify-center text-white shadow-lg disabled:opacity-50"
+                        style={{ backgroundColor: getPresenterOptionStyle(index).color }}
+                        whileTap={{ scale: 0.95 }}
+                    >
+                        <span className="flex flex-col items-center font-black leading-none">
+                            <span className="text-6xl">{getPresenterOptionStyle(index).shape}</span>
+                            <span className="text-2xl mt-2">{key.toUpperCase()}</span>
+                        </span>
+                    </motion.button>
+                ))}
+
+                {isPaused && (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-[#F5F8FC]/80">
+                        <Pause className="w-14 h-14 text-[#5B8BD4]" />
+                        <p className="text-xl font-black text-[#333]">老師暫停了</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
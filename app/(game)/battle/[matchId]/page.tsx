@@ -1,16 +1,21 @@
 'use client'
 
-import { useEffect, Suspense } from 'react'
+import { useEffect, useState, Suspense } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useParams, useRouter } from 'next/navigation'
+import { Eye, Link2, Check } from 'lucide-react'
 import { Avatar } from '@/components/game/Avatar'
 import { StatusBubble } from '@/components/game/StatusBubble'
 import { BatteryScore } from '@/components/game/BatteryScore'
 import { OptionCard } from '@/components/game/OptionCard'
 import { BattleIntro } from '@/components/game/BattleIntro'
+import { Scoreboard } from '@/components/game/Scoreboard'
+import { LivesIndicator } from '@/components/game/LivesIndicator'
+import { PowerUpBar } from '@/components/game/PowerUpBar'
 import { useGameClient } from '@/lib/game-engine/useGameClient'
 import { GamePhase, type ClientQuestion } from '@/types/game'
-import { rankToLevel } from '@/lib/config/game'
+import type { ClientPlayerView } from '@/lib/game-engine/server/GameStore'
+import { rankToLevel, GAME_MODES, POWER_UPS } from '@/lib/config/game'
 import { TargetLanguage } from '@prisma/client'
 import { getLanguageConfig } from '@/lib/config/factory'
 
@@ -32,13 +37,38 @@ function BattleContent() {
         currentQuestion,
         selfAnswered,
         opponentAnswered,
+        answeredCount,
+        isConnected,
+        justReconnected,
+        spectatorCount,
+        powerUps,
         handleAnswer,
+        handlePowerUp,
     } = useGameClient(matchId)
 
+    // Friends watch through /watch - copying the link gives brief feedback
+    const [watchLinkCopied, setWatchLinkCopied] = useState(false)
+    const copyWatchLink = async () => {
+        try {
+            await navigator.clipboard.writeText(`${window.location.origin}/watch/${matchId}`)
+            setWatchLinkCopied(true)
+            setTimeout(() => setWatchLinkCopied(false), 2000)
+        } catch {
+            console.error('Failed to copy watch link')
+        }
+    }
+
     // Derived state from view
     const totalQuestions = gameSession?.questions.length || 10
     const selfState = view?.self || null
     const opponentState = view?.opponent || null
+    const isMultiplayer = (view?.players.length ?? 0) > 2
+
+    // Game mode (survival / sudden death show lives, time attack runs one clock for everyone)
+    const gameMode = view?.gameMode ?? 'classic'
+    const maxLives = GAME_MODES[gameMode].lives
+    const isTimeAttackMode = gameMode === 'time_attack'
+    const activePlayerCount = view?.players.filter(p => !p.isEliminated).length ?? 0
 
     // Get language and rank from session (loaded from match)
     const langParam = gameSession?.targetLanguage || 'JP'
@@ -48,6 +78,13 @@ function BattleContent() {
     const showIntro = view?.phase === GamePhase.READY && (view?.currentQuestionIndex ?? 0) === 0
     const isRevealing = view?.phase === GamePhase.READY && (view?.currentQuestionIndex ?? 0) > 0
 
+    // Non-players watch instead (read-only, never sees answers early)
+    useEffect(() => {
+        if (hookError === 'NOT_A_PLAYER' && matchId) {
+            router.replace(`/watch/${matchId}`)
+        }
+    }, [hookError, matchId, router])
+
     // Navigate to results when game is finished
     useEffect(() => {
         if (view?.phase === GamePhase.FINISHED && matchId) {
@@ -67,6 +104,8 @@ function BattleContent() {
         }
 
         if (view.self.answer === optionId) {
+            // Correctness arrives with the server acknowledgement
+            if (view.self.isCorrect === null) return 'selected'
             return view.self.isCorrect ? 'correct' : 'incorrect'
         }
 
@@ -74,7 +113,7 @@ function BattleContent() {
     }
 
     // Error state
-    if (hookError) {
+    if (hookError && hookError !== 'NOT_A_PLAYER') {
         let title = '😿';
         let message = hookError;
         const buttonText = '返回首頁';
@@ -103,7 +142,7 @@ function BattleContent() {
         )
     }
 
-    // Loading state
+    // Loading state (also while redirecting spectators)
     if (isLoading || !view) {
         return (
             <div className="min-h-dvh flex items-center justify-center bg-white">
@@ -115,6 +154,19 @@ function BattleContent() {
         )
     }
 
+    // Time attack: answered every question before the clock ran out
+    if (!currentQuestion && isTimeAttackMode) {
+        return (
+            <div className="min-h-dvh flex items-center justify-center bg-white p-6">
+                <div className="text-center">
+                    <div className="text-6xl mb-4">🏁</div>
+                    <p className="text-[#333] font-bold mb-2">已完成所有題目！</p>
+                    <p className="text-sm text-[#64748b]">等待其他玩家 · 剩餘 {timeLeft} 秒</p>
+                </div>
+            </div>
+        )
+    }
+
     // Data Integrity Error
     if (!currentQuestion) {
         return (
@@ -135,7 +187,7 @@ function BattleContent() {
     }
 
     const isShowingResult = view.phase === GamePhase.RESOLVING
-    const canProceed = isShowingResult && opponentAnswered
+    const canAnswer = !isRevealing && !isShowingResult && !selfAnswered && !view.self.isEliminated
 
     return (
         <div
@@ -150,28 +202,84 @@ function BattleContent() {
                         playerAvatar={selfState?.avatar}
                         opponentAvatar={opponentState?.avatar}
                         playerName={selfState?.name || 'You'}
-                        opponentName={opponentState?.name || 'Opponent'}
+                        opponentName={isMultiplayer ? `${view.players.length - 1} 位對手` : (opponentState?.name || 'Opponent')}
                         onComplete={() => { }}
                     />
                 )}
             </AnimatePresence>
 
             {/* Header */}
-            <header className="bg-white px-4 py-3 border-b-2 border-[#D5E3F7]">
+            <header className="bg-white px-4 py-3 border-b-2 border-[#D5E3F7] relative">
                 <motion.h1
                     className="text-2xl font-bold text-center text-[#333]"
                     animate={{ opacity: 1, y: 0 }}
                 >
                     {getLanguageConfig(langParam).examName} {rankToLevel(langParam as TargetLanguage, rankParam)}
                 </motion.h1>
+                <button
+                    onClick={copyWatchLink}
+                    className="absolute left-4 top-1/2 -translate-y-1/2 p-1.5 rounded-full text-[#64748b] hover:bg-[#D5E3F7] transition-colors"
+                    title="複製觀戰連結"
+                >
+                    {watchLinkCopied ? <Check className="w-4 h-4 text-[#22c55e]" /> : <Link2 className="w-4 h-4" />}
+                </button>
+                {spectatorCount > 0 && (
+                    <span className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center gap-1 text-xs font-bold text-[#64748b]">
+                        <Eye className="w-3.5 h-3.5" />
+                        {spectatorCount}
+                    </span>
+                )}
             </header>
 
+            {/* Connection Banner */}
+            <AnimatePresence>
+                {(!isConnected || justReconnected || (!isMultiplayer && view.opponent.isDisconnected)) && (
+                    <motion.div
+                        className={`px-4 py-2 text-center text-sm font-bold ${!isConnected
+                            ? 'bg-[#fee2e2] text-[#ef4444]'
+                            : justReconnected ? 'bg-[#dcfce7] text-[#16a34a]' : 'bg-[#fef3c7] text-[#d97706]'
+                            }`}
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                    >
+                        {!isConnected
+                            ? '連線中斷，重新連線中...'
+                            : justReconnected
+                                ? view.phase === GamePhase.PLAYING ? `已重新連線 · 剩餘 ${timeLeft} 秒` : '已重新連線'
+                                : '對手已斷線，等待對方重新連線...'}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* Eliminated Banner (survival / sudden death) */}
+            {view.self.isEliminated && (
+                <div className="px-4 py-2 text-center text-sm font-bold bg-[#f1f5f9] text-[#64748b]">
+                    你已被淘汰，繼續觀看至對戰結束
+                </div>
+            )}
+
             {/* Question Area */}
             <section className="bg-white px-4 py-6 border-b-2 border-[#D5E3F7]">
                 <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center gap-2">
                         <span className="text-2xl font-bold text-[#5B8BD4]">Q{view.currentQuestionIndex + 1}</span>
-                        <span className="text-[#64748b] text-sm">/ {totalQuestions}</span>
+                        {gameMode === 'classic' && (
+                            <span className="text-[#64748b] text-sm">/ {totalQuestions}</span>
+                        )}
+                        {maxLives !== null && view.self.lives !== null && (
+                            <LivesIndicator lives={view.self.lives} maxLives={maxLives} />
+                        )}
+                        {isTimeAttackMode && view.self.isCorrect !== null && (
+                            <motion.span
+                                key={`result-${view.currentQuestionIndex}`}
+                                className={`px-2 py-0.5 rounded-full text-xs font-bold text-white ${view.self.isCorrect ? 'bg-[#22c55e]' : 'bg-[#ef4444]'}`}
+                                initial={{ opacity: 0, scale: 0.6 }}
+                                animate={{ opacity: 1, scale: 1 }}
+                            >
+                                {view.self.isCorrect ? '正確!' : '錯誤...'}
+                            </motion.span>
+                        )}
                     </div>
                     <motion.div
                         className={`px-3 py-1 rounded-full font-bold ${timeLeft <= 5 ? 'bg-[#fee2e2] text-[#ef4444]' : 'bg-[#D5E3F7] text-[#333]'
@@ -204,21 +312,21 @@ function BattleContent() {
                     {Object.entries(currentQuestion.options).map(([key, value], index) => (
                         <motion.div
                             key={`q${view.currentQuestionIndex}-${key}`}
-                            animate={{ opacity: 1, y: 0 }}
+                            animate={{ opacity: powerUps.removedOptions.includes(key) ? 0.3 : 1, y: 0 }}
                             transition={{ delay: index * 0.15, duration: 0.3 }}
                         >
                             <OptionCard
                                 id={key}
                                 text={value as string}
                                 state={getOptionState(key)}
-                                disabled={isRevealing || isShowingResult || selfAnswered}
+                                disabled={!canAnswer || powerUps.removedOptions.includes(key)}
                                 index={index}
                                 onClick={() => handleAnswer(key)}
                                 selfBadge={view.self.answer === key ? {
                                     avatar: selfState?.avatar,
                                     fallback: selfState?.name?.charAt(0) || '🦜'
                                 } : null}
-                                opponentBadge={isShowingResult && view.opponent.answer === key ? {
+                                opponentBadge={!isMultiplayer && isShowingResult && view.opponent.answer === key ? {
                                     avatar: opponentState?.avatar,
                                     fallback: opponentState?.isBot ? '🤖' : (opponentState?.name?.charAt(0) || 'O')
                                 } : null}
@@ -227,6 +335,18 @@ function BattleContent() {
                     ))}
                 </div>
 
+                {/* Power-ups (one charge each per match) */}
+                {!view.self.isEliminated && (
+                    <div className="mt-4">
+                        <PowerUpBar
+                            available={powerUps.available}
+                            active={powerUps.active}
+                            disabled={!canAnswer || view.phase !== GamePhase.PLAYING}
+                            onUse={handlePowerUp}
+                        />
+                    </div>
+                )}
+
                 <AnimatePresence>
                     {isShowingResult && (
                         <motion.div
@@ -242,93 +362,157 @@ function BattleContent() {
 
             <div className="h-1 bg-[#D5E3F7]" />
 
+            {/* Multiplayer Scoreboard */}
+            {isMultiplayer && (
+                <section className="bg-[#D5E3F7] px-4 py-4">
+                    <div className="flex items-center justify-between mb-2 text-xs font-bold text-[#64748b]">
+                        <span>即時排名</span>
+                        {view.phase === GamePhase.PLAYING && !isTimeAttackMode && (
+                            <span>{answeredCount} / {activePlayerCount} 已作答</span>
+                        )}
+                    </div>
+                    <Scoreboard
+                        players={view.players}
+                        selfPlayerId={view.self.playerId}
+                        phase={view.phase}
+                        gameMode={gameMode}
+                    />
+                </section>
+            )}
+
             {/* Battle Area */}
-            <section className="bg-[#D5E3F7] px-4 py-4 flex items-center justify-between gap-2">
-                {/* Player (Left) */}
-                <motion.div
-                    className="flex items-center gap-3 relative"
-                    initial={{ opacity: 0, x: -50 }}
-                    animate={{ opacity: 1, x: 0 }}
-                >
-                    <div className="relative">
-                        <Avatar
-                            src={selfState?.avatar || '/mascot-parrot.jpg'}
-                            alt={selfState?.name || 'Player'}
-                            fallback={selfState?.name?.charAt(0) || '🦜'}
-                            size="md"
-                            badge="online"
-                        />
-                        <div className="absolute -top-8 -right-4 min-w-[80px]">
-                            {view.phase === GamePhase.PLAYING && !selfAnswered && (
-                                <StatusBubble text="等待作答..." variant="waiting" direction="left" />
-                            )}
-                            {(view.phase === GamePhase.PLAYING || view.phase === GamePhase.RESOLVING) && selfAnswered && (
-                                <StatusBubble
-                                    text={view.self.isCorrect ? '正確!' : '錯誤...'}
-                                    variant={view.self.isCorrect ? 'correct' : 'incorrect'}
-                                    direction="left"
-                                />
-                            )}
-                            {view.phase === GamePhase.RESOLVING && !selfAnswered && (
-                                <StatusBubble text="超時!" variant="timeout" direction="left" />
-                            )}
+            {!isMultiplayer && (
+                <section className="bg-[#D5E3F7] px-4 py-4 flex items-center justify-between gap-2">
+                    {/* Player (Left) */}
+                    <motion.div
+                        className="flex items-center gap-3 relative"
+                        initial={{ opacity: 0, x: -50 }}
+                        animate={{ opacity: 1, x: 0 }}
+                    >
+                        <div className="relative">
+                            <Avatar
+                                src={selfState?.avatar || '/mascot-parrot.jpg'}
+                                alt={selfState?.name || 'Player'}
+                                fallback={selfState?.name?.charAt(0) || '🦜'}
+                                size="md"
+                                badge="online"
+                            />
+                            <div className="absolute -top-8 -right-4 min-w-[80px]">
+                                {view.self.isEliminated && (
+                                    <StatusBubble text="淘汰" variant="timeout" direction="left" />
+                                )}
+                                {!view.self.isEliminated && !isTimeAttackMode && view.phase === GamePhase.PLAYING && !selfAnswered && (
+                                    <StatusBubble text="等待作答..." variant="waiting" direction="left" />
+                                )}
+                                {!isTimeAttackMode && view.phase === GamePhase.PLAYING && selfAnswered && view.self.isCorrect === null && (
+                                    <StatusBubble text="已作答" variant="waiting" direction="left" />
+                                )}
+                                {!isTimeAttackMode && (view.phase === GamePhase.PLAYING || view.phase === GamePhase.RESOLVING) && selfAnswered && view.self.isCorrect !== null && (
+                                    <StatusBubble
+                                        text={view.self.isCorrect ? '正確!' : '錯誤...'}
+                                        variant={view.self.isCorrect ? 'correct' : 'incorrect'}
+                                        direction="left"
+                                    />
+                                )}
+                                {!view.self.isEliminated && !isTimeAttackMode && view.phase === GamePhase.RESOLVING && !selfAnswered && (
+                                    <StatusBubble text="超時!" variant="timeout" direction="left" />
+                                )}
+                            </div>
                         </div>
-                    </div>
 
-                    <div className="flex flex-col items-start gap-1">
-                        <BatteryScore
-                            score={selfState?.score || 0}
-                            variant="default"
-                            lastScoreChange={view.self.lastScoreChange}
-                        />
+                        <div className="flex flex-col items-start gap-1">
+                            <BatteryScore
+                                score={selfState?.score || 0}
+                                variant="default"
+                                lastScoreChange={view.self.lastScoreChange}
+                            />
+                            <DuelModeStatus player={view.self} maxLives={maxLives} isTimeAttack={isTimeAttackMode} />
 
-                    </div>
-                </motion.div>
+                        </div>
+                    </motion.div>
 
-                {/* Opponent (Right) */}
-                <motion.div
-                    className="flex items-center gap-3 flex-row-reverse relative"
-                    initial={{ opacity: 0, x: 50 }}
-                    animate={{ opacity: 1, x: 0 }}
-                >
-                    <div className="relative">
-                        <Avatar
-                            src={opponentState?.avatar || '/mascot-robot.jpg'}
-                            alt={opponentState?.name || 'Bot'}
-                            fallback={opponentState?.isBot ? '🤖' : opponentState?.name?.charAt(0) || 'O'}
-                            size="md"
-                            badge={opponentState?.isBot ? 'ai' : 'online'}
-                        />
-                        <div className="absolute -top-8 -left-2 min-w-[80px]">
-                            {view.phase === GamePhase.PLAYING && !opponentAnswered && (
-                                <StatusBubble text="思考中..." variant="thinking" direction="right" />
-                            )}
-                            {(view.phase === GamePhase.PLAYING || view.phase === GamePhase.RESOLVING) && opponentAnswered && (
-                                <StatusBubble
-                                    text={view.opponent.isCorrect ? '正確!' : '錯誤...'}
-                                    variant={view.opponent.isCorrect ? 'correct' : 'incorrect'}
-                                    direction="right"
-                                />
-                            )}
-                            {view.phase === GamePhase.RESOLVING && !opponentAnswered && (
-                                <StatusBubble text="超時!" variant="timeout" direction="right" />
-                            )}
+                    {/* Opponent (Right) */}
+                    <motion.div
+                        className="flex items-center gap-3 flex-row-reverse relative"
+                        initial={{ opacity: 0, x: 50 }}
+                        animate={{ opacity: 1, x: 0 }}
+                    >
+                        <div className="relative">
+                            <Avatar
+                                src={opponentState?.avatar || '/mascot-robot.jpg'}
+                                alt={opponentState?.name || 'Bot'}
+                                fallback={opponentState?.isBot ? '🤖' : opponentState?.name?.charAt(0) || 'O'}
+                                size="md"
+                                badge={opponentState?.isBot ? 'ai' : opponentState?.isDisconnected ? undefined : 'online'}
+                            />
+                            <div className="absolute -top-8 -left-2 min-w-[80px]">
+                                {view.opponent.isEliminated && (
+                                    <StatusBubble text="淘汰" variant="timeout" direction="right" />
+                                )}
+                                {!view.opponent.isEliminated && view.phase === GamePhase.PLAYING && !opponentAnswered && (
+                                    <StatusBubble
+                                        text={view.opponent.isDisconnected ? '離線中' : '思考中...'}
+                                        variant={view.opponent.isDisconnected ? 'timeout' : 'thinking'}
+                                        direction="right"
+                                    />
+                                )}
+                                {view.phase === GamePhase.PLAYING && opponentAnswered && (
+                                    <StatusBubble text="已作答" variant="waiting" direction="right" />
+                                )}
+                                {view.phase === GamePhase.RESOLVING && opponentAnswered && (
+                                    <StatusBubble
+                                        text={view.opponent.isCorrect ? '正確!' : '錯誤...'}
+                                        variant={view.opponent.isCorrect ? 'correct' : 'incorrect'}
+                                        direction="right"
+                                    />
+                                )}
+                                {!view.opponent.isEliminated && !isTimeAttackMode && view.phase === GamePhase.RESOLVING && !opponentAnswered && (
+                                    <StatusBubble text="超時!" variant="timeout" direction="right" />
+                                )}
+                            </div>
                         </div>
-                    </div>
 
-                    <div className="flex flex-col items-end gap-1">
-                        <BatteryScore
-                            score={opponentState?.score || 0}
-                            variant="opponent"
-                            lastScoreChange={view.opponent.lastScoreChange}
-                        />
-                    </div>
-                </motion.div>
-            </section>
+                        <div className="flex flex-col items-end gap-1">
+                            <BatteryScore
+                                score={opponentState?.score || 0}
+                                variant="opponent"
+                                lastScoreChange={view.opponent.lastScoreChange}
+                            />
+                            <DuelModeStatus player={view.opponent} maxLives={maxLives} isTimeAttack={isTimeAttackMode} />
+                        </div>
+                    </motion.div>
+                </section>
+            )}
         </div>
     )
 }
 
+/**
+ * Lives (survival / sudden death) or progress (time attack) under a duel player's score,
+ * plus the power-ups they used on the current question
+ */
+function DuelModeStatus({ player, maxLives, isTimeAttack }: {
+    player: ClientPlayerView
+    maxLives: number | null
+    isTimeAttack: boolean
+}) {
+    return (
+        <>
+            {maxLives !== null && player.lives !== null && (
+                <LivesIndicator lives={player.lives} maxLives={maxLives} size="sm" />
+            )}
+            {isTimeAttack && (
+                <span className="text-xs font-bold text-[#64748b]">已答 {player.questionIndex} 題</span>
+            )}
+            {player.activePowerUps.length > 0 && (
+                <span className="text-xs" title={player.activePowerUps.map(type => POWER_UPS[type].label).join('、')}>
+                    {player.activePowerUps.map(type => POWER_UPS[type].icon).join(' ')}
+                </span>
+            )}
+        </>
+    )
+}
+
 export default function BattlePage() {
     return (
         <Suspense fallback={
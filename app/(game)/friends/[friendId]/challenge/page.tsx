@@ -0,0 +1,260 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+import { Avatar } from '@/components/game/Avatar'
+import { challengeFriend, getFriends, type FriendInfo } from '@/actions/friend.server'
+import {
+    gameLanguages, questionCounts, levelToRank, GAME_MODES, MATCH_RULE_PRESETS,
+    type GameLanguageConfig, type MatchRulePreset,
+} from '@/lib/config/game'
+import type { GameMode } from '@prisma/client'
+
+/** Challenge errors shown above the button */
+const challengeErrorMessages: Record<string, string> = {
+    'Not friends': '你們已不是好友',
+    'No questions for this language and level': '此難度目前沒有題目，請換個難度',
+}
+
+/**
+ * Challenge setup - pick the match settings, then wait for the friend in the private room
+ */
+export default function ChallengeFriendPage() {
+    const router = useRouter()
+    const params = useParams<{ friendId: string }>()
+    const friendId = params.friendId
+
+    const [friend, setFriend] = useState<FriendInfo | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [selectedLanguage, setSelectedLanguage] = useState<GameLanguageConfig | null>(null)
+    const [selectedLevel, setSelectedLevel] = useState<string | null>(null)
+    const [gameMode, setGameMode] = useState<GameMode>('classic')
+    const [selectedCount, setSelectedCount] = useState<number>(10)
+    const [rulesPreset, setRulesPreset] = useState<MatchRulePreset>('standard')
+    const [isSending, setIsSending] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        getFriends()
+            .then(friends => setFriend(friends.find(f => f.userId === friendId) ?? null))
+            .catch(err => console.error('Failed to load friend:', err))
+            .finally(() => setLoading(false))
+    }, [friendId])
+
+    const isReady = !!friend && !!selectedLanguage && !!selectedLevel
+
+    const handleChallenge = async () => {
+        if (!friend || !selectedLanguage || !selectedLevel) return
+
+        setIsSending(true)
+        setError(null)
+        try {
+            const result = await challengeFriend(friend.userId, {
+                targetLanguage: selectedLanguage.id,
+                rank: levelToRank(selectedLanguage.id, selectedLevel),
+                questionCount: selectedCount,
+                gameMode,
+                rulesPreset,
+            })
+            if (!result.success || !result.matchId) {
+                setError(challengeErrorMessages[result.error ?? ''] ?? '發起挑戰失敗，請稍後再試')
+                setIsSending(false)
+                return
+            }
+            router.push(`/room/${result.matchId}`)
+        } catch (err) {
+            console.error('Failed to challenge friend:', err)
+            setError('發起挑戰失敗，請稍後再試')
+            setIsSending(false)
+        }
+    }
+
+    return (
+        <div className="min-h-dvh flex flex-col bg-[#F5F8FC] relative">
+            {/* Header */}
+            <header className="px-4 py-4 border-b-2 border-[#D5E3F7] flex items-center gap-4 bg-white">
+                <Link
+                    href="/friends"
+                    className="p-2 -ml-2 rounded-full hover:bg-[#D5E3F7] transition-colors"
+                >
+                    <ArrowLeft className="w-5 h-5 text-[#333]" />
+                </Link>
+                <h1 className="text-lg font-bold text-[#333]">發起挑戰</h1>
+            </header>
+
+            {loading ? (
+                <div className="flex justify-center py-12">
+                    <div className="w-10 h-10 border-4 border-[#5B8BD4] border-t-transparent rounded-full animate-spin" />
+                </div>
+            ) : !friend ? (
+                <div className="flex flex-col items-center gap-3 py-12 text-center">
+                    <p className="text-[#64748b]">只能挑戰你的好友</p>
+                    <Link href="/friends" className="text-sm font-bold text-[#5B8BD4]">回到好友列表</Link>
+                </div>
+            ) : (
+                <div className="flex-1 px-4 py-6 pb-28 space-y-6">
+                    {/* Opponent */}
+                    <section className="flex items-center gap-3 p-4 rounded-2xl bg-white border-2 border-[#D5E3F7]">
+                        <Avatar
+                            src={friend.avatar || ''}
+                            alt={friend.name}
+                            fallback={friend.name.substring(0, 1).toUpperCase()}
+                            size="sm"
+                        />
+                        <div className="min-w-0">
+                            <p className="font-black text-[#333] truncate">{friend.name}</p>
+                            <p className="text-xs text-[#64748b] font-medium">對方會在 App 內收到挑戰通知</p>
+                        </div>
+                    </section>
+
+                    {/* Language Selection */}
+                    <section>
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">選擇語言</h2>
+                        <div className="grid grid-cols-2 gap-3">
+                            {gameLanguages.map((lang) => (
+                                <motion.button
+                                    key={lang.id}
+                                    onClick={() => {
+                                        setSelectedLanguage(lang)
+                                        setSelectedLevel(null)
+                                    }}
+                                    className={`p-4 rounded-2xl border-2 transition-all ${selectedLanguage?.id === lang.id
+                                        ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                        : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                        }`}
+                                    whileHover={{ scale: 1.02 }}
+                                    whileTap={{ scale: 0.98 }}
+                                >
+                                    <span className="text-3xl mb-2 block">{lang.flag}</span>
+                                    <span className="font-semibold text-[#333]">{lang.examName}</span>
+                                    <span className="text-xs text-[#64748b] block">{lang.name}</span>
+                                </motion.button>
+                            ))}
+                        </div>
+                    </section>
+
+                    {/* Difficulty Selection */}
+                    {selectedLanguage && (
+                        <motion.section
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                        >
+                            <h2 className="text-sm font-semibold text-[#64748b] mb-3">
+                                選擇難度 ({selectedLanguage.examName})
+                            </h2>
+                            <div className="flex flex-wrap gap-2">
+                                {selectedLanguage.levels.map((level) => (
+                                    <motion.button
+                                        key={level}
+                                        onClick={() => setSelectedLevel(level)}
+                                        className={`px-4 py-2 rounded-xl font-medium transition-all ${selectedLevel === level
+                                            ? 'bg-[#5B8BD4] text-white'
+                                            : 'bg-white border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                                            }`}
+                                        whileHover={{ scale: 1.05 }}
+                                        whileTap={{ scale: 0.95 }}
+                                    >
+                                        {level}
+                                    </motion.button>
+                                ))}
+                            </div>
+                        </motion.section>
+                    )}
+
+                    {/* Game Mode */}
+                    <section>
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">遊戲模式</h2>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(Object.entries(GAME_MODES) as [GameMode, typeof GAME_MODES[GameMode]][]).map(([id, mode]) => (
+                                <motion.button
+                                    key={id}
+                                    onClick={() => setGameMode(id)}
+                                    className={`p-3 rounded-xl border-2 text-left transition-all ${gameMode === id
+                                        ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                        : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                        }`}
+                                    whileHover={{ scale: 1.02 }}
+                                    whileTap={{ scale: 0.98 }}
+                                >
+                                    <span className="font-semibold text-[#333] block">{mode.label}</span>
+                                    <span className="text-xs text-[#64748b]">{mode.description}</span>
+                                </motion.button>
+                            ))}
+                        </div>
+                    </section>
+
+                    {/* Question Count (modes with a question pool play until they end) */}
+                    {GAME_MODES[gameMode].questionPool === null && (
+                        <section>
+                            <h2 className="text-sm font-semibold text-[#64748b] mb-3">題數</h2>
+                            <div className="flex gap-3">
+                                {questionCounts.map((count) => (
+                                    <motion.button
+                                        key={count}
+                                        onClick={() => setSelectedCount(count)}
+                                        className={`flex-1 py-3 rounded-xl font-bold text-lg transition-all ${selectedCount === count
+                                            ? 'bg-[#5B8BD4] text-white'
+                                            : 'bg-white border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                                            }`}
+                                        whileHover={{ scale: 1.02 }}
+                                        whileTap={{ scale: 0.98 }}
+                                    >
+                                        {count}題
+                                    </motion.button>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+
+                    {/* Rules */}
+                    <section>
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">規則</h2>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(Object.entries(MATCH_RULE_PRESETS) as [MatchRulePreset, typeof MATCH_RULE_PRESETS[MatchRulePreset]][]).map(([id, preset]) => (
+                                <motion.button
+                                    key={id}
+                                    onClick={() => setRulesPreset(id)}
+                                    className={`p-3 rounded-xl border-2 text-left transition-all ${rulesPreset === id
+                                        ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                        : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                        }`}
+                                    whileHover={{ scale: 1.02 }}
+                                    whileTap={{ scale: 0.98 }}
+                                >
+                                    <span className="font-semibold text-[#333] block">{preset.label}</span>
+                                    <span className="text-xs text-[#64748b]">{preset.description}</span>
+                                </motion.button>
+                            ))}
+                        </div>
+                    </section>
+
+                    {error && (
+                        <p className="text-sm font-semibold text-red-500 text-center">{error}</p>
+                    )}
+                </div>
+            )}
+
+            {/* Fixed Bottom Button */}
+            {friend && (
+                <div className="fixed bottom-0 left-1/2 -translate-x-1/2 w-full max-w-[480px] p-4 bg-linear-gradient-to-t from-[#F5F8FC] via-[#F5F8FC]/95 to-transparent">
+                    <motion.button
+                        onClick={handleChallenge}
+                        disabled={!isReady || isSending}
+                        className={`w-full py-4 text-lg font-semibold rounded-2xl transition-all ${isReady && !isSending
+                            ? 'bg-[#5B8BD4] text-white'
+                            : 'bg-[#D5E3F7] text-[#64748b] cursor-not-allowed'
+                            }`}
+                        style={{ boxShadow: isReady && !isSending ? '0 10px 25px -5px rgba(91, 139, 212, 0.4)' : 'none' }}
+                        whileHover={isReady && !isSending ? { scale: 1.02, backgroundColor: '#4A7BC4' } : {}}
+                        whileTap={isReady && !isSending ? { scale: 0.98 } : {}}
+                    >
+                        {isSending ? '建立中...' : `挑戰 ${friend.name}`}
+                    </motion.button>
+                </div>
+            )}
+        </div>
+    )
+}
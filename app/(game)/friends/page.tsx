@@ -0,0 +1,300 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import Link from 'next/link'
+import { Check, ChevronLeft, Search, Swords, UserMinus, UserPlus, Users, X } from 'lucide-react'
+import { Avatar } from '@/components/game/Avatar'
+import {
+    getFriends,
+    getFriendRequests,
+    searchUsers,
+    sendFriendRequest,
+    respondToFriendRequest,
+    removeFriend,
+    type FriendInfo,
+    type FriendRequestInfo,
+    type UserSearchResult,
+} from '@/actions/friend.server'
+import { FRIEND_PRESENCE, FRIEND_SEARCH_MIN_LENGTH, PRESENCE_HEARTBEAT_MS } from '@/lib/config/friends'
+
+const SEARCH_DEBOUNCE_MS = 300
+
+/** Action errors shown under the search */
+const actionErrorMessages: Record<string, string> = {
+    'Already friends': '你們已經是好友了',
+    'Request already sent': '已經送出邀請',
+    'Friend limit reached': '好友人數已達上限',
+    'User not found': '找不到這位玩家',
+}
+
+const RELATION_LABELS: Record<Exclude<UserSearchResult['relation'], 'none'>, string> = {
+    friend: '已是好友',
+    outgoing: '已送出邀請',
+    incoming: '對方已邀請你',
+}
+
+/**
+ * Friends - search and requests, then the friends list with presence, head-to-head records and challenges
+ */
+export default function FriendsPage() {
+    const [friends, setFriends] = useState<FriendInfo[]>([])
+    const [requests, setRequests] = useState<FriendRequestInfo[]>([])
+    const [loading, setLoading] = useState(true)
+    const [query, setQuery] = useState('')
+    const [results, setResults] = useState<UserSearchResult[]>([])
+    const [error, setError] = useState<string | null>(null)
+
+    const loadFriends = useCallback(async () => {
+        try {
+            const [friendList, requestList] = await Promise.all([getFriends(), getFriendRequests()])
+            setFriends(friendList)
+            setRequests(requestList)
+        } catch (err) {
+            console.error('Failed to load friends:', err)
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    // Presence changes on its own - refresh at the heartbeat pace
+    useEffect(() => {
+        loadFriends()
+        const timer = setInterval(loadFriends, PRESENCE_HEARTBEAT_MS)
+        return () => clearInterval(timer)
+    }, [loadFriends])
+
+    useEffect(() => {
+        if (query.trim().length < FRIEND_SEARCH_MIN_LENGTH) {
+            setResults([])
+            return
+        }
+        const timer = setTimeout(() => {
+            searchUsers(query)
+                .then(setResults)
+                .catch(err => console.error('Failed to search users:', err))
+        }, SEARCH_DEBOUNCE_MS)
+        return () => clearTimeout(timer)
+    }, [query])
+
+    const runAction = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+        setError(null)
+        const result = await action()
+        if (!result.success) setError(actionErrorMessages[result.error ?? ''] ?? '操作失敗，請稍後再試')
+        await loadFriends()
+        if (query.trim().length >= FRIEND_SEARCH_MIN_LENGTH) {
+            setResults(await searchUsers(query))
+        }
+    }
+
+    const incoming = requests.filter(r => r.direction === 'incoming')
+    const outgoing = requests.filter(r => r.direction === 'outgoing')
+
+    return (
+        <div className="min-h-dvh flex flex-col bg-[#F5F8FC]">
+            {/* Header */}
+            <header className="px-4 py-4 border-b-2 border-[#D5E3F7] flex items-center gap-4 bg-white sticky top-0 z-10">
+                <Link
+                    href="/lobby"
+                    className="p-2 -ml-2 rounded-full hover:bg-[#D5E3F7] transition-colors"
+                >
+                    <ChevronLeft className="w-5 h-5 text-[#333]" />
+                </Link>
+                <h1 className="text-lg font-bold text-[#333]">好友</h1>
+            </header>
+
+            <div className="flex-1 px-4 py-6 space-y-6">
+                {/* Search */}
+                <section>
+                    <div className="relative">
+                        <Search className="w-4 h-4 text-[#64748b] absolute left-4 top-1/2 -translate-y-1/2" />
+                        <input
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="輸入名稱搜尋玩家"
+                            className="w-full pl-10 pr-4 py-3 rounded-xl border-2 border-[#D5E3F7] bg-white text-[#333] font-semibold focus:outline-none focus:border-[#5B8BD4]"
+                        />
+                    </div>
+                    {results.length > 0 && (
+                        <div className="mt-3 space-y-2">
+                            {results.map(user => (
+                                <div key={user.userId} className="flex items-center gap-3 p-3 rounded-2xl bg-white border-2 border-[#D5E3F7]">
+                                    <Avatar
+                                        src={user.avatar || ''}
+                                        alt={user.name}
+                                        fallback={user.name.substring(0, 1).toUpperCase()}
+                                        size="sm"
+                                    />
+                                    <p className="flex-1 min-w-0 font-bold text-[#333] truncate">{user.name}</p>
+                                    {user.relation === 'none' ? (
+                                        <button
+                                            onClick={() => runAction(() => sendFriendRequest(user.userId))}
+                                            className="flex items-center gap-1 px-3 py-1.5 rounded-xl bg-[#5B8BD4] text-white text-xs font-bold hover:bg-[#4A7BC4] transition-colors"
+                                        >
+                                            <UserPlus className="w-3.5 h-3.5" />
+                                            加好友
+                                        </button>
+                                    ) : (
+                                        <span className="text-xs font-bold text-[#64748b]">{RELATION_LABELS[user.relation]}</span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {error && (
+                        <p className="mt-3 text-sm font-semibold text-red-500 text-center">{error}</p>
+                    )}
+                </section>
+
+                {/* Requests */}
+                {incoming.length > 0 && (
+                    <section>
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">好友邀請</h2>
+                        <div className="space-y-2">
+                            {incoming.map(request => (
+                                <div key={request.id} className="flex items-center gap-3 p-3 rounded-2xl bg-white border-2 border-[#5B8BD4]">
+                                    <Avatar
+                                        src={request.avatar || ''}
+                                        alt={request.name}
+                                        fallback={request.name.substring(0, 1).toUpperCase()}
+                                        size="sm"
+                                    />
+                                    <p className="flex-1 min-w-0 font-bold text-[#333] truncate">{request.name}</p>
+                                    <button
+                                        onClick={() => runAction(() => respondToFriendRequest(request.id, false))}
+                                        className="p-2 rounded-xl bg-[#F5F8FC] text-[#64748b] hover:bg-[#D5E3F7] transition-colors"
+                                        aria-label="拒絕"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => runAction(() => respondToFriendRequest(request.id, true))}
+                                        className="p-2 rounded-xl bg-[#5B8BD4] text-white hover:bg-[#4A7BC4] transition-colors"
+                                        aria-label="接受"
+                                    >
+                                        <Check className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                {outgoing.length > 0 && (
+                    <section>
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">等待回覆</h2>
+                        <div className="space-y-2">
+                            {outgoing.map(request => (
+                                <div key={request.id} className="flex items-center gap-3 p-3 rounded-2xl bg-white border-2 border-[#D5E3F7]">
+                                    <Avatar
+                                        src={request.avatar || ''}
+                                        alt={request.name}
+                                        fallback={request.name.substring(0, 1).toUpperCase()}
+                                        size="sm"
+                                    />
+                                    <p className="flex-1 min-w-0 font-bold text-[#333] truncate">{request.name}</p>
+                                    <button
+                                        onClick={() => runAction(() => removeFriend(request.userId))}
+                                        className="px-3 py-1.5 rounded-xl bg-[#F5F8FC] text-[#64748b] text-xs font-bold hover:bg-[#D5E3F7] transition-colors"
+                                    >
+                                        取消邀請
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                {/* Friends */}
+                <section>
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">我的好友 ({friends.length})</h2>
+                    {loading ? (
+                        <div className="flex justify-center py-12">
+                            <div className="w-10 h-10 border-4 border-[#5B8BD4] border-t-transparent rounded-full animate-spin" />
+                        </div>
+                    ) : friends.length === 0 ? (
+                        <div className="flex flex-col items-center gap-3 py-12 text-center">
+                            <Users className="w-12 h-12 text-[#D5E3F7]" />
+                            <p className="text-[#64748b]">還沒有好友，搜尋名稱加入吧！</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {friends.map((friend, index) => (
+                                <motion.div
+                                    key={friend.userId}
+                                    className="p-4 rounded-2xl bg-white border-2 border-[#D5E3F7]"
+                                    initial={{ opacity: 0, y: 10 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    transition={{ delay: index * 0.05 }}
+                                >
+                                    <div className="flex items-center gap-3">
+                                        <div className="relative shrink-0">
+                                            <Avatar
+                                                src={friend.avatar || ''}
+                                                alt={friend.name}
+                                                fallback={friend.name.substring(0, 1).toUpperCase()}
+                                                size="sm"
+                                            />
+                                            <span
+                                                className="absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5 rounded-full border-2 border-white"
+                                                style={{ backgroundColor: FRIEND_PRESENCE[friend.presence].color }}
+                                            />
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-bold text-[#333] truncate">{friend.name}</p>
+                                            <p className="text-xs font-bold mt-0.5" style={{ color: FRIEND_PRESENCE[friend.presence].color }}>
+                                                {FRIEND_PRESENCE[friend.presence].label}
+                                            </p>
+                                        </div>
+                                        <Link
+                                            href={`/friends/${friend.userId}/challenge`}
+                                            className="flex items-center gap-1 px-3 py-1.5 rounded-xl bg-[#5B8BD4] text-white text-xs font-bold hover:bg-[#4A7BC4] transition-colors"
+                                        >
+                                            <Swords className="w-3.5 h-3.5" />
+                                            挑戰
+                                        </Link>
+                                        <button
+                                            onClick={() => {
+                                                if (window.confirm(`確定要將 ${friend.name} 從好友中移除嗎？`)) {
+                                                    runAction(() => removeFriend(friend.userId))
+                                                }
+                                            }}
+                                            className="p-2 rounded-xl text-[#64748b] hover:bg-[#F5F8FC] transition-colors"
+                                            aria-label="移除好友"
+                                        >
+                                            <UserMinus className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <HeadToHeadLine record={friend.headToHead} />
+                                </motion.div>
+                            ))}
+                        </div>
+                    )}
+                </section>
+            </div>
+        </div>
+    )
+}
+
+/**
+ * Record against a friend: wins, losses and draws from the caller's side
+ */
+function HeadToHeadLine({ record }: { record: FriendInfo['headToHead'] }) {
+    const total = record.wins + record.losses + record.draws
+    if (total === 0) {
+        return <p className="mt-3 text-xs text-[#64748b] font-medium">還沒交手過，發起挑戰吧！</p>
+    }
+
+    return (
+        <div className="mt-3 flex items-center gap-3 text-xs font-bold">
+            <span className="text-[#22c55e]">{record.wins} 勝</span>
+            <span className="text-[#ef4444]">{record.losses} 敗</span>
+            {record.draws > 0 && <span className="text-[#64748b]">{record.draws} 和</span>}
+            <div className="flex-1 h-1.5 rounded-full bg-[#F5F8FC] overflow-hidden flex">
+                <div className="h-full bg-[#22c55e]" style={{ width: `${(record.wins / total) * 100}%` }} />
+                <div className="h-full bg-[#94A3B8]" style={{ width: `${(record.draws / total) * 100}%` }} />
+                <div className="h-full bg-[#ef4444]" style={{ width: `${(record.losses / total) * 100}%` }} />
+            </div>
+        </div>
+    )
+}
@@ -117,7 +117,11 @@ export default function HistoryPage() {
                                 <div className="flex items-center gap-4">
                                     <div className="text-right">
                                         <p className="text-lg font-bold text-[#5B8BD4]">{match.playerScore}</p>
-                                        <p className="text-xs text-[#64748b]">vs {match.opponentScore}</p>
+                                        <p className="text-xs text-[#64748b]">
+                                            {match.playerCount > 2 && match.placement
+                                                ? `第 ${match.placement} / ${match.playerCount} 名`
+                                                : `vs ${match.opponentScore}`}
+                                        </p>
                                     </div>
                                     <ChevronRight className="w-5 h-5 text-[#CBD5E1]" />
                                 </div>
@@ -0,0 +1,132 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import { motion } from 'framer-motion'
+import Link from 'next/link'
+import { Lock, X } from 'lucide-react'
+import { joinWaitingMatchByCode } from '@/actions/game.server'
+import { ROOM_PASSPHRASE_MAX_LENGTH } from '@/lib/config/game'
+
+/** Server join errors shown to the player */
+const joinErrorMessages: Record<string, string> = {
+    'Room not found': '找不到房間，代碼可能已失效',
+    'Match is full': '房間已滿',
+    'Match is no longer waiting': '對戰已經開始',
+    'Removed from this match by the host': '你已被房主移出此房間',
+    'Wrong passphrase': '密語錯誤',
+    'The presenter cannot join as a player': '你是這個課堂的主持人，請開啟大螢幕',
+}
+
+/**
+ * Invite link for a private room (/join/[code])
+ * Joins right away, or asks for the passphrase first when the room has one
+ * Classroom session PINs lead to the answer pad instead of the waiting room
+ */
+export default function JoinByCodePage() {
+    const params = useParams<{ code: string }>()
+    const router = useRouter()
+    const { data: session, status: sessionStatus } = useSession()
+
+    const [status, setStatus] = useState<'joining' | 'passphrase' | 'error'>('joining')
+    const [passphrase, setPassphrase] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const attemptedRef = useRef(false)
+
+    const join = useCallback(async (withPassphrase?: string) => {
+        if (!session?.user?.id) return
+
+        setStatus('joining')
+        try {
+            const result = await joinWaitingMatchByCode(params.code, session.user.id, withPassphrase)
+            if (result.success && result.matchId) {
+                router.replace(result.presenter ? `/answer/${result.matchId}` : `/room/${result.matchId}`)
+                return
+            }
+            if (result.passphraseRequired) {
+                setError(withPassphrase ? joinErrorMessages[result.error ?? ''] ?? null : null)
+                setStatus('passphrase')
+                return
+            }
+            setError(joinErrorMessages[result.error ?? ''] ?? '加入失敗')
+            setStatus('error')
+        } catch (err) {
+            console.error('Failed to join by code:', err)
+            setError('加入失敗，請重試')
+            setStatus('error')
+        }
+    }, [params.code, session?.user?.id, router])
+
+    // Try once as soon as the session is known
+    useEffect(() => {
+        if (sessionStatus === 'unauthenticated') {
+            setError('請先登入再開啟邀請連結')
+            setStatus('error')
+            return
+        }
+        if (sessionStatus !== 'authenticated' || attemptedRef.current) return
+        attemptedRef.current = true
+        join()
+    }, [sessionStatus, join])
+
+    if (status === 'error') {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC] p-6">
+                <X className="w-16 h-16 text-red-400 mb-4" />
+                <h1 className="text-xl font-bold text-[#333] mb-2">無法加入房間</h1>
+                <p className="text-[#64748b] mb-6">{error}</p>
+                <Link href={sessionStatus === 'unauthenticated' ? '/login' : '/join'}>
+                    <motion.button
+                        className="px-6 py-3 bg-[#5B8BD4] text-white font-semibold rounded-xl"
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                    >
+                        {sessionStatus === 'unauthenticated' ? '前往登入' : '返回加入房間'}
+                    </motion.button>
+                </Link>
+            </div>
+        )
+    }
+
+    if (status === 'passphrase') {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC] p-6">
+                <Lock className="w-14 h-14 text-[#5B8BD4] mb-4" />
+                <h1 className="text-xl font-bold text-[#333] mb-1">輸入房間密語</h1>
+                <p className="text-sm text-[#64748b] mb-6 tracking-widest font-bold">{params.code.toUpperCase()}</p>
+                <form
+                    className="w-full max-w-xs space-y-3"
+                    onSubmit={e => {
+                        e.preventDefault()
+                        if (passphrase.trim()) join(passphrase)
+                    }}
+                >
+                    <input
+                        type="text"
+                        value={passphrase}
+                        maxLength={ROOM_PASSPHRASE_MAX_LENGTH}
+                        onChange={e => setPassphrase(e.target.value)}
+                        autoFocus
+                        className="w-full px-3 py-3 rounded-xl border-2 border-[#D5E3F7] text-[#333] font-bold text-center focus:border-[#5B8BD4] focus:outline-none"
+                    />
+                    {error && <p className="text-sm font-semibold text-red-500 text-center">{error}</p>}
+                    <button
+                        type="submit"
+                        disabled={!passphrase.trim()}
+                        className="w-full py-3 rounded-xl font-semibold bg-[#5B8BD4] text-white hover:bg-[#4A7BC4] disabled:bg-[#D5E3F7] disabled:text-[#64748b] transition-all"
+                    >
+                        加入房間
+                    </button>
+                </form>
+            </div>
+        )
+    }
+
+    return (
+        <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC]">
+            <div className="w-12 h-12 border-4 border-[#5B8BD4] border-t-transparent rounded-full animate-spin" />
+            <p className="mt-4 text-[#64748b]">加入房間中...</p>
+        </div>
+    )
+}
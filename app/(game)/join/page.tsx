@@ -5,9 +5,9 @@ import { motion } from 'framer-motion'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
-import { ArrowLeft, Users, RefreshCw, Clock } from 'lucide-react'
+import { ArrowLeft, Users, RefreshCw, Clock, KeyRound } from 'lucide-react'
 import { getWaitingMatches, joinWaitingMatch, type WaitingMatchInfo } from '@/actions/game.server'
-import { rankToLevel } from '@/lib/config/game'
+import { rankToLevel, describeMatchRules, GAME_MODES, ROOM_CODE_LENGTH } from '@/lib/config/game'
 import type { TargetLanguage } from '@prisma/client'
 import { getGameLanguage } from '@/lib/config/game'
 
@@ -33,6 +33,7 @@ export default function JoinPage() {
     const [isLoading, setIsLoading] = useState(true)
     const [joiningId, setJoiningId] = useState<string | null>(null)
     const [error, setError] = useState<string | null>(null)
+    const [joinCode, setJoinCode] = useState('')
 
     // Load matches on mount and refresh every 5s
     useEffect(() => {
@@ -77,6 +78,13 @@ export default function JoinPage() {
         }
     }
 
+    // Private rooms are joined through the invite link page (handles the passphrase)
+    function handleJoinByCode() {
+        const code = joinCode.replace(/\s+/g, '').toUpperCase()
+        if (code.length !== ROOM_CODE_LENGTH) return
+        router.push(`/join/${code}`)
+    }
+
     function formatTimeAgo(date: Date) {
         const seconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000)
         if (seconds < 60) return `${seconds}秒前`
@@ -106,6 +114,30 @@ export default function JoinPage() {
             </header>
 
             <div className="flex-1 px-4 py-6">
+                {/* Private Room Code */}
+                <div className="mb-6 flex gap-2">
+                    <div className="flex-1 flex items-center gap-2 px-3 rounded-xl border-2 border-[#D5E3F7] bg-white focus-within:border-[#5B8BD4]">
+                        <KeyRound className="w-4 h-4 text-[#64748b] shrink-0" />
+                        <input
+                            type="text"
+                            value={joinCode}
+                            maxLength={ROOM_CODE_LENGTH}
+                            onChange={e => setJoinCode(e.target.value.toUpperCase())}
+                            onKeyDown={e => e.key === 'Enter' && handleJoinByCode()}
+                            placeholder="輸入房間代碼或課堂 PIN"
+                            className="w-full py-2.5 bg-transparent text-[#333] font-bold tracking-widest focus:outline-none"
+                        />
+                    </div>
+                    <motion.button
+                        onClick={handleJoinByCode}
+                        disabled={joinCode.trim().length !== ROOM_CODE_LENGTH}
+                        className="px-4 py-2 rounded-xl font-semibold bg-[#5B8BD4] text-white hover:bg-[#4A7BC4] disabled:bg-[#D5E3F7] disabled:text-[#64748b] transition-all"
+                        whileTap={{ scale: 0.95 }}
+                    >
+                        加入
+                    </motion.button>
+                </div>
+
                 {/* Error Message */}
                 {error && (
                     <motion.div
@@ -159,8 +191,14 @@ export default function JoinPage() {
                                                 {getGameLanguage(match.targetLanguage)?.examName} {rankToLevel(match.targetLanguage, match.rank)}
                                             </p>
                                             <p className="text-sm text-[#64748b]">
-                                                {match.questionCount}題 · 房主: {match.hostName}
+                                                {match.gameMode === 'classic' ? `${match.questionCount}題` : GAME_MODES[match.gameMode].label} · {describeMatchRules(match.rules)} · 房主: {match.hostName}
                                             </p>
+                                            {match.maxPlayers > 2 && (
+                                                <p className="text-xs text-[#5B8BD4] font-semibold flex items-center gap-1 mt-0.5">
+                                                    <Users className="w-3 h-3" />
+                                                    多人對戰 {match.playerCount}/{match.maxPlayers}
+                                                </p>
+                                            )}
                                         </div>
                                     </div>
                                     <motion.button
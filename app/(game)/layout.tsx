@@ -2,6 +2,7 @@
 
 import { AnimatePresence, motion } from 'framer-motion'
 import { usePathname } from 'next/navigation'
+import { ChallengeNotifier } from '@/components/game/ChallengeNotifier'
 import './game-theme.css'
 
 export default function GameLayout({ children }: { children: React.ReactNode }) {
@@ -10,6 +11,7 @@ export default function GameLayout({ children }: { children: React.ReactNode })
   return (
     <div className="min-h-dvh bg-[#A9C4EB]/30">
       <div className="game-app game-mobile-container bg-white shadow-xl">
+        <ChallengeNotifier />
         <AnimatePresence mode="wait">
           <motion.div
             key={pathname}
@@ -1,37 +1,104 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
 import { motion } from 'framer-motion'
 import Link from 'next/link'
-import { Trophy, ChevronLeft, Crown, Bot, User, Zap, Target, Timer, Medal } from 'lucide-react'
+import { Trophy, ChevronLeft, Crown, Bot, User, Zap, Target, Timer, Medal, Swords, TrendingUp, Users } from 'lucide-react'
 import { Avatar } from '@/components/game/Avatar'
-import { getLeaderboard, type LeaderboardEntry } from '@/actions/leaderboard.server'
+import {
+    getLeaderboard,
+    getRankedLeaderboard,
+    getBotHeadToHead,
+    getSeasons,
+    type LeaderboardEntry,
+    type RankedEntry,
+    type HeadToHeadRecord,
+    type SeasonInfo,
+} from '@/actions/leaderboard.server'
 import { gameLanguages } from '@/lib/config/game'
+import { RANKED_MIN_MATCHES } from '@/lib/config/rating'
+import { SEASON_PLACEMENT_MATCHES, getLadderTierConfig } from '@/lib/config/season'
 import type { TargetLanguage } from '@prisma/client'
 
 type FilterOption = 'all' | TargetLanguage
+type LeaderboardTab = 'overall' | 'ranked'
+
+/** Season picker value for the all-time ratings */
+const ALL_TIME = 'all-time'
+
+function formatSeasonDate(iso: string): string {
+    const date = new Date(iso)
+    return `${date.getMonth() + 1}/${date.getDate()}`
+}
+
+function getSeasonDescription(season: SeasonInfo): string {
+    // endsAt is exclusive - show the last day
+    const lastDay = formatSeasonDate(new Date(new Date(season.endsAt).getTime() - 1).toISOString())
+    const range = `${formatSeasonDate(season.startsAt)} – ${lastDay}`
+    if (season.isCurrent) return `進行中 · ${range}`
+    return season.isFinalized ? `最終排名 · ${range}` : `結算中 · ${range}`
+}
 
 export default function LeaderboardPage() {
+    const { data: session } = useSession()
     const [entries, setEntries] = useState<LeaderboardEntry[]>([])
+    const [rankedEntries, setRankedEntries] = useState<RankedEntry[]>([])
+    const [headToHead, setHeadToHead] = useState<HeadToHeadRecord[]>([])
     const [loading, setLoading] = useState(true)
+    const [tab, setTab] = useState<LeaderboardTab>('overall')
     const [filter, setFilter] = useState<FilterOption>('all')
+    const [seasons, setSeasons] = useState<SeasonInfo[]>([])
+    const [seasonId, setSeasonId] = useState<string | null>(null)  // null until seasons load
+    const [friendsOnly, setFriendsOnly] = useState(false)
+
+    // Ratings are per language - the ranked tab has no "all"
+    const rankedLang: TargetLanguage = filter === 'all' ? gameLanguages[0].id : filter
+
+    // The ranked tab opens on the current season
+    useEffect(() => {
+        getSeasons()
+            .then(list => {
+                setSeasons(list)
+                setSeasonId(list.find(season => season.isCurrent)?.id ?? ALL_TIME)
+            })
+            .catch(error => {
+                console.error('Failed to load seasons:', error)
+                setSeasonId(ALL_TIME)
+            })
+    }, [])
 
     useEffect(() => {
         async function loadLeaderboard() {
             setLoading(true)
             try {
-                const data = await getLeaderboard(
-                    filter === 'all' ? undefined : { lang: filter }
-                )
+                if (tab === 'ranked') {
+                    if (!seasonId) return // Loaded again once the seasons arrive
+                    setRankedEntries(await getRankedLeaderboard(rankedLang, {
+                        seasonId: seasonId === ALL_TIME ? undefined : seasonId,
+                        friendsOnly,
+                    }))
+                    setLoading(false)
+                    return
+                }
+
+                const langFilter = filter === 'all' ? undefined : { lang: filter }
+                const [data, records] = await Promise.all([
+                    getLeaderboard({ ...langFilter, friendsOnly }),
+                    getBotHeadToHead(langFilter),
+                ])
                 setEntries(data)
+                setHeadToHead(records)
+                setLoading(false)
             } catch (error) {
                 console.error('Failed to load leaderboard:', error)
-            } finally {
                 setLoading(false)
             }
         }
         loadLeaderboard()
-    }, [filter])
+    }, [tab, filter, rankedLang, seasonId, friendsOnly])
+
+    const selectedSeason = seasons.find(season => season.id === seasonId)
 
     const getRankIcon = (rank: number) => {
         if (rank === 1) return <Crown className="w-5 h-5 text-yellow-500 fill-yellow-500" />
@@ -54,39 +121,84 @@ export default function LeaderboardPage() {
                     <h1 className="text-lg font-bold text-[#333]">排行榜</h1>
                 </div>
 
+                <div className="grid grid-cols-2 gap-2 p-1 rounded-xl bg-(--game-muted)">
+                    <TabButton active={tab === 'overall'} onClick={() => setTab('overall')} label="綜合" />
+                    <TabButton active={tab === 'ranked'} onClick={() => setTab('ranked')} label="排位" />
+                </div>
+
             </header>
 
             {/* Content */}
-            <main className="flex-1 px-4 py-6 overflow-y-auto">
+            <main className="flex-1 px-4 pt-6 pb-28 overflow-y-auto">
 
                 <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center gap-2 text-[#64748b]">
-                        <Trophy className="w-5 h-5" />
-                        <span className="text-sm font-medium">最強王者 Top 5</span>
+                        {tab === 'ranked' ? <TrendingUp className="w-5 h-5" /> : <Trophy className="w-5 h-5" />}
+                        <span className="text-sm font-medium">{tab === 'ranked' ? '排位積分' : '最強王者 Top 5'}</span>
                     </div>
+                    {session?.user && (
+                        <button
+                            onClick={() => setFriendsOnly(!friendsOnly)}
+                            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border-2 transition-all ${friendsOnly
+                                ? 'bg-blue-100 text-[#5B8BD4] border-blue-200'
+                                : 'bg-white text-[#64748b] border-transparent hover:bg-slate-50'
+                                }`}
+                        >
+                            <Users className="w-3.5 h-3.5" />
+                            只看好友
+                        </button>
+                    )}
                 </div>
 
                 {/* Filter Tabs Inside Header */}
                 <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide -mx-4 px-4 mb-4">
-                    <FilterButton
-                        active={filter === 'all'}
-                        onClick={() => setFilter('all')}
-                        label="全部"
-                    />
+                    {tab === 'overall' && (
+                        <FilterButton
+                            active={filter === 'all'}
+                            onClick={() => setFilter('all')}
+                            label="全部"
+                        />
+                    )}
                     {gameLanguages.map(lang => (
                         <FilterButton
                             key={lang.id}
-                            active={filter === lang.id}
+                            active={tab === 'ranked' ? rankedLang === lang.id : filter === lang.id}
                             onClick={() => setFilter(lang.id)}
                             label={`${lang.examName}`}
                         />
                     ))}
                 </div>
 
+                {/* Season picker */}
+                {tab === 'ranked' && seasonId && (
+                    <div className="mb-4">
+                        <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide -mx-4 px-4">
+                            {seasons.map(season => (
+                                <FilterButton
+                                    key={season.id}
+                                    active={seasonId === season.id}
+                                    onClick={() => setSeasonId(season.id)}
+                                    label={`第 ${season.number} 季`}
+                                />
+                            ))}
+                            <FilterButton
+                                active={seasonId === ALL_TIME}
+                                onClick={() => setSeasonId(ALL_TIME)}
+                                label="歷來"
+                            />
+                        </div>
+                        <p className="text-xs text-[#64748b] font-medium mt-2">
+                            {selectedSeason ? getSeasonDescription(selectedSeason) : '歷來積分（不分賽季）'}
+                        </p>
+                    </div>
+                )}
+
                 {loading ? (
                     <div className="flex items-center justify-center py-16">
                         <div className="w-8 h-8 border-4 border-(--game-accent)/20 border-t-(--game-accent) rounded-full animate-spin" />
                     </div>
+                ) : tab === 'ranked' ? (
+                    <RankedList entries={rankedEntries} getRankIcon={getRankIcon} isSeason={seasonId !== ALL_TIME} />
                 ) : entries.length === 0 ? (
                     <motion.div
                         className="bg-white rounded-2xl border-2 border-[#D5E3F7] p-8 text-center"
@@ -95,10 +207,10 @@ export default function LeaderboardPage() {
                     >
                         <Trophy className="w-12 h-12 text-(--game-muted-fg) mx-auto mb-3 opacity-50" />
                         <p className="text-(--game-muted-fg) font-medium">尚無排行資料</p>
-                        <p className="text-sm text-(--game-muted-fg)/70 mt-1">開始對戰以進入排行榜！</p>
+                        <p className="text-sm text-(--game-muted-fg)/70 mt-1">{friendsOnly ? '加好友一起對戰，就能在這裡比較！' : '開始對戰以進入排行榜！'}</p>
                     </motion.div>
                 ) : (
-                    <div className="space-y-3 pb-24">
+                    <div className="space-y-3">
                         {entries.map((entry, index) => (
                             <motion.div
                                 key={entry.userId}
@@ -164,8 +276,37 @@ export default function LeaderboardPage() {
                     </div>
                 )}
 
+                {/* Bot Head-to-Head (exhibitions) */}
+                {!loading && tab === 'overall' && headToHead.length > 0 && (
+                    <section className="mt-8">
+                        <div className="flex items-center gap-2 text-[#64748b] mb-4">
+                            <Swords className="w-5 h-5" />
+                            <span className="text-sm font-medium">模型對戰紀錄</span>
+                        </div>
+                        <div className="space-y-3">
+                            {headToHead.map(record => (
+                                <div
+                                    key={`${record.bots[0].userId}:${record.bots[1].userId}`}
+                                    className="bg-white rounded-2xl border-2 border-[#D5E3F7] p-4 flex items-center gap-3 shadow-sm"
+                                >
+                                    <HeadToHeadSide bot={record.bots[0]} align="left" />
+                                    <div className="text-center shrink-0">
+                                        <p className="text-lg font-black text-[#333]">
+                                            {record.wins[0]} <span className="text-(--game-muted-fg)">:</span> {record.wins[1]}
+                                        </p>
+                                        <p className="text-[10px] text-(--game-muted-fg) font-medium">
+                                            {record.totalMatches}場{record.ties > 0 && ` · ${record.ties}和`}
+                                        </p>
+                                    </div>
+                                    <HeadToHeadSide bot={record.bots[1]} align="right" />
+                                </div>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
                 {/* Rating Formula Info - Floating Card */}
-                {entries.length > 0 && (
+                {tab === 'overall' && entries.length > 0 && (
                     <div className="fixed bottom-4 left-4 right-4 z-20">
                         <motion.div
                             className="bg-white/80 backdrop-blur-md rounded-xl border border-white/60 p-3 shadow-lg max-w-sm mx-auto"
@@ -191,6 +332,136 @@ export default function LeaderboardPage() {
     )
 }
 
+/**
+ * Glicko-2 ratings for one language (only players past their provisional or placement matches)
+ */
+function RankedList({ entries, getRankIcon, isSeason }: {
+    entries: RankedEntry[]
+    getRankIcon: (rank: number) => React.ReactNode
+    isSeason: boolean
+}) {
+    if (entries.length === 0) {
+        return (
+            <motion.div
+                className="bg-white rounded-2xl border-2 border-[#D5E3F7] p-8 text-center"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+            >
+                <TrendingUp className="w-12 h-12 text-(--game-muted-fg) mx-auto mb-3 opacity-50" />
+                <p className="text-(--game-muted-fg) font-medium">尚無排位資料</p>
+                <p className="text-sm text-(--game-muted-fg)/70 mt-1">
+                    {isSeason ? `完成 ${SEASON_PLACEMENT_MATCHES} 場定級賽即可上榜！` : `完成 ${RANKED_MIN_MATCHES} 場對戰即可上榜！`}
+                </p>
+            </motion.div>
+        )
+    }
+
+    return (
+        <div className="space-y-3">
+            {entries.map((entry, index) => (
+                <motion.div
+                    key={entry.userId}
+                    className="bg-white rounded-2xl border-2 border-[#D5E3F7] p-4 flex items-center gap-4 shadow-sm hover:border-(--game-accent) transition-colors"
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: index * 0.05 }}
+                >
+                    <div className="w-8 h-8 flex items-center justify-center shrink-0">
+                        {getRankIcon(entry.rank)}
+                    </div>
+
+                    <div className="relative shrink-0">
+                        <Avatar
+                            src={entry.avatar || ''}
+                            alt={entry.name}
+                            fallback={entry.name.substring(0, 1).toUpperCase()}
+                            size="sm"
+                        />
+                        {entry.isBot && (
+                            <div className="absolute -bottom-1 -right-1 bg-[#4c75b5] text-white rounded-full p-0.5">
+                                <Bot className="w-3 h-3" />
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                            <h3 className="font-bold text-[#333] truncate">{entry.name}</h3>
+                            {entry.tier && <TierChip tier={entry.tier} />}
+                            {entry.title && (
+                                <span className="text-[10px] font-bold bg-yellow-100 text-yellow-700 px-1.5 py-0.5 rounded-full shrink-0">
+                                    {entry.title}
+                                </span>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-3 text-xs text-[#64748b] mt-1">
+                            <span className="flex items-center gap-1">
+                                <User className="w-3 h-3" />
+                                {entry.matchesPlayed}場
+                            </span>
+                            <span className="flex items-center gap-1">
+                                <Medal className="w-3 h-3" />
+                                {entry.winRate}%
+                            </span>
+                            <span>最高 {entry.peakRating}</span>
+                        </div>
+                    </div>
+
+                    <div className="text-right shrink-0">
+                        <span className="text-lg font-black text-(--game-accent)">{entry.rating}</span>
+                        <p className="text-[10px] text-(--game-muted-fg) font-medium">±{entry.deviation * 2}</p>
+                    </div>
+                </motion.div>
+            ))}
+        </div>
+    )
+}
+
+function TierChip({ tier }: { tier: NonNullable<RankedEntry['tier']> }) {
+    const config = getLadderTierConfig(tier)
+    return (
+        <span
+            className="text-[10px] font-black px-1.5 py-0.5 rounded-full shrink-0 text-white"
+            style={{ backgroundColor: config.color }}
+        >
+            {config.label}
+        </span>
+    )
+}
+
+function HeadToHeadSide({ bot, align }: { bot: HeadToHeadRecord['bots'][number]; align: 'left' | 'right' }) {
+    return (
+        <div className={`flex-1 min-w-0 flex items-center gap-2 ${align === 'right' ? 'flex-row-reverse text-right' : ''}`}>
+            <Avatar
+                src={bot.avatar || ''}
+                alt={bot.name}
+                fallback="🤖"
+                size="sm"
+            />
+            <div className="min-w-0">
+                <p className="font-bold text-[#333] text-sm truncate">{bot.name}</p>
+                {bot.botModel && (
+                    <p className="text-[10px] text-[#64748b] truncate">{bot.botModel}</p>
+                )}
+            </div>
+        </div>
+    )
+}
+
+function TabButton({ active, onClick, label }: { active: boolean; onClick: () => void; label: string }) {
+    return (
+        <button
+            onClick={onClick}
+            className={`py-1.5 rounded-lg font-bold text-sm transition-all ${active
+                ? 'bg-white text-[#5B8BD4] shadow-sm'
+                : 'text-[#64748b] hover:text-[#333]'
+                }`}
+        >
+            {label}
+        </button>
+    )
+}
+
 function FilterButton({ active, onClick, label }: { active: boolean; onClick: () => void; label: string }) {
     return (
         <motion.button
@@ -3,17 +3,29 @@
 import { motion } from 'framer-motion'
 import Link from 'next/link'
 import Image from 'next/image'
-import { Trophy, History, User, Sword, MessageCircle, Settings, LogOut, ChartNoAxesCombined, Flame, Crosshair, Zap, Gamepad } from 'lucide-react'
+import { Trophy, History, User, Sword, MessageCircle, Settings, LogOut, ChartNoAxesCombined, Flame, Crosshair, Zap, Gamepad, Eye, TrendingUp, Search, Presentation, Medal, Users } from 'lucide-react'
 import { Avatar } from '@/components/game/Avatar'
 import { signOut } from 'next-auth/react'
-import type { UserDashboardStats } from '@/actions/user.server'
+import type { UserDashboardStats, UserLanguageRating } from '@/actions/user.server'
+import type { FriendInfo } from '@/actions/friend.server'
+import type { LiveExhibition } from '@/lib/bots/exhibition'
+import { rankToLevel, gameLanguages } from '@/lib/config/game'
+import { getLanguageConfig } from '@/lib/config/factory'
+import { getLadderTierConfig } from '@/lib/config/season'
+import { FRIEND_PRESENCE } from '@/lib/config/friends'
 import type { Session } from 'next-auth'
 
 interface LobbyDashboardProps {
     stats: UserDashboardStats
+    ratings: UserLanguageRating[]
     session: Session | null
+    liveExhibitions: LiveExhibition[]
+    friends: FriendInfo[]
 }
 
+/** Friends shown with their head-to-head record (most played first) */
+const LOBBY_FRIENDS_LIMIT = 5
+
 // Helper to determine rank title
 const getRankTitle = (level: number) => {
     if (level < 5) return '語言學徒'
@@ -22,8 +34,11 @@ const getRankTitle = (level: number) => {
     return '語言大師'
 }
 
-export default function LobbyDashboard({ stats, session }: LobbyDashboardProps) {
+export default function LobbyDashboard({ stats, ratings, session, liveExhibitions, friends }: LobbyDashboardProps) {
     const rankTitle = getRankTitle(stats.level)
+    const rivals = [...friends]
+        .sort((a, b) => getGamesPlayed(b) - getGamesPlayed(a))
+        .slice(0, LOBBY_FRIENDS_LIMIT)
 
     // XP progress: each level is 100 XP
     const xpProgress = stats.exp % 100
@@ -142,6 +157,35 @@ export default function LobbyDashboard({ stats, session }: LobbyDashboardProps)
                 </div>
             </section>
 
+            {/* Skill Ratings (per language) */}
+            {ratings.length > 0 && (
+                <section className="px-6 mb-6 flex flex-col gap-3">
+                    <div className="flex items-center gap-2 text-sm font-bold text-(--game-muted-fg)">
+                        <TrendingUp className="w-4 h-4" />
+                        排位積分
+                    </div>
+                    {ratings.map((rating, index) => (
+                        <RatingCard key={rating.language} rating={rating} delay={0.45 + index * 0.05} />
+                    ))}
+                </section>
+            )}
+
+            {/* Head-to-head against friends */}
+            {rivals.length > 0 && (
+                <section className="px-6 mb-6 flex flex-col gap-3">
+                    <div className="flex items-center justify-between text-sm font-bold text-(--game-muted-fg)">
+                        <span className="flex items-center gap-2">
+                            <Users className="w-4 h-4" />
+                            好友對戰紀錄
+                        </span>
+                        <Link href="/friends" className="text-xs text-(--game-accent)">全部好友</Link>
+                    </div>
+                    {rivals.map((friend, index) => (
+                        <FriendRecordCard key={friend.userId} friend={friend} delay={0.5 + index * 0.05} />
+                    ))}
+                </section>
+            )}
+
             {/* Main Content Area */}
             <main className="flex-1 px-6 flex flex-col gap-6 pb-6">
 
@@ -184,6 +228,15 @@ export default function LobbyDashboard({ stats, session }: LobbyDashboardProps)
                                         <span>創建房間</span>
                                     </motion.button>
                                 </Link>
+                                <Link href="/quick-match" className="w-full sm:w-auto">
+                                    <motion.button
+                                        className="w-auto px-6 py-3 bg-blue-600/30 text-white font-bold rounded-xl border border-white/20 shadow-sm flex items-center justify-center gap-2 text-sm transition-all hover:bg-blue-600/40"
+                                        whileTap={{ scale: 0.97 }}
+                                    >
+                                        <Search className="w-4 h-4" />
+                                        <span>快速配對</span>
+                                    </motion.button>
+                                </Link>
                                 <Link href="/join" className="w-full sm:w-auto">
                                     <motion.button
                                         className="w-auto px-6 py-3 bg-blue-600/30 text-white font-bold rounded-xl border border-white/20 shadow-sm flex items-center justify-center gap-2 text-sm transition-all hover:bg-blue-600/40"
@@ -193,13 +246,46 @@ export default function LobbyDashboard({ stats, session }: LobbyDashboardProps)
                                         <span>加入房間</span>
                                     </motion.button>
                                 </Link>
+                                <Link href="/classroom" className="w-full sm:w-auto">
+                                    <motion.button
+                                        className="w-auto px-6 py-3 bg-blue-600/30 text-white font-bold rounded-xl border border-white/20 shadow-sm flex items-center justify-center gap-2 text-sm transition-all hover:bg-blue-600/40"
+                                        whileTap={{ scale: 0.97 }}
+                                    >
+                                        <Presentation className="w-4 h-4" />
+                                        <span>課堂模式</span>
+                                    </motion.button>
+                                </Link>
+                                <Link href="/tournaments" className="w-full sm:w-auto">
+                                    <motion.button
+                                        className="w-auto px-6 py-3 bg-blue-600/30 text-white font-bold rounded-xl border border-white/20 shadow-sm flex items-center justify-center gap-2 text-sm transition-all hover:bg-blue-600/40"
+                                        whileTap={{ scale: 0.97 }}
+                                    >
+                                        <Medal className="w-4 h-4" />
+                                        <span>錦標賽</span>
+                                    </motion.button>
+                                </Link>
                             </div>
                         </div>
                     </div>
                 </motion.section>
 
+                {/* Live Exhibitions (bot vs bot) */}
+                {liveExhibitions.length > 0 && (
+                    <section className="flex flex-col gap-3">
+                        <div className="flex items-center gap-2 text-sm font-bold text-(--game-muted-fg)">
+                            <span className="w-2 h-2 rounded-full bg-[#ef4444] animate-pulse" />
+                            直播中
+                        </div>
+                        {liveExhibitions.map((exhibition, index) => (
+                            <Link key={exhibition.matchId} href={`/watch/${exhibition.matchId}`}>
+                                <LiveMatchCard exhibition={exhibition} delay={0.35 + index * 0.05} />
+                            </Link>
+                        ))}
+                    </section>
+                )}
+
                 {/* Secondary Actions */}
-                <section className="grid grid-cols-2 gap-4">
+                <section className="grid grid-cols-3 gap-4">
                     <Link href="/history">
                         <ActionCard
                             icon={History}
@@ -217,6 +303,15 @@ export default function LobbyDashboard({ stats, session }: LobbyDashboardProps)
                             delay={0.5}
                         />
                     </Link>
+
+                    <Link href="/friends">
+                        <ActionCard
+                            icon={Users}
+                            title="好友"
+                            desc="挑戰好友"
+                            delay={0.6}
+                        />
+                    </Link>
                 </section>
             </main>
         </div>
@@ -240,6 +335,163 @@ function StatBox({ icon: Icon, label, value, delay, highlight = false }: { icon:
     )
 }
 
+function getGamesPlayed(friend: FriendInfo): number {
+    return friend.headToHead.wins + friend.headToHead.losses + friend.headToHead.draws
+}
+
+function FriendRecordCard({ friend, delay }: { friend: FriendInfo, delay: number }) {
+    const { wins, losses, draws } = friend.headToHead
+
+    return (
+        <motion.div
+            className="bg-white px-4 py-3 rounded-2xl shadow-sm border border-[#e2e8f0] flex items-center gap-3"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay }}
+        >
+            <div className="relative shrink-0">
+                <Avatar
+                    src={friend.avatar || ''}
+                    alt={friend.name}
+                    fallback={friend.name.substring(0, 1).toUpperCase()}
+                    size="sm"
+                />
+                <span
+                    className="absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-white"
+                    style={{ backgroundColor: FRIEND_PRESENCE[friend.presence].color }}
+                />
+            </div>
+            <p className="flex-1 min-w-0 font-bold text-(--game-fg) truncate">{friend.name}</p>
+            {getGamesPlayed(friend) === 0 ? (
+                <span className="text-xs font-bold text-(--game-muted-fg)">尚未交手</span>
+            ) : (
+                <p className="text-sm font-black shrink-0">
+                    <span className="text-[#22c55e]">{wins}勝</span>
+                    <span className="text-(--game-muted-fg)"> · </span>
+                    <span className="text-[#ef4444]">{losses}敗</span>
+                    {draws > 0 && <span className="text-(--game-muted-fg)"> · {draws}和</span>}
+                </p>
+            )}
+        </motion.div>
+    )
+}
+
+function RatingCard({ rating, delay }: { rating: UserLanguageRating, delay: number }) {
+    const language = gameLanguages.find(lang => lang.id === rating.language)
+    const lastDelta = rating.history[rating.history.length - 1]?.delta ?? 0
+
+    return (
+        <motion.div
+            className="bg-white px-4 py-3 rounded-2xl shadow-sm border border-[#e2e8f0] flex items-center gap-3"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay }}
+        >
+            <span className="text-2xl shrink-0">{language?.flag}</span>
+            <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                    <p className="text-xl font-black text-(--game-fg) leading-none">{rating.rating}</p>
+                    {lastDelta !== 0 && (
+                        <span className={`text-xs font-bold ${lastDelta > 0 ? 'text-[#22c55e]' : 'text-[#ef4444]'}`}>
+                            {lastDelta > 0 ? `+${lastDelta}` : lastDelta}
+                        </span>
+                    )}
+                    {rating.isProvisional && (
+                        <span className="bg-(--game-muted) text-(--game-muted-fg) text-[10px] font-bold px-2 py-0.5 rounded-full">暫定</span>
+                    )}
+                </div>
+                <p className="text-xs text-(--game-muted-fg) font-medium mt-1">
+                    {language?.name} · {rating.matchesPlayed}場 · 最高 {rating.peakRating}
+                </p>
+                <SeasonLine rating={rating} />
+            </div>
+            <RatingSparkline points={rating.history.map(point => point.rating)} />
+        </motion.div>
+    )
+}
+
+/**
+ * Current season tier (or placement progress) and the last season's reward
+ */
+function SeasonLine({ rating }: { rating: UserLanguageRating }) {
+    const { season, lastSeasonReward } = rating
+    if (!season && !lastSeasonReward) return null
+
+    const tier = season?.tier ? getLadderTierConfig(season.tier) : null
+    const reward = lastSeasonReward ? getLadderTierConfig(lastSeasonReward.tier) : null
+
+    return (
+        <div className="flex items-center gap-1.5 mt-1.5 text-[10px] font-bold flex-wrap">
+            {season && (tier ? (
+                <span className="px-2 py-0.5 rounded-full text-white" style={{ backgroundColor: tier.color }}>
+                    S{season.number} {tier.label} · {season.rating}
+                </span>
+            ) : (
+                <span className="px-2 py-0.5 rounded-full bg-(--game-muted) text-(--game-muted-fg)">
+                    S{season.number} 定級賽 剩 {season.placementRemaining} 場
+                </span>
+            ))}
+            {lastSeasonReward && reward && (
+                <span className="px-2 py-0.5 rounded-full border" style={{ borderColor: reward.color, color: reward.color }}>
+                    S{lastSeasonReward.seasonNumber} {lastSeasonReward.title ?? reward.label} · 第 {lastSeasonReward.rank} 名
+                </span>
+            )}
+        </div>
+    )
+}
+
+/**
+ * Rating trend over the recent history (oldest on the left)
+ */
+function RatingSparkline({ points }: { points: number[] }) {
+    const width = 96
+    const height = 32
+
+    if (points.length < 2) return <div className="ml-auto" style={{ width, height }} />
+
+    const min = Math.min(...points)
+    const range = Math.max(...points) - min || 1
+    const path = points
+        .map((value, i) => {
+            const x = (i / (points.length - 1)) * width
+            const y = height - 2 - ((value - min) / range) * (height - 4)
+            return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`
+        })
+        .join(' ')
+
+    return (
+        <svg className="ml-auto shrink-0" width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+            <path d={path} fill="none" stroke="#5B8BD4" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+    )
+}
+
+function LiveMatchCard({ exhibition, delay }: { exhibition: LiveExhibition, delay: number }) {
+    const [left, right] = exhibition.players
+
+    return (
+        <motion.div
+            className="bg-white px-4 py-3 rounded-2xl shadow-sm border border-[#e2e8f0] flex items-center gap-3 hover:border-(--game-primary) hover:shadow-md transition-all cursor-pointer group"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay }}
+            whileTap={{ scale: 0.98 }}
+        >
+            <div className="flex-1 min-w-0">
+                <p className="font-bold text-(--game-fg) truncate">
+                    {left?.name} <span className="text-(--game-accent) font-black">{left?.score} : {right?.score}</span> {right?.name}
+                </p>
+                <p className="text-xs text-(--game-muted-fg) font-medium">
+                    {getLanguageConfig(exhibition.targetLanguage).examName} {rankToLevel(exhibition.targetLanguage, exhibition.rank)} · Q{exhibition.currentQuestionIndex + 1} / {exhibition.questionCount}
+                </p>
+            </div>
+            <div className="p-2 rounded-xl bg-(--game-muted) text-(--game-muted-fg) group-hover:bg-[#EFF6FF] group-hover:text-(--game-accent) transition-colors">
+                <Eye className="w-5 h-5" />
+            </div>
+        </motion.div>
+    )
+}
+
 function ActionCard({ icon: Icon, title, desc, delay }: { icon: React.ElementType, title: string, desc: string, delay: number }) {
     return (
         <motion.div
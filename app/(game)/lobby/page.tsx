@@ -1,7 +1,9 @@
 import { getServerSession } from 'next-auth'
 import { redirect } from 'next/navigation'
 import { authOptions } from '@/lib/auth'
-import { getUserDashboardStats } from '@/actions/user.server'
+import { getUserDashboardStats, getUserRatings } from '@/actions/user.server'
+import { getFriends } from '@/actions/friend.server'
+import { listLiveExhibitions } from '@/lib/bots/exhibition'
 import LobbyDashboard from './LobbyDashboard'
 
 export default async function LobbyPage() {
@@ -14,8 +16,13 @@ export default async function LobbyPage() {
 
     // 2. Fetch User Stats (SSR)
     // This runs on the server, so it's fast and secure.
-    const stats = await getUserDashboardStats(session.user.id)
+    const [stats, ratings, liveExhibitions, friends] = await Promise.all([
+        getUserDashboardStats(session.user.id),
+        getUserRatings(session.user.id),
+        listLiveExhibitions(),
+        getFriends(),
+    ])
 
     // 3. Render Client Component with Data
-    return <LobbyDashboard stats={stats} session={session} />
+    return <LobbyDashboard stats={stats} ratings={ratings} session={session} liveExhibitions={liveExhibitions} friends={friends} />
 }
@@ -7,10 +7,49 @@ import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import { ArrowLeft, Users, Bot, Check } from 'lucide-react'
 import { createWaitingMatch, getBotUsers, type BotUserInfo } from '@/actions/game.server'
-import { gameLanguages, questionCounts, levelToRank, type GameLanguageConfig } from '@/lib/config/game'
-import type { TargetLanguage } from '@prisma/client'
+import {
+    gameLanguages, questionCounts, playerCapacities, levelToRank, ROOM_PASSPHRASE_MAX_LENGTH,
+    MATCH_RULE_PRESETS, MATCH_RULE_LIMITS, DEFAULT_MATCH_RULES, GAME_MODES, buildComboCurve,
+    type GameLanguageConfig, type MatchRulePreset,
+} from '@/lib/config/game'
+import type { GameMode, TargetLanguage } from '@prisma/client'
 import { Avatar } from '@/components/game/Avatar'
 
+interface CustomRulesForm {
+    timePerQuestionSec: number
+    baseScore: number
+    speedBonusMax: number
+    speedBonusWindowPercent: number
+    comboStepPercent: number   // Multiplier gained per streak (10 = +0.1x)
+    comboSteps: number         // Streak where the multiplier stops growing
+    wrongAnswerPenalty: number
+}
+
+/** Number input for one custom rule (out-of-range values are clamped by the server) */
+function RuleField({ label, value, limits, onChange }: {
+    label: string
+    value: number
+    limits: { min: number; max: number }
+    onChange: (value: number) => void
+}) {
+    return (
+        <label className="block">
+            <span className="text-xs font-semibold text-[#64748b]">{label}</span>
+            <input
+                type="number"
+                value={value}
+                min={limits.min}
+                max={limits.max}
+                onChange={e => {
+                    const next = Number(e.target.value)
+                    if (!Number.isNaN(next)) onChange(next)
+                }}
+                className="mt-1 w-full px-3 py-2 rounded-xl border-2 border-[#D5E3F7] text-[#333] font-bold focus:border-[#5B8BD4] focus:outline-none"
+            />
+        </label>
+    )
+}
+
 export default function PlayPage() {
     const router = useRouter()
     const { data: session } = useSession()
@@ -19,7 +58,23 @@ export default function PlayPage() {
     const [selectedLanguage, setSelectedLanguage] = useState<GameLanguageConfig | null>(null)
     const [selectedLevel, setSelectedLevel] = useState<string | null>(null)
     const [selectedCount, setSelectedCount] = useState(10)
+    const [gameMode, setGameMode] = useState<GameMode>('classic')
     const [opponent, setOpponent] = useState<'bot' | 'player'>('bot')
+    const [maxPlayers, setMaxPlayers] = useState<number>(2)
+    const [isPrivate, setIsPrivate] = useState(false)
+    const [passphrase, setPassphrase] = useState('')
+
+    // Rules (a preset, or custom values starting from the standard rules)
+    const [rulesPreset, setRulesPreset] = useState<MatchRulePreset | 'custom'>('standard')
+    const [customRules, setCustomRules] = useState<CustomRulesForm>({
+        timePerQuestionSec: DEFAULT_MATCH_RULES.timePerQuestionSec,
+        baseScore: DEFAULT_MATCH_RULES.baseScore,
+        speedBonusMax: DEFAULT_MATCH_RULES.speedBonusMax,
+        speedBonusWindowPercent: Math.round(DEFAULT_MATCH_RULES.speedBonusWindowRatio * 100),
+        comboStepPercent: 10,
+        comboSteps: DEFAULT_MATCH_RULES.comboMultipliers.length - 1,
+        wrongAnswerPenalty: DEFAULT_MATCH_RULES.wrongAnswerPenalty,
+    })
 
     // Bot selection
     const [botUsers, setBotUsers] = useState<BotUserInfo[]>([])
@@ -54,8 +109,21 @@ export default function PlayPage() {
                 targetLanguage: selectedLanguage.id as TargetLanguage,
                 rank,
                 questionCount: selectedCount,
+                gameMode,
                 isBot: opponent === 'bot',
                 botId: opponent === 'bot' ? (selectedBotId || undefined) : undefined,
+                maxPlayers: opponent === 'player' ? maxPlayers : undefined,
+                isPrivate: opponent === 'player' && isPrivate,
+                passphrase: opponent === 'player' && isPrivate ? passphrase : undefined,
+                rulesPreset: rulesPreset === 'custom' ? undefined : rulesPreset,
+                customRules: rulesPreset === 'custom' ? {
+                    timePerQuestionSec: customRules.timePerQuestionSec,
+                    baseScore: customRules.baseScore,
+                    speedBonusMax: customRules.speedBonusMax,
+                    speedBonusWindowRatio: customRules.speedBonusWindowPercent / 100,
+                    comboMultipliers: buildComboCurve(customRules.comboStepPercent / 100, customRules.comboSteps),
+                    wrongAnswerPenalty: customRules.wrongAnswerPenalty,
+                } : undefined,
             })
 
             router.push(`/room/${matchId}`)
@@ -133,25 +201,137 @@ export default function PlayPage() {
                     </motion.section>
                 )}
 
-                {/* Question Count */}
+                {/* Game Mode */}
                 <section>
-                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">題數</h2>
-                    <div className="flex gap-3">
-                        {questionCounts.map((count) => (
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">遊戲模式</h2>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(Object.entries(GAME_MODES) as [GameMode, typeof GAME_MODES[GameMode]][]).map(([id, mode]) => (
+                            <motion.button
+                                key={id}
+                                onClick={() => setGameMode(id)}
+                                className={`p-3 rounded-xl border-2 text-left transition-all ${gameMode === id
+                                    ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                    : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                    }`}
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                            >
+                                <span className="font-semibold text-[#333] block">{mode.label}</span>
+                                <span className="text-xs text-[#64748b]">{mode.description}</span>
+                            </motion.button>
+                        ))}
+                    </div>
+                </section>
+
+                {/* Question Count (modes with a question pool play until they end) */}
+                {GAME_MODES[gameMode].questionPool === null && (
+                    <section>
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">題數</h2>
+                        <div className="flex gap-3">
+                            {questionCounts.map((count) => (
+                                <motion.button
+                                    key={count}
+                                    onClick={() => setSelectedCount(count)}
+                                    className={`flex-1 py-3 rounded-xl font-bold text-lg transition-all ${selectedCount === count
+                                        ? 'bg-[#5B8BD4] text-white'
+                                        : 'bg-white border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                                        }`}
+                                    whileHover={{ scale: 1.02 }}
+                                    whileTap={{ scale: 0.98 }}
+                                >
+                                    {count}題
+                                </motion.button>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                {/* Rules */}
+                <section>
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">規則</h2>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(Object.entries(MATCH_RULE_PRESETS) as [MatchRulePreset, typeof MATCH_RULE_PRESETS[MatchRulePreset]][]).map(([id, preset]) => (
                             <motion.button
-                                key={count}
-                                onClick={() => setSelectedCount(count)}
-                                className={`flex-1 py-3 rounded-xl font-bold text-lg transition-all ${selectedCount === count
-                                    ? 'bg-[#5B8BD4] text-white'
-                                    : 'bg-white border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                                key={id}
+                                onClick={() => setRulesPreset(id)}
+                                className={`p-3 rounded-xl border-2 text-left transition-all ${rulesPreset === id
+                                    ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                    : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
                                     }`}
                                 whileHover={{ scale: 1.02 }}
                                 whileTap={{ scale: 0.98 }}
                             >
-                                {count}題
+                                <span className="font-semibold text-[#333] block">{preset.label}</span>
+                                <span className="text-xs text-[#64748b]">{preset.description}</span>
                             </motion.button>
                         ))}
+                        <motion.button
+                            onClick={() => setRulesPreset('custom')}
+                            className={`col-span-2 p-3 rounded-xl border-2 text-left transition-all ${rulesPreset === 'custom'
+                                ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                }`}
+                            whileHover={{ scale: 1.01 }}
+                            whileTap={{ scale: 0.99 }}
+                        >
+                            <span className="font-semibold text-[#333] block">自訂</span>
+                            <span className="text-xs text-[#64748b]">自行調整時間、計分與連擊</span>
+                        </motion.button>
                     </div>
+
+                    {rulesPreset === 'custom' && (
+                        <motion.div
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                            className="mt-3 p-4 rounded-2xl bg-white border-2 border-[#D5E3F7] grid grid-cols-2 gap-3"
+                        >
+                            <RuleField
+                                label="每題秒數"
+                                value={customRules.timePerQuestionSec}
+                                limits={MATCH_RULE_LIMITS.timePerQuestionSec}
+                                onChange={timePerQuestionSec => setCustomRules(r => ({ ...r, timePerQuestionSec }))}
+                            />
+                            <RuleField
+                                label="答對得分"
+                                value={customRules.baseScore}
+                                limits={MATCH_RULE_LIMITS.baseScore}
+                                onChange={baseScore => setCustomRules(r => ({ ...r, baseScore }))}
+                            />
+                            <RuleField
+                                label="速度加分上限"
+                                value={customRules.speedBonusMax}
+                                limits={MATCH_RULE_LIMITS.speedBonusMax}
+                                onChange={speedBonusMax => setCustomRules(r => ({ ...r, speedBonusMax }))}
+                            />
+                            <RuleField
+                                label="速度加分時窗 (%)"
+                                value={customRules.speedBonusWindowPercent}
+                                limits={{ min: MATCH_RULE_LIMITS.speedBonusWindowRatio.min * 100, max: MATCH_RULE_LIMITS.speedBonusWindowRatio.max * 100 }}
+                                onChange={speedBonusWindowPercent => setCustomRules(r => ({ ...r, speedBonusWindowPercent }))}
+                            />
+                            <RuleField
+                                label="每連擊加成 (%)"
+                                value={customRules.comboStepPercent}
+                                limits={{ min: 0, max: 100 }}
+                                onChange={comboStepPercent => setCustomRules(r => ({ ...r, comboStepPercent }))}
+                            />
+                            <RuleField
+                                label="連擊上限"
+                                value={customRules.comboSteps}
+                                limits={MATCH_RULE_LIMITS.comboSteps}
+                                onChange={comboSteps => setCustomRules(r => ({ ...r, comboSteps }))}
+                            />
+                            <RuleField
+                                label="答錯扣分"
+                                value={customRules.wrongAnswerPenalty}
+                                limits={MATCH_RULE_LIMITS.wrongAnswerPenalty}
+                                onChange={wrongAnswerPenalty => setCustomRules(r => ({ ...r, wrongAnswerPenalty }))}
+                            />
+                            <p className="col-span-2 text-xs text-[#64748b]">
+                                連擊倍率：{buildComboCurve(customRules.comboStepPercent / 100, customRules.comboSteps).map(m => `${m}x`).join(' → ')}
+                            </p>
+                        </motion.div>
+                    )}
                 </section>
 
                 {/* Opponent Selection */}
@@ -229,6 +409,72 @@ export default function PlayPage() {
                     </motion.section>
                 )}
 
+                {/* Room Capacity (when PvP mode selected) */}
+                {opponent === 'player' && (
+                    <motion.section
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                    >
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">房間人數</h2>
+                        <div className="flex gap-3">
+                            {playerCapacities.map((capacity) => (
+                                <motion.button
+                                    key={capacity}
+                                    onClick={() => setMaxPlayers(capacity)}
+                                    className={`flex-1 py-3 rounded-xl font-bold transition-all ${maxPlayers === capacity
+                                        ? 'bg-[#5B8BD4] text-white'
+                                        : 'bg-white border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                                        }`}
+                                    whileHover={{ scale: 1.02 }}
+                                    whileTap={{ scale: 0.98 }}
+                                >
+                                    {capacity === 2 ? '1v1' : `${capacity}人`}
+                                </motion.button>
+                            ))}
+                        </div>
+                    </motion.section>
+                )}
+
+                {/* Visibility (when PvP mode selected) */}
+                {opponent === 'player' && (
+                    <motion.section
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                    >
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">房間類型</h2>
+                        <div className="grid grid-cols-2 gap-2">
+                            {([false, true] as const).map((value) => (
+                                <motion.button
+                                    key={String(value)}
+                                    onClick={() => setIsPrivate(value)}
+                                    className={`p-3 rounded-xl border-2 text-left transition-all ${isPrivate === value
+                                        ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                        : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                        }`}
+                                    whileHover={{ scale: 1.02 }}
+                                    whileTap={{ scale: 0.98 }}
+                                >
+                                    <span className="font-semibold text-[#333] block">{value ? '私人' : '公開'}</span>
+                                    <span className="text-xs text-[#64748b]">{value ? '僅限房間代碼或邀請連結加入' : '顯示在加入房間列表'}</span>
+                                </motion.button>
+                            ))}
+                        </div>
+                        {isPrivate && (
+                            <label className="block mt-3">
+                                <span className="text-xs font-semibold text-[#64748b]">密語（選填）</span>
+                                <input
+                                    type="text"
+                                    value={passphrase}
+                                    maxLength={ROOM_PASSPHRASE_MAX_LENGTH}
+                                    onChange={e => setPassphrase(e.target.value)}
+                                    placeholder="加入時需額外輸入"
+                                    className="mt-1 w-full px-3 py-2 rounded-xl border-2 border-[#D5E3F7] text-[#333] font-bold focus:border-[#5B8BD4] focus:outline-none"
+                                />
+                            </label>
+                        )}
+                    </motion.section>
+                )}
+
                 {/* Room Summary */}
                 {isReady && (
                     <motion.section
@@ -244,11 +490,19 @@ export default function PlayPage() {
                                 </p>
                                 <span className="text-[#64748b]">－</span>
                                 <p className="text-sm text-[#64748b]">
-                                    {selectedCount}題
+                                    {GAME_MODES[gameMode].questionPool === null ? `${selectedCount}題` : GAME_MODES[gameMode].label}
+                                </p>
+                                <span className="text-[#64748b]">－</span>
+                                <p className="text-sm text-[#64748b]">
+                                    {rulesPreset === 'custom'
+                                        ? `自訂 · ${customRules.timePerQuestionSec}秒/題`
+                                        : `${MATCH_RULE_PRESETS[rulesPreset].label} · ${MATCH_RULE_PRESETS[rulesPreset].rules.timePerQuestionSec}秒/題`}
                                 </p>
                                 <span className="text-[#64748b]">－</span>
                                 <p className="text-sm text-[#64748b]">
-                                    {opponent === 'bot' ? `PvE 對戰 [${botUsers.find((bot) => bot.id === selectedBotId)?.name}]` : 'PvP 對戰'}
+                                    {opponent === 'bot'
+                                        ? `PvE 對戰 [${botUsers.find((bot) => bot.id === selectedBotId)?.name}]`
+                                        : `${maxPlayers > 2 ? `多人對戰 [${maxPlayers}人]` : 'PvP 對戰'}${isPrivate ? ' · 私人' : ''}`}
                                 </p>
                             </div>
                         </div>
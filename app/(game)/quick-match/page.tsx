@@ -0,0 +1,237 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { motion } from 'framer-motion'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import { ArrowLeft, Search } from 'lucide-react'
+import {
+    joinMatchmaking,
+    pollMatchmaking,
+    cancelMatchmaking,
+    type MatchmakingState,
+} from '@/actions/matchmaking.server'
+import { gameLanguages, levelToRank, type GameLanguageConfig } from '@/lib/config/game'
+import { MATCHMAKING_POLL_INTERVAL_MS, MATCHMAKING_BOT_FALLBACK_MS } from '@/lib/config/matchmaking'
+
+export default function QuickMatchPage() {
+    const router = useRouter()
+    const { data: session } = useSession()
+
+    const [selectedLanguage, setSelectedLanguage] = useState<GameLanguageConfig | null>(null)
+    const [selectedLevel, setSelectedLevel] = useState<string | null>(null)
+    const [queue, setQueue] = useState<MatchmakingState | null>(null)
+    const [isJoining, setIsJoining] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    // Ticket to cancel when the page is left mid-search
+    const ticketRef = useRef<string | null>(null)
+
+    const isReady = !!selectedLanguage && !!selectedLevel
+    const isSearching = queue?.status === 'searching'
+
+    // Apply a queue update from the server
+    const handleState = useCallback((state: MatchmakingState) => {
+        if (state.status === 'matched') {
+            ticketRef.current = null
+            router.push(`/room/${state.matchId}`)
+            return
+        }
+        if (state.status === 'expired') {
+            ticketRef.current = null
+            setError('連線中斷，已退出配對')
+        }
+        setQueue(state)
+    }, [router])
+
+    // Poll while searching (each poll is also the presence heartbeat)
+    useEffect(() => {
+        if (!isSearching || !session?.user?.id) return
+
+        const userId = session.user.id
+        const ticketId = queue.ticketId
+        const timer = setTimeout(async () => {
+            try {
+                handleState(await pollMatchmaking(ticketId, userId))
+            } catch (err) {
+                console.error('Matchmaking poll failed:', err)
+                setQueue({ ...queue })
+            }
+        }, MATCHMAKING_POLL_INTERVAL_MS)
+        return () => clearTimeout(timer)
+    }, [queue, isSearching, session?.user?.id, handleState])
+
+    // Leave the queue when the page is closed or navigated away from
+    useEffect(() => {
+        const userId = session?.user?.id
+        return () => {
+            if (ticketRef.current && userId) {
+                cancelMatchmaking(ticketRef.current, userId)
+            }
+        }
+    }, [session?.user?.id])
+
+    const handleJoin = async () => {
+        if (!selectedLanguage || !selectedLevel || !session?.user?.id) return
+
+        setIsJoining(true)
+        setError(null)
+        try {
+            const state = await joinMatchmaking(session.user.id, {
+                targetLanguage: selectedLanguage.id,
+                rank: levelToRank(selectedLanguage.id, selectedLevel),
+            })
+            ticketRef.current = state.ticketId
+            handleState(state)
+        } catch (err) {
+            console.error('Failed to join matchmaking:', err)
+            setError('此難度目前沒有題目，請換個難度')
+        } finally {
+            setIsJoining(false)
+        }
+    }
+
+    const handleCancel = async () => {
+        if (queue && session?.user?.id) {
+            await cancelMatchmaking(queue.ticketId, session.user.id)
+        }
+        ticketRef.current = null
+        setQueue(null)
+    }
+
+    if (isSearching) {
+        const waitedSec = Math.floor(queue.waitedMs / 1000)
+        const botInSec = Math.max(0, Math.ceil((MATCHMAKING_BOT_FALLBACK_MS - queue.waitedMs) / 1000))
+
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC] p-6 gap-10">
+                <div className="relative w-40 h-40 flex items-center justify-center">
+                    <motion.div
+                        initial={{ scale: 1, opacity: 0.5 }}
+                        animate={{ scale: 1.8, opacity: 0 }}
+                        transition={{ duration: 2, repeat: Infinity, ease: 'easeOut' }}
+                        className="absolute inset-0 rounded-full border-2 border-[#5B8BD4]/30"
+                    />
+                    <div className="w-28 h-28 rounded-full bg-white border-4 border-[#5B8BD4] flex items-center justify-center shadow-lg">
+                        <Search className="w-10 h-10 text-[#5B8BD4]" />
+                    </div>
+                </div>
+
+                <div className="text-center space-y-2">
+                    <h1 className="text-xl font-black text-[#333]">尋找對手中...</h1>
+                    <p className="text-sm font-bold text-[#64748b]">
+                        {selectedLanguage?.examName} {selectedLevel} · 已等待 {waitedSec} 秒
+                    </p>
+                    <p className="text-xs text-[#64748b]">
+                        積分範圍 ±{queue.range}
+                        {botInSec > 0 ? ` · ${botInSec} 秒後改與實力相近的 Bot 對戰` : ' · 正在安排 Bot 對手'}
+                    </p>
+                </div>
+
+                <button
+                    onClick={handleCancel}
+                    className="w-full max-w-xs px-6 py-4 text-lg font-black rounded-2xl bg-white border-2 border-[#D5E3F7] text-[#64748b] hover:bg-[#D5E3F7] transition-all"
+                >
+                    取消配對
+                </button>
+            </div>
+        )
+    }
+
+    return (
+        <div className="min-h-dvh flex flex-col bg-[#F5F8FC] relative">
+            {/* Header */}
+            <header className="px-4 py-4 border-b-2 border-[#D5E3F7] flex items-center gap-4 bg-white">
+                <Link
+                    href="/lobby"
+                    className="p-2 -ml-2 rounded-full hover:bg-[#D5E3F7] transition-colors"
+                >
+                    <ArrowLeft className="w-5 h-5 text-[#333]" />
+                </Link>
+                <h1 className="text-lg font-bold text-[#333]">快速配對</h1>
+            </header>
+
+            <div className="flex-1 px-4 py-6 pb-28 space-y-6">
+                <p className="text-sm text-[#64748b]">
+                    與同語言、同難度且積分相近的玩家進行 1v1 對戰（經典 10 題、標準規則）。
+                </p>
+
+                {/* Language Selection */}
+                <section>
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">選擇語言</h2>
+                    <div className="grid grid-cols-2 gap-3">
+                        {gameLanguages.map((lang) => (
+                            <motion.button
+                                key={lang.id}
+                                onClick={() => {
+                                    setSelectedLanguage(lang)
+                                    setSelectedLevel(null)
+                                }}
+                                className={`p-4 rounded-2xl border-2 transition-all ${selectedLanguage?.id === lang.id
+                                    ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                    : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                    }`}
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                            >
+                                <span className="text-3xl mb-2 block">{lang.flag}</span>
+                                <span className="font-semibold text-[#333]">{lang.examName}</span>
+                                <span className="text-xs text-[#64748b] block">{lang.name}</span>
+                            </motion.button>
+                        ))}
+                    </div>
+                </section>
+
+                {/* Difficulty Selection */}
+                {selectedLanguage && (
+                    <motion.section
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                    >
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">
+                            選擇難度 ({selectedLanguage.examName})
+                        </h2>
+                        <div className="flex flex-wrap gap-2">
+                            {selectedLanguage.levels.map((level) => (
+                                <motion.button
+                                    key={level}
+                                    onClick={() => setSelectedLevel(level)}
+                                    className={`px-4 py-2 rounded-xl font-medium transition-all ${selectedLevel === level
+                                        ? 'bg-[#5B8BD4] text-white'
+                                        : 'bg-white border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                                        }`}
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                >
+                                    {level}
+                                </motion.button>
+                            ))}
+                        </div>
+                    </motion.section>
+                )}
+
+                {error && (
+                    <p className="text-sm font-semibold text-red-500 text-center">{error}</p>
+                )}
+            </div>
+
+            {/* Fixed Bottom Button */}
+            <div className="fixed bottom-0 left-1/2 -translate-x-1/2 w-full max-w-[480px] p-4 bg-linear-gradient-to-t from-[#F5F8FC] via-[#F5F8FC]/95 to-transparent">
+                <motion.button
+                    onClick={handleJoin}
+                    disabled={!isReady || isJoining}
+                    className={`w-full py-4 text-lg font-semibold rounded-2xl transition-all ${isReady && !isJoining
+                        ? 'bg-[#5B8BD4] text-white'
+                        : 'bg-[#D5E3F7] text-[#64748b] cursor-not-allowed'
+                        }`}
+                    style={{ boxShadow: isReady && !isJoining ? '0 10px 25px -5px rgba(91, 139, 212, 0.4)' : 'none' }}
+                    whileHover={isReady && !isJoining ? { scale: 1.02, backgroundColor: '#4A7BC4' } : {}}
+                    whileTap={isReady && !isJoining ? { scale: 0.98 } : {}}
+                >
+                    {isJoining ? '加入中...' : '開始配對'}
+                </motion.button>
+            </div>
+        </div>
+    )
+}
@@ -3,12 +3,14 @@
 import { useEffect, useState, Suspense } from 'react'
 import { motion } from 'framer-motion'
 import { useRouter, useParams } from 'next/navigation'
-import { Trophy, Zap, RotateCcw, Home, Flame, Clock, Target, Users } from 'lucide-react'
+import { Trophy, Zap, RotateCcw, Home, Flame, Clock, Target, Users, Heart, ShieldCheck, Timer, Sparkles } from 'lucide-react'
 import confetti from 'canvas-confetti'
 import { Avatar } from '@/components/game/Avatar'
 import { getMatchResult } from '@/actions/game.server'
-import type { GameResult } from '@/types/game'
+import type { GameResult, PlayerResult } from '@/types/game'
 import Image from 'next/image'
+import { describeMatchRules, GAME_MODES, POWER_UPS } from '@/lib/config/game'
+import type { GameMode } from '@prisma/client'
 
 function LoadingFallback() {
     return (
@@ -74,6 +76,98 @@ function StatRow({
     )
 }
 
+/**
+ * The stat that decides each game mode (null for classic - the score says it all)
+ */
+function getModeStat(player: PlayerResult, gameMode: GameMode): { icon: React.ElementType, label: string, value: number, unit: string } | null {
+    switch (gameMode) {
+        case 'survival':
+            return { icon: Heart, label: '剩餘生命', value: player.livesLeft ?? 0, unit: '' }
+        case 'sudden_death':
+            // Rounds survived: everything before the fatal question
+            return {
+                icon: ShieldCheck,
+                label: '存活題數',
+                value: player.eliminatedAt !== null ? player.eliminatedAt - 1 : player.answeredCount,
+                unit: '題',
+            }
+        case 'time_attack':
+            return { icon: Timer, label: '作答題數', value: player.answeredCount, unit: '題' }
+        default:
+            return null
+    }
+}
+
+function StandingsCard({
+    standings,
+    selfId,
+    totalQuestions,
+    gameMode,
+}: {
+    standings: PlayerResult[],
+    selfId: string,
+    totalQuestions: number,
+    gameMode: GameMode,
+}) {
+    const placementColors: Record<number, string> = {
+        1: 'text-yellow-500',
+        2: 'text-slate-400',
+        3: 'text-amber-600',
+    }
+
+    return (
+        <div className="px-6 pb-6 pt-4">
+            {standings.map((player, index) => {
+                const isSelf = player.id === selfId
+                const modeStat = getModeStat(player, gameMode)
+                return (
+                    <motion.div
+                        key={player.id}
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ delay: index * 0.08 }}
+                        className={`flex items-center gap-3 py-3 border-b border-[#f1f5f9] last:border-0 px-2 -mx-2 rounded-xl ${isSelf ? 'bg-[#EFF6FF]' : ''}`}
+                    >
+                        <div className={`w-8 text-center font-black text-lg ${placementColors[player.placement] || 'text-(--game-muted-fg)'}`}>
+                            {player.placement <= 3 ? <Trophy className="w-5 h-5 mx-auto fill-current" /> : player.placement}
+                        </div>
+                        <Avatar
+                            src={player.avatar || (player.isBot ? '/mascot-robot.jpg' : '/mascot-parrot.jpg')}
+                            alt={player.name}
+                            fallback={player.isBot ? '🤖' : player.name.charAt(0)}
+                            size="sm"
+                        />
+                        <div className="flex-1 min-w-0">
+                            <p className="font-bold text-(--game-fg) truncate">
+                                {player.name}{isSelf && <span className="text-(--game-accent)"> (你)</span>}
+                            </p>
+                            <p className="text-[10px] text-(--game-muted-fg) font-bold tracking-wider flex items-center gap-2">
+                                {modeStat && (
+                                    <span className="flex items-center gap-0.5"><modeStat.icon className="w-3 h-3" />{modeStat.value}{modeStat.unit}</span>
+                                )}
+                                {player.eliminatedAt !== null && (
+                                    <span className="text-[#ef4444]">Q{player.eliminatedAt} 淘汰</span>
+                                )}
+                                <span className="flex items-center gap-0.5"><Target className="w-3 h-3" />{player.correctAnswers}/{gameMode === 'classic' ? totalQuestions : player.answeredCount}</span>
+                                <span className="flex items-center gap-0.5"><Clock className="w-3 h-3" />{player.avgResponseTime}s</span>
+                                <span className="flex items-center gap-0.5"><Flame className="w-3 h-3" />{player.maxStreak}</span>
+                                {player.powerUpsUsed.length > 0 && (
+                                    <span title={player.powerUpsUsed.map(type => POWER_UPS[type].label).join('、')}>
+                                        {player.powerUpsUsed.map(type => POWER_UPS[type].icon).join('')}
+                                    </span>
+                                )}
+                            </p>
+                        </div>
+                        <div className="text-2xl font-black text-(--game-accent) tracking-tighter">
+                            {player.score}
+                        </div>
+                    </motion.div>
+                )
+            })}
+        </div>
+    )
+}
+
 function ResultsContent() {
     const router = useRouter()
     const params = useParams<{ matchId: string }>()
@@ -147,7 +241,11 @@ function ResultsContent() {
         )
     }
 
-    const { self, opponent, match } = result
+    const { self, opponent, match, standings } = result
+    // A presenter session with one student still gets the standings view
+    const isMultiplayer = standings.length > 2 || !opponent
+    const selfModeStat = getModeStat(self, match.gameMode)
+    const opponentModeStat = opponent && getModeStat(opponent, match.gameMode)
 
     // Header Text Logic
     let headerTitle = '對戰結束'
@@ -158,6 +256,10 @@ function ResultsContent() {
         headerTitle = '勝利'
         headerSubtitle = '精彩的表現'
         headerIconURL = '/mascot-parrot-victory.png'
+    } else if (result.outcome === 'lose' && isMultiplayer) {
+        headerTitle = `第 ${self.placement} 名`
+        headerSubtitle = `共 ${standings.length} 位玩家`
+        headerIconURL = self.placement <= 3 ? '/mascot-parrot.png' : '/mascot-parrot-crying.png'
     } else if (result.outcome === 'lose') {
         headerTitle = '敗北'
         headerSubtitle = '再接再厲'
@@ -168,6 +270,15 @@ function ResultsContent() {
         headerIconURL = '/mascot-parrot.png'
     }
 
+    // Mode-specific subtitle (how the match was decided)
+    if (match.gameMode === 'survival' || match.gameMode === 'sudden_death') {
+        headerSubtitle = self.eliminatedAt !== null
+            ? `第 ${self.eliminatedAt} 題淘汰`
+            : result.outcome === 'win' ? '最後的倖存者' : '撐到了最後'
+    } else if (match.gameMode === 'time_attack') {
+        headerSubtitle = `${GAME_MODES.time_attack.durationSec} 秒內答對 ${self.correctAnswers} 題`
+    }
+
     return (
         <div className="min-h-dvh bg-(--game-muted) flex flex-col items-center py-8 px-4 font-sans relative overflow-hidden">
 
@@ -215,91 +326,136 @@ function ResultsContent() {
                 className="w-full max-w-sm bg-white rounded-4xl shadow-xl shadow-blue-900/5 border border-[#e2e8f0] overflow-hidden relative"
             >
                 {/* Players Section - Blue Background */}
-                <div className="p-8 pb-10 flex items-center justify-between relative z-10 bg-(--game-accent) text-white">
-                    {/* Decorative pattern/gradient */}
-                    <div className="absolute inset-0 bg-linear-to-b from-white/10 to-transparent pointer-events-none" />
-
-                    {/* Self */}
-                    <div className="flex flex-col items-center w-28 relative z-10">
-                        <div className="relative">
-                            <Avatar
-                                src={self.avatar || '/mascot-parrot.jpg'}
-                                alt={self.name}
-                                fallback={self.name.charAt(0)}
-                                size="lg"
-                            />
-                            {result.outcome === 'win' && (
-                                <motion.div
-                                    initial={{ scale: 0 }} animate={{ scale: 1 }}
-                                    className="absolute -bottom-2 -right-2 bg-(--game-warning) text-white p-1.5 rounded-full shadow-md border-2 border-white"
-                                >
-                                    <Trophy className="w-3.5 h-3.5 fill-current" />
-                                </motion.div>
-                            )}
-                        </div>
-                        <p className="font-bold text-blue-50 mt-3 text-sm truncate max-w-full text-center px-1">
-                            {self.name}
+                {isMultiplayer ? (
+                    <div className="p-6 pb-8 relative z-10 bg-(--game-accent) text-white text-center">
+                        <div className="absolute inset-0 bg-linear-to-b from-white/10 to-transparent pointer-events-none" />
+                        <p className="relative text-blue-100 text-xs font-bold tracking-widest uppercase">最終排名</p>
+                        <p className="relative text-4xl font-black tracking-tighter drop-shadow-sm mt-1">
+                            {self.placement} <span className="text-blue-200/70 text-2xl">/ {standings.length}</span>
                         </p>
-                        <div className="mt-1 text-4xl font-black text-white tracking-tighter drop-shadow-sm">
-                            {self.score}
-                        </div>
-                    </div>
-
-                    {/* VS */}
-                    <div className="flex flex-col items-center justify-center -mt-8 relative z-10">
-                        <span className="text-blue-200/50 font-black text-3xl italic">VS</span>
+                        <p className="relative text-blue-50 text-sm font-bold mt-1">{self.score} 分</p>
                     </div>
+                ) : (
+                    <div className="p-8 pb-10 flex items-center justify-between relative z-10 bg-(--game-accent) text-white">
+                        {/* Decorative pattern/gradient */}
+                        <div className="absolute inset-0 bg-linear-to-b from-white/10 to-transparent pointer-events-none" />
+
+                        {/* Self */}
+                        <div className="flex flex-col items-center w-28 relative z-10">
+                            <div className="relative">
+                                <Avatar
+                                    src={self.avatar || '/mascot-parrot.jpg'}
+                                    alt={self.name}
+                                    fallback={self.name.charAt(0)}
+                                    size="lg"
+                                />
+                                {result.outcome === 'win' && (
+                                    <motion.div
+                                        initial={{ scale: 0 }} animate={{ scale: 1 }}
+                                        className="absolute -bottom-2 -right-2 bg-(--game-warning) text-white p-1.5 rounded-full shadow-md border-2 border-white"
+                                    >
+                                        <Trophy className="w-3.5 h-3.5 fill-current" />
+                                    </motion.div>
+                                )}
+                            </div>
+                            <p className="font-bold text-blue-50 mt-3 text-sm truncate max-w-full text-center px-1">
+                                {self.name}
+                            </p>
+                            <div className="mt-1 text-4xl font-black text-white tracking-tighter drop-shadow-sm">
+                                {self.score}
+                            </div>
+                        </div>
 
-                    {/* Opponent */}
-                    <div className="flex flex-col items-center w-28 relative z-10">
-                        <div className="relative">
-                            <Avatar
-                                src={opponent.avatar || '/mascot-robot.jpg'}
-                                alt={opponent.name}
-                                fallback={opponent.isBot ? '機器人' : opponent.name.charAt(0)}
-                                size="lg"
-                            />
+                        {/* VS */}
+                        <div className="flex flex-col items-center justify-center -mt-8 relative z-10">
+                            <span className="text-blue-200/50 font-black text-3xl italic">VS</span>
                         </div>
-                        <p className="font-bold text-blue-50 mt-3 text-sm truncate max-w-full text-center px-1">
-                            {opponent.name}
-                        </p>
-                        <div className={`mt-1 text-4xl font-black tracking-tighter ${result.outcome === 'lose' ? 'text-white' : 'text-blue-200/70'}`}>
-                            {opponent.score}
+
+                        {/* Opponent */}
+                        <div className="flex flex-col items-center w-28 relative z-10">
+                            <div className="relative">
+                                <Avatar
+                                    src={opponent.avatar || '/mascot-robot.jpg'}
+                                    alt={opponent.name}
+                                    fallback={opponent.isBot ? '機器人' : opponent.name.charAt(0)}
+                                    size="lg"
+                                />
+                            </div>
+                            <p className="font-bold text-blue-50 mt-3 text-sm truncate max-w-full text-center px-1">
+                                {opponent.name}
+                            </p>
+                            <div className={`mt-1 text-4xl font-black tracking-tighter ${result.outcome === 'lose' ? 'text-white' : 'text-blue-200/70'}`}>
+                                {opponent.score}
+                            </div>
                         </div>
                     </div>
-                </div>
+                )}
 
                 {/* Match Info Badge - Floating between sections */}
                 <div className="flex justify-center -mt-3 relative z-20">
                     <div className="bg-white border border-[#e2e8f0] shadow-sm rounded-full px-4 py-1.5 text-[10px] font-bold text-(--game-muted-fg) tracking-wider uppercase">
-                        {match.language} • {match.level} • {match.totalQuestions}題
+                        {match.language} • {match.level} • {match.gameMode === 'classic' ? `${match.totalQuestions}題` : GAME_MODES[match.gameMode].label} • {describeMatchRules(match.rules)}
                     </div>
                 </div>
 
                 {/* Stats Grid */}
-                <div className="px-6 pb-6 pt-4">
-                    <StatRow
-                        icon={Target}
-                        label="答對題數"
-                        selfValue={self.correctAnswers}
-                        oppValue={opponent.correctAnswers}
-                        unit={`/${match.totalQuestions}`}
-                    />
-                    <StatRow
-                        icon={Clock}
-                        label="平均速度"
-                        selfValue={self.avgResponseTime}
-                        oppValue={opponent.avgResponseTime}
-                        unit="s"
-                        highlightHigher={false} // Lower time is better
+                {isMultiplayer ? (
+                    <StandingsCard
+                        standings={standings}
+                        selfId={self.id}
+                        totalQuestions={match.totalQuestions}
+                        gameMode={match.gameMode}
                     />
-                    <StatRow
-                        icon={Flame}
-                        label="最高連對"
-                        selfValue={self.maxStreak}
-                        oppValue={opponent.maxStreak}
-                    />
-                </div>
+                ) : (
+                    <div className="px-6 pb-6 pt-4">
+                        {selfModeStat && opponentModeStat && (
+                            <StatRow
+                                icon={selfModeStat.icon}
+                                label={selfModeStat.label}
+                                selfValue={selfModeStat.value}
+                                oppValue={opponentModeStat.value}
+                                unit={selfModeStat.unit}
+                            />
+                        )}
+                        <StatRow
+                            icon={Target}
+                            label="答對題數"
+                            selfValue={self.correctAnswers}
+                            oppValue={opponent.correctAnswers}
+                            unit={match.gameMode === 'classic' ? `/${match.totalQuestions}` : ''}
+                        />
+                        <StatRow
+                            icon={Clock}
+                            label="平均速度"
+                            selfValue={self.avgResponseTime}
+                            oppValue={opponent.avgResponseTime}
+                            unit="s"
+                            highlightHigher={false} // Lower time is better
+                        />
+                        <StatRow
+                            icon={Flame}
+                            label="最高連對"
+                            selfValue={self.maxStreak}
+                            oppValue={opponent.maxStreak}
+                        />
+                        {(self.powerUpsUsed.length > 0 || opponent.powerUpsUsed.length > 0) && (
+                            <StatRow
+                                icon={Sparkles}
+                                label="道具輔助"
+                                selfValue={self.assistedAnswers}
+                                oppValue={opponent.assistedAnswers}
+                                unit="題"
+                                highlightHigher={false} // Fewer assisted answers is better
+                            />
+                        )}
+                    </div>
+                )}
+
+                {/* Scoring rules this match was played with */}
+                <p className="px-6 pb-5 text-center text-[11px] font-semibold text-(--game-muted-fg)">
+                    答對 {match.rules.baseScore} 分 · 速度加分最高 +{match.rules.speedBonusMax} · 連擊最高 {match.rules.comboMultipliers[match.rules.comboMultipliers.length - 1]}x
+                    {match.rules.wrongAnswerPenalty > 0 && ` · 答錯 -${match.rules.wrongAnswerPenalty}`}
+                </p>
             </motion.div>
 
             {/* Action Buttons */}
@@ -5,7 +5,7 @@ import { useParams, useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import { motion, AnimatePresence } from 'framer-motion'
 import Link from 'next/link'
-import { CheckCircle2, Users, X } from 'lucide-react'
+import { CheckCircle2, Users, X, UserX, Copy, Lock, Trophy } from 'lucide-react'
 import { Avatar } from '@/components/game/Avatar'
 import { CountdownOverlay } from '@/components/game/CountdownOverlay'
 import {
@@ -13,11 +13,15 @@ import {
     triggerBotJoin,
     startWaitingMatch,
     leaveWaitingMatch,
-    hostStartGame
+    hostStartGame,
+    kickPlayer
 } from '@/actions/game.server'
-import { getPusherClient, getRoomChannel, ROOM_EVENTS } from '@/lib/pusher'
-import { rankToLevel } from '@/lib/config/game'
-import type { MatchStatus, TargetLanguage } from '@prisma/client'
+import { checkInTournamentMatch, forfeitTournamentMatch } from '@/actions/tournament.server'
+import { getRealtimeClient } from '@/lib/realtime/client'
+import { getRoomChannel, ROOM_EVENTS } from '@/lib/realtime/channels'
+import { rankToLevel, describeMatchRules, GAME_MODES, START_COUNTDOWN_MS } from '@/lib/config/game'
+import { serverNow, syncServerClock } from '@/lib/game-engine/clockSync'
+import type { GameMode, MatchRules, MatchStatus, TargetLanguage } from '@prisma/client'
 
 interface MatchPlayer {
     userId: string | null
@@ -34,9 +38,17 @@ interface MatchInfo {
     targetLanguage: TargetLanguage
     rank: number
     questionCount: number
+    gameMode: GameMode
+    rules: MatchRules
+    maxPlayers: number
     status: MatchStatus
     players: MatchPlayer[]
     isBot: boolean
+    startsAt: number | null  // Quick Match and tournament rooms start on their own
+    tournamentId: string | null
+    isPrivate: boolean
+    joinCode: string | null
+    hasPassphrase: boolean
 }
 
 const languageTestNames: Record<TargetLanguage, string> = {
@@ -53,27 +65,44 @@ export default function WaitingRoomPage() {
     const { data: session } = useSession()
 
     const [match, setMatch] = useState<MatchInfo | null>(null)
-    const [status, setStatus] = useState<'loading' | 'waiting' | 'starting' | 'leaving' | 'error'>('loading')
+    const [status, setStatus] = useState<'loading' | 'waiting' | 'starting' | 'leaving' | 'decided' | 'error'>('loading')
     const [countdown, setCountdown] = useState(3)
     const [showCountdown, setShowCountdown] = useState(false)
     const [error, setError] = useState<string | null>(null)
+    const [inviteCopied, setInviteCopied] = useState(false)
+    const [checkInDeadline, setCheckInDeadline] = useState<number | null>(null)
     const isLeavingRef = useRef(false)
+    const countdownStartedRef = useRef(false)
+
+    // Realtime handlers are bound once - read the current user through a ref
+    const userIdRef = useRef(session?.user?.id)
+    userIdRef.current = session?.user?.id
 
     const isHost = match?.players[0]?.userId === session?.user?.id
     const hasGuest = (match?.players?.length ?? 0) >= 2
+    const isMultiplayer = (match?.maxPlayers ?? 2) > 2
+    const isTournament = !!match?.tournamentId
     const myPlayer = match?.players.find(p => p.userId === session?.user?.id)
     const opponentPlayer = match?.players.find(p => p.userId !== session?.user?.id)
 
+    // Host may remove human guests until the countdown starts (tournament rooms are seated by the tournament)
+    const canKick = (player: MatchPlayer) =>
+        isHost && !isTournament && status === 'waiting' && player.playerId !== 'player_1' && !player.isBot
+
     // Start countdown and navigate to battle
-    const startCountdown = useCallback(async () => {
+    // startsAt is a server timestamp, so every player reaches GO! at the same moment
+    // Runs once - a tournament start arrives both as the check-in response and as the room event
+    const startCountdown = useCallback(async (startsAt = serverNow() + START_COUNTDOWN_MS) => {
+        if (countdownStartedRef.current) return
+        countdownStartedRef.current = true
         setStatus('starting')
         setShowCountdown(true)
 
-        let count = 3
-        setCountdown(count)
+        const getCount = () => Math.max(0, Math.ceil((startsAt - serverNow()) / 1000))
+        setCountdown(getCount())
 
         const interval = setInterval(async () => {
-            count--
+            const count = getCount()
             setCountdown(count)
 
             if (count <= 0) {
@@ -85,9 +114,14 @@ export default function WaitingRoomPage() {
                     console.error('Failed to start match:', err)
                 }
             }
-        }, 1000)
+        }, 100)
     }, [matchId, router])
 
+    // Estimate the clock offset early so the countdown is ready when the host starts
+    useEffect(() => {
+        syncServerClock()
+    }, [])
+
     // Load initial match state
     useEffect(() => {
         async function loadMatch() {
@@ -102,6 +136,12 @@ export default function WaitingRoomPage() {
                     router.push(`/battle/${matchId}`)
                     return
                 }
+                if (data.status === 'cancelled' && data.tournamentId) {
+                    setMatch(data as MatchInfo)
+                    setError('這場比賽已判定結果')
+                    setStatus('decided')
+                    return
+                }
                 if (data.status === 'cancelled') {
                     setError('房間已取消')
                     setStatus('error')
@@ -110,6 +150,16 @@ export default function WaitingRoomPage() {
                 setMatch(data as MatchInfo)
                 setStatus('waiting')
 
+                // Tournament rooms: opening the room is the check-in, the room starts once both are in
+                if (data.tournamentId) {
+                    const checkIn = await checkInTournamentMatch(matchId)
+                    if (checkIn) {
+                        setCheckInDeadline(checkIn.deadlineAt)
+                        const startsAt = checkIn.startsAt
+                        if (startsAt) setMatch(prev => prev && { ...prev, startsAt })
+                    }
+                }
+
                 // Note: We don't auto-start countdown anymore
                 // The host must manually start the game
             } catch (err) {
@@ -121,12 +171,12 @@ export default function WaitingRoomPage() {
         loadMatch()
     }, [matchId, router, startCountdown])
 
-    // Subscribe to Pusher for real-time updates
+    // Subscribe to the realtime channel for live updates
     useEffect(() => {
         if (!matchId) return
 
-        const pusher = getPusherClient()
-        const channel = pusher.subscribe(getRoomChannel(matchId))
+        const realtime = getRealtimeClient()
+        const channel = realtime.subscribe(getRoomChannel(matchId))
 
         channel.bind(ROOM_EVENTS.PLAYER_JOINED, (data: { player: MatchPlayer }) => {
             setMatch(prev => {
@@ -144,8 +194,8 @@ export default function WaitingRoomPage() {
         })
 
         // Listen for host starting the countdown
-        channel.bind(ROOM_EVENTS.START_COUNTDOWN, () => {
-            startCountdown()
+        channel.bind(ROOM_EVENTS.START_COUNTDOWN, (data: { startsAt?: number }) => {
+            startCountdown(data?.startsAt)
         })
 
         channel.bind(ROOM_EVENTS.HOST_LEFT, () => {
@@ -160,22 +210,58 @@ export default function WaitingRoomPage() {
         })
 
         // Listen for guest leaving
-        channel.bind(ROOM_EVENTS.GUEST_LEFT, () => {
+        channel.bind(ROOM_EVENTS.GUEST_LEFT, (data: { playerId?: string }) => {
             setMatch(prev => {
                 if (!prev) return prev
-                // Remove player_2 from the players list
+                // Remove the guest who left (older events only carried the duel guest)
                 return {
                     ...prev,
-                    players: prev.players.filter(p => p.playerId === 'player_1'),
+                    players: prev.players.filter(p => data?.playerId
+                        ? p.playerId !== data.playerId
+                        : p.playerId === 'player_1'),
                 }
             })
         })
 
+        // Tournament room decided without a game (opponent forfeited or a no-show)
+        channel.bind(ROOM_EVENTS.TOURNAMENT_DECIDED, (data: { winnerId: string | null }) => {
+            if (isLeavingRef.current) return
+            setError(data.winnerId && data.winnerId === userIdRef.current
+                ? '對手未到場或已棄權，你獲勝了！'
+                : '這場比賽已判定結果')
+            setStatus('decided')
+        })
+
+        // Host removed a player - either us, or someone else to drop from the list
+        channel.bind(ROOM_EVENTS.PLAYER_KICKED, (data: { playerId: string; userId: string | null }) => {
+            if (data.userId && data.userId === userIdRef.current) {
+                setError('你已被房主移出房間')
+                setStatus('error')
+                return
+            }
+            setMatch(prev => prev && {
+                ...prev,
+                players: prev.players.filter(p => p.playerId !== data.playerId),
+            })
+        })
+
         return () => {
-            pusher.unsubscribe(getRoomChannel(matchId))
+            realtime.unsubscribe(getRoomChannel(matchId))
         }
     }, [matchId, router, startCountdown])
 
+    // Quick Match and tournaments: nobody hosts - every client counts down to the same server time
+    useEffect(() => {
+        const startsAt = match?.startsAt
+        if (!startsAt) return
+
+        setStatus('starting')
+        const timer = setTimeout(() => {
+            startCountdown(startsAt)
+        }, Math.max(0, startsAt - START_COUNTDOWN_MS - serverNow()))
+        return () => clearTimeout(timer)
+    }, [match?.startsAt, startCountdown])
+
     // Bot mode: trigger bot join after 1 second
     useEffect(() => {
         if (isHost && match?.isBot && !hasGuest && status === 'waiting') {
@@ -190,12 +276,41 @@ export default function WaitingRoomPage() {
     const handleLeave = async () => {
         isLeavingRef.current = true
         setStatus('leaving') // Prevent showing error from own HOST_LEFT event
+
+        // Leaving a tournament room forfeits the pairing
+        if (match?.tournamentId) {
+            await forfeitTournamentMatch(matchId)
+            router.push(`/tournaments/${match.tournamentId}`)
+            return
+        }
+
         if (session?.user?.id) {
             await leaveWaitingMatch(matchId, session.user.id)
         }
         router.push('/lobby')
     }
 
+    // Handle host removing a player
+    const handleKick = async (playerId: string) => {
+        if (!session?.user?.id) return
+        const result = await kickPlayer(matchId, playerId)
+        if (!result.success) {
+            console.error('Failed to remove player:', result.error)
+        }
+    }
+
+    // Copy the invite link for a private room
+    const handleCopyInvite = async () => {
+        if (!match?.joinCode) return
+        try {
+            await navigator.clipboard.writeText(`${window.location.origin}/join/${match.joinCode}`)
+            setInviteCopied(true)
+            setTimeout(() => setInviteCopied(false), 2000)
+        } catch (err) {
+            console.error('Failed to copy invite link:', err)
+        }
+    }
+
     // Handle host starting the game
     const handleStartGame = async () => {
         if (!session?.user?.id) return
@@ -225,6 +340,25 @@ export default function WaitingRoomPage() {
         )
     }
 
+    // Tournament room decided without a game
+    if (status === 'decided' && match?.tournamentId) {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC] p-6 text-center">
+                <Trophy className="w-16 h-16 text-[#F5A623] mb-4" />
+                <h1 className="text-xl font-bold text-[#333] mb-6">{error}</h1>
+                <Link href={`/tournaments/${match.tournamentId}`}>
+                    <motion.button
+                        className="px-6 py-3 bg-[#5B8BD4] text-white font-semibold rounded-xl"
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                    >
+                        返回賽事
+                    </motion.button>
+                </Link>
+            </div>
+        )
+    }
+
     // Loading state
     if (status === 'loading' || !match) {
         return (
@@ -244,95 +378,145 @@ export default function WaitingRoomPage() {
                 <div className="flex flex-col">
                     <h1 className="text-xl font-black text-[#333]">等待對戰</h1>
                     <p className="text-xs text-[#64748b] font-bold uppercase tracking-widest mt-1">
-                        {languageTestNames[match.targetLanguage]} · {rankToLevel(match.targetLanguage, match.rank)} · {match.questionCount}題
+                        {languageTestNames[match.targetLanguage]} · {rankToLevel(match.targetLanguage, match.rank)} · {match.gameMode === 'classic' ? `${match.questionCount}題` : GAME_MODES[match.gameMode].label}
+                    </p>
+                    <p className="text-xs text-[#64748b] font-bold mt-0.5">
+                        {describeMatchRules(match.rules)}
+                        {match.rules.wrongAnswerPenalty > 0 && ` · 答錯 -${match.rules.wrongAnswerPenalty}`}
                     </p>
                 </div>
                 <div className="px-4 py-1.5 bg-[#D5E3F7] rounded-full text-sm font-black text-[#5B8BD4] shadow-sm">
-                    {match.isBot ? 'BOT MODE' : 'PVP MODE'}
+                    {match.tournamentId ? 'TOURNAMENT' : match.startsAt ? 'QUICK MATCH' : match.isBot ? 'BOT MODE' : isMultiplayer ? `${match.players.length}/${match.maxPlayers} 人` : 'PVP MODE'}
                 </div>
             </header>
 
+            {/* Private room invite */}
+            {match.isPrivate && match.joinCode && (
+                <div className="px-6 py-3 bg-white border-b-2 border-[#D5E3F7] flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                        <p className="text-[10px] font-bold text-[#64748b] uppercase tracking-widest flex items-center gap-1">
+                            私人房間
+                            {match.hasPassphrase && (
+                                <span className="flex items-center gap-0.5 normal-case tracking-normal">
+                                    · <Lock className="w-3 h-3" /> 需要密語
+                                </span>
+                            )}
+                        </p>
+                        <p className="text-2xl font-black text-[#333] tracking-[0.3em]">{match.joinCode}</p>
+                    </div>
+                    <button
+                        onClick={handleCopyInvite}
+                        className="shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-xl bg-[#D5E3F7] text-[#5B8BD4] text-sm font-bold hover:bg-[#c5d7f2] transition-colors"
+                    >
+                        <Copy className="w-4 h-4" />
+                        {inviteCopied ? '已複製' : '複製邀請連結'}
+                    </button>
+                </div>
+            )}
+
             {/* Main content */}
-            <div className="flex-1 flex flex-col items-center justify-center p-6 space-y-12">
-                {/* VS Indicator */}
-                <div className="relative w-64 h-64 mb-8">
-                    <AnimatePresence>
-                        {!hasGuest && (
-                            <>
+            {isMultiplayer ? (
+                <div className="flex-1 flex flex-col items-center justify-center p-6 gap-6">
+                    <p className="text-sm font-bold text-[#64748b]">
+                        {match.players.length < match.maxPlayers ? '等待玩家加入...' : '房間已滿'}
+                    </p>
+                    <div className="grid grid-cols-2 gap-4 w-full max-w-sm">
+                        {Array.from({ length: match.maxPlayers }, (_, index) => {
+                            const player = match.players[index]
+                            return player ? (
                                 <motion.div
-                                    initial={{ scale: 1, opacity: 0.5 }}
-                                    animate={{ scale: 1.8, opacity: 0 }}
-                                    transition={{ duration: 2, repeat: Infinity, ease: 'easeOut' }}
-                                    className="absolute inset-0 rounded-full border-2 border-[#5B8BD4]/30"
-                                />
+                                    key={player.playerId}
+                                    initial={{ opacity: 0, scale: 0.9 }}
+                                    animate={{ opacity: 1, scale: 1 }}
+                                    className={`flex items-center gap-3 p-3 rounded-2xl bg-white border-2 ${player.userId === session?.user?.id ? 'border-[#5B8BD4]' : 'border-[#D5E3F7]'}`}
+                                >
+                                    <Avatar
+                                        src={player.avatar || ''}
+                                        alt={player.name}
+                                        fallback={(player.name?.[0] || '?').toUpperCase()}
+                                        size="sm"
+                                    />
+                                    <div className="min-w-0 flex-1">
+                                        <p className="font-black text-sm text-[#333] truncate">{player.name}</p>
+                                        <p className="text-[10px] font-bold uppercase text-[#22c55e]">
+                                            {player.playerId === 'player_1' ? 'HOST' : 'READY'}
+                                        </p>
+                                    </div>
+                                    {canKick(player) && (
+                                        <button
+                                            onClick={() => handleKick(player.playerId)}
+                                            title="移出房間"
+                                            className="shrink-0 p-1.5 rounded-lg text-[#94a3b8] hover:text-red-500 hover:bg-red-50 transition-colors"
+                                        >
+                                            <UserX className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </motion.div>
+                            ) : (
                                 <motion.div
-                                    initial={{ scale: 1, opacity: 0.3 }}
-                                    animate={{ scale: 2.2, opacity: 0 }}
-                                    transition={{ duration: 3, repeat: Infinity, ease: 'easeOut', delay: 0.5 }}
-                                    className="absolute inset-0 rounded-full border-2 border-[#5B8BD4]/20"
-                                />
-                            </>
-                        )}
-                    </AnimatePresence>
-
-                    <div className="absolute inset-0 rounded-full border-4 border-white shadow-xl bg-white/50 backdrop-blur-sm flex items-center justify-center">
-                        <motion.div
-                            animate={!hasGuest ? { rotate: 360 } : {}}
-                            transition={{ duration: 4, repeat: Infinity, ease: 'linear' }}
-                            className={`w-[90%] h-[90%] rounded-full border-t-4 ${!hasGuest ? 'border-[#5B8BD4]' : 'border-transparent'} flex items-center justify-center`}
-                        >
-                            <div className="text-center">
-                                <p className="text-3xl font-black text-[#333] italic">VS</p>
-                                <p className="text-[10px] uppercase font-bold text-[#64748b] tracking-tighter mt-1">
-                                    {hasGuest ? 'Arena Ready' : 'Searching...'}
-                                </p>
-                            </div>
-                        </motion.div>
+                                    key={`empty-${index}`}
+                                    className="flex items-center justify-center h-[76px] rounded-2xl border-2 border-dashed border-[#D5E3F7]"
+                                    animate={{ opacity: [0.4, 0.8, 0.4] }}
+                                    transition={{ repeat: Infinity, duration: 2 }}
+                                >
+                                    <Users className="w-6 h-6 text-[#D5E3F7]" />
+                                </motion.div>
+                            )
+                        })}
                     </div>
                 </div>
-
-                {/* Players */}
-                <div className="flex items-start justify-center gap-12 w-full max-w-md">
-                    {/* Self */}
-                    <motion.div
-                        initial={{ opacity: 0, y: 20 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        className="flex flex-col items-center gap-4"
-                    >
-                        <div className="relative">
-                            <Avatar
-                                src={myPlayer?.avatar || session?.user?.image || ''}
-                                alt={myPlayer?.name || session?.user?.name || 'You'}
-                                fallback={(myPlayer?.name?.[0] || session?.user?.name?.[0] || '?').toUpperCase()}
-                                size="lg"
-                            />
+            ) : (
+                <div className="flex-1 flex flex-col items-center justify-center p-6 space-y-12">
+                    {/* VS Indicator */}
+                    <div className="relative w-64 h-64 mb-8">
+                        <AnimatePresence>
+                            {!hasGuest && (
+                                <>
+                                    <motion.div
+                                        initial={{ scale: 1, opacity: 0.5 }}
+                                        animate={{ scale: 1.8, opacity: 0 }}
+                                        transition={{ duration: 2, repeat: Infinity, ease: 'easeOut' }}
+                                        className="absolute inset-0 rounded-full border-2 border-[#5B8BD4]/30"
+                                    />
+                                    <motion.div
+                                        initial={{ scale: 1, opacity: 0.3 }}
+                                        animate={{ scale: 2.2, opacity: 0 }}
+                                        transition={{ duration: 3, repeat: Infinity, ease: 'easeOut', delay: 0.5 }}
+                                        className="absolute inset-0 rounded-full border-2 border-[#5B8BD4]/20"
+                                    />
+                                </>
+                            )}
+                        </AnimatePresence>
+
+                        <div className="absolute inset-0 rounded-full border-4 border-white shadow-xl bg-white/50 backdrop-blur-sm flex items-center justify-center">
                             <motion.div
-                                className="absolute -top-1 -right-1 bg-[#22c55e] text-white p-1 rounded-full border-2 border-white shadow-md"
-                                initial={{ scale: 0 }}
-                                animate={{ scale: 1 }}
+                                animate={!hasGuest ? { rotate: 360 } : {}}
+                                transition={{ duration: 4, repeat: Infinity, ease: 'linear' }}
+                                className={`w-[90%] h-[90%] rounded-full border-t-4 ${!hasGuest ? 'border-[#5B8BD4]' : 'border-transparent'} flex items-center justify-center`}
                             >
-                                <CheckCircle2 className="w-4 h-4" />
+                                <div className="text-center">
+                                    <p className="text-3xl font-black text-[#333] italic">VS</p>
+                                    <p className="text-[10px] uppercase font-bold text-[#64748b] tracking-tighter mt-1">
+                                        {hasGuest ? 'Arena Ready' : 'Searching...'}
+                                    </p>
+                                </div>
                             </motion.div>
                         </div>
-                        <div className="text-center">
-                            <p className="font-black text-[#333]">{myPlayer?.name || session?.user?.name || 'You'}</p>
-                            <p className="text-[10px] font-bold uppercase text-[#22c55e]">READY</p>
-                        </div>
-                    </motion.div>
+                    </div>
 
-                    {/* Opponent */}
-                    {hasGuest ? (
+                    {/* Players */}
+                    <div className="flex items-start justify-center gap-12 w-full max-w-md">
+                        {/* Self */}
                         <motion.div
                             initial={{ opacity: 0, y: 20 }}
                             animate={{ opacity: 1, y: 0 }}
-                            transition={{ delay: 0.2 }}
                             className="flex flex-col items-center gap-4"
                         >
                             <div className="relative">
                                 <Avatar
-                                    src={opponentPlayer?.avatar || ''}
-                                    alt={opponentPlayer?.name || 'Opponent'}
-                                    fallback={opponentPlayer?.isBot ? '🤖' : (opponentPlayer?.name?.[0] || '?').toUpperCase()}
+                                    src={myPlayer?.avatar || session?.user?.image || ''}
+                                    alt={myPlayer?.name || session?.user?.name || 'You'}
+                                    fallback={(myPlayer?.name?.[0] || session?.user?.name?.[0] || '?').toUpperCase()}
                                     size="lg"
                                 />
                                 <motion.div
@@ -344,28 +528,67 @@ export default function WaitingRoomPage() {
                                 </motion.div>
                             </div>
                             <div className="text-center">
-                                <p className="font-black text-[#333]">{opponentPlayer?.name || 'Opponent'}</p>
+                                <p className="font-black text-[#333]">{myPlayer?.name || session?.user?.name || 'You'}</p>
                                 <p className="text-[10px] font-bold uppercase text-[#22c55e]">READY</p>
                             </div>
                         </motion.div>
-                    ) : (
-                        <motion.div
-                            className="flex flex-col items-center gap-4 opacity-30"
-                            animate={{ opacity: [0.3, 0.6, 0.3] }}
-                            transition={{ repeat: Infinity, duration: 2 }}
-                        >
-                            <div className="w-24 h-24 rounded-full bg-white border-4 border-dashed border-[#D5E3F7] flex items-center justify-center">
-                                <Users className="w-8 h-8 text-[#D5E3F7]" />
-                            </div>
-                            <div className="text-center">
-                                <p className="font-bold text-[#64748b]">
-                                    {match.isBot ? '連接中...' : '等待對手...'}
-                                </p>
-                            </div>
-                        </motion.div>
-                    )}
+
+                        {/* Opponent */}
+                        {hasGuest ? (
+                            <motion.div
+                                initial={{ opacity: 0, y: 20 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                transition={{ delay: 0.2 }}
+                                className="flex flex-col items-center gap-4"
+                            >
+                                <div className="relative">
+                                    <Avatar
+                                        src={opponentPlayer?.avatar || ''}
+                                        alt={opponentPlayer?.name || 'Opponent'}
+                                        fallback={opponentPlayer?.isBot ? '🤖' : (opponentPlayer?.name?.[0] || '?').toUpperCase()}
+                                        size="lg"
+                                    />
+                                    <motion.div
+                                        className="absolute -top-1 -right-1 bg-[#22c55e] text-white p-1 rounded-full border-2 border-white shadow-md"
+                                        initial={{ scale: 0 }}
+                                        animate={{ scale: 1 }}
+                                    >
+                                        <CheckCircle2 className="w-4 h-4" />
+                                    </motion.div>
+                                </div>
+                                <div className="text-center">
+                                    <p className="font-black text-[#333]">{opponentPlayer?.name || 'Opponent'}</p>
+                                    <p className="text-[10px] font-bold uppercase text-[#22c55e]">READY</p>
+                                    {opponentPlayer && canKick(opponentPlayer) && (
+                                        <button
+                                            onClick={() => handleKick(opponentPlayer.playerId)}
+                                            className="mt-2 flex items-center gap-1 mx-auto px-2 py-1 rounded-lg text-xs font-bold text-[#94a3b8] hover:text-red-500 hover:bg-red-50 transition-colors"
+                                        >
+                                            <UserX className="w-3.5 h-3.5" />
+                                            移出
+                                        </button>
+                                    )}
+                                </div>
+                            </motion.div>
+                        ) : (
+                            <motion.div
+                                className="flex flex-col items-center gap-4 opacity-30"
+                                animate={{ opacity: [0.3, 0.6, 0.3] }}
+                                transition={{ repeat: Infinity, duration: 2 }}
+                            >
+                                <div className="w-24 h-24 rounded-full bg-white border-4 border-dashed border-[#D5E3F7] flex items-center justify-center">
+                                    <Users className="w-8 h-8 text-[#D5E3F7]" />
+                                </div>
+                                <div className="text-center">
+                                    <p className="font-bold text-[#64748b]">
+                                        {match.isBot ? '連接中...' : '等待對手...'}
+                                    </p>
+                                </div>
+                            </motion.div>
+                        )}
+                    </div>
                 </div>
-            </div>
+            )}
 
             {/* Footer */}
             <div className="p-6 bg-white border-t-2 border-[#D5E3F7] z-10">
@@ -381,6 +604,30 @@ export default function WaitingRoomPage() {
                                 戰鬥即將開始...
                             </p>
                         </motion.div>
+                    ) : isTournament ? (
+                        <motion.div
+                            key="tournament-check-in"
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            className="flex flex-col gap-3"
+                        >
+                            <div className="text-center py-2">
+                                <p className="text-[#64748b] font-semibold animate-pulse">
+                                    等待對手進入房間...
+                                </p>
+                                {checkInDeadline && (
+                                    <p className="text-xs text-[#94a3b8] mt-1">
+                                        對手若在 {new Date(checkInDeadline).toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' })} 前未進入，將判你獲勝
+                                    </p>
+                                )}
+                            </div>
+                            <button
+                                onClick={handleLeave}
+                                className="w-full px-4 py-2 text-sm font-semibold rounded-xl text-[#64748b] hover:bg-[#D5E3F7] transition-all"
+                            >
+                                棄權
+                            </button>
+                        </motion.div>
                     ) : isHost && hasGuest ? (
                         <motion.div
                             key="host-ready"
@@ -0,0 +1,396 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import { motion } from 'framer-motion'
+import Link from 'next/link'
+import { ChevronLeft, Crown, Swords, Trophy, Users, X } from 'lucide-react'
+import { Avatar } from '@/components/game/Avatar'
+import {
+    getTournament,
+    registerForTournament,
+    withdrawFromTournament,
+    startTournament,
+    cancelTournament,
+    type TournamentPairingInfo,
+    type TournamentView,
+} from '@/actions/tournament.server'
+import { gameLanguages, rankToLevel, MATCH_RULE_PRESETS } from '@/lib/config/game'
+import { TOURNAMENT_FORMATS, TOURNAMENT_MIN_PLAYERS } from '@/lib/config/tournament'
+
+/** Refresh while the tournament runs (each load also decides overdue no-shows) */
+const POLL_INTERVAL_MS = 10000
+
+/** Action errors shown under the buttons */
+const actionErrorMessages: Record<string, string> = {
+    'Registration is closed': '報名已截止',
+    'Already registered': '你已經報名了',
+    'Tournament is full': '名額已滿',
+    'Tournament is over': '賽事已結束',
+    [`Need at least ${TOURNAMENT_MIN_PLAYERS} players to start`]: `至少需要 ${TOURNAMENT_MIN_PLAYERS} 位選手才能開賽`,
+}
+
+function getRoundLabel(round: number, totalRounds: number, isElimination: boolean): string {
+    if (isElimination && round === totalRounds) return '決賽'
+    if (isElimination && round === totalRounds - 1) return '準決賽'
+    return `第 ${round} 輪`
+}
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString('zh-TW', { hour: '2-digit', minute: '2-digit' })
+}
+
+/**
+ * Tournament page - registration, the bracket (or Swiss rounds), your next match and the standings
+ */
+export default function TournamentPage() {
+    const params = useParams<{ tournamentId: string }>()
+    const tournamentId = params.tournamentId
+    const router = useRouter()
+    const { data: session } = useSession()
+    const userId = session?.user?.id
+
+    const [tournament, setTournament] = useState<TournamentView | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [isBusy, setIsBusy] = useState(false)
+    const [actionError, setActionError] = useState<string | null>(null)
+
+    const load = useCallback(async () => {
+        try {
+            setTournament(await getTournament(tournamentId))
+        } catch (error) {
+            console.error('Failed to load tournament:', error)
+        } finally {
+            setLoading(false)
+        }
+    }, [tournamentId])
+
+    useEffect(() => {
+        load()
+    }, [load])
+
+    const isRunning = tournament?.status === 'running'
+    useEffect(() => {
+        if (!isRunning) return
+        const interval = setInterval(load, POLL_INTERVAL_MS)
+        return () => clearInterval(interval)
+    }, [isRunning, load])
+
+    const runAction = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+        setIsBusy(true)
+        setActionError(null)
+        try {
+            const result = await action()
+            if (!result.success) {
+                setActionError(actionErrorMessages[result.error ?? ''] ?? '操作失敗，請稍後再試')
+            }
+            await load()
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC]">
+                <div className="w-12 h-12 border-4 border-[#5B8BD4] border-t-transparent rounded-full animate-spin" />
+                <p className="mt-4 text-[#64748b]">載入中...</p>
+            </div>
+        )
+    }
+
+    if (!tournament) {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center bg-[#F5F8FC] p-6">
+                <X className="w-16 h-16 text-red-400 mb-4" />
+                <h1 className="text-xl font-bold text-[#333] mb-6">找不到這場賽事</h1>
+                <Link
+                    href="/tournaments"
+                    className="px-6 py-3 bg-[#5B8BD4] text-white font-semibold rounded-xl"
+                >
+                    返回賽事列表
+                </Link>
+            </div>
+        )
+    }
+
+    const language = gameLanguages.find(l => l.id === tournament.targetLanguage)
+    const isElimination = tournament.format === 'single_elimination'
+    const entrantOf = (id: string | null) => tournament.entrants.find(e => e.userId === id)
+    const ownPairing = tournament.pairings.find(p =>
+        p.status === 'ready' && !!p.matchId && (p.player1Id === userId || p.player2Id === userId)
+    )
+    const rounds = Array.from({ length: tournament.totalRounds }, (_, index) => index + 1)
+        .map(round => ({ round, pairings: tournament.pairings.filter(p => p.round === round) }))
+        .filter(r => r.pairings.length > 0)
+    const champion = tournament.status === 'finished' ? tournament.standings[0] : undefined
+
+    const renderSeat = (pairing: TournamentPairingInfo, playerId: string | null) => {
+        const entrant = entrantOf(playerId)
+        const isWinner = !!playerId && pairing.winnerId === playerId
+        const isDecided = pairing.status !== 'pending' && pairing.status !== 'ready'
+        return (
+            <div className={`flex items-center gap-2 px-3 py-2 ${isDecided && !isWinner ? 'opacity-50' : ''}`}>
+                <span className="w-5 shrink-0 text-[10px] font-bold text-[#94a3b8]">{entrant?.seed ?? ''}</span>
+                <span className={`flex-1 min-w-0 truncate text-sm ${isWinner ? 'font-black' : 'font-semibold'} ${playerId === userId ? 'text-[#5B8BD4]' : isWinner ? 'text-[#333]' : 'text-[#64748b]'}`}>
+                    {entrant?.name ?? (pairing.status === 'pending' ? '待定' : '—')}
+                </span>
+                {isWinner && <Crown className="w-3.5 h-3.5 shrink-0 text-[#F5A623]" />}
+            </div>
+        )
+    }
+
+    const renderPairing = (pairing: TournamentPairingInfo) => (
+        <div key={pairing.id} className="rounded-xl bg-white border-2 border-[#D5E3F7] overflow-hidden">
+            {renderSeat(pairing, pairing.player1Id)}
+            <div className="h-px bg-[#D5E3F7]" />
+            {renderSeat(pairing, pairing.player2Id)}
+            {pairing.status !== 'pending' && pairing.status !== 'finished' && (
+                <p className="px-3 py-1 bg-[#F5F8FC] text-[10px] font-bold text-[#64748b]">
+                    {pairing.status === 'ready' ? '對戰中' : pairing.status === 'bye' ? '輪空' : '棄權判定'}
+                    {pairing.isDraw && ' · 平手'}
+                </p>
+            )}
+            {pairing.status === 'finished' && pairing.isDraw && (
+                <p className="px-3 py-1 bg-[#F5F8FC] text-[10px] font-bold text-[#64748b]">
+                    {isElimination ? '平手 · 種子序高者晉級' : '平手'}
+                </p>
+            )}
+        </div>
+    )
+
+    return (
+        <div className="min-h-dvh flex flex-col bg-[#F5F8FC]">
+            {/* Header */}
+            <header className="px-4 py-4 border-b-2 border-[#D5E3F7] flex items-center gap-4 bg-white sticky top-0 z-10">
+                <Link
+                    href="/tournaments"
+                    className="p-2 -ml-2 rounded-full hover:bg-[#D5E3F7] transition-colors"
+                >
+                    <ChevronLeft className="w-5 h-5 text-[#333]" />
+                </Link>
+                <div className="min-w-0">
+                    <h1 className="text-lg font-bold text-[#333] truncate">{tournament.name}</h1>
+                    <p className="text-xs text-[#64748b] font-bold">
+                        {language?.flag} {language?.examName} · {rankToLevel(tournament.targetLanguage, tournament.rank)} · {tournament.questionCount}題 · {MATCH_RULE_PRESETS[tournament.rulesPreset]?.label}
+                    </p>
+                </div>
+            </header>
+
+            <div className="flex-1 px-4 py-6 space-y-6">
+                {/* Summary */}
+                <section className="p-4 rounded-2xl bg-white border-2 border-[#D5E3F7] space-y-1">
+                    <p className="font-black text-[#333]">{TOURNAMENT_FORMATS[tournament.format].label}</p>
+                    <p className="text-xs text-[#64748b]">{TOURNAMENT_FORMATS[tournament.format].description}</p>
+                    <p className="text-sm text-[#64748b] flex items-center gap-1.5 pt-2">
+                        <Users className="w-4 h-4" />
+                        {tournament.playerCount} / {tournament.capacity} 位選手 · 主辦 {tournament.organizerName}
+                    </p>
+                    {isRunning && (
+                        <p className="text-sm font-bold text-[#5B8BD4]">
+                            進行中 · {getRoundLabel(tournament.currentRound, tournament.totalRounds, isElimination)}
+                        </p>
+                    )}
+                    {tournament.status === 'cancelled' && (
+                        <p className="text-sm font-bold text-red-500">賽事已取消</p>
+                    )}
+                </section>
+
+                {/* Champion */}
+                {champion && (
+                    <motion.section
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        className="p-5 rounded-2xl bg-[#F5A623]/10 border-2 border-[#F5A623]/40 flex items-center gap-4"
+                    >
+                        <Trophy className="w-10 h-10 text-[#F5A623] shrink-0" />
+                        <div className="min-w-0">
+                            <p className="text-xs font-bold text-[#64748b]">冠軍</p>
+                            <p className="text-xl font-black text-[#333] truncate">{entrantOf(champion.userId)?.name}</p>
+                        </div>
+                    </motion.section>
+                )}
+
+                {/* Your match */}
+                {ownPairing && (
+                    <section className="p-4 rounded-2xl bg-[#5B8BD4] text-white flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                            <p className="text-xs font-bold opacity-80">你的對戰已準備好</p>
+                            <p className="font-black truncate">
+                                vs {entrantOf(ownPairing.player1Id === userId ? ownPairing.player2Id : ownPairing.player1Id)?.name}
+                            </p>
+                            {ownPairing.deadlineAt && (
+                                <p className="text-xs opacity-80">請在 {formatTime(ownPairing.deadlineAt)} 前進入房間，逾時判負</p>
+                            )}
+                        </div>
+                        <motion.button
+                            onClick={() => router.push(`/room/${ownPairing.matchId}`)}
+                            className="shrink-0 flex items-center gap-1.5 px-4 py-2 rounded-xl bg-white text-[#5B8BD4] font-black"
+                            whileTap={{ scale: 0.95 }}
+                        >
+                            <Swords className="w-4 h-4" />
+                            進入房間
+                        </motion.button>
+                    </section>
+                )}
+
+                {/* Actions */}
+                {(tournament.status === 'registration' || (isRunning && tournament.isRegistered)) && (
+                    <section className="space-y-2">
+                        {tournament.status === 'registration' && (
+                            tournament.isRegistered ? (
+                                <button
+                                    onClick={() => runAction(() => withdrawFromTournament(tournamentId))}
+                                    disabled={isBusy}
+                                    className="w-full py-3 rounded-2xl bg-white border-2 border-[#D5E3F7] text-[#64748b] font-bold hover:bg-[#D5E3F7] transition-all"
+                                >
+                                    取消報名
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={() => runAction(() => registerForTournament(tournamentId))}
+                                    disabled={isBusy || tournament.playerCount >= tournament.capacity}
+                                    className="w-full py-3 rounded-2xl bg-[#5B8BD4] text-white font-black hover:bg-[#4A7BC4] transition-all disabled:bg-[#D5E3F7] disabled:text-[#64748b]"
+                                >
+                                    {tournament.playerCount >= tournament.capacity ? '名額已滿' : '報名參賽'}
+                                </button>
+                            )
+                        )}
+
+                        {tournament.status === 'registration' && tournament.isOrganizer && (
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => runAction(() => cancelTournament(tournamentId))}
+                                    disabled={isBusy}
+                                    className="flex-1 py-3 rounded-2xl text-sm font-semibold text-[#64748b] border-2 border-[#D5E3F7] hover:bg-[#D5E3F7] transition-all"
+                                >
+                                    取消賽事
+                                </button>
+                                <button
+                                    onClick={() => runAction(() => startTournament(tournamentId))}
+                                    disabled={isBusy || tournament.playerCount < TOURNAMENT_MIN_PLAYERS}
+                                    className="flex-2 py-3 rounded-2xl bg-[#333] text-white font-black transition-all disabled:bg-[#D5E3F7] disabled:text-[#64748b]"
+                                >
+                                    {tournament.playerCount < TOURNAMENT_MIN_PLAYERS
+                                        ? `至少 ${TOURNAMENT_MIN_PLAYERS} 人才能開賽`
+                                        : '截止報名並開賽'}
+                                </button>
+                            </div>
+                        )}
+
+                        {isRunning && tournament.isRegistered && (
+                            <button
+                                onClick={() => {
+                                    if (window.confirm('退出後本輪判負，且不再安排之後的對戰。確定要退出嗎？')) {
+                                        runAction(() => withdrawFromTournament(tournamentId))
+                                    }
+                                }}
+                                disabled={isBusy}
+                                className="w-full py-2 rounded-xl text-sm font-semibold text-[#94a3b8] hover:text-red-500 hover:bg-red-50 transition-colors"
+                            >
+                                退出賽事
+                            </button>
+                        )}
+
+                        {actionError && (
+                            <p className="text-sm font-semibold text-red-500 text-center">{actionError}</p>
+                        )}
+                    </section>
+                )}
+
+                {/* Entrants (before the start) */}
+                {tournament.status === 'registration' && (
+                    <section>
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">已報名</h2>
+                        {tournament.entrants.length === 0 ? (
+                            <p className="text-sm text-[#94a3b8]">還沒有人報名</p>
+                        ) : (
+                            <div className="grid grid-cols-2 gap-2">
+                                {tournament.entrants.map(entrant => (
+                                    <div key={entrant.userId} className="flex items-center gap-2 p-2 rounded-xl bg-white border-2 border-[#D5E3F7]">
+                                        <Avatar
+                                            src={entrant.avatar || ''}
+                                            alt={entrant.name}
+                                            fallback={(entrant.name?.[0] || '?').toUpperCase()}
+                                            size="sm"
+                                        />
+                                        <span className="text-sm font-bold text-[#333] truncate">{entrant.name}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </section>
+                )}
+
+                {/* Bracket: one column per round */}
+                {isElimination && rounds.length > 0 && (
+                    <section>
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">對戰表</h2>
+                        <div className="overflow-x-auto -mx-4 px-4 pb-2">
+                            <div className="flex gap-3 min-w-max">
+                                {rounds.map(({ round, pairings }) => (
+                                    <div key={round} className="w-44 flex flex-col">
+                                        <p className="text-xs font-black text-[#5B8BD4] mb-2">
+                                            {getRoundLabel(round, tournament.totalRounds, true)}
+                                        </p>
+                                        <div className="flex-1 flex flex-col justify-around gap-3">
+                                            {pairings.map(renderPairing)}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </section>
+                )}
+
+                {/* Standings (Swiss: live, single elimination: once finished) */}
+                {tournament.standings.length > 0 && (!isElimination || tournament.status === 'finished') && (
+                    <section>
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">
+                            {tournament.status === 'finished' ? '最終排名' : '目前排名'}
+                        </h2>
+                        <div className="rounded-2xl bg-white border-2 border-[#D5E3F7] divide-y-2 divide-[#D5E3F7]">
+                            {tournament.standings.map(standing => {
+                                const entrant = entrantOf(standing.userId)
+                                return (
+                                    <div key={standing.userId} className="flex items-center gap-3 px-4 py-2.5">
+                                        <span className="w-6 text-center font-black text-[#5B8BD4]">{standing.placement}</span>
+                                        <span className={`flex-1 min-w-0 truncate font-bold ${standing.userId === userId ? 'text-[#5B8BD4]' : 'text-[#333]'}`}>
+                                            {entrant?.name}
+                                            {entrant?.withdrawn && <span className="ml-1 text-xs text-[#94a3b8]">(退出)</span>}
+                                        </span>
+                                        <span className="text-sm font-black text-[#333]">
+                                            {isElimination ? `${standing.points} 勝` : `${standing.points} 分`}
+                                        </span>
+                                        {!isElimination && (
+                                            <span className="w-12 text-right text-xs text-[#94a3b8]" title="Buchholz">
+                                                {standing.buchholz}
+                                            </span>
+                                        )}
+                                    </div>
+                                )
+                            })}
+                        </div>
+                    </section>
+                )}
+
+                {/* Swiss rounds */}
+                {!isElimination && rounds.length > 0 && (
+                    <section className="space-y-4">
+                        {[...rounds].reverse().map(({ round, pairings }) => (
+                            <div key={round}>
+                                <h2 className="text-sm font-semibold text-[#64748b] mb-2">
+                                    {getRoundLabel(round, tournament.totalRounds, false)}
+                                </h2>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {pairings.map(renderPairing)}
+                                </div>
+                            </div>
+                        ))}
+                    </section>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,246 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+import { createTournament } from '@/actions/tournament.server'
+import {
+    gameLanguages, questionCounts, levelToRank, MATCH_RULE_PRESETS,
+    type GameLanguageConfig, type MatchRulePreset,
+} from '@/lib/config/game'
+import { TOURNAMENT_CAPACITIES, TOURNAMENT_FORMATS, TOURNAMENT_NAME_MAX_LENGTH } from '@/lib/config/tournament'
+import type { TournamentFormat } from '@prisma/client'
+
+/**
+ * Tournament setup - the organizer picks the format and the match settings, then opens registration
+ */
+export default function NewTournamentPage() {
+    const router = useRouter()
+
+    const [name, setName] = useState('')
+    const [format, setFormat] = useState<TournamentFormat>('single_elimination')
+    const [capacity, setCapacity] = useState<number>(TOURNAMENT_CAPACITIES[0])
+    const [selectedLanguage, setSelectedLanguage] = useState<GameLanguageConfig | null>(null)
+    const [selectedLevel, setSelectedLevel] = useState<string | null>(null)
+    const [selectedCount, setSelectedCount] = useState<number>(10)
+    const [rulesPreset, setRulesPreset] = useState<MatchRulePreset>('standard')
+    const [isCreating, setIsCreating] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const isReady = !!name.trim() && !!selectedLanguage && !!selectedLevel
+
+    const handleCreate = async () => {
+        if (!name.trim() || !selectedLanguage || !selectedLevel) return
+
+        setIsCreating(true)
+        setError(null)
+        try {
+            const { tournamentId } = await createTournament({
+                name,
+                format,
+                targetLanguage: selectedLanguage.id,
+                rank: levelToRank(selectedLanguage.id, selectedLevel),
+                questionCount: selectedCount,
+                rulesPreset,
+                capacity,
+            })
+            router.push(`/tournaments/${tournamentId}`)
+        } catch (err) {
+            console.error('Failed to create tournament:', err)
+            setError('此難度目前沒有題目，請換個難度')
+            setIsCreating(false)
+        }
+    }
+
+    return (
+        <div className="min-h-dvh flex flex-col bg-[#F5F8FC] relative">
+            {/* Header */}
+            <header className="px-4 py-4 border-b-2 border-[#D5E3F7] flex items-center gap-4 bg-white">
+                <Link
+                    href="/tournaments"
+                    className="p-2 -ml-2 rounded-full hover:bg-[#D5E3F7] transition-colors"
+                >
+                    <ArrowLeft className="w-5 h-5 text-[#333]" />
+                </Link>
+                <h1 className="text-lg font-bold text-[#333]">舉辦賽事</h1>
+            </header>
+
+            <div className="flex-1 px-4 py-6 pb-28 space-y-6">
+                {/* Name */}
+                <section>
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">賽事名稱</h2>
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        maxLength={TOURNAMENT_NAME_MAX_LENGTH}
+                        placeholder="例如：週五 N3 單字王"
+                        className="w-full px-4 py-3 rounded-xl border-2 border-[#D5E3F7] bg-white text-[#333] font-semibold focus:outline-none focus:border-[#5B8BD4]"
+                    />
+                </section>
+
+                {/* Format */}
+                <section>
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">賽制</h2>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(Object.entries(TOURNAMENT_FORMATS) as [TournamentFormat, typeof TOURNAMENT_FORMATS[TournamentFormat]][]).map(([id, option]) => (
+                            <motion.button
+                                key={id}
+                                onClick={() => setFormat(id)}
+                                className={`p-3 rounded-xl border-2 text-left transition-all ${format === id
+                                    ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                    : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                    }`}
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                            >
+                                <span className="font-semibold text-[#333] block">{option.label}</span>
+                                <span className="text-xs text-[#64748b]">{option.description}</span>
+                            </motion.button>
+                        ))}
+                    </div>
+                </section>
+
+                {/* Capacity */}
+                <section>
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">人數上限</h2>
+                    <div className="flex gap-3">
+                        {TOURNAMENT_CAPACITIES.map((count) => (
+                            <motion.button
+                                key={count}
+                                onClick={() => setCapacity(count)}
+                                className={`flex-1 py-3 rounded-xl font-bold text-lg transition-all ${capacity === count
+                                    ? 'bg-[#5B8BD4] text-white'
+                                    : 'bg-white border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                                    }`}
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                            >
+                                {count}
+                            </motion.button>
+                        ))}
+                    </div>
+                </section>
+
+                {/* Language Selection */}
+                <section>
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">選擇語言</h2>
+                    <div className="grid grid-cols-2 gap-3">
+                        {gameLanguages.map((lang) => (
+                            <motion.button
+                                key={lang.id}
+                                onClick={() => {
+                                    setSelectedLanguage(lang)
+                                    setSelectedLevel(null)
+                                }}
+                                className={`p-4 rounded-2xl border-2 transition-all ${selectedLanguage?.id === lang.id
+                                    ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                    : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                    }`}
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                            >
+                                <span className="text-3xl mb-2 block">{lang.flag}</span>
+                                <span className="font-semibold text-[#333]">{lang.examName}</span>
+                                <span className="text-xs text-[#64748b] block">{lang.name}</span>
+                            </motion.button>
+                        ))}
+                    </div>
+                </section>
+
+                {/* Difficulty Selection */}
+                {selectedLanguage && (
+                    <motion.section
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                    >
+                        <h2 className="text-sm font-semibold text-[#64748b] mb-3">
+                            選擇難度 ({selectedLanguage.examName})
+                        </h2>
+                        <div className="flex flex-wrap gap-2">
+                            {selectedLanguage.levels.map((level) => (
+                                <motion.button
+                                    key={level}
+                                    onClick={() => setSelectedLevel(level)}
+                                    className={`px-4 py-2 rounded-xl font-medium transition-all ${selectedLevel === level
+                                        ? 'bg-[#5B8BD4] text-white'
+                                        : 'bg-white border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                                        }`}
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                >
+                                    {level}
+                                </motion.button>
+                            ))}
+                        </div>
+                    </motion.section>
+                )}
+
+                {/* Question Count */}
+                <section>
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">題數</h2>
+                    <div className="flex gap-3">
+                        {questionCounts.map((count) => (
+                            <motion.button
+                                key={count}
+                                onClick={() => setSelectedCount(count)}
+                                className={`flex-1 py-3 rounded-xl font-bold text-lg transition-all ${selectedCount === count
+                                    ? 'bg-[#5B8BD4] text-white'
+                                    : 'bg-white border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                                    }`}
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                            >
+                                {count}題
+                            </motion.button>
+                        ))}
+                    </div>
+                </section>
+
+                {/* Rules */}
+                <section>
+                    <h2 className="text-sm font-semibold text-[#64748b] mb-3">規則</h2>
+                    <div className="grid grid-cols-2 gap-2">
+                        {(Object.entries(MATCH_RULE_PRESETS) as [MatchRulePreset, typeof MATCH_RULE_PRESETS[MatchRulePreset]][]).map(([id, preset]) => (
+                            <motion.button
+                                key={id}
+                                onClick={() => setRulesPreset(id)}
+                                className={`p-3 rounded-xl border-2 text-left transition-all ${rulesPreset === id
+                                    ? 'border-[#5B8BD4] bg-[#D5E3F7]'
+                                    : 'border-[#D5E3F7] bg-white hover:bg-[#D5E3F7]'
+                                    }`}
+                                whileHover={{ scale: 1.02 }}
+                                whileTap={{ scale: 0.98 }}
+                            >
+                                <span className="font-semibold text-[#333] block">{preset.label}</span>
+                                <span className="text-xs text-[#64748b]">{preset.description}</span>
+                            </motion.button>
+                        ))}
+                    </div>
+                </section>
+
+                {error && (
+                    <p className="text-sm font-semibold text-red-500 text-center">{error}</p>
+                )}
+            </div>
+
+            {/* Fixed Bottom Button */}
+            <div className="fixed bottom-0 left-1/2 -translate-x-1/2 w-full max-w-[480px] p-4 bg-linear-gradient-to-t from-[#F5F8FC] via-[#F5F8FC]/95 to-transparent">
+                <motion.button
+                    onClick={handleCreate}
+                    disabled={!isReady || isCreating}
+                    className={`w-full py-4 text-lg font-semibold rounded-2xl transition-all ${isReady && !isCreating
+                        ? 'bg-[#5B8BD4] text-white'
+                        : 'bg-[#D5E3F7] text-[#64748b] cursor-not-allowed'
+                        }`}
+                    style={{ boxShadow: isReady && !isCreating ? '0 10px 25px -5px rgba(91, 139, 212, 0.4)' : 'none' }}
+                    whileHover={isReady && !isCreating ? { scale: 1.02, backgroundColor: '#4A7BC4' } : {}}
+                    whileTap={isReady && !isCreating ? { scale: 0.98 } : {}}
+                >
+                    {isCreating ? '建立中...' : '開放報名'}
+                </motion.button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import Link from 'next/link'
+import { ChevronLeft, Plus, Trophy, Users } from 'lucide-react'
+import { getTournaments, type TournamentSummary } from '@/actions/tournament.server'
+import { gameLanguages, rankToLevel } from '@/lib/config/game'
+import { TOURNAMENT_FORMATS } from '@/lib/config/tournament'
+
+function getStatusLabel(tournament: TournamentSummary): string {
+    switch (tournament.status) {
+        case 'registration': return '報名中'
+        case 'running': return `第 ${tournament.currentRound} / ${tournament.totalRounds} 輪`
+        case 'finished': return '已結束'
+        default: return '已取消'
+    }
+}
+
+/**
+ * Tournament list - open registrations first, then running and finished events
+ */
+export default function TournamentsPage() {
+    const [tournaments, setTournaments] = useState<TournamentSummary[]>([])
+    const [loading, setLoading] = useState(true)
+
+    useEffect(() => {
+        getTournaments()
+            .then(setTournaments)
+            .catch(error => console.error('Failed to load tournaments:', error))
+            .finally(() => setLoading(false))
+    }, [])
+
+    return (
+        <div className="min-h-dvh flex flex-col bg-[#F5F8FC]">
+            {/* Header */}
+            <header className="px-4 py-4 border-b-2 border-[#D5E3F7] flex items-center justify-between gap-4 bg-white sticky top-0 z-10">
+                <div className="flex items-center gap-4">
+                    <Link
+                        href="/lobby"
+                        className="p-2 -ml-2 rounded-full hover:bg-[#D5E3F7] transition-colors"
+                    >
+                        <ChevronLeft className="w-5 h-5 text-[#333]" />
+                    </Link>
+                    <h1 className="text-lg font-bold text-[#333]">錦標賽</h1>
+                </div>
+                <Link
+                    href="/tournaments/new"
+                    className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-[#5B8BD4] text-white text-sm font-bold hover:bg-[#4A7BC4] transition-colors"
+                >
+                    <Plus className="w-4 h-4" />
+                    舉辦賽事
+                </Link>
+            </header>
+
+            <div className="flex-1 px-4 py-6 space-y-3">
+                {loading ? (
+                    <div className="flex justify-center py-12">
+                        <div className="w-10 h-10 border-4 border-[#5B8BD4] border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : tournaments.length === 0 ? (
+                    <div className="flex flex-col items-center gap-3 py-12 text-center">
+                        <Trophy className="w-12 h-12 text-[#D5E3F7]" />
+                        <p className="text-[#64748b]">目前沒有賽事，舉辦第一場吧！</p>
+                    </div>
+                ) : (
+                    tournaments.map(tournament => {
+                        const language = gameLanguages.find(l => l.id === tournament.targetLanguage)
+                        return (
+                            <Link key={tournament.id} href={`/tournaments/${tournament.id}`} className="block">
+                                <motion.div
+                                    className="p-4 rounded-2xl bg-white border-2 border-[#D5E3F7] hover:border-[#5B8BD4] transition-colors"
+                                    whileTap={{ scale: 0.98 }}
+                                >
+                                    <div className="flex items-start justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="font-black text-[#333] truncate">{tournament.name}</p>
+                                            <p className="text-xs text-[#64748b] font-bold mt-1">
+                                                {language?.flag} {language?.examName} · {rankToLevel(tournament.targetLanguage, tournament.rank)} · {TOURNAMENT_FORMATS[tournament.format].label}
+                                            </p>
+                                        </div>
+                                        <span className={`shrink-0 px-3 py-1 rounded-full text-xs font-black ${tournament.status === 'registration'
+                                            ? 'bg-[#22c55e]/15 text-[#16a34a]'
+                                            : tournament.status === 'running'
+                                                ? 'bg-[#D5E3F7] text-[#5B8BD4]'
+                                                : 'bg-[#F5F8FC] text-[#64748b]'
+                                            }`}>
+                                            {getStatusLabel(tournament)}
+                                        </span>
+                                    </div>
+                                    <p className="mt-3 flex items-center gap-1.5 text-sm text-[#64748b]">
+                                        <Users className="w-4 h-4" />
+                                        {tournament.playerCount} / {tournament.capacity}
+                                    </p>
+                                </motion.div>
+                            </Link>
+                        )
+                    })
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useEffect, Suspense } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useParams, useRouter } from 'next/navigation'
+import { Eye } from 'lucide-react'
+import { OptionCard } from '@/components/game/OptionCard'
+import { Scoreboard } from '@/components/game/Scoreboard'
+import { useGameClient } from '@/lib/game-engine/useGameClient'
+import { GamePhase } from '@/types/game'
+import { rankToLevel, GAME_MODES } from '@/lib/config/game'
+import { getLanguageConfig } from '@/lib/config/factory'
+
+/**
+ * Read-only view of a live match (exhibitions, or any game a friend shares)
+ * Shows the same redacted broadcasts as the players get - choices appear once the round resolves
+ * (time attack follows the first seat's own question)
+ */
+function WatchContent() {
+    const params = useParams<{ matchId: string }>()
+    const router = useRouter()
+    const matchId = params.matchId || ''
+
+    const {
+        view,
+        session: gameSession,
+        isLoading,
+        error: hookError,
+        timeLeft,
+        currentQuestion,
+        answeredCount,
+        isConnected,
+        spectatorCount,
+    } = useGameClient(matchId, { spectator: true })
+
+    const totalQuestions = gameSession?.questions.length || 10
+    const langParam = gameSession?.targetLanguage || 'JP'
+    const rankParam = gameSession?.rank || 1
+
+    // Show the final standings once the match is over
+    useEffect(() => {
+        if (view?.phase === GamePhase.FINISHED && matchId) {
+            router.push(`/results/${matchId}`)
+        }
+    }, [view?.phase, matchId, router])
+
+    if (hookError) {
+        const message = hookError === 'MATCH_FINISHED'
+            ? '此對戰已結束'
+            : hookError === 'MATCH_EXPIRED'
+                ? '對戰資料已過期'
+                : hookError === 'Game not found' ? '對戰尚未開始' : hookError
+
+        return (
+            <div className="min-h-dvh flex items-center justify-center bg-white p-6">
+                <div className="text-center">
+                    <div className="text-6xl mb-4">📺</div>
+                    <p className="text-[#ef4444] font-bold mb-4">{message}</p>
+                    <button
+                        onClick={() => router.push('/lobby')}
+                        className="px-6 py-2 bg-[#5B8BD4] text-white rounded-xl font-bold"
+                    >
+                        返回大廳
+                    </button>
+                </div>
+            </div>
+        )
+    }
+
+    if (isLoading || !view) {
+        return (
+            <div className="min-h-dvh flex items-center justify-center bg-white">
+                <div className="text-center">
+                    <div className="w-16 h-16 border-4 border-[#5B8BD4] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                    <p className="text-[#64748b] font-bold">載入對戰數據中...</p>
+                </div>
+            </div>
+        )
+    }
+
+    const isShowingResult = view.phase === GamePhase.RESOLVING
+    const [leftPlayer, rightPlayer] = [view.self, view.opponent]
+    const isDuel = view.players.length === 2
+    const isTimeAttackMode = view.gameMode === 'time_attack'
+
+    return (
+        <div className="min-h-dvh flex flex-col bg-white relative">
+            {/* Header */}
+            <header className="bg-white px-4 py-3 border-b-2 border-[#D5E3F7] flex items-center justify-between gap-2">
+                <h1 className="text-xl font-bold text-[#333]">
+                    {getLanguageConfig(langParam).examName} {rankToLevel(langParam, rankParam)}
+                </h1>
+                <span className="flex items-center gap-1 px-3 py-1 rounded-full bg-[#fee2e2] text-[#ef4444] text-xs font-bold">
+                    <Eye className="w-3.5 h-3.5" />
+                    觀戰中{spectatorCount > 0 && ` · ${spectatorCount}`}
+                </span>
+            </header>
+
+            {/* Connection Banner */}
+            <AnimatePresence>
+                {!isConnected && (
+                    <motion.div
+                        className="px-4 py-2 text-center text-sm font-bold bg-[#fee2e2] text-[#ef4444]"
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                    >
+                        連線中斷，重新連線中...
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* Question Area */}
+            <section className="bg-white px-4 py-6 border-b-2 border-[#D5E3F7]">
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2">
+                        <span className="text-2xl font-bold text-[#5B8BD4]">Q{view.currentQuestionIndex + 1}</span>
+                        {view.gameMode === 'classic' && (
+                            <span className="text-[#64748b] text-sm">/ {totalQuestions}</span>
+                        )}
+                        {view.gameMode !== 'classic' && (
+                            <span className="text-[#64748b] text-sm">{GAME_MODES[view.gameMode].label}</span>
+                        )}
+                    </div>
+                    <div className={`px-3 py-1 rounded-full font-bold ${timeLeft <= 5 ? 'bg-[#fee2e2] text-[#ef4444]' : 'bg-[#D5E3F7] text-[#333]'}`}>
+                        {timeLeft}s
+                    </div>
+                </div>
+
+                <AnimatePresence mode="wait">
+                    <motion.p
+                        key={`q-${view.currentQuestionIndex}`}
+                        className="text-lg font-medium text-[#333] leading-relaxed"
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        transition={{ duration: 0.4, ease: 'easeOut' }}
+                    >
+                        {currentQuestion?.stimulus ?? `${leftPlayer.name} 已完成所有題目`}
+                    </motion.p>
+                </AnimatePresence>
+            </section>
+
+            {/* Options (choices are only known once the round resolves - rooms list them on the scoreboard) */}
+            <section className="bg-white px-4 py-4 flex-1">
+                <div className="grid grid-cols-1 gap-3">
+                    {Object.entries(currentQuestion?.options ?? {}).map(([key, value], index) => (
+                        <OptionCard
+                            key={`q${view.currentQuestionIndex}-${key}`}
+                            id={key}
+                            text={value as string}
+                            state={isShowingResult && key === view.correctAnswer ? 'correct' : 'default'}
+                            disabled
+                            index={index}
+                            onClick={() => { }}
+                            selfBadge={isDuel && isShowingResult && leftPlayer.answer === key ? {
+                                avatar: leftPlayer.avatar,
+                                fallback: leftPlayer.isBot ? '🤖' : leftPlayer.name.charAt(0)
+                            } : null}
+                            opponentBadge={isDuel && isShowingResult && rightPlayer.answer === key ? {
+                                avatar: rightPlayer.avatar,
+                                fallback: rightPlayer.isBot ? '🤖' : rightPlayer.name.charAt(0)
+                            } : null}
+                        />
+                    ))}
+                </div>
+            </section>
+
+            <div className="h-1 bg-[#D5E3F7]" />
+
+            {/* Scoreboard */}
+            <section className="bg-[#D5E3F7] px-4 py-4">
+                <div className="flex items-center justify-between mb-2 text-xs font-bold text-[#64748b]">
+                    <span>即時比分</span>
+                    {view.phase === GamePhase.PLAYING && !isTimeAttackMode && (
+                        <span>{answeredCount} / {view.players.filter(p => !p.isEliminated).length} 已作答</span>
+                    )}
+                </div>
+                <Scoreboard
+                    players={view.players}
+                    selfPlayerId={null}
+                    phase={view.phase}
+                    gameMode={view.gameMode}
+                />
+            </section>
+        </div>
+    )
+}
+
+export default function WatchPage() {
+    return (
+        <Suspense fallback={
+            <div className="min-h-dvh flex items-center justify-center bg-white">
+                <div className="text-center">
+                    <div className="w-16 h-16 border-4 border-[#5B8BD4] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                    <p className="text-[#64748b] font-bold">載入中...</p>
+                </div>
+            </div>
+        }>
+            <WatchContent />
+        </Suspense>
+    )
+}
@@ -0,0 +1,370 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Play, Loader2, AlertTriangle } from 'lucide-react'
+import type { BotBenchmarkRun, BotConfig, ExamQuestionType, TargetLanguage } from '@prisma/client'
+import { languageConfig, getQuestionTypeLabel } from '@/lib/config/factory'
+import type { BenchmarkReport, BenchmarkStats } from '@/lib/bots/benchmark'
+
+interface BotUser {
+    id: string
+    name: string | null
+    botModel: string | null
+    botConfig: BotConfig | null
+}
+
+interface ProgressState {
+    completed: number
+    total: number
+}
+
+const statusLabels: Record<BotBenchmarkRun['status'], string> = {
+    running: '執行中',
+    completed: '完成',
+    failed: '失敗',
+}
+
+function formatPercent(value: number): string {
+    return `${Math.round(value * 100)}%`
+}
+
+export default function BotBenchmarkPage() {
+    const [bots, setBots] = useState<BotUser[]>([])
+    const [runs, setRuns] = useState<BotBenchmarkRun[]>([])
+    const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>('JP')
+    const [rank, setRank] = useState(3)
+    const [sampleSize, setSampleSize] = useState(20)
+    const [selectedBotIds, setSelectedBotIds] = useState<string[]>([])
+    const [running, setRunning] = useState(false)
+    const [progress, setProgress] = useState<ProgressState | null>(null)
+    const [report, setReport] = useState<BenchmarkReport | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const llmBots = bots.filter(bot => bot.botConfig && bot.botConfig.provider !== 'rule')
+    const langConfig = languageConfig?.[targetLanguage]
+
+    const fetchRuns = useCallback(async () => {
+        try {
+            const response = await fetch('/api/bots/benchmark')
+            if (response.ok) {
+                const data = await response.json()
+                setRuns(data.runs)
+            }
+        } catch {
+            console.error('Failed to fetch benchmark runs')
+        }
+    }, [])
+
+    useEffect(() => {
+        fetch('/api/bots')
+            .then(response => response.ok ? response.json() : { bots: [] })
+            .then(data => setBots(data.bots))
+            .catch(() => console.error('Failed to fetch bots'))
+        fetchRuns()
+    }, [fetchRuns])
+
+    const loadReport = async (runId: string) => {
+        setError(null)
+        try {
+            const response = await fetch(`/api/bots/benchmark/${runId}`)
+            const data = await response.json()
+            if (response.ok) {
+                setReport(data)
+            } else {
+                setError(data.error || 'Failed to load report')
+            }
+        } catch {
+            setError('Failed to load report')
+        }
+    }
+
+    const toggleBot = (botId: string) => {
+        setSelectedBotIds(prev => prev.includes(botId)
+            ? prev.filter(id => id !== botId)
+            : [...prev, botId])
+    }
+
+    const handleRun = async () => {
+        setRunning(true)
+        setError(null)
+        setReport(null)
+        setProgress(null)
+
+        try {
+            const response = await fetch('/api/bots/benchmark', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ targetLanguage, rank, sampleSize, botUserIds: selectedBotIds }),
+            })
+
+            if (!response.ok) {
+                const data = await response.json()
+                setError(data.error || 'Failed to start benchmark')
+                return
+            }
+
+            const reader = response.body?.getReader()
+            if (!reader) throw new Error('No response body')
+
+            const decoder = new TextDecoder()
+            let buffer = ''
+
+            while (true) {
+                const { done, value } = await reader.read()
+                if (done) break
+
+                buffer += decoder.decode(value, { stream: true })
+                const lines = buffer.split('\n')
+                buffer = lines.pop() || ''
+
+                for (const line of lines) {
+                    if (!line.startsWith('data: ')) continue
+
+                    try {
+                        const event = JSON.parse(line.slice(6))
+                        if (event.type === 'progress') {
+                            setProgress({ completed: event.completed, total: event.total })
+                        } else if (event.type === 'complete') {
+                            setReport(event.report)
+                        } else if (event.type === 'error') {
+                            setError(event.message)
+                        }
+                    } catch {
+                        // Ignore partial lines
+                    }
+                }
+            }
+        } catch {
+            setError('Benchmark failed')
+        } finally {
+            setRunning(false)
+            fetchRuns()
+        }
+    }
+
+    // Question types that appear in the report, for the table columns
+    const reportTypes = report
+        ? [...new Set(report.bots.flatMap(bot => Object.keys(bot.byType)))] as ExamQuestionType[]
+        : []
+
+    return (
+        <div className="min-h-screen bg-background">
+            {/* Header */}
+            <header className="border-b border-border/50 bg-background/95 backdrop-blur-sm sticky top-0 z-50">
+                <div className="max-w-6xl mx-auto px-6 py-4 flex items-center gap-4">
+                    <Link
+                        href="/admin/bots"
+                        className="p-2 rounded-lg hover:bg-muted transition-colors"
+                    >
+                        <ArrowLeft className="w-5 h-5" />
+                    </Link>
+                    <div>
+                        <h1 className="text-xl font-bold tracking-tight">Bot 評測</h1>
+                        <p className="text-xs text-muted-foreground">Bot Benchmark</p>
+                    </div>
+                </div>
+            </header>
+
+            <main className="max-w-6xl mx-auto px-6 py-8">
+                <div className="grid lg:grid-cols-[320px_1fr] gap-8">
+                    {/* Configuration Panel */}
+                    <div className="space-y-6">
+                        <div className={`p-6 rounded-2xl bg-muted/50 border border-border/50 space-y-4 transition-opacity ${running ? 'opacity-50 pointer-events-none' : ''}`}>
+                            <h2 className="font-semibold">評測參數</h2>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-2">目標語言</label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(['JP', 'EN', 'KR', 'CN'] as const).map(lang => (
+                                        <button
+                                            key={lang}
+                                            onClick={() => { setTargetLanguage(lang); setRank(1) }}
+                                            className={`p-3 rounded-xl border text-left transition-all ${targetLanguage === lang
+                                                ? 'border-primary bg-primary/10' : 'border-border/50 hover:border-primary/50'}`}
+                                        >
+                                            <span className="text-sm font-medium">{languageConfig[lang]?.examName}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-2">難度分級</label>
+                                <select
+                                    value={rank}
+                                    onChange={e => setRank(Number(e.target.value))}
+                                    className={inputClass}
+                                >
+                                    {Object.entries(langConfig?.ranks || {}).map(([r, label]) => (
+                                        <option key={r} value={r}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-2">抽樣題數</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={200}
+                                    value={sampleSize}
+                                    onChange={e => setSampleSize(Number(e.target.value))}
+                                    className={inputClass}
+                                />
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Bot（未選擇則全部）</label>
+                                <div className="space-y-2">
+                                    {llmBots.map(bot => (
+                                        <label key={bot.id} className="flex items-center gap-2 text-sm">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedBotIds.includes(bot.id)}
+                                                onChange={() => toggleBot(bot.id)}
+                                            />
+                                            <span className="truncate">{bot.name || 'Bot'}</span>
+                                            <span className="text-xs text-muted-foreground truncate">{bot.botConfig?.modelId}</span>
+                                        </label>
+                                    ))}
+                                    {llmBots.length === 0 && (
+                                        <p className="text-xs text-muted-foreground">尚無 LLM Bot（規則 Bot 不參與評測）</p>
+                                    )}
+                                </div>
+                            </div>
+
+                            <button
+                                onClick={handleRun}
+                                disabled={running || llmBots.length === 0}
+                                className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:opacity-50 transition-colors"
+                            >
+                                {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                                開始評測
+                            </button>
+                        </div>
+
+                        {/* Past Runs */}
+                        <div className="p-6 rounded-2xl border border-border/50 space-y-2">
+                            <h2 className="font-semibold mb-2">歷史紀錄</h2>
+                            {runs.map(run => (
+                                <button
+                                    key={run.id}
+                                    onClick={() => loadReport(run.id)}
+                                    className={`w-full p-3 rounded-xl border text-left text-sm transition-all ${report?.run.id === run.id
+                                        ? 'border-primary bg-primary/10' : 'border-border/50 hover:border-primary/50'}`}
+                                >
+                                    <div className="flex items-center justify-between">
+                                        <span className="font-medium">{languageConfig[run.targetLanguage]?.ranks[run.rank] ?? `${run.targetLanguage} ${run.rank}`}</span>
+                                        <span className={`text-xs ${run.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                                            {statusLabels[run.status]}
+                                        </span>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                        {new Date(run.createdAt).toLocaleString()} · {run.questionIds.length} 題 · {run.botUserIds.length} Bot
+                                    </p>
+                                </button>
+                            ))}
+                            {runs.length === 0 && (
+                                <p className="text-xs text-muted-foreground">尚無評測紀錄</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Results */}
+                    <div className="space-y-6">
+                        {error && (
+                            <p className="text-sm text-destructive">{error}</p>
+                        )}
+
+                        {progress && running && (
+                            <div className="p-6 rounded-2xl border border-border/50 space-y-2">
+                                <div className="flex justify-between text-sm">
+                                    <span>評測中...</span>
+                                    <span className="text-muted-foreground">{progress.completed} / {progress.total}</span>
+                                </div>
+                                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                                    <div
+                                        className="h-full bg-primary transition-all"
+                                        style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {report && (
+                            <>
+                                <div className="p-6 rounded-2xl border border-border/50 overflow-x-auto">
+                                    <h2 className="font-semibold mb-4">結果（正確率 · 平均延遲 · 逾時率）</h2>
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left text-muted-foreground border-b border-border/50">
+                                                <th className="py-2 pr-4 font-medium">Bot</th>
+                                                <th className="py-2 pr-4 font-medium">整體</th>
+                                                {reportTypes.map(type => (
+                                                    <th key={type} className="py-2 pr-4 font-medium">{getQuestionTypeLabel(type)}</th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {report.bots.map(bot => (
+                                                <tr key={bot.botUserId} className="border-b border-border/50 last:border-0 align-top">
+                                                    <td className="py-3 pr-4">
+                                                        <p className="font-medium">{bot.name}</p>
+                                                        <p className="text-xs text-muted-foreground">{bot.modelId}</p>
+                                                    </td>
+                                                    <td className="py-3 pr-4"><StatsCell stats={bot.overall} /></td>
+                                                    {reportTypes.map(type => (
+                                                        <td key={type} className="py-3 pr-4">
+                                                            {bot.byType[type] ? <StatsCell stats={bot.byType[type]} /> : '-'}
+                                                        </td>
+                                                    ))}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    {report.run.error && (
+                                        <p className="mt-4 text-sm text-destructive">{report.run.error}</p>
+                                    )}
+                                </div>
+
+                                <div className="p-6 rounded-2xl border border-border/50">
+                                    <h2 className="font-semibold mb-1 flex items-center gap-2">
+                                        <AlertTriangle className="w-4 h-4 text-destructive" />
+                                        可疑題目（{report.suspectQuestionIds.length}）
+                                    </h2>
+                                    <p className="text-xs text-muted-foreground mb-4">所有 Bot 都答錯的題目，可能是答案有誤</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {report.suspectQuestionIds.map(questionId => (
+                                            <Link
+                                                key={questionId}
+                                                href={`/admin/questions/${questionId}`}
+                                                className="px-3 py-1.5 rounded-lg bg-muted text-xs font-mono hover:bg-muted/80 transition-colors"
+                                            >
+                                                {questionId.slice(-8)}
+                                            </Link>
+                                        ))}
+                                    </div>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </main>
+        </div>
+    )
+}
+
+const inputClass = 'w-full p-3 rounded-xl border border-border/50 bg-background text-sm focus:border-primary focus:outline-none'
+
+function StatsCell({ stats }: { stats: BenchmarkStats }) {
+    return (
+        <div>
+            <p className="font-semibold">{formatPercent(stats.accuracy)}</p>
+            <p className="text-xs text-muted-foreground">
+                {stats.avgLatencyMs}ms · {formatPercent(stats.timeoutRate)}
+            </p>
+            <p className="text-xs text-muted-foreground">{stats.correct}/{stats.total}</p>
+        </div>
+    )
+}
@@ -0,0 +1,246 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Play, Loader2, Eye, Swords } from 'lucide-react'
+import type { BotConfig, TargetLanguage } from '@prisma/client'
+import { languageConfig } from '@/lib/config/factory'
+import { questionCounts, MATCH_RULE_PRESETS, type MatchRulePreset } from '@/lib/config/game'
+import type { LiveExhibition } from '@/lib/bots/exhibition'
+
+interface BotUser {
+    id: string
+    name: string | null
+    botModel: string | null
+    botConfig: BotConfig | null
+}
+
+export default function BotExhibitionPage() {
+    const [bots, setBots] = useState<BotUser[]>([])
+    const [exhibitions, setExhibitions] = useState<LiveExhibition[]>([])
+    const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>('JP')
+    const [rank, setRank] = useState(3)
+    const [questionCount, setQuestionCount] = useState<number>(10)
+    const [rulesPreset, setRulesPreset] = useState<MatchRulePreset>('standard')
+    const [firstBotId, setFirstBotId] = useState('')
+    const [secondBotId, setSecondBotId] = useState('')
+    const [creating, setCreating] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const langConfig = languageConfig?.[targetLanguage]
+
+    const fetchExhibitions = useCallback(async () => {
+        try {
+            const response = await fetch('/api/exhibitions')
+            if (response.ok) {
+                const data = await response.json()
+                setExhibitions(data.exhibitions)
+            }
+        } catch {
+            console.error('Failed to fetch exhibitions')
+        }
+    }, [])
+
+    useEffect(() => {
+        fetch('/api/bots')
+            .then(response => response.ok ? response.json() : { bots: [] })
+            .then(data => setBots(data.bots))
+            .catch(() => console.error('Failed to fetch bots'))
+        fetchExhibitions()
+    }, [fetchExhibitions])
+
+    const handleCreate = async () => {
+        setCreating(true)
+        setError(null)
+
+        try {
+            const response = await fetch('/api/exhibitions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    targetLanguage,
+                    rank,
+                    questionCount,
+                    botUserIds: [firstBotId, secondBotId],
+                    rulesPreset,
+                }),
+            })
+
+            const data = await response.json()
+            if (response.ok) {
+                await fetchExhibitions()
+                window.open(`/watch/${data.matchId}`, '_blank')
+            } else {
+                setError(data.error || 'Failed to create exhibition')
+            }
+        } catch {
+            setError('Failed to create exhibition')
+        } finally {
+            setCreating(false)
+        }
+    }
+
+    const botLabel = (bot: BotUser) => `${bot.name || 'Bot'} · ${bot.botConfig?.modelId ?? bot.botModel ?? '-'}`
+
+    return (
+        <div className="min-h-screen bg-background">
+            {/* Header */}
+            <header className="border-b border-border/50 bg-background/95 backdrop-blur-sm sticky top-0 z-50">
+                <div className="max-w-4xl mx-auto px-6 py-4 flex items-center gap-4">
+                    <Link
+                        href="/admin/bots"
+                        className="p-2 rounded-lg hover:bg-muted transition-colors"
+                    >
+                        <ArrowLeft className="w-5 h-5" />
+                    </Link>
+                    <div>
+                        <h1 className="text-xl font-bold tracking-tight">Bot 表演賽</h1>
+                        <p className="text-xs text-muted-foreground">Bot vs Bot Exhibition</p>
+                    </div>
+                </div>
+            </header>
+
+            <main className="max-w-4xl mx-auto px-6 py-8 space-y-6">
+                {/* Setup */}
+                <div className="p-6 rounded-2xl bg-muted/50 border border-border/50 space-y-4">
+                    <h2 className="font-semibold">對戰設定</h2>
+
+                    <div className="grid md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Bot A（左）</label>
+                            <select
+                                value={firstBotId}
+                                onChange={e => setFirstBotId(e.target.value)}
+                                className={inputClass}
+                            >
+                                <option value="">選擇 Bot</option>
+                                {bots.map(bot => (
+                                    <option key={bot.id} value={bot.id}>{botLabel(bot)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Bot B（右）</label>
+                            <select
+                                value={secondBotId}
+                                onChange={e => setSecondBotId(e.target.value)}
+                                className={inputClass}
+                            >
+                                <option value="">選擇 Bot</option>
+                                {bots.filter(bot => bot.id !== firstBotId).map(bot => (
+                                    <option key={bot.id} value={bot.id}>{botLabel(bot)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium mb-2">目標語言</label>
+                        <div className="grid grid-cols-4 gap-2">
+                            {(['JP', 'EN', 'KR', 'CN'] as const).map(lang => (
+                                <button
+                                    key={lang}
+                                    onClick={() => { setTargetLanguage(lang); setRank(1) }}
+                                    className={`p-3 rounded-xl border text-left transition-all ${targetLanguage === lang
+                                        ? 'border-primary bg-primary/10' : 'border-border/50 hover:border-primary/50'}`}
+                                >
+                                    <span className="text-sm font-medium">{languageConfig[lang]?.examName}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">難度分級</label>
+                            <select
+                                value={rank}
+                                onChange={e => setRank(Number(e.target.value))}
+                                className={inputClass}
+                            >
+                                {Object.entries(langConfig?.ranks || {}).map(([r, label]) => (
+                                    <option key={r} value={r}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">題數</label>
+                            <select
+                                value={questionCount}
+                                onChange={e => setQuestionCount(Number(e.target.value))}
+                                className={inputClass}
+                            >
+                                {questionCounts.map(count => (
+                                    <option key={count} value={count}>{count} 題</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">規則</label>
+                            <select
+                                value={rulesPreset}
+                                onChange={e => setRulesPreset(e.target.value as MatchRulePreset)}
+                                className={inputClass}
+                            >
+                                {Object.entries(MATCH_RULE_PRESETS).map(([id, preset]) => (
+                                    <option key={id} value={id}>{preset.label} · {preset.rules.timePerQuestionSec} 秒</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {error && (
+                        <p className="text-sm text-destructive">{error}</p>
+                    )}
+
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleCreate}
+                            disabled={creating || !firstBotId || !secondBotId}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:opacity-50 transition-colors"
+                        >
+                            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                            開始表演賽
+                        </button>
+                    </div>
+                </div>
+
+                {/* Live */}
+                <div className="space-y-3">
+                    <h2 className="font-semibold">進行中</h2>
+                    {exhibitions.map(exhibition => (
+                        <div
+                            key={exhibition.matchId}
+                            className="flex items-center gap-4 p-4 rounded-2xl border border-border/50 bg-background"
+                        >
+                            <div className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center">
+                                <Swords className="w-5 h-5 text-muted-foreground" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-semibold truncate">
+                                    {exhibition.players.map(p => `${p.name} (${p.score})`).join(' vs ')}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                    {languageConfig[exhibition.targetLanguage]?.ranks[exhibition.rank]} · Q{exhibition.currentQuestionIndex + 1} / {exhibition.questionCount}
+                                </p>
+                            </div>
+                            <Link
+                                href={`/watch/${exhibition.matchId}`}
+                                target="_blank"
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-muted text-sm font-medium hover:bg-muted/80 transition-colors"
+                            >
+                                <Eye className="w-4 h-4" />
+                                觀戰
+                            </Link>
+                        </div>
+                    ))}
+                    {exhibitions.length === 0 && (
+                        <p className="text-sm text-muted-foreground">目前沒有進行中的表演賽</p>
+                    )}
+                </div>
+            </main>
+        </div>
+    )
+}
+
+const inputClass = 'w-full p-3 rounded-xl border border-border/50 bg-background text-sm focus:border-primary focus:outline-none'
@@ -0,0 +1,383 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Bot, Plus, Save, Loader2, X, BarChart3, Swords } from 'lucide-react'
+import type { BotConfig, BotProvider, BotPromptStyle } from '@prisma/client'
+
+interface BotUser {
+    id: string
+    name: string | null
+    image: string | null
+    botModel: string | null
+    botConfig: BotConfig | null
+}
+
+interface BotForm {
+    name: string
+    image: string
+    botModel: string
+    provider: BotProvider
+    modelId: string
+    baseUrl: string
+    apiKeyEnv: string
+    temperature: string
+    promptStyle: BotPromptStyle
+    timeoutMs: string
+}
+
+const providerLabels: Record<BotProvider, string> = {
+    rule: '規則 Bot（不呼叫模型）',
+    google: 'Google (Gemini / Gemma)',
+    openai_compatible: 'OpenAI 相容（OpenAI / Groq / Ollama / llama.cpp）',
+}
+
+const promptStyleLabels: Record<BotPromptStyle, string> = {
+    terse: '精簡（僅題目與選項）',
+    instructed: '指示（附考試說明）',
+}
+
+const EMPTY_FORM: BotForm = {
+    name: '',
+    image: '',
+    botModel: '',
+    provider: 'openai_compatible',
+    modelId: '',
+    baseUrl: '',
+    apiKeyEnv: '',
+    temperature: '0.2',
+    promptStyle: 'terse',
+    timeoutMs: '5000',
+}
+
+function toForm(bot: BotUser): BotForm {
+    const config = bot.botConfig
+    return {
+        name: bot.name || '',
+        image: bot.image || '',
+        botModel: bot.botModel || '',
+        provider: config?.provider ?? (bot.botModel?.startsWith('rule') ? 'rule' : 'openai_compatible'),
+        modelId: config?.modelId ?? bot.botModel ?? '',
+        baseUrl: config?.baseUrl || '',
+        apiKeyEnv: config?.apiKeyEnv || '',
+        temperature: String(config?.temperature ?? 0.2),
+        promptStyle: config?.promptStyle ?? 'terse',
+        timeoutMs: String(config?.timeoutMs ?? 5000),
+    }
+}
+
+function toPayload(form: BotForm) {
+    return {
+        name: form.name.trim(),
+        image: form.image.trim() || null,
+        botModel: form.botModel.trim() || null,
+        botConfig: {
+            provider: form.provider,
+            modelId: form.modelId.trim(),
+            baseUrl: form.baseUrl.trim() || null,
+            apiKeyEnv: form.apiKeyEnv.trim() || null,
+            temperature: parseFloat(form.temperature),
+            promptStyle: form.promptStyle,
+            timeoutMs: parseInt(form.timeoutMs),
+        },
+    }
+}
+
+export default function BotRegistryPage() {
+    const [bots, setBots] = useState<BotUser[]>([])
+    const [loading, setLoading] = useState(true)
+    const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+    const [form, setForm] = useState<BotForm>(EMPTY_FORM)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const fetchBots = useCallback(async () => {
+        try {
+            const response = await fetch('/api/bots')
+            if (response.ok) {
+                const data = await response.json()
+                setBots(data.bots)
+            }
+        } catch {
+            console.error('Failed to fetch bots')
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        fetchBots()
+    }, [fetchBots])
+
+    const startEdit = (bot: BotUser | null) => {
+        setEditingId(bot ? bot.id : 'new')
+        setForm(bot ? toForm(bot) : EMPTY_FORM)
+        setError(null)
+    }
+
+    const handleSave = async () => {
+        setSaving(true)
+        setError(null)
+
+        try {
+            const isNew = editingId === 'new'
+            const response = await fetch(isNew ? '/api/bots' : `/api/bots/${editingId}`, {
+                method: isNew ? 'POST' : 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(toPayload(form)),
+            })
+
+            if (response.ok) {
+                setEditingId(null)
+                await fetchBots()
+            } else {
+                const data = await response.json()
+                setError(data.error || 'Failed to save')
+            }
+        } catch {
+            setError('Failed to save bot')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const setField = <K extends keyof BotForm>(key: K, value: BotForm[K]) => {
+        setForm(prev => ({ ...prev, [key]: value }))
+    }
+
+    const isRule = form.provider === 'rule'
+
+    return (
+        <div className="min-h-screen bg-background">
+            {/* Header */}
+            <header className="border-b border-border/50 bg-background/95 backdrop-blur-sm sticky top-0 z-50">
+                <div className="max-w-4xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Link
+                            href="/admin"
+                            className="p-2 rounded-lg hover:bg-muted transition-colors"
+                        >
+                            <ArrowLeft className="w-5 h-5" />
+                        </Link>
+                        <div>
+                            <h1 className="text-xl font-bold tracking-tight">Bot 管理</h1>
+                            <p className="text-xs text-muted-foreground">Bot Registry</p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Link
+                            href="/admin/bots/benchmark"
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted text-sm font-medium hover:bg-muted/80 transition-colors"
+                        >
+                            <BarChart3 className="w-4 h-4" />
+                            評測
+                        </Link>
+                        <Link
+                            href="/admin/bots/exhibition"
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted text-sm font-medium hover:bg-muted/80 transition-colors"
+                        >
+                            <Swords className="w-4 h-4" />
+                            表演賽
+                        </Link>
+                        <button
+                            onClick={() => startEdit(null)}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-colors"
+                        >
+                            <Plus className="w-4 h-4" />
+                            新增 Bot
+                        </button>
+                    </div>
+                </div>
+            </header>
+
+            <main className="max-w-4xl mx-auto px-6 py-8 space-y-4">
+                {loading && (
+                    <div className="flex justify-center py-16">
+                        <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                    </div>
+                )}
+
+                {/* Editor */}
+                {editingId && (
+                    <div className="p-6 rounded-2xl border border-primary/50 bg-background space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h2 className="font-semibold">{editingId === 'new' ? '新增 Bot' : `編輯 ${form.name}`}</h2>
+                            <button
+                                onClick={() => setEditingId(null)}
+                                className="p-2 rounded-lg hover:bg-muted transition-colors"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+
+                        <div className="grid md:grid-cols-2 gap-4">
+                            <Field label="名稱 *">
+                                <input
+                                    type="text"
+                                    value={form.name}
+                                    onChange={e => setField('name', e.target.value)}
+                                    className={inputClass}
+                                />
+                            </Field>
+                            <Field label="頭像 URL">
+                                <input
+                                    type="text"
+                                    value={form.image}
+                                    onChange={e => setField('image', e.target.value)}
+                                    placeholder="/mascot-robot.jpg"
+                                    className={inputClass}
+                                />
+                            </Field>
+                            <Field label="Provider *">
+                                <select
+                                    value={form.provider}
+                                    onChange={e => setField('provider', e.target.value as BotProvider)}
+                                    className={inputClass}
+                                >
+                                    {(Object.keys(providerLabels) as BotProvider[]).map(provider => (
+                                        <option key={provider} value={provider}>{providerLabels[provider]}</option>
+                                    ))}
+                                </select>
+                            </Field>
+                            <Field label={isRule ? '規則設定檔 *' : 'Model ID *'}>
+                                <input
+                                    type="text"
+                                    value={form.modelId}
+                                    onChange={e => setField('modelId', e.target.value)}
+                                    placeholder={isRule ? 'rule-easy / rule / rule-hard' : 'gpt-4o-mini、llama3.1:8b'}
+                                    className={inputClass}
+                                />
+                            </Field>
+                            {!isRule && (
+                                <>
+                                    <Field label="Base URL" hint="留空使用官方端點；本機 Ollama 例：http://localhost:11434/v1">
+                                        <input
+                                            type="text"
+                                            value={form.baseUrl}
+                                            onChange={e => setField('baseUrl', e.target.value)}
+                                            className={inputClass}
+                                        />
+                                    </Field>
+                                    <Field label="API Key 環境變數" hint="只儲存變數名稱，限 GEMINI_API_KEY、OPENAI_API_KEY、GROQ_API_KEY 或列於 BOT_API_KEY_ENVS 者">
+                                        <input
+                                            type="text"
+                                            value={form.apiKeyEnv}
+                                            onChange={e => setField('apiKeyEnv', e.target.value)}
+                                            className={inputClass}
+                                        />
+                                    </Field>
+                                    <Field label="Temperature">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={2}
+                                            step={0.1}
+                                            value={form.temperature}
+                                            onChange={e => setField('temperature', e.target.value)}
+                                            className={inputClass}
+                                        />
+                                    </Field>
+                                    <Field label="Prompt 風格">
+                                        <select
+                                            value={form.promptStyle}
+                                            onChange={e => setField('promptStyle', e.target.value as BotPromptStyle)}
+                                            className={inputClass}
+                                        >
+                                            {(Object.keys(promptStyleLabels) as BotPromptStyle[]).map(style => (
+                                                <option key={style} value={style}>{promptStyleLabels[style]}</option>
+                                            ))}
+                                        </select>
+                                    </Field>
+                                    <Field label="Timeout (ms)">
+                                        <input
+                                            type="number"
+                                            min={500}
+                                            max={30000}
+                                            step={500}
+                                            value={form.timeoutMs}
+                                            onChange={e => setField('timeoutMs', e.target.value)}
+                                            className={inputClass}
+                                        />
+                                    </Field>
+                                </>
+                            )}
+                            <Field label="作答節奏設定檔" hint="留空則使用 Model ID（對應 lib/config/bot.ts 的時間設定）">
+                                <input
+                                    type="text"
+                                    value={form.botModel}
+                                    onChange={e => setField('botModel', e.target.value)}
+                                    className={inputClass}
+                                />
+                            </Field>
+                        </div>
+
+                        {error && (
+                            <p className="text-sm text-destructive">{error}</p>
+                        )}
+
+                        <div className="flex justify-end">
+                            <button
+                                onClick={handleSave}
+                                disabled={saving || !form.name.trim() || !form.modelId.trim()}
+                                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:opacity-50 transition-colors"
+                            >
+                                {saving ? (
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                    <Save className="w-4 h-4" />
+                                )}
+                                儲存
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Bot List */}
+                {bots.map(bot => (
+                    <div
+                        key={bot.id}
+                        className="flex items-center gap-4 p-4 rounded-2xl border border-border/50 bg-background"
+                    >
+                        <div className="w-10 h-10 rounded-xl bg-muted flex items-center justify-center">
+                            <Bot className="w-5 h-5 text-muted-foreground" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <p className="font-semibold truncate">{bot.name || 'Bot'}</p>
+                            <p className="text-xs text-muted-foreground truncate">
+                                {bot.botConfig
+                                    ? `${providerLabels[bot.botConfig.provider]} · ${bot.botConfig.modelId}${bot.botConfig.baseUrl ? ` · ${bot.botConfig.baseUrl}` : ''}`
+                                    : `${bot.botModel || '-'} · 尚未設定`}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => startEdit(bot)}
+                            className="px-3 py-1.5 rounded-lg bg-muted text-sm font-medium hover:bg-muted/80 transition-colors"
+                        >
+                            編輯
+                        </button>
+                    </div>
+                ))}
+            </main>
+        </div>
+    )
+}
+
+const inputClass = 'w-full p-3 rounded-xl border border-border/50 bg-background text-sm focus:border-primary focus:outline-none'
+
+function Field({
+    label,
+    hint,
+    children
+}: {
+    label: string
+    hint?: string
+    children: React.ReactNode
+}) {
+    return (
+        <div>
+            <label className="block text-sm font-medium mb-2">{label}</label>
+            {children}
+            {hint && <p className="mt-1 text-xs text-muted-foreground">{hint}</p>}
+        </div>
+    )
+}
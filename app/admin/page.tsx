@@ -17,6 +17,12 @@ export default function AdminPage() {
                         </div>
                     </div>
                     <nav className="flex items-center gap-4">
+                        <Link
+                            href="/admin/bots"
+                            className="px-4 py-2 rounded-lg bg-muted font-medium text-sm hover:bg-muted/80 transition-colors"
+                        >
+                            Bot 管理
+                        </Link>
                         <Link
                             href="/admin/bank"
                             className="px-4 py-2 rounded-lg bg-primary text-primary-foreground font-medium text-sm hover:bg-primary/90 transition-colors"
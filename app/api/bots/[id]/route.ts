@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminSession } from '@/lib/auth'
+import { updateBotUser } from '@/lib/bots/registry'
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    if (!(await isAdminSession())) {
+        return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    try {
+        const updated = await updateBotUser(id, {
+            name: body.name,
+            image: body.image,
+            botModel: body.botModel,
+            botConfig: body.botConfig,
+        })
+
+        return NextResponse.json(updated)
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to update bot' },
+            { status: 400 }
+        )
+    }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getBenchmarkReport } from '@/lib/bots/benchmark'
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params
+
+    try {
+        const report = await getBenchmarkReport(id)
+        if (!report) {
+            return NextResponse.json({ error: 'Benchmark run not found' }, { status: 404 })
+        }
+        return NextResponse.json(report)
+    } catch (error) {
+        console.error('Failed to fetch benchmark report:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch benchmark report' },
+            { status: 500 }
+        )
+    }
+}
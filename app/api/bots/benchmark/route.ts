@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminSession } from '@/lib/auth'
+import { TargetLanguage } from '@prisma/client'
+import {
+    createBenchmarkRun,
+    runBenchmark,
+    listBenchmarkRuns,
+    getBenchmarkReport,
+} from '@/lib/bots/benchmark'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+interface BenchmarkRequest {
+    targetLanguage: TargetLanguage
+    rank: number
+    sampleSize: number
+    botUserIds?: string[]
+}
+
+export async function GET() {
+    try {
+        const runs = await listBenchmarkRuns()
+        return NextResponse.json({ runs })
+    } catch (error) {
+        console.error('Failed to fetch benchmark runs:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch benchmark runs' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    if (!(await isAdminSession())) {
+        return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+    }
+
+    const body: BenchmarkRequest = await request.json()
+
+    let runId: string
+    try {
+        const run = await createBenchmarkRun({
+            targetLanguage: body.targetLanguage,
+            rank: body.rank,
+            sampleSize: body.sampleSize,
+            botUserIds: body.botUserIds,
+        })
+        runId = run.id
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create benchmark run' },
+            { status: 400 }
+        )
+    }
+
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            const send = (data: Record<string, unknown>) => {
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
+            }
+
+            try {
+                send({ type: 'start', runId })
+
+                await runBenchmark(runId, progress => {
+                    send({ type: 'progress', ...progress })
+                })
+
+                send({ type: 'complete', report: await getBenchmarkReport(runId) })
+            } catch (error) {
+                send({
+                    type: 'error',
+                    message: error instanceof Error ? error.message : 'Unknown error occurred',
+                })
+            } finally {
+                controller.close()
+            }
+        },
+    })
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        },
+    })
+}
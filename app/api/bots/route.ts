@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminSession } from '@/lib/auth'
+import { listBotUsers, createBotUser } from '@/lib/bots/registry'
+
+export async function GET() {
+    try {
+        const bots = await listBotUsers()
+        return NextResponse.json({ bots })
+    } catch (error) {
+        console.error('Failed to fetch bots:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch bots' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    if (!(await isAdminSession())) {
+        return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+    }
+
+    const body = await request.json()
+
+    try {
+        const bot = await createBotUser({
+            name: body.name,
+            image: body.image,
+            botModel: body.botModel,
+            botConfig: body.botConfig,
+        })
+
+        return NextResponse.json(bot)
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create bot' },
+            { status: 400 }
+        )
+    }
+}
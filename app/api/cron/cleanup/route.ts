@@ -3,14 +3,23 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { MatchStatus } from '@prisma/client';
+import { getMatchMaxDurationMs } from '@/lib/config/game';
+import { recordTournamentResult, resolveTournamentDeadlines } from '@/lib/tournament/tournaments';
+import { ensureCurrentSeason, finalizeEndedSeasons } from '@/lib/rating/seasons';
 
 /**
  * Cron job to clean up stuck matches
- * Runs every 5 minutes via Vercel Cron
+ * Runs daily at 10:00 UTC via Vercel Cron (vercel.json)
  * 
  * Marks matches as 'abandoned' if:
  * - status = 'playing'
- * - updatedAt > 10 minutes ago
+ * - started longer ago than the match could last (getMatchMaxDurationMs: its mode, question
+ *   pool and time per question plus a grace period; presenter sessions: PRESENTER_SESSION_MAX_MS)
+ *
+ * Also decides tournament pairings: abandoned tournament games, and rooms nobody
+ * started before the check-in deadline (no-shows)
+ *
+ * Archives the final standings of ended ranked seasons and starts the next one
  */
 export async function GET(request: Request) {
     // Verify cron secret (optional but recommended for security)
@@ -22,22 +31,36 @@ export async function GET(request: Request) {
         }
     }
 
-    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-
     try {
-        // Find stuck matches (playing but started > 10 minutes ago)
-        const stuckMatches = await prisma.match.findMany({
-            where: {
-                status: MatchStatus.playing,
-                startedAt: { lt: tenMinutesAgo },
+        const tournamentPairings = await resolveTournamentDeadlines();
+        const seasonsFinalized = await finalizeEndedSeasons();
+        await ensureCurrentSeason();
+
+        // Find stuck matches (playing for longer than the match itself could run)
+        const now = Date.now();
+        const playingMatches = await prisma.match.findMany({
+            where: { status: MatchStatus.playing },
+            select: {
+                id: true,
+                mode: true,
+                gameMode: true,
+                questionIds: true,
+                rules: true,
+                timePerQuestion: true,
+                startedAt: true,
+                createdAt: true,
             },
-            select: { id: true },
         });
+        const stuckMatches = playingMatches.filter(match =>
+            (match.startedAt ?? match.createdAt).getTime() + getMatchMaxDurationMs(match) < now
+        );
 
         if (stuckMatches.length === 0) {
             return NextResponse.json({
                 message: 'No stuck matches found',
-                cleaned: 0
+                cleaned: 0,
+                tournamentPairings,
+                seasonsFinalized,
             });
         }
 
@@ -53,10 +76,17 @@ export async function GET(request: Request) {
 
         console.log(`🧹 [Cron] Cleaned ${result.count} abandoned matches`);
 
+        // Abandoned tournament games still have to decide their pairing
+        for (const match of stuckMatches) {
+            await recordTournamentResult(match.id);
+        }
+
         return NextResponse.json({
             message: 'Cleanup complete',
             cleaned: result.count,
             matchIds: stuckMatches.map(m => m.id),
+            tournamentPairings,
+            seasonsFinalized,
         });
     } catch (error) {
         console.error('Cron cleanup error:', error);
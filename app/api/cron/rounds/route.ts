@@ -0,0 +1,43 @@
+'use server';
+
+import { NextResponse } from 'next/server';
+import { sweepOverdueMatches } from '@/lib/game-engine/server/GameRoom';
+
+/**
+ * Cron job to advance overdue rounds
+ * Not in vercel.json (per-minute crons need a Pro plan) - call it every minute from a
+ * scheduler and set ROUND_SWEEP_SCHEDULED=true (see RoundScheduler)
+ *
+ * Safety net for the in-process RoundScheduler: ticks every playing match
+ * whose phase deadline has passed (e.g. all clients left and the instance was frozen)
+ */
+export async function GET(request: Request) {
+    // Verify cron secret (optional but recommended for security)
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+        // Allow in development or if CRON_SECRET is not set
+        if (process.env.NODE_ENV === 'production' && process.env.CRON_SECRET) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+    }
+
+    try {
+        const matchIds = await sweepOverdueMatches();
+
+        if (matchIds.length > 0) {
+            console.log(`⏰ [Cron] Ticked ${matchIds.length} overdue matches`);
+        }
+
+        return NextResponse.json({
+            message: 'Round sweep complete',
+            ticked: matchIds.length,
+            matchIds,
+        });
+    } catch (error) {
+        console.error('Cron round sweep error:', error);
+        return NextResponse.json(
+            { error: 'Round sweep failed' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminSession } from '@/lib/auth'
+import { createExhibition, listLiveExhibitions } from '@/lib/bots/exhibition'
+
+export async function GET() {
+    try {
+        const exhibitions = await listLiveExhibitions()
+        return NextResponse.json({ exhibitions })
+    } catch (error) {
+        console.error('Failed to fetch exhibitions:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch exhibitions' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    if (!(await isAdminSession())) {
+        return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+    }
+
+    const body = await request.json()
+
+    try {
+        const result = await createExhibition({
+            targetLanguage: body.targetLanguage,
+            rank: body.rank,
+            questionCount: body.questionCount,
+            botUserIds: body.botUserIds,
+            rulesPreset: body.rulesPreset,
+        })
+
+        return NextResponse.json(result)
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create exhibition' },
+            { status: 400 }
+        )
+    }
+}
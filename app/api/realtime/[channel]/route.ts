@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server'
+import { localHub } from '@/lib/realtime/LocalHub'
+import { getRealtimeTransport } from '@/lib/realtime/channels'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_MS = 15000
+
+/**
+ * Server-Sent Events stream for the local realtime transport
+ * Relays LocalHub events on one channel (match-{id} / room-{id}) to the browser
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ channel: string }> }
+) {
+    if (getRealtimeTransport() !== 'local') {
+        return new Response('Local realtime transport is disabled', { status: 404 })
+    }
+
+    const { channel } = await params
+    const encoder = new TextEncoder()
+    let cleanup = () => { }
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (chunk: string) => {
+                try {
+                    controller.enqueue(encoder.encode(chunk))
+                } catch {
+                    cleanup() // Stream already closed
+                }
+            }
+
+            const unsubscribe = localHub.subscribe(channel, ({ event, data }) => {
+                send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+            })
+
+            // Comment lines keep proxies from closing an idle stream
+            const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS)
+
+            cleanup = () => {
+                clearInterval(heartbeat)
+                unsubscribe()
+            }
+
+            request.signal.addEventListener('abort', () => {
+                cleanup()
+                try {
+                    controller.close()
+                } catch {
+                    // Already closed
+                }
+            })
+
+            send(': connected\n\n')
+        },
+        cancel() {
+            cleanup()
+        },
+    })
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    })
+}
@@ -0,0 +1,386 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
+import { AnimatePresence, motion } from 'framer-motion'
+import Link from 'next/link'
+import { Check, Pause, Play, SkipForward, Trophy, Users, UserX, X } from 'lucide-react'
+import { kickPlayer, leaveWaitingMatch } from '@/actions/game.server'
+import {
+    startPresenterSession,
+    advancePresenter,
+    pausePresenterSession,
+    showPresenterLeaderboard,
+} from '@/actions/presenter.server'
+import { usePresenterClient } from '@/lib/game-engine/usePresenterClient'
+import { isPresenterPaused, type AnswerDistribution } from '@/lib/game-engine/PresenterMode'
+import { rankPlayers } from '@/lib/game-engine/GameModes'
+import type { LiveGameState } from '@/lib/game-engine/server/GameStore'
+import { GamePhase } from '@/types/game'
+import { Avatar } from '@/components/game/Avatar'
+import { PresenterOptionMarker, getPresenterOptionStyle } from '@/components/game/PresenterOption'
+import { getGameLanguage, rankToLevel } from '@/lib/config/game'
+import type { MatchPlayer } from '@prisma/client'
+
+/** Session load errors shown on the screen */
+const sessionErrorMessages: Record<string, string> = {
+    SESSION_NOT_FOUND: '找不到這個課堂',
+    SESSION_CANCELLED: '課堂已取消',
+    NOT_IN_SESSION: '只有主持人可以開啟大螢幕',
+}
+
+/** Control errors shown next to the buttons */
+const controlErrorMessages: Record<string, string> = {
+    'No students yet': '還沒有學生加入',
+    'Session already started': '課堂已經開始',
+}
+
+interface Standing {
+    player: MatchPlayer
+    score: number
+    placement: number
+}
+
+function getStandings(state: LiveGameState, players: MatchPlayer[]): Standing[] {
+    const placements = state.placements ?? rankPlayers(state)
+    return players
+        .filter(p => state.playerStates[p.playerId])
+        .map(player => ({
+            player,
+            score: state.playerStates[player.playerId].score,
+            placement: placements[player.playerId] ?? players.length,
+        }))
+        .sort((a, b) => a.placement - b.placement)
+}
+
+/**
+ * Big-screen view of a presenter session (projected by the host)
+ * Lobby with the PIN, then question, countdown and live answer distribution; the host paces every step
+ */
+export default function PresenterScreenPage() {
+    const params = useParams<{ matchId: string }>()
+    const matchId = params.matchId
+    const router = useRouter()
+    const { data: authSession } = useSession()
+    const userId = authSession?.user?.id
+
+    const { session, state, players, isLoading, error, timeLeftMs, distribution, applyState } =
+        usePresenterClient(matchId, userId)
+
+    const [isBusy, setIsBusy] = useState(false)
+    const [controlError, setControlError] = useState<string | null>(null)
+
+    const standings = useMemo(() => state ? getStandings(state, players) : [], [state, players])
+
+    // Run a host control and show the state it produced right away
+    const runControl = async (control: () => Promise<{ success: true; state: LiveGameState } | { success: false; error: string }>) => {
+        setIsBusy(true)
+        setControlError(null)
+        try {
+            const result = await control()
+            if (result.success) applyState(result.state)
+            else setControlError(controlErrorMessages[result.error] ?? '操作失敗，請重試')
+        } catch (err) {
+            console.error('Presenter control failed:', err)
+            setControlError('操作失敗，請重試')
+        } finally {
+            setIsBusy(false)
+        }
+    }
+
+    const handleCancel = async () => {
+        if (userId) await leaveWaitingMatch(matchId, userId)
+        router.push('/lobby')
+    }
+
+    const handleKick = async (playerId: string) => {
+        if (!userId) return
+        const result = await kickPlayer(matchId, playerId)
+        if (!result.success) console.warn('Kick failed:', result.error)
+    }
+
+    if (isLoading) {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center">
+                <div className="w-16 h-16 border-4 border-[#5B8BD4] border-t-transparent rounded-full animate-spin" />
+                <p className="mt-4 text-lg text-[#64748b]">載入課堂中...</p>
+            </div>
+        )
+    }
+
+    if (error || !session || session.role !== 'host') {
+        return (
+            <div className="min-h-dvh flex flex-col items-center justify-center p-6">
+                <X className="w-16 h-16 text-red-400 mb-4" />
+                <h1 className="text-2xl font-bold text-[#333] mb-6">
+                    {sessionErrorMessages[error ?? 'NOT_IN_SESSION'] ?? '無法開啟課堂'}
+                </h1>
+                <Link href="/lobby" className="px-6 py-3 bg-[#5B8BD4] text-white font-semibold rounded-xl">
+                    返回大廳
+                </Link>
+            </div>
+        )
+    }
+
+    const language = getGameLanguage(session.targetLanguage)
+    const level = rankToLevel(session.targetLanguage, session.rank)
+
+    // Lobby: PIN and roster
+    if (!state) {
+        const origin = typeof window !== 'undefined' ? window.location.origin : ''
+
+        return (
+            <div className="min-h-dvh flex flex-col">
+                <header className="px-10 py-8 bg-white border-b-2 border-[#D5E3F7] flex items-center justify-between gap-8">
+                    <div>
+                        <p className="text-lg font-bold text-[#64748b]">
+                            前往 <span className="text-[#333]">{origin}/join</span> 輸入 PIN 碼加入
+                        </p>
+                        <p className="text-sm text-[#64748b] mt-1">
+                            {language?.flag} {language?.examName} {level} · {session.questionCount} 題 · {session.rules.timePerQuestionSec} 秒/題
+                        </p>
+                    </div>
+                    <div className="text-right">
+                        <p className="text-sm font-bold text-[#64748b] tracking-widest">PIN</p>
+                        <p className="text-7xl font-black text-[#5B8BD4] tracking-[0.2em]">{session.joinCode}</p>
+                    </div>
+                </header>
+
+                <main className="flex-1 px-10 py-8">
+                    <div className="flex items-center gap-2 mb-6 text-[#64748b] font-bold text-xl">
+                        <Users className="w-6 h-6" />
+                        {players.length} / {session.maxPlayers} 位學生
+                    </div>
+
+                    {players.length === 0 ? (
+                        <p className="text-center text-2xl text-[#64748b] py-24">等待學生加入...</p>
+                    ) : (
+                        <div className="grid grid-cols-3 xl:grid-cols-5 gap-4">
+                            <AnimatePresence>
+                                {players.map(player => (
+                                    <motion.div
+                                        key={player.playerId}
+                                        initial={{ opacity: 0, scale: 0.8 }}
+                                        animate={{ opacity: 1, scale: 1 }}
+                                        exit={{ opacity: 0, scale: 0.8 }}
+                                        className="group flex items-center gap-3 p-3 bg-white rounded-2xl border-2 border-[#D5E3F7]"
+                                    >
+                                        <Avatar src={player.avatar} alt={player.name} fallback={player.name.charAt(0)} size="sm" />
+                                        <span className="flex-1 font-bold text-[#333] truncate">{player.name}</span>
+                                        <button
+                                            onClick={() => handleKick(player.playerId)}
+                                            className="p-2 rounded-full text-[#64748b] opacity-0 group-hover:opacity-100 hover:bg-red-50 hover:text-red-500 transition-all"
+                                            title="移出課堂"
+                                        >
+                                            <UserX className="w-4 h-4" />
+                                        </button>
+                                    </motion.div>
+                                ))}
+                            </AnimatePresence>
+                        </div>
+                    )}
+                </main>
+
+                <footer className="px-10 py-6 bg-white border-t-2 border-[#D5E3F7] flex items-center justify-end gap-4">
+                    {controlError && <p className="mr-auto font-semibold text-red-500">{controlError}</p>}
+                    <button
+                        onClick={handleCancel}
+                        className="px-6 py-4 text-lg font-bold rounded-2xl border-2 border-[#D5E3F7] text-[#64748b] hover:bg-[#D5E3F7] transition-all"
+                    >
+                        取消課堂
+                    </button>
+                    <button
+                        onClick={() => runControl(() => startPresenterSession(matchId))}
+                        disabled={isBusy || players.length === 0}
+                        className="px-10 py-4 text-lg font-black rounded-2xl bg-[#5B8BD4] text-white hover:bg-[#4A7BC4] disabled:bg-[#D5E3F7] disabled:text-[#64748b] transition-all"
+                    >
+                        開始
+                    </button>
+                </footer>
+            </div>
+        )
+    }
+
+    // Final results
+    if (state.phase === GamePhase.FINISHED) {
+        return (
+            <div className="min-h-dvh flex flex-col items-center px-10 py-12 gap-10">
+                <h1 className="text-5xl font-black text-[#333] flex items-center gap-4">
+                    <Trophy className="w-12 h-12 text-[#F5A623]" />
+                    最終排名
+                </h1>
+                <StandingsList standings={standings} limit={10} />
+                <Link
+                    href="/lobby"
+                    className="px-8 py-4 text-lg font-bold rounded-2xl bg-[#5B8BD4] text-white hover:bg-[#4A7BC4] transition-all"
+                >
+                    結束課堂
+                </Link>
+            </div>
+        )
+    }
+
+    // Question, answers and controls
+    const question = session.questions[state.currentQuestionIndex]
+    const isPlaying = state.phase === GamePhase.PLAYING
+    const isResolving = state.phase === GamePhase.RESOLVING
+    const isPaused = isPresenterPaused(state)
+    const showLeaderboard = !!state.presenter?.showLeaderboard
+    const isLastQuestion = state.currentQuestionIndex >= session.questionCount - 1
+
+    const nextLabel = isPlaying ? '結束本題' : isResolving && isLastQuestion ? '查看結果' : '下一題'
+
+    return (
+        <div className="min-h-dvh flex flex-col">
+            <header className="px-10 py-5 bg-white border-b-2 border-[#D5E3F7] flex items-center justify-between">
+                <span className="text-xl font-black text-[#333]">
+                    第 {state.currentQuestionIndex + 1} / {session.questionCount} 題
+                </span>
+                <span className="text-lg font-bold text-[#64748b]">
+                    PIN <span className="text-[#5B8BD4] tracking-widest">{session.joinCode}</span>
+                </span>
+                <span className="text-lg font-bold text-[#64748b] flex items-center gap-2">
+                    <Check className="w-5 h-5" />
+                    已作答 {distribution?.answeredCount ?? 0} / {players.length}
+                </span>
+            </header>
+
+            <main className="flex-1 px-10 py-8 flex flex-col gap-8">
+                {showLeaderboard ? (
+                    <div className="flex-1 flex flex-col items-center gap-8">
+                        <h2 className="text-4xl font-black text-[#333] flex items-center gap-3">
+                            <Trophy className="w-10 h-10 text-[#F5A623]" />
+                            目前排名
+                        </h2>
+                        <StandingsList standings={standings} limit={5} />
+                    </div>
+                ) : (
+                    <>
+                        <div className="flex items-start gap-8">
+                            <p className="flex-1 text-4xl font-bold text-[#333] leading-snug whitespace-pre-line">
+                                {question?.stimulus}
+                            </p>
+                            {isPlaying && (
+                                <div className={`w-32 h-32 shrink-0 rounded-full border-8 flex items-center justify-center text-5xl font-black ${isPaused
+                                    ? 'border-[#D5E3F7] text-[#64748b]'
+                                    : 'border-[#5B8BD4] text-[#5B8BD4]'
+                                    }`}>
+                                    {isPaused ? <Pause className="w-12 h-12" /> : Math.ceil(timeLeftMs / 1000)}
+                                </div>
+                            )}
+                        </div>
+
+                        <OptionGrid
+                            options={question?.options ?? {}}
+                            distribution={distribution}
+                            correctAnswer={isResolving ? state.correctAnswer : null}
+                        />
+                    </>
+                )}
+            </main>
+
+            <footer className="px-10 py-5 bg-white border-t-2 border-[#D5E3F7] flex items-center justify-end gap-4">
+                {controlError && <p className="mr-auto font-semibold text-red-500">{controlError}</p>}
+                {isPlaying && (
+                    <button
+                        onClick={() => runControl(() => pausePresenterSession(matchId, !isPaused))}
+                        disabled={isBusy}
+                        className="px-6 py-4 text-lg font-bold rounded-2xl border-2 border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7] disabled:opacity-50 transition-all flex items-center gap-2"
+                    >
+                        {isPaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                        {isPaused ? '繼續' : '暫停'}
+                    </button>
+                )}
+                <button
+                    onClick={() => runControl(() => showPresenterLeaderboard(matchId, !showLeaderboard))}
+                    disabled={isBusy}
+                    className={`px-6 py-4 text-lg font-bold rounded-2xl border-2 transition-all flex items-center gap-2 disabled:opacity-50 ${showLeaderboard
+                        ? 'border-[#5B8BD4] bg-[#D5E3F7] text-[#333]'
+                        : 'border-[#D5E3F7] text-[#333] hover:bg-[#D5E3F7]'
+                        }`}
+                >
+                    <Trophy className="w-5 h-5" />
+                    {showLeaderboard ? '返回題目' : '排行榜'}
+                </button>
+                <button
+                    onClick={() => runControl(() => advancePresenter(matchId))}
+                    disabled={isBusy}
+                    className="px-10 py-4 text-lg font-black rounded-2xl bg-[#5B8BD4] text-white hover:bg-[#4A7BC4] disabled:bg-[#D5E3F7] disabled:text-[#64748b] transition-all flex items-center gap-2"
+                >
+                    <SkipForward className="w-5 h-5" />
+                    {nextLabel}
+                </button>
+            </footer>
+        </div>
+    )
+}
+
+/**
+ * Options with their answer counts; the correct one is highlighted once the round resolves
+ */
+function OptionGrid({ options, distribution, correctAnswer }: {
+    options: Record<string, string>
+    distribution: AnswerDistribution | null
+    correctAnswer: string | null
+}) {
+    const entries = Object.entries(options)
+    const maxCount = Math.max(1, ...entries.map(([key]) => distribution?.counts[key] ?? 0))
+
+    return (
+        <div className="grid grid-cols-2 gap-5">
+            {entries.map(([key, text], index) => {
+                const count = distribution?.counts[key] ?? 0
+                const isDimmed = correctAnswer !== null && key !== correctAnswer
+                const { color } = getPresenterOptionStyle(index)
+
+                return (
+                    <div
+                        key={key}
+                        className={`p-5 rounded-2xl bg-white border-4 transition-all ${isDimmed ? 'opacity-40' : ''}`}
+                        style={{ borderColor: correctAnswer === key ? '#2EAD6B' : '#D5E3F7' }}
+                    >
+                        <div className="flex items-center gap-4">
+                            <PresenterOptionMarker index={index} optionKey={key} />
+                            <span className="flex-1 text-2xl font-bold text-[#333]">{text}</span>
+                            {correctAnswer === key && <Check className="w-10 h-10 text-[#2EAD6B]" />}
+                        </div>
+                        <div className="mt-4 flex items-center gap-3">
+                            <div className="flex-1 h-4 rounded-full bg-[#F5F8FC] overflow-hidden">
+                                <motion.div
+                                    className="h-full rounded-full"
+                                    style={{ backgroundColor: color }}
+                                    initial={false}
+                                    animate={{ width: `${(count / maxCount) * 100}%` }}
+                                />
+                            </div>
+                            <span className="w-10 text-right text-xl font-black text-[#333]">{count}</span>
+                        </div>
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
+
+/**
+ * Top standings by placement (ties share a placement)
+ */
+function StandingsList({ standings, limit }: { standings: Standing[]; limit: number }) {
+    return (
+        <ol className="w-full max-w-3xl space-y-3">
+            {standings.slice(0, limit).map(({ player, score, placement }) => (
+                <motion.li
+                    key={player.playerId}
+                    layout
+                    className="flex items-center gap-5 px-6 py-4 bg-white rounded-2xl border-2 border-[#D5E3F7]"
+                >
+                    <span className="w-10 text-3xl font-black text-[#5B8BD4]">{placement}</span>
+                    <Avatar src={player.avatar} alt={player.name} fallback={player.name.charAt(0)} size="sm" />
+                    <span className="flex-1 text-2xl font-bold text-[#333] truncate">{player.name}</span>
+                    <span className="text-3xl font-black text-[#333]">{score}</span>
+                </motion.li>
+            ))}
+        </ol>
+    )
+}
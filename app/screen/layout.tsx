@@ -0,0 +1,12 @@
+import '../(game)/game-theme.css'
+
+/**
+ * Full-width layout for the projected presenter screen (game pages use the mobile container)
+ */
+export default function ScreenLayout({ children }: { children: React.ReactNode }) {
+    return (
+        <div className="game-app min-h-dvh bg-[#F5F8FC]">
+            {children}
+        </div>
+    )
+}
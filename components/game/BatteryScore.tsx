@@ -18,9 +18,9 @@ export function BatteryScore({ score, variant = 'default', lastScoreChange = 0 }
     const [showDelta, setShowDelta] = useState(false)
     const [displayDelta, setDisplayDelta] = useState(0)
 
-    // Trigger animation when lastScoreChange changes and is > 0
+    // Trigger animation when lastScoreChange changes and is non-zero (negative = wrong-answer penalty)
     useEffect(() => {
-        if (lastScoreChange > 0) {
+        if (lastScoreChange !== 0) {
             setDisplayDelta(lastScoreChange)
             setShowDelta(true)
             // Hide after animation
@@ -33,7 +33,7 @@ export function BatteryScore({ score, variant = 'default', lastScoreChange = 0 }
         <div className="relative flex items-center justify-center">
             {/* Floating Score Animation */}
             <AnimatePresence>
-                {showDelta && displayDelta > 0 && (
+                {showDelta && displayDelta !== 0 && (
                     <motion.div
                         key={`score-diff-${score}`}
                         initial={{ opacity: 0, y: 0, scale: 0.5 }}
@@ -42,10 +42,10 @@ export function BatteryScore({ score, variant = 'default', lastScoreChange = 0 }
                         transition={{ duration: 1, ease: "easeOut" }}
                         className="absolute -top-2 z-50 pointer-events-none"
                     >
-                        <span className="text-xl font-black text-amber-300 drop-shadow-lg"
+                        <span className={`text-xl font-black drop-shadow-lg ${displayDelta > 0 ? 'text-amber-300' : 'text-[#ef4444]'}`}
                             style={{ textShadow: '0 2px 4px rgba(0,0,0,0.3)' }}
                         >
-                            +{displayDelta}
+                            {displayDelta > 0 ? `+${displayDelta}` : displayDelta}
                         </span>
                     </motion.div>
                 )}
@@ -0,0 +1,173 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { usePathname, useRouter } from 'next/navigation'
+import { AnimatePresence, motion } from 'framer-motion'
+import { Swords } from 'lucide-react'
+import { Avatar } from '@/components/game/Avatar'
+import {
+    getIncomingChallenges,
+    respondToChallenge,
+    updatePresence,
+    type ChallengeInfo,
+} from '@/actions/friend.server'
+import { getRealtimeClient } from '@/lib/realtime/client'
+import { getUserChannel, USER_EVENTS } from '@/lib/realtime/channels'
+import { GAME_MODES, gameLanguages, rankToLevel } from '@/lib/config/game'
+import { PRESENCE_HEARTBEAT_MS } from '@/lib/config/friends'
+
+/** Pages where a challenge would pull the player out of a game */
+const IN_GAME_PATHS = ['/battle', '/answer']
+
+const NOTICE_MS = 4000
+
+/**
+ * Friend challenges and the presence heartbeat for signed-in users
+ * Mounted once by the (game) layout - incoming challenges show as a banner on every page but games
+ */
+export function ChallengeNotifier() {
+    const { data: session } = useSession()
+    const userId = session?.user?.id
+    const pathname = usePathname()
+    const router = useRouter()
+
+    const [challenges, setChallenges] = useState<ChallengeInfo[]>([])
+    const [notice, setNotice] = useState<string | null>(null)
+    const [responding, setResponding] = useState(false)
+
+    const loadChallenges = useCallback(() => {
+        getIncomingChallenges()
+            .then(setChallenges)
+            .catch(error => console.error('Failed to load challenges:', error))
+    }, [])
+
+    // Presence heartbeat (friends see the user as online)
+    useEffect(() => {
+        if (!userId) return
+
+        const beat = () => updatePresence().catch(error => console.error('Failed to update presence:', error))
+        beat()
+        const timer = setInterval(beat, PRESENCE_HEARTBEAT_MS)
+        return () => clearInterval(timer)
+    }, [userId])
+
+    // Challenges already waiting, then new ones and answers as they come in
+    useEffect(() => {
+        if (!userId) return
+
+        loadChallenges()
+        const realtime = getRealtimeClient()
+        const channel = realtime.subscribe(getUserChannel(userId))
+
+        channel.bind(USER_EVENTS.CHALLENGE_RECEIVED, () => loadChallenges())
+        channel.bind(USER_EVENTS.CHALLENGE_ANSWERED, (data: { accepted: boolean; name: string }) => {
+            setNotice(data.accepted ? `${data.name} 接受了你的挑戰！` : `${data.name} 拒絕了你的挑戰`)
+        })
+
+        return () => {
+            realtime.unsubscribe(getUserChannel(userId))
+        }
+    }, [userId, loadChallenges])
+
+    // Drop the shown challenge when it lapses
+    const current = challenges[0]
+    useEffect(() => {
+        if (!current) return
+        const timer = setTimeout(() => {
+            setChallenges(prev => prev.filter(c => c.id !== current.id))
+        }, Math.max(0, current.expiresAt - Date.now()))
+        return () => clearTimeout(timer)
+    }, [current])
+
+    useEffect(() => {
+        if (!notice) return
+        const timer = setTimeout(() => setNotice(null), NOTICE_MS)
+        return () => clearTimeout(timer)
+    }, [notice])
+
+    const handleRespond = async (accept: boolean) => {
+        if (!current) return
+
+        setResponding(true)
+        try {
+            const result = await respondToChallenge(current.id, accept)
+            setChallenges(prev => prev.filter(c => c.id !== current.id))
+            if (!result.success) {
+                setNotice('挑戰已失效')
+            } else if (accept && result.matchId) {
+                router.push(`/room/${result.matchId}`)
+            }
+        } catch (error) {
+            console.error('Failed to answer challenge:', error)
+        } finally {
+            setResponding(false)
+        }
+    }
+
+    if (!userId) return null
+
+    const inGame = IN_GAME_PATHS.some(path => pathname.startsWith(path))
+    const language = current && gameLanguages.find(l => l.id === current.targetLanguage)
+
+    return (
+        <div className="fixed top-3 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-[448px] z-50 space-y-2 pointer-events-none">
+            <AnimatePresence>
+                {current && !inGame && (
+                    <motion.div
+                        key={current.id}
+                        className="pointer-events-auto bg-white rounded-2xl border-2 border-[#5B8BD4] shadow-lg p-4"
+                        initial={{ opacity: 0, y: -20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -20 }}
+                    >
+                        <div className="flex items-center gap-3">
+                            <Avatar
+                                src={current.challengerAvatar || ''}
+                                alt={current.challengerName}
+                                fallback={current.challengerName.substring(0, 1).toUpperCase()}
+                                size="sm"
+                            />
+                            <div className="flex-1 min-w-0">
+                                <p className="font-black text-[#333] truncate flex items-center gap-1.5">
+                                    <Swords className="w-4 h-4 text-[#5B8BD4] shrink-0" />
+                                    {current.challengerName} 向你發起挑戰
+                                </p>
+                                <p className="text-xs text-[#64748b] font-bold mt-0.5">
+                                    {language?.flag} {language?.examName} · {rankToLevel(current.targetLanguage, current.rank)} · {GAME_MODES[current.gameMode].questionPool === null ? `${current.questionCount}題` : GAME_MODES[current.gameMode].label}
+                                </p>
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 mt-3">
+                            <button
+                                onClick={() => handleRespond(false)}
+                                disabled={responding}
+                                className="py-2 rounded-xl bg-[#F5F8FC] text-[#64748b] font-bold text-sm hover:bg-[#D5E3F7] transition-colors disabled:opacity-50"
+                            >
+                                拒絕
+                            </button>
+                            <button
+                                onClick={() => handleRespond(true)}
+                                disabled={responding}
+                                className="py-2 rounded-xl bg-[#5B8BD4] text-white font-bold text-sm hover:bg-[#4A7BC4] transition-colors disabled:opacity-50"
+                            >
+                                接受
+                            </button>
+                        </div>
+                    </motion.div>
+                )}
+                {notice && (
+                    <motion.div
+                        key="notice"
+                        className="bg-[#333] text-white text-sm font-bold rounded-xl px-4 py-3 shadow-lg text-center"
+                        initial={{ opacity: 0, y: -20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -20 }}
+                    >
+                        {notice}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    )
+}
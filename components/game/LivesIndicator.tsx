@@ -0,0 +1,36 @@
+'use client'
+
+import { AnimatePresence, motion } from 'framer-motion'
+import { Heart } from 'lucide-react'
+
+interface LivesIndicatorProps {
+    lives: number
+    maxLives: number
+    size?: 'sm' | 'md'
+}
+
+/**
+ * Remaining lives in survival / sudden death (lost lives stay as empty hearts)
+ */
+export function LivesIndicator({ lives, maxLives, size = 'md' }: LivesIndicatorProps) {
+    const iconClass = size === 'sm' ? 'w-3 h-3' : 'w-4 h-4'
+
+    return (
+        <div className="flex items-center gap-0.5">
+            {Array.from({ length: maxLives }, (_, index) => (
+                <AnimatePresence key={index} mode="wait">
+                    <motion.span
+                        key={index < lives ? 'full' : 'empty'}
+                        initial={{ scale: index < lives ? 1 : 1.4 }}
+                        animate={{ scale: 1 }}
+                        transition={{ duration: 0.3 }}
+                    >
+                        <Heart
+                            className={`${iconClass} ${index < lives ? 'text-[#ef4444] fill-[#ef4444]' : 'text-[#cbd5e1]'}`}
+                        />
+                    </motion.span>
+                </AnimatePresence>
+            ))}
+        </div>
+    )
+}
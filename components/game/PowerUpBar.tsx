@@ -0,0 +1,47 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import type { PowerUpType } from '@prisma/client'
+import { POWER_UPS } from '@/lib/config/game'
+import { POWER_UP_TYPES } from '@/lib/game-engine/PowerUps'
+
+interface PowerUpBarProps {
+    available: PowerUpType[]
+    active: PowerUpType[]  // Used on the current question
+    disabled?: boolean
+    onUse: (powerUp: PowerUpType) => void
+}
+
+/**
+ * The player's power-ups - one charge each per match, spent ones stay greyed out
+ */
+export function PowerUpBar({ available, active, disabled, onUse }: PowerUpBarProps) {
+    return (
+        <div className="grid grid-cols-3 gap-2">
+            {POWER_UP_TYPES.map(type => {
+                const config = POWER_UPS[type]
+                const isActive = active.includes(type)
+                const isAvailable = available.includes(type)
+
+                return (
+                    <motion.button
+                        key={type}
+                        onClick={() => onUse(type)}
+                        disabled={disabled || !isAvailable}
+                        title={config.description}
+                        className={`flex items-center justify-center gap-1 px-2 py-1.5 rounded-xl border-2 text-xs font-bold transition-colors ${isActive
+                            ? 'border-[#5B8BD4] bg-[#D5E3F7] text-[#5B8BD4]'
+                            : isAvailable
+                                ? 'border-[#D5E3F7] bg-white text-[#333] hover:border-[#5B8BD4] disabled:opacity-50'
+                                : 'border-transparent bg-[#f1f5f9] text-[#cbd5e1]'
+                            }`}
+                        whileTap={{ scale: 0.95 }}
+                    >
+                        <span>{config.icon}</span>
+                        <span className="truncate">{config.label}</span>
+                    </motion.button>
+                )
+            })}
+        </div>
+    )
+}
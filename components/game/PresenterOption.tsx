@@ -0,0 +1,40 @@
+'use client'
+
+/**
+ * Colour and shape per option position
+ * Students answer on pads without the question text, so screen and pad match options by these
+ */
+const OPTION_STYLES = [
+    { color: '#E2445C', shape: '▲' },
+    { color: '#5B8BD4', shape: '◆' },
+    { color: '#F5A623', shape: '●' },
+    { color: '#2EAD6B', shape: '■' },
+]
+
+export function getPresenterOptionStyle(index: number) {
+    return OPTION_STYLES[index % OPTION_STYLES.length]
+}
+
+interface PresenterOptionMarkerProps {
+    index: number
+    optionKey: string
+    size?: 'sm' | 'lg'
+}
+
+/**
+ * Coloured shape with the option key (e.g. ▲ A) - shown on the big screen and on the answer pads
+ */
+export function PresenterOptionMarker({ index, optionKey, size = 'sm' }: PresenterOptionMarkerProps) {
+    const { color, shape } = getPresenterOptionStyle(index)
+    const sizeClass = size === 'lg' ? 'w-20 h-20 text-4xl' : 'w-12 h-12 text-xl'
+
+    return (
+        <span
+            className={`${sizeClass} shrink-0 rounded-xl flex flex-col items-center justify-center font-black text-white leading-none`}
+            style={{ backgroundColor: color }}
+        >
+            <span>{shape}</span>
+            <span className="text-[0.55em] mt-1">{optionKey.toUpperCase()}</span>
+        </span>
+    )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { AnimatePresence, motion } from 'framer-motion'
+import { Flame, Zap } from 'lucide-react'
+import { Avatar } from '@/components/game/Avatar'
+import { LivesIndicator } from '@/components/game/LivesIndicator'
+import { GamePhase } from '@/types/game'
+import { GAME_MODES, POWER_UPS } from '@/lib/config/game'
+import type { ClientPlayerView } from '@/lib/game-engine/server/GameStore'
+import type { GameMode } from '@prisma/client'
+
+interface ScoreboardProps {
+    /** Players ordered by placement */
+    players: ClientPlayerView[]
+    selfPlayerId: string | null  // null for spectators
+    phase: GamePhase
+    gameMode?: GameMode
+}
+
+/**
+ * Ranked scoreboard for multiplayer battles and spectators (replaces the two-sided BatteryScore)
+ * Opponents' correctness and choices are only shown once the round resolves.
+ * Survival / sudden death add lives and eliminations; time attack shows each player's progress.
+ * Power-ups used on the current question show next to the name.
+ */
+export function Scoreboard({ players, selfPlayerId, phase, gameMode = 'classic' }: ScoreboardProps) {
+    const isResolving = phase === GamePhase.RESOLVING || phase === GamePhase.FINISHED
+    const maxLives = GAME_MODES[gameMode].lives
+
+    const getStatus = (player: ClientPlayerView) => {
+        const isSelf = player.playerId === selfPlayerId
+        if (player.isEliminated) {
+            return { text: '淘汰', className: 'bg-[#64748b] text-white' }
+        }
+        if (gameMode === 'time_attack') {
+            return { text: `第 ${player.questionIndex + 1} 題`, className: 'bg-[#D5E3F7] text-[#5B8BD4]' }
+        }
+        if (player.answer === null) {
+            return phase === GamePhase.PLAYING
+                ? { text: '思考中', className: 'bg-[#f1f5f9] text-[#64748b]' }
+                : null
+        }
+        if (player.answer === '') {
+            return { text: '超時', className: 'bg-[#f59e0b] text-white' }
+        }
+        if ((isSelf && player.isCorrect !== null) || isResolving) {
+            // Revealed choice (the server sends it only after the round resolves)
+            const choice = isResolving ? ` ${player.answer.toUpperCase()}` : ''
+            return player.isCorrect
+                ? { text: `正確${choice}`, className: 'bg-[#22c55e] text-white' }
+                : { text: `錯誤${choice}`, className: 'bg-[#ef4444] text-white' }
+        }
+        return { text: '已作答', className: 'bg-[#D5E3F7] text-[#5B8BD4]' }
+    }
+
+    return (
+        <div className="w-full flex flex-col gap-2">
+            <AnimatePresence initial={false}>
+                {players.map(player => {
+                    const isSelf = player.playerId === selfPlayerId
+                    const status = getStatus(player)
+
+                    return (
+                        <motion.div
+                            key={player.playerId}
+                            layout
+                            className={`flex items-center gap-3 px-3 py-2 rounded-2xl border-2 ${isSelf
+                                ? 'bg-white border-[#5B8BD4]'
+                                : 'bg-white/70 border-transparent'
+                                } ${player.isEliminated ? 'opacity-50' : ''}`}
+                            transition={{ type: 'spring', stiffness: 400, damping: 30 }}
+                        >
+                            <span className={`w-6 text-center font-black ${player.placement === 1 ? 'text-[#f59e0b]' : 'text-[#64748b]'}`}>
+                                {player.placement}
+                            </span>
+
+                            <Avatar
+                                src={player.avatar || (player.isBot ? '/mascot-robot.jpg' : '/mascot-parrot.jpg')}
+                                alt={player.name}
+                                fallback={player.isBot ? '🤖' : player.name.charAt(0) || '?'}
+                                size="sm"
+                                badge={player.isBot ? 'ai' : undefined}
+                            />
+
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold text-[#333] text-sm truncate">
+                                    {player.name}{isSelf && <span className="text-[#5B8BD4]"> (你)</span>}
+                                    {player.isDisconnected && (
+                                        <span className="ml-1 px-1.5 py-0.5 rounded-full bg-[#f1f5f9] text-[#64748b] text-[10px]">離線</span>
+                                    )}
+                                    {player.activePowerUps.map(type => (
+                                        <span key={type} className="ml-1 text-xs" title={POWER_UPS[type].label}>{POWER_UPS[type].icon}</span>
+                                    ))}
+                                </p>
+                                {maxLives !== null && player.lives !== null && (
+                                    <LivesIndicator lives={player.lives} maxLives={maxLives} size="sm" />
+                                )}
+                                {player.streak > 1 && (
+                                    <p className="text-[10px] font-bold text-[#f97316] flex items-center gap-0.5">
+                                        <Flame className="w-3 h-3" /> {player.streak} 連對
+                                    </p>
+                                )}
+                            </div>
+
+                            {status && (
+                                <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold whitespace-nowrap ${status.className}`}>
+                                    {status.text}
+                                </span>
+                            )}
+
+                            <div className="flex items-center gap-1 min-w-[64px] justify-end">
+                                <Zap className="w-4 h-4 text-yellow-400 fill-yellow-400" />
+                                <span className="font-black font-mono text-[#333]">{player.score}</span>
+                            </div>
+                        </motion.div>
+                    )
+                })}
+            </AnimatePresence>
+        </div>
+    )
+}
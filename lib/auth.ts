@@ -1,4 +1,4 @@
-import NextAuth, { NextAuthOptions } from "next-auth";
+import NextAuth, { NextAuthOptions, getServerSession } from "next-auth";
 import GoogleProvider from "next-auth/providers/google";
 import GitHubProvider from "next-auth/providers/github";
 import { PrismaAdapter } from "@next-auth/prisma-adapter";
@@ -44,4 +44,13 @@ export const authOptions: NextAuthOptions = {
     },
 };
 
+/**
+ * Whether the caller is a signed-in admin (User.role)
+ * Admin write routes check this server-side - the /admin password only guards the pages
+ */
+export async function isAdminSession(): Promise<boolean> {
+    const session = await getServerSession(authOptions);
+    return session?.user?.role === "admin";
+}
+
 export default authOptions;
@@ -0,0 +1,228 @@
+/**
+ * Bot Answers - How a bot answers a question (server only)
+ *
+ * The bot's registry entry (User.botConfig) decides how it answers: rule bots answer from
+ * Question.correctAnswer, LLM bots call their model with the configured timeout.
+ * Used by GameRoom and the benchmark - never exposed as a server action, since rule bots
+ * read the answer key.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { generateText, type LanguageModel } from 'ai'
+import { createOpenAI } from '@ai-sdk/openai'
+import { createGoogleGenerativeAI } from '@ai-sdk/google'
+import { BotProvider, BotPromptStyle, type BotConfig, type TargetLanguage } from '@prisma/client'
+import { getRuleBotProfile, getRuleBotAccuracy } from '@/lib/config/bot'
+import { getLanguageConfig } from '@/lib/config/factory'
+import { getBotConfig, isAllowedApiKeyEnv, resolveBotConfig } from './registry'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface BotAnswerResult {
+    answer: string         // The answer key (a, b, c, or d)
+    thinkingMs: number     // Time spent computing the answer (the engine decides when it is revealed)
+    confidence: number     // Chance of being correct (rule bots) or fixed estimate (LLM)
+    fallback: 'timeout' | 'error' | null  // Why the answer is a random guess (null = the bot answered)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Answering
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Get Bot's answer for a question
+ * Returns as soon as the answer is known - GameRoom submits it at the bot's simulated response time.
+ */
+export async function getBotAnswer(
+    questionId: string,
+    bot: { userId: string | null; botModel: string | null }
+): Promise<BotAnswerResult> {
+    const botConfig = bot.userId ? await getBotConfig(bot.userId) : null
+    const config = resolveBotConfig(bot.botModel, botConfig)
+
+    if (!config) {
+        console.warn(`Bot ${bot.userId ?? bot.botModel} has no registry entry, answering randomly`)
+        return getRandomFallback()
+    }
+
+    if (config.provider === BotProvider.rule) {
+        return getRuleBotAnswer(questionId, config.modelId)
+    }
+    return getLlmBotAnswer(questionId, config)
+}
+
+/**
+ * Build the AI SDK model for a registry entry
+ * Keys come from the env var named in apiKeyEnv (never stored in the DB)
+ * Only allowlisted names are read - entries saved before the allowlist are re-checked here
+ */
+function getModel(config: BotConfig): LanguageModel {
+    if (config.apiKeyEnv && !isAllowedApiKeyEnv(config.apiKeyEnv)) {
+        throw new Error(`API key env ${config.apiKeyEnv} is not allowed for bots`)
+    }
+    const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined
+
+    switch (config.provider) {
+        case BotProvider.google:
+            return createGoogleGenerativeAI({
+                apiKey: apiKey ?? process.env.GEMINI_API_KEY,
+                baseURL: config.baseUrl || undefined,
+            })(config.modelId)
+        case BotProvider.openai_compatible:
+            // Chat Completions is what Groq, Ollama and llama.cpp implement.
+            // Local servers ignore the key, but the SDK refuses to run without one.
+            return createOpenAI({
+                baseURL: config.baseUrl || undefined,
+                apiKey: apiKey ?? 'local',
+            }).chat(config.modelId)
+        default:
+            throw new Error(`Provider ${config.provider} does not use a language model`)
+    }
+}
+
+/**
+ * Build the prompt for a question in the bot's prompt style
+ */
+function buildPrompt(
+    style: BotPromptStyle,
+    question: { stimulus: string; targetLanguage: TargetLanguage },
+    options: Record<string, string>
+): { system?: string; prompt: string } {
+    const optionLines = Object.entries(options).map(([key, text]) => `${key.toUpperCase()}) ${text}`)
+    const letters = Object.keys(options).map(key => key.toUpperCase()).join('/')
+
+    if (style === BotPromptStyle.instructed) {
+        return {
+            system: `You are taking the ${getLanguageConfig(question.targetLanguage).examName} language exam. ` +
+                `Pick the single best option and reply with only its letter (${letters}).`,
+            prompt: `${question.stimulus}\n\n${optionLines.join('\n')}`,
+        }
+    }
+
+    // Terse: shortest prompt for the fastest response
+    return { prompt: `${question.stimulus}\n${optionLines.join(' ')}\nAnswer with just ${letters}:` }
+}
+
+/**
+ * Get an LLM Bot's answer for a question (timeout + random fallback)
+ */
+async function getLlmBotAnswer(questionId: string, config: BotConfig): Promise<BotAnswerResult> {
+    try {
+        // 1. Fetch question from DB
+        const question = await prisma.question.findUnique({
+            where: { id: questionId },
+            select: {
+                stimulus: true,
+                interaction: true,
+                targetLanguage: true,
+            },
+        })
+
+        if (!question) {
+            console.warn(`Question ${questionId} not found`)
+            return getRandomFallback()
+        }
+
+        const options = question.interaction as Record<string, string>
+        const optionKeys = Object.keys(options)
+
+        // 2. Build prompt in the bot's style
+        const { system, prompt } = buildPrompt(config.promptStyle, question, options)
+
+        // 3. Call model with timeout
+        const startTime = Date.now()
+        const controller = new AbortController()
+        const timeoutId = setTimeout(() => controller.abort(), config.timeoutMs)
+
+        try {
+            const { text } = await generateText({
+                model: getModel(config),
+                system,
+                prompt,
+                temperature: config.temperature,
+                abortSignal: controller.signal,
+            })
+
+            clearTimeout(timeoutId)
+            const thinkingMs = Date.now() - startTime
+
+            // 4. Parse response (first letter that is one of the option keys)
+            const letters = text.trim().toLowerCase().match(/\b[a-z]\b/g) ?? []
+            const answer = letters.find(letter => optionKeys.includes(letter)) ?? getRandomAnswer()
+
+            return { answer, thinkingMs, confidence: 0.8, fallback: null }
+        } catch (abortError) {
+            clearTimeout(timeoutId)
+            if (controller.signal.aborted) {
+                console.warn(`Bot ${config.modelId} timed out after ${config.timeoutMs}ms`)
+                return getRandomFallback('timeout')
+            }
+            console.error(`Bot ${config.modelId} call failed:`, abortError)
+            return getRandomFallback()
+        }
+
+    } catch (error) {
+        console.error('Bot answer error:', error)
+        return getRandomFallback()
+    }
+}
+
+/**
+ * Get Rule Bot's answer for a question
+ * Knows the correct answer and misses on purpose at its error rate (by rank and question type).
+ */
+async function getRuleBotAnswer(questionId: string, botModel: string): Promise<BotAnswerResult> {
+    const startTime = Date.now()
+    try {
+        const question = await prisma.question.findUnique({
+            where: { id: questionId },
+            select: {
+                rank: true,
+                examQuestionType: true,
+                interaction: true,
+                correctAnswer: true,
+            },
+        })
+
+        if (!question) {
+            console.warn(`Question ${questionId} not found`)
+            return getRandomFallback()
+        }
+
+        const profile = getRuleBotProfile(botModel)
+        const accuracy = getRuleBotAccuracy(profile, question.rank, question.examQuestionType)
+
+        const correctAnswer = question.correctAnswer.toLowerCase()
+        const optionKeys = Object.keys(question.interaction as Record<string, string>)
+        const wrongAnswers = optionKeys.filter(key => key !== correctAnswer)
+
+        const answer = Math.random() < accuracy || wrongAnswers.length === 0
+            ? correctAnswer
+            : wrongAnswers[Math.floor(Math.random() * wrongAnswers.length)]
+
+        return { answer, thinkingMs: Date.now() - startTime, confidence: accuracy, fallback: null }
+    } catch (error) {
+        console.error('Rule bot answer error:', error)
+        return getRandomFallback()
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fallbacks
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getRandomAnswer(): string {
+    const answers = ['a', 'b', 'c', 'd']
+    return answers[Math.floor(Math.random() * answers.length)]
+}
+
+function getRandomFallback(reason: 'timeout' | 'error' = 'error'): BotAnswerResult {
+    return {
+        answer: getRandomAnswer(),
+        thinkingMs: 2000 + Math.random() * 2000,
+        confidence: 0.25,
+        fallback: reason,
+    }
+}
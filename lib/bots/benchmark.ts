@@ -0,0 +1,258 @@
+/**
+ * Bot Benchmark - Evaluate LLM bots against the question bank
+ *
+ * A run samples questions for one language and rank, asks every selected bot through the
+ * same getBotAnswer path the game uses, and stores one BotBenchmarkResult per answer.
+ * Reports break accuracy, latency and timeout rate down by examQuestionType, and list
+ * questions that every bot got wrong (often a wrong answer key).
+ *
+ * Rule bots are skipped - they answer from the answer key, so they measure nothing.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { BotBenchmarkStatus, BotProvider, type BotBenchmarkRun, type ExamQuestionType, type TargetLanguage } from '@prisma/client'
+import { getBotAnswer } from './answer'
+import { listBotUsers, resolveBotConfig } from './registry'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CreateBenchmarkInput {
+    targetLanguage: TargetLanguage
+    rank: number
+    sampleSize: number
+    botUserIds?: string[]  // Defaults to every LLM bot
+}
+
+export interface BenchmarkProgress {
+    botUserId: string
+    questionId: string
+    isCorrect: boolean
+    latencyMs: number
+    timedOut: boolean
+    failed: boolean
+    completed: number
+    total: number
+}
+
+export interface BenchmarkStats {
+    total: number
+    correct: number
+    accuracy: number       // 0-1 over all answers (fallbacks count as answered)
+    avgLatencyMs: number
+    timeoutRate: number    // 0-1
+    failureRate: number    // 0-1 (errors other than timeouts)
+}
+
+export interface BotBenchmarkReport {
+    botUserId: string
+    name: string
+    modelId: string | null
+    overall: BenchmarkStats
+    byType: Partial<Record<ExamQuestionType, BenchmarkStats>>
+}
+
+export interface BenchmarkReport {
+    run: BotBenchmarkRun
+    bots: BotBenchmarkReport[]
+    // Questions no bot answered correctly (only counting real answers, not fallbacks)
+    suspectQuestionIds: string[]
+}
+
+export const BENCHMARK_SAMPLE_RANGE = { min: 1, max: 200 } as const
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Runs
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Sample questions and create a run (status: running)
+ */
+export async function createBenchmarkRun(input: CreateBenchmarkInput): Promise<BotBenchmarkRun> {
+    const sampleSize = Math.min(BENCHMARK_SAMPLE_RANGE.max, Math.max(BENCHMARK_SAMPLE_RANGE.min, input.sampleSize))
+
+    const llmBots = (await listBotUsers()).filter(bot => {
+        const config = resolveBotConfig(bot.botModel, bot.botConfig)
+        return config && config.provider !== BotProvider.rule
+    })
+    const bots = input.botUserIds?.length
+        ? llmBots.filter(bot => input.botUserIds!.includes(bot.id))
+        : llmBots
+    if (bots.length === 0) throw new Error('No LLM bots to benchmark')
+
+    const allQuestionIds = await prisma.question.findMany({
+        where: { targetLanguage: input.targetLanguage, rank: input.rank },
+        select: { id: true },
+    })
+    if (allQuestionIds.length === 0) {
+        throw new Error(`No questions found for ${input.targetLanguage} rank ${input.rank}.`)
+    }
+
+    const questionIds = allQuestionIds
+        .sort(() => 0.5 - Math.random())
+        .slice(0, sampleSize)
+        .map(q => q.id)
+
+    return prisma.botBenchmarkRun.create({
+        data: {
+            targetLanguage: input.targetLanguage,
+            rank: input.rank,
+            questionIds,
+            botUserIds: bots.map(bot => bot.id),
+        },
+    })
+}
+
+/**
+ * Ask every bot every question of a run and store the results
+ * Bots run in parallel (usually different providers); each bot answers sequentially
+ * so a single provider's rate limit is not hammered.
+ */
+export async function runBenchmark(
+    runId: string,
+    onProgress?: (progress: BenchmarkProgress) => void
+): Promise<void> {
+    const run = await prisma.botBenchmarkRun.findUnique({ where: { id: runId } })
+    if (!run) throw new Error('Benchmark run not found')
+
+    const [bots, questions] = await Promise.all([
+        prisma.user.findMany({
+            where: { id: { in: run.botUserIds } },
+            select: { id: true, name: true, botModel: true },
+        }),
+        prisma.question.findMany({
+            where: { id: { in: run.questionIds } },
+            select: { id: true, examQuestionType: true, correctAnswer: true },
+        }),
+    ])
+
+    const total = bots.length * questions.length
+    let completed = 0
+
+    try {
+        await Promise.all(bots.map(async (bot) => {
+            for (const question of questions) {
+                const startTime = Date.now()
+                const { answer, fallback } = await getBotAnswer(question.id, {
+                    userId: bot.id,
+                    botModel: bot.botModel,
+                })
+                const latencyMs = Date.now() - startTime
+
+                const result = await prisma.botBenchmarkResult.create({
+                    data: {
+                        runId,
+                        botUserId: bot.id,
+                        questionId: question.id,
+                        examQuestionType: question.examQuestionType,
+                        answer,
+                        isCorrect: answer === question.correctAnswer,
+                        latencyMs,
+                        timedOut: fallback === 'timeout',
+                        failed: fallback === 'error',
+                    },
+                })
+
+                completed++
+                onProgress?.({
+                    botUserId: bot.id,
+                    questionId: question.id,
+                    isCorrect: result.isCorrect,
+                    latencyMs,
+                    timedOut: result.timedOut,
+                    failed: result.failed,
+                    completed,
+                    total,
+                })
+            }
+        }))
+
+        await prisma.botBenchmarkRun.update({
+            where: { id: runId },
+            data: { status: BotBenchmarkStatus.completed, completedAt: new Date() },
+        })
+    } catch (error) {
+        await prisma.botBenchmarkRun.update({
+            where: { id: runId },
+            data: {
+                status: BotBenchmarkStatus.failed,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                completedAt: new Date(),
+            },
+        })
+        throw error
+    }
+}
+
+/**
+ * Recent runs (newest first)
+ */
+export async function listBenchmarkRuns(limit = 20): Promise<BotBenchmarkRun[]> {
+    return prisma.botBenchmarkRun.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+    })
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Reports
+// ─────────────────────────────────────────────────────────────────────────────
+
+type ResultRow = { isCorrect: boolean; latencyMs: number; timedOut: boolean; failed: boolean }
+
+function summarize(rows: ResultRow[]): BenchmarkStats {
+    const total = rows.length
+    const correct = rows.filter(r => r.isCorrect).length
+    return {
+        total,
+        correct,
+        accuracy: total ? correct / total : 0,
+        avgLatencyMs: total ? Math.round(rows.reduce((sum, r) => sum + r.latencyMs, 0) / total) : 0,
+        timeoutRate: total ? rows.filter(r => r.timedOut).length / total : 0,
+        failureRate: total ? rows.filter(r => r.failed).length / total : 0,
+    }
+}
+
+/**
+ * Aggregate a run's results per bot and per question type
+ */
+export async function getBenchmarkReport(runId: string): Promise<BenchmarkReport | null> {
+    const run = await prisma.botBenchmarkRun.findUnique({ where: { id: runId } })
+    if (!run) return null
+
+    const [results, bots] = await Promise.all([
+        prisma.botBenchmarkResult.findMany({ where: { runId } }),
+        prisma.user.findMany({
+            where: { id: { in: run.botUserIds } },
+            select: { id: true, name: true, botModel: true, botConfig: true },
+        }),
+    ])
+
+    const botReports: BotBenchmarkReport[] = bots.map(bot => {
+        const rows = results.filter(r => r.botUserId === bot.id)
+
+        const byType: Partial<Record<ExamQuestionType, BenchmarkStats>> = {}
+        for (const type of new Set(rows.map(r => r.examQuestionType))) {
+            byType[type] = summarize(rows.filter(r => r.examQuestionType === type))
+        }
+
+        return {
+            botUserId: bot.id,
+            name: bot.name || 'Bot',
+            modelId: bot.botConfig?.modelId ?? bot.botModel,
+            overall: summarize(rows),
+            byType,
+        }
+    })
+
+    // A question is suspect when every bot that really answered got it wrong
+    // (at least two answers unless only one bot ran, so one weak model is not enough)
+    const minAnswers = Math.min(2, run.botUserIds.length)
+    const suspectQuestionIds = run.questionIds.filter(questionId => {
+        const answered = results.filter(r => r.questionId === questionId && !r.timedOut && !r.failed)
+        return answered.length >= minAnswers && answered.every(r => !r.isCorrect)
+    })
+
+    return { run, bots: botReports, suspectQuestionIds }
+}
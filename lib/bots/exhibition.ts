@@ -0,0 +1,160 @@
+/**
+ * Exhibitions - Bot-vs-bot matches played entirely by the server
+ *
+ * An exhibition is a regular Match (mode: exhibition) whose two players are bot users.
+ * GameRoom plans and submits every answer and RoundScheduler drives the rounds, so the
+ * match plays itself. Anyone can watch it at /watch/[matchId], and the result lands in
+ * Match / AnswerRecord like any other game (leaderboard and head-to-head records).
+ */
+
+import { prisma } from '@/lib/prisma'
+import { MatchMode, MatchStatus, type MatchPlayer, type TargetLanguage } from '@prisma/client'
+import { initGameRoom, startRound } from '@/lib/game-engine/server/GameRoom'
+import { canAdvanceUnattendedMatches } from '@/lib/game-engine/server/RoundScheduler'
+import { getGameState, projectGameState } from '@/lib/game-engine/server/GameStore'
+import { buildMatchRules, type MatchRulePreset } from '@/lib/config/game'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CreateExhibitionInput {
+    targetLanguage: TargetLanguage
+    rank: number
+    questionCount: number
+    botUserIds: [string, string]
+    rulesPreset?: MatchRulePreset
+}
+
+export interface LiveExhibitionPlayer {
+    playerId: string
+    name: string
+    avatar: string | null
+    botModel: string | null
+    score: number
+}
+
+export interface LiveExhibition {
+    matchId: string
+    targetLanguage: TargetLanguage
+    rank: number
+    questionCount: number
+    currentQuestionIndex: number
+    players: LiveExhibitionPlayer[]
+    startedAt: Date | null
+}
+
+/** Same lifetime as a battle link (getMatch expires matches after an hour) */
+const LIVE_WINDOW_MS = 60 * 60 * 1000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Exhibitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create an exhibition and start its first round right away
+ * Refused on serverless without the scheduled round sweep - nobody is there to move it along
+ */
+export async function createExhibition(input: CreateExhibitionInput): Promise<{ matchId: string }> {
+    if (!canAdvanceUnattendedMatches()) {
+        throw new Error('Exhibitions need a long-running server or the scheduled round sweep (ROUND_SWEEP_SCHEDULED)')
+    }
+
+    const [firstBotId, secondBotId] = input.botUserIds
+    if (!firstBotId || !secondBotId || firstBotId === secondBotId) {
+        throw new Error('An exhibition needs two different bots')
+    }
+
+    const bots = await prisma.user.findMany({
+        where: { id: { in: [firstBotId, secondBotId] }, isBot: true },
+        select: { id: true, name: true, image: true, botModel: true },
+    })
+    if (bots.length !== 2) throw new Error('Bot not found')
+
+    const allQuestionIds = await prisma.question.findMany({
+        where: { targetLanguage: input.targetLanguage, rank: input.rank },
+        select: { id: true },
+    })
+    if (allQuestionIds.length === 0) {
+        throw new Error(`No questions found for ${input.targetLanguage} rank ${input.rank}.`)
+    }
+
+    const questionCount = Math.min(allQuestionIds.length, input.questionCount)
+    const questionIds = allQuestionIds
+        .sort(() => 0.5 - Math.random())
+        .slice(0, questionCount)
+        .map(q => q.id)
+
+    // Keep the requested seat order (player_1 is shown on the left)
+    const players: MatchPlayer[] = [firstBotId, secondBotId].map((botUserId, index) => {
+        const bot = bots.find(b => b.id === botUserId)!
+        return {
+            userId: bot.id,
+            playerId: `player_${index + 1}`,
+            name: bot.name || 'Bot',
+            avatar: bot.image,
+            isBot: true,
+            botModel: bot.botModel,
+            finalScore: 0,
+            placement: null,
+            lastSeenAt: null,
+        }
+    })
+
+    const rules = buildMatchRules(input.rulesPreset)
+    const match = await prisma.match.create({
+        data: {
+            mode: MatchMode.exhibition,
+            targetLanguage: input.targetLanguage,
+            rank: input.rank,
+            questionCount,
+            timePerQuestion: rules.timePerQuestionSec,
+            rules,
+            status: MatchStatus.waiting,
+            questionIds,
+            players,
+        },
+    })
+
+    // No client starts an exhibition - the server does, and the scheduler takes it from there
+    await initGameRoom(match.id)
+    await startRound(match.id)
+
+    return { matchId: match.id }
+}
+
+/**
+ * Exhibitions currently playing, newest first (scores as spectators see them)
+ */
+export async function listLiveExhibitions(): Promise<LiveExhibition[]> {
+    const matches = await prisma.match.findMany({
+        where: {
+            mode: MatchMode.exhibition,
+            status: MatchStatus.playing,
+            createdAt: { gt: new Date(Date.now() - LIVE_WINDOW_MS) },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+    })
+
+    return Promise.all(matches.map(async (match) => {
+        const liveState = await getGameState(match.id)
+        const state = liveState && projectGameState(liveState, null)
+
+        return {
+            matchId: match.id,
+            targetLanguage: match.targetLanguage,
+            rank: match.rank,
+            questionCount: match.questionCount,
+            currentQuestionIndex: state?.currentQuestionIndex ?? 0,
+            players: match.players.map(p => ({
+                playerId: p.playerId,
+                name: p.name,
+                avatar: p.avatar,
+                botModel: p.botModel,
+                score: state?.playerStates[p.playerId]?.score ?? 0,
+            })),
+            startedAt: match.startedAt,
+        }
+    }))
+}
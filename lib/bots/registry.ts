@@ -0,0 +1,196 @@
+/**
+ * Bot Registry - Bot users and how they answer
+ *
+ * Every bot is a User with isBot = true:
+ * - botModel: persona key (rule profile / timing profile in lib/config/bot.ts)
+ * - botConfig: which model answers and how (provider, base URL, model id, prompt style, timeout)
+ *
+ * Any OpenAI-compatible base URL works, so a local Ollama / llama.cpp server can be an offline bot.
+ * Managed from /admin/bots.
+ */
+
+import { randomUUID } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { BotProvider, BotPromptStyle, UserRole, type BotConfig } from '@prisma/client'
+import { isRuleBotModel, RULE_BOT_PROFILES } from '@/lib/config/bot'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface BotUserRecord {
+    id: string
+    name: string | null
+    image: string | null
+    botModel: string | null
+    botConfig: BotConfig | null
+    createdAt: Date
+}
+
+export interface BotUserInput {
+    name: string
+    image?: string | null
+    botModel?: string | null  // Defaults to botConfig.modelId
+    botConfig: BotConfig
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Defaults & Validation
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const DEFAULT_BOT_CONFIG: Omit<BotConfig, 'provider' | 'modelId'> = {
+    baseUrl: null,
+    apiKeyEnv: null,
+    temperature: 0.2,
+    promptStyle: BotPromptStyle.terse,
+    timeoutMs: 5000,
+}
+
+export const BOT_TIMEOUT_RANGE = { minMs: 500, maxMs: 30000 } as const
+
+/**
+ * Env vars a bot may name as its API key - the key is sent to the bot's base URL,
+ * so any other variable (DATABASE_URL, NEXTAUTH_SECRET...) must never be reachable.
+ * Extra keys can be listed in BOT_API_KEY_ENVS (comma separated, names ending in _API_KEY).
+ */
+export const BOT_API_KEY_ENVS = ['GEMINI_API_KEY', 'OPENAI_API_KEY', 'GROQ_API_KEY']
+
+export function isAllowedApiKeyEnv(name: string): boolean {
+    if (!/^[A-Z][A-Z0-9_]*_API_KEY$/.test(name)) return false
+    const extra = (process.env.BOT_API_KEY_ENVS ?? '').split(',').map(env => env.trim())
+    return BOT_API_KEY_ENVS.includes(name) || extra.includes(name)
+}
+
+/**
+ * Validate a bot config
+ * @returns Error message, or null if valid
+ */
+export function validateBotConfig(config: BotConfig): string | null {
+    if (!Object.values(BotProvider).includes(config.provider)) {
+        return `Unknown provider: ${config.provider}`
+    }
+    if (!Object.values(BotPromptStyle).includes(config.promptStyle)) {
+        return `Unknown prompt style: ${config.promptStyle}`
+    }
+    if (!config.modelId?.trim()) {
+        return 'Model id is required'
+    }
+    if (config.provider === BotProvider.rule && !isRuleBotModel(config.modelId)) {
+        return `Rule bots must use a rule profile (${Object.keys(RULE_BOT_PROFILES).join(', ')})`
+    }
+    if (config.baseUrl) {
+        try {
+            const url = new URL(config.baseUrl)
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Base URL must be http(s)'
+        } catch {
+            return 'Base URL is not a valid URL'
+        }
+    }
+    if (config.apiKeyEnv && !isAllowedApiKeyEnv(config.apiKeyEnv)) {
+        return `API key env must be one of ${BOT_API_KEY_ENVS.join(', ')} (or listed in BOT_API_KEY_ENVS)`
+    }
+    if (config.provider === BotProvider.openai_compatible && !config.baseUrl && !config.apiKeyEnv) {
+        return 'OpenAI-compatible bots need a base URL (local server) or an API key env'
+    }
+    if (!(config.temperature >= 0 && config.temperature <= 2)) {
+        return 'Temperature must be between 0 and 2'
+    }
+    if (!(config.timeoutMs >= BOT_TIMEOUT_RANGE.minMs && config.timeoutMs <= BOT_TIMEOUT_RANGE.maxMs)) {
+        return `Timeout must be between ${BOT_TIMEOUT_RANGE.minMs} and ${BOT_TIMEOUT_RANGE.maxMs} ms`
+    }
+    return null
+}
+
+/**
+ * Config a bot answers with
+ * Rule bots without a registry entry still work from their botModel (profile key)
+ */
+export function resolveBotConfig(botModel: string | null, botConfig: BotConfig | null): BotConfig | null {
+    if (botConfig) return botConfig
+    if (isRuleBotModel(botModel)) {
+        return { ...DEFAULT_BOT_CONFIG, provider: BotProvider.rule, modelId: botModel! }
+    }
+    return null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Queries
+// ─────────────────────────────────────────────────────────────────────────────
+
+const botUserSelect = {
+    id: true,
+    name: true,
+    image: true,
+    botModel: true,
+    botConfig: true,
+    createdAt: true,
+} as const
+
+/**
+ * List every bot user (oldest first, matching the lobby order)
+ */
+export async function listBotUsers(): Promise<BotUserRecord[]> {
+    return prisma.user.findMany({
+        where: { isBot: true },
+        select: botUserSelect,
+        orderBy: { createdAt: 'asc' },
+    })
+}
+
+/**
+ * Registry entry of a bot user (null if the user is not a bot or has no entry)
+ */
+export async function getBotConfig(userId: string): Promise<BotConfig | null> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { isBot: true, botConfig: true },
+    })
+    return user?.isBot ? user.botConfig : null
+}
+
+/**
+ * Create a bot user
+ */
+export async function createBotUser(input: BotUserInput): Promise<BotUserRecord> {
+    const error = validateBotConfig(input.botConfig)
+    if (error) throw new Error(error)
+
+    return prisma.user.create({
+        data: {
+            name: input.name,
+            // email is unique - bots get a placeholder address
+            email: `bot-${randomUUID().slice(0, 8)}@duo-nan-guo.local`,
+            image: input.image ?? '/mascot-robot.jpg',
+            role: UserRole.user,
+            isBot: true,
+            botModel: input.botModel || input.botConfig.modelId,
+            botConfig: input.botConfig,
+        },
+        select: botUserSelect,
+    })
+}
+
+/**
+ * Update a bot user's profile and registry entry
+ * Matches already created keep the botModel they copied into MatchPlayer
+ */
+export async function updateBotUser(id: string, input: Partial<BotUserInput>): Promise<BotUserRecord> {
+    const existing = await prisma.user.findUnique({ where: { id }, select: { isBot: true } })
+    if (!existing?.isBot) throw new Error('Bot not found')
+
+    if (input.botConfig) {
+        const error = validateBotConfig(input.botConfig)
+        if (error) throw new Error(error)
+    }
+
+    return prisma.user.update({
+        where: { id },
+        data: {
+            name: input.name,
+            image: input.image,
+            botModel: input.botModel ?? undefined,
+            botConfig: input.botConfig ? { set: input.botConfig } : undefined,
+        },
+        select: botUserSelect,
+    })
+}
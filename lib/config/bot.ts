@@ -0,0 +1,170 @@
+/**
+ * Bot Configuration
+ *
+ * Rule bots know the correct answer (Question.correctAnswer) and miss on purpose.
+ * See docs/overall-spec.md §3.3 - no API keys needed, cheap enough for every casual match.
+ *
+ * Every bot (rule or LLM) also has a timing profile: the game engine samples when the bot
+ * answers at round start, so bot speed is a persona rather than API latency.
+ */
+
+import type { ExamQuestionType } from '@prisma/client'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface BotTimingProfile {
+    /** Median response time in ms on a rank 1 question (log-normal distribution) */
+    medianResponseMs: number
+    /** Spread of the log-normal response time (higher = less predictable) */
+    responseSigma: number
+    /** Median slowdown per rank above 1 (0.08 = +8% per rank) */
+    rankSlowdown: number
+}
+
+export interface RuleBotProfile extends BotTimingProfile {
+    /** Chance of answering correctly on a rank 1 question (before modifiers) */
+    baseAccuracy: number
+    /** Accuracy lost per rank above 1 */
+    rankPenalty: number
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** botModel used for rule bots when no specific profile is given */
+export const DEFAULT_RULE_BOT_MODEL = 'rule'
+
+/** Rule bot profiles keyed by botModel (User.botModel / MatchPlayer.botModel) */
+export const RULE_BOT_PROFILES: Record<string, RuleBotProfile> = {
+    'rule-easy': {
+        baseAccuracy: 0.7,
+        rankPenalty: 0.04,
+        medianResponseMs: 7000,
+        responseSigma: 0.35,
+        rankSlowdown: 0.1,
+    },
+    'rule': {
+        baseAccuracy: 0.82,
+        rankPenalty: 0.03,
+        medianResponseMs: 5500,
+        responseSigma: 0.3,
+        rankSlowdown: 0.08,
+    },
+    'rule-hard': {
+        baseAccuracy: 0.95,
+        rankPenalty: 0.02,
+        medianResponseMs: 4000,
+        responseSigma: 0.25,
+        rankSlowdown: 0.06,
+    },
+}
+
+/** Timing profiles for LLM bots keyed by botModel (answers are prepared ahead, then revealed on this schedule) */
+export const LLM_BOT_TIMING_PROFILES: Record<string, BotTimingProfile> = {
+    'gpt-4o-mini': {
+        medianResponseMs: 4500,
+        responseSigma: 0.3,
+        rankSlowdown: 0.05,
+    },
+    'gemma-3-27b-it': {
+        medianResponseMs: 6000,
+        responseSigma: 0.35,
+        rankSlowdown: 0.08,
+    },
+    'llama-3.3-70b-versatile': {
+        medianResponseMs: 5000,
+        responseSigma: 0.3,
+        rankSlowdown: 0.06,
+    },
+}
+
+/** Timing for LLM bots without a dedicated profile */
+export const DEFAULT_LLM_BOT_TIMING: BotTimingProfile = {
+    medianResponseMs: 6000,
+    responseSigma: 0.35,
+    rankSlowdown: 0.08,
+}
+
+/** Accuracy bounds from the spec (50-95%) */
+export const RULE_BOT_ACCURACY_RANGE = { min: 0.5, max: 0.95 } as const
+
+/** Response time bounds in ms (upper bound leaves room before the round timeout) */
+export const BOT_RESPONSE_RANGE = { minMs: 1200, maxMs: 12000 } as const
+
+/**
+ * Accuracy modifiers per question type (negative = harder for the bot)
+ * Types not listed use 0.
+ */
+export const QUESTION_TYPE_ACCURACY_MODIFIERS: Partial<Record<ExamQuestionType, number>> = {
+    // Recall-heavy types are easier
+    toeic_part5_pos: 0.03,
+    jlpt_kanji_reading: 0.03,
+    topik_particles: 0.02,
+    hsk_measure_words: 0.02,
+
+    // Nuance and multi-step reasoning are harder
+    toeic_part5_vocab: -0.03,
+    jlpt_kanji_writing: -0.04,
+    jlpt_usage: -0.06,
+    jlpt_paraphrase: -0.04,
+    topik_grammar_expression: -0.05,
+    topik_sentence_order: -0.05,
+    topik_content_match: -0.04,
+    hsk_synonyms: -0.04,
+    hsk_sentence_order: -0.05,
+    hsk_word_order: -0.04,
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helper Functions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Whether a botModel refers to a rule bot (no LLM call) */
+export function isRuleBotModel(botModel: string | null | undefined): boolean {
+    return !!botModel && botModel in RULE_BOT_PROFILES
+}
+
+/** Get rule bot profile, falling back to the default rule bot */
+export function getRuleBotProfile(botModel: string | null | undefined): RuleBotProfile {
+    return (botModel && RULE_BOT_PROFILES[botModel]) || RULE_BOT_PROFILES[DEFAULT_RULE_BOT_MODEL]
+}
+
+/** Get the timing profile for any bot (rule profiles carry their own timing) */
+export function getBotTimingProfile(botModel: string | null | undefined): BotTimingProfile {
+    if (isRuleBotModel(botModel)) return getRuleBotProfile(botModel)
+    return (botModel && LLM_BOT_TIMING_PROFILES[botModel]) || DEFAULT_LLM_BOT_TIMING
+}
+
+/**
+ * Chance that a rule bot answers a question correctly
+ *
+ * accuracy = baseAccuracy - rankPenalty * (rank - 1) + typeModifier, clamped to 50-95%
+ */
+export function getRuleBotAccuracy(
+    profile: RuleBotProfile,
+    rank: number,
+    questionType: ExamQuestionType
+): number {
+    const typeModifier = QUESTION_TYPE_ACCURACY_MODIFIERS[questionType] ?? 0
+    const accuracy = profile.baseAccuracy - profile.rankPenalty * (rank - 1) + typeModifier
+    return Math.min(RULE_BOT_ACCURACY_RANGE.max, Math.max(RULE_BOT_ACCURACY_RANGE.min, accuracy))
+}
+
+/**
+ * Sample a human-like response time (log-normal, slower on higher ranks)
+ * Clamped to BOT_RESPONSE_RANGE.
+ */
+export function sampleBotResponseMs(profile: BotTimingProfile, rank: number): number {
+    // Box-Muller transform for a standard normal sample
+    const u1 = Math.random() || Number.MIN_VALUE
+    const u2 = Math.random()
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2)
+
+    const median = profile.medianResponseMs * (1 + profile.rankSlowdown * (rank - 1))
+    const sampled = median * Math.exp(profile.responseSigma * z)
+
+    return Math.round(Math.min(BOT_RESPONSE_RANGE.maxMs, Math.max(BOT_RESPONSE_RANGE.minMs, sampled)))
+}
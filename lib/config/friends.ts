@@ -0,0 +1,45 @@
+/**
+ * Friends Configuration
+ *
+ * Friends are mutual: a request becomes a friendship once the other user accepts it.
+ * Friends see each other's presence and can challenge each other to a private duel room
+ * (see lib/friends and actions/friend.server.ts).
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Presence
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type FriendPresence = 'online' | 'playing' | 'offline'
+
+export const FRIEND_PRESENCE: Record<FriendPresence, { label: string; color: string }> = {
+    online: { label: '線上', color: '#22c55e' },
+    playing: { label: '對戰中', color: '#F5A623' },
+    offline: { label: '離線', color: '#94A3B8' },
+}
+
+/** How often a signed-in page reports presence */
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000
+
+/** A user counts as online for this long after their last heartbeat */
+export const PRESENCE_ONLINE_WINDOW_MS = 2 * 60 * 1000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Friends list
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Friends (and outgoing requests) per user */
+export const FRIEND_LIMIT = 100
+
+/** Users returned by a friend search */
+export const FRIEND_SEARCH_LIMIT = 10
+
+/** Shortest name query a search runs for */
+export const FRIEND_SEARCH_MIN_LENGTH = 2
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Challenges
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A challenge nobody answers lapses after this (the room itself stays for the challenger) */
+export const CHALLENGE_EXPIRY_MS = 5 * 60 * 1000
@@ -5,7 +5,7 @@
  * Derived from factory.ts but simplified for UI display purposes.
  */
 
-import type { TargetLanguage } from '@prisma/client'
+import type { GameMode, MatchMode, PowerUpType, TargetLanguage } from '@prisma/client'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -81,62 +81,369 @@ export function rankToLevel(langId: TargetLanguage, rank: number): string {
 /** Question count options */
 export const questionCounts = [5, 10, 20] as const
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Room Capacity
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Smallest room that can start a game */
+export const MIN_PLAYERS = 2
+
+/** Largest multiplayer room (MatchMode.multiplayer) */
+export const MAX_PLAYERS = 8
+
+/** Room capacity options for PvP rooms (2 = duel, 3+ = multiplayer) */
+export const playerCapacities = [2, 4, 6, 8] as const
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Private Rooms
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Length of a private room's join code */
+export const ROOM_CODE_LENGTH = 6
+
+/** Join code characters (no 0/O, 1/I/L - codes are read aloud and typed by hand) */
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+/** Longest accepted room passphrase */
+export const ROOM_PASSPHRASE_MAX_LENGTH = 32
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Presenter Mode
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Largest classroom session (MatchMode.presenter - the host does not take a seat) */
+export const PRESENTER_MAX_PLAYERS = 60
+
+/** A presenter session is paced by hand, so it may stay in play much longer than a match */
+export const PRESENTER_SESSION_MAX_MS = 3 * 60 * 60 * 1000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Match Timing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** How long the correct answer is shown between rounds (ms) */
+export const RESOLVING_DURATION_MS = 2000
+
+/** Slack on top of a match's longest possible run before the cleanup cron abandons it */
+export const STUCK_MATCH_GRACE_MS = 10 * 60 * 1000
+
+/**
+ * Rank players by score using standard competition ranking (1, 2, 2, 4)
+ * Tied scores share the same placement.
+ *
+ * @param scores playerId -> score
+ * @returns playerId -> placement (1-indexed)
+ */
+export function calculatePlacements(scores: Record<string, number>): Record<string, number> {
+    const sorted = Object.entries(scores).sort(([, a], [, b]) => b - a)
+    const placements: Record<string, number> = {}
+
+    sorted.forEach(([playerId, score], index) => {
+        const previous = sorted[index - 1]
+        placements[playerId] = previous && previous[1] === score
+            ? placements[previous[0]]
+            : index + 1
+    })
+
+    return placements
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Game Modes
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface GameModeConfig {
+    label: string
+    description: string
+    lives: number | null         // Elimination modes: wrong answers or timeouts cost a life
+    durationSec: number | null   // Time attack: global clock for the whole match
+    questionPool: number | null  // Questions drawn regardless of the chosen count (null = use the count)
+}
+
+export const GAME_MODES: Record<GameMode, GameModeConfig> = {
+    classic: {
+        label: '經典',
+        description: '固定題數，總分最高者獲勝',
+        lives: null,
+        durationSec: null,
+        questionPool: null,
+    },
+    survival: {
+        label: '生存',
+        description: '每人 3 條命，答錯或超時扣一命，最後存活者獲勝',
+        lives: 3,
+        durationSec: null,
+        questionPool: 50,
+    },
+    sudden_death: {
+        label: '驟死',
+        description: '答錯一題即淘汰',
+        lives: 1,
+        durationSec: null,
+        questionPool: 50,
+    },
+    time_attack: {
+        label: '計時賽',
+        description: '90 秒內各自作答，答對最多者獲勝',
+        lives: null,
+        durationSec: 90,
+        questionPool: 60,
+    },
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Power-ups
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PowerUpConfig {
+    label: string
+    description: string
+    icon: string
+}
+
+/** Every player gets one charge of each per match (bots never use them) */
+export const POWER_UPS: Record<PowerUpType, PowerUpConfig> = {
+    fifty_fifty: {
+        label: '50:50',
+        description: '移除兩個錯誤選項',
+        icon: '✂️',
+    },
+    time_freeze: {
+        label: '時間凍結',
+        description: '只有自己多 5 秒作答時間',
+        icon: '❄️',
+    },
+    double_down: {
+        label: '加倍下注',
+        description: '答對得分加倍，答錯或逾時再扣一題基本分',
+        icon: '🎲',
+    },
+}
+
+/** Extra answer time from a time freeze (ms) */
+export const TIME_FREEZE_MS = 5000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Connection
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** How often battle clients send a presence heartbeat (ms) */
+export const PRESENCE_HEARTBEAT_MS = 5000
+
+/** A player counts as disconnected after this long without a heartbeat (ms) */
+export const PRESENCE_TIMEOUT_MS = 15000
+
+/** Round trips per clock sync handshake (the lowest-latency sample wins) */
+export const CLOCK_SYNC_SAMPLES = 5
+
+/** Waiting room countdown before the battle starts (ms) */
+export const START_COUNTDOWN_MS = 3000
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Scoring Configuration
 // ─────────────────────────────────────────────────────────────────────────────
 
-export const TIME_PER_QUESTION = 20; // seconds
-export const SCORING_CONFIG = {
-    /** Base score for correct answer */
-    baseScore: 100,
+/**
+ * Per-match rule set (stored on Match.rules, chosen at room creation)
+ * Same shape as the MatchRules composite type in schema.prisma
+ */
+export interface MatchRules {
+    preset: string                  // MatchRulePreset id, or 'custom'
+    timePerQuestionSec: number
+    baseScore: number               // Points for a correct answer
+    speedBonusMax: number           // Extra points for an instant answer
+    speedBonusWindowRatio: number   // Speed bonus decays to 0 at this ratio of the time limit
+    comboMultipliers: number[]      // index = streak before the answer, the last entry applies from then on
+    wrongAnswerPenalty: number      // Points lost for a wrong answer (timeouts lose nothing, scores never drop below 0)
+}
 
-    /** Maximum speed bonus points */
-    speedBonusMax: 50,
+export type MatchRulePreset = 'standard' | 'blitz' | 'relaxed' | 'hardcore'
 
-    /** Speed bonus window as ratio of time limit (0.85 = 85%, more lenient for Vercel latency) */
-    speedBonusWindowRatio: 0.85,
+export const MATCH_RULE_PRESETS: Record<MatchRulePreset, { label: string; description: string; rules: MatchRules }> = {
+    standard: {
+        label: '標準',
+        description: '15 秒作答，速度與連擊加分',
+        rules: {
+            preset: 'standard',
+            timePerQuestionSec: 15,
+            baseScore: 100,
+            speedBonusMax: 50,
+            speedBonusWindowRatio: 0.85, // More lenient for Vercel latency
+            comboMultipliers: [1.0, 1.1, 1.2, 1.3, 1.4, 1.5],
+            wrongAnswerPenalty: 0,
+        },
+    },
+    blitz: {
+        label: '閃電',
+        description: '8 秒作答，搶快加倍',
+        rules: {
+            preset: 'blitz',
+            timePerQuestionSec: 8,
+            baseScore: 100,
+            speedBonusMax: 100,
+            speedBonusWindowRatio: 0.9,
+            comboMultipliers: [1.0, 1.2, 1.4, 1.6, 1.8, 2.0],
+            wrongAnswerPenalty: 0,
+        },
+    },
+    relaxed: {
+        label: '悠閒',
+        description: '25 秒作答，答對最重要',
+        rules: {
+            preset: 'relaxed',
+            timePerQuestionSec: 25,
+            baseScore: 100,
+            speedBonusMax: 20,
+            speedBonusWindowRatio: 0.6,
+            comboMultipliers: [1.0, 1.05, 1.1, 1.15, 1.2],
+            wrongAnswerPenalty: 0,
+        },
+    },
+    hardcore: {
+        label: '硬派',
+        description: '12 秒作答，答錯扣 50 分',
+        rules: {
+            preset: 'hardcore',
+            timePerQuestionSec: 12,
+            baseScore: 100,
+            speedBonusMax: 50,
+            speedBonusWindowRatio: 0.85,
+            comboMultipliers: [1.0, 1.2, 1.4, 1.6, 1.8, 2.0],
+            wrongAnswerPenalty: 50,
+        },
+    },
+}
 
-    /** Combo multipliers for streak (index = streak count, max at 5+) */
-    comboMultipliers: [1.0, 1.1, 1.2, 1.3, 1.4, 1.5] as const,
+export const DEFAULT_MATCH_RULES: MatchRules = MATCH_RULE_PRESETS.standard.rules
 
-    /** Time per question in milliseconds */
-    timePerQuestionMs: 15000,
+/** Bounds for custom rule values (the speed window is a ratio, everything else whole numbers) */
+export const MATCH_RULE_LIMITS = {
+    timePerQuestionSec: { min: 5, max: 60 },
+    baseScore: { min: 10, max: 1000 },
+    speedBonusMax: { min: 0, max: 1000 },
+    speedBonusWindowRatio: { min: 0.1, max: 1 },
+    comboMultiplier: { min: 1, max: 5 },
+    comboSteps: { min: 1, max: 10 },
+    wrongAnswerPenalty: { min: 0, max: 1000 },
 } as const
 
+function clamp(value: number, { min, max }: { min: number; max: number }): number {
+    return Math.min(max, Math.max(min, value))
+}
+
+/**
+ * Build the rules for a new match from a preset, optionally overridden by custom values
+ * Out-of-range values are clamped; undefined overrides keep the preset value,
+ * any other override marks the rules as 'custom'.
+ */
+export function buildMatchRules(
+    preset: MatchRulePreset = 'standard',
+    overrides?: Partial<Omit<MatchRules, 'preset'>>
+): MatchRules {
+    const base = (MATCH_RULE_PRESETS[preset] ?? MATCH_RULE_PRESETS.standard).rules
+    const defined = Object.fromEntries(
+        Object.entries(overrides ?? {}).filter(([, value]) => value !== undefined)
+    ) as Partial<Omit<MatchRules, 'preset'>>
+    if (Object.keys(defined).length === 0) return { ...base }
+
+    const merged = { ...base, ...defined }
+    const multipliers = merged.comboMultipliers.length > 0 ? merged.comboMultipliers : [1]
+
+    return {
+        preset: 'custom',
+        timePerQuestionSec: Math.round(clamp(merged.timePerQuestionSec, MATCH_RULE_LIMITS.timePerQuestionSec)),
+        baseScore: Math.round(clamp(merged.baseScore, MATCH_RULE_LIMITS.baseScore)),
+        speedBonusMax: Math.round(clamp(merged.speedBonusMax, MATCH_RULE_LIMITS.speedBonusMax)),
+        speedBonusWindowRatio: clamp(merged.speedBonusWindowRatio, MATCH_RULE_LIMITS.speedBonusWindowRatio),
+        comboMultipliers: multipliers
+            .slice(0, MATCH_RULE_LIMITS.comboSteps.max + 1)
+            .map(m => clamp(m, MATCH_RULE_LIMITS.comboMultiplier)),
+        wrongAnswerPenalty: Math.round(clamp(merged.wrongAnswerPenalty, MATCH_RULE_LIMITS.wrongAnswerPenalty)),
+    }
+}
+
+/**
+ * Linear combo curve: 1.0x, then +step per streak up to `steps` answers
+ * (what the custom rules form edits instead of the raw multiplier list)
+ */
+export function buildComboCurve(step: number, steps: number): number[] {
+    return Array.from({ length: steps + 1 }, (_, streak) => Math.round((1 + step * streak) * 100) / 100)
+}
+
+/**
+ * Rules of a stored match - matches created before rule sets use the standard scoring
+ * with their own time per question
+ */
+export function getMatchRules(match: { rules?: MatchRules | null; timePerQuestion: number }): MatchRules {
+    return match.rules ?? { ...DEFAULT_MATCH_RULES, timePerQuestionSec: match.timePerQuestion || DEFAULT_MATCH_RULES.timePerQuestionSec }
+}
+
+/**
+ * Longest a match can legitimately stay in play: every drawn question played to its time limit
+ * (a time freeze included) with the answer shown after each, or the time attack clock
+ * Elimination modes draw a large pool, so this is far longer than the chosen question count suggests
+ */
+export function getMatchMaxDurationMs(match: {
+    mode: MatchMode
+    gameMode: GameMode
+    questionIds: string[]
+    rules?: MatchRules | null
+    timePerQuestion: number
+}): number {
+    if (match.mode === 'presenter') return PRESENTER_SESSION_MAX_MS
+
+    const durationSec = GAME_MODES[match.gameMode].durationSec
+    if (durationSec !== null) return durationSec * 1000 + TIME_FREEZE_MS + STUCK_MATCH_GRACE_MS
+
+    const roundMs = getMatchRules(match).timePerQuestionSec * 1000 + RESOLVING_DURATION_MS
+    return match.questionIds.length * roundMs + TIME_FREEZE_MS + STUCK_MATCH_GRACE_MS
+}
+
+/** Short label for a rule set, e.g. "閃電 · 8秒/題" */
+export function describeMatchRules(rules: MatchRules): string {
+    const label = rules.preset in MATCH_RULE_PRESETS
+        ? MATCH_RULE_PRESETS[rules.preset as MatchRulePreset].label
+        : '自訂'
+    return `${label} · ${rules.timePerQuestionSec}秒/題`
+}
+
 /**
  * Calculate score for an answer
  * 
  * Formula:
- * - Base: 100 points
- * - Speed Bonus: 0-50 points (linear decay, only within 70% of time limit)
- * - Combo Multiplier: 1.0x to 1.5x based on streak
+ * - Base: rules.baseScore
+ * - Speed Bonus: 0-speedBonusMax points (linear decay, only within speedBonusWindowRatio of the time limit)
+ * - Combo Multiplier: comboMultipliers[streak], capped at the last entry
+ * - Wrong answer: -wrongAnswerPenalty (the caller keeps the total at 0 or above)
  * 
  * @param isCorrect Whether the answer is correct
  * @param responseTimeMs Time taken to answer in milliseconds
  * @param streak Current correct answer streak (before this answer)
- * @returns Score earned (0 if incorrect)
+ * @param rules The match's rule set
+ * @returns Score change (0 or negative if incorrect)
  */
 export function calculateScore(
     isCorrect: boolean,
     responseTimeMs: number,
-    streak: number
+    streak: number,
+    rules: MatchRules = DEFAULT_MATCH_RULES
 ): number {
-    if (!isCorrect) return 0
+    const { baseScore, speedBonusMax, speedBonusWindowRatio, comboMultipliers, timePerQuestionSec, wrongAnswerPenalty } = rules
 
-    const { baseScore, speedBonusMax, speedBonusWindowRatio, comboMultipliers, timePerQuestionMs } = SCORING_CONFIG
+    if (!isCorrect) return -wrongAnswerPenalty
 
-    // Speed Window = 70% of 15s = 10.5s = 10500ms
-    const speedWindowMs = timePerQuestionMs * speedBonusWindowRatio
+    // Speed Window = 85% of 15s = 12.75s = 12750ms
+    const speedWindowMs = timePerQuestionSec * 1000 * speedBonusWindowRatio
 
     // Speed Bonus: linear decay within window (faster = more points)
     // If responseTime >= speedWindow, speedBonus = 0
-    // If responseTime = 0, speedBonus = speedBonusMax (50)
+    // If responseTime = 0, speedBonus = speedBonusMax
     const speedRatio = Math.max(0, 1 - (responseTimeMs / speedWindowMs))
     const speedBonus = Math.round(speedBonusMax * speedRatio)
 
-    // Combo Multiplier: streak 0 = 1.0x, 1 = 1.1x, ... 5+ = 1.5x
+    // Combo Multiplier: streak 0 = first entry, ... capped at the last entry
     const comboIndex = Math.min(streak, comboMultipliers.length - 1)
-    const multiplier = comboMultipliers[comboIndex]
+    const multiplier = comboMultipliers[comboIndex] ?? 1
 
     return Math.round((baseScore + speedBonus) * multiplier)
 }
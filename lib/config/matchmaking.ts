@@ -0,0 +1,46 @@
+/**
+ * Matchmaking Configuration
+ *
+ * Quick Match pairs players queued for the same language and rank whose ratings
+ * (lib/config/rating.ts) are close. The accepted rating gap widens the longer a player
+ * waits, and after MATCHMAKING_BOT_FALLBACK_MS a bot of similar strength steps in.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Search range
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Rating gap accepted right after joining the queue */
+export const MATCHMAKING_INITIAL_RANGE = 100
+
+/** Rating gap added per second of waiting */
+export const MATCHMAKING_RANGE_GROWTH_PER_SEC = 20
+
+/** Largest rating gap ever accepted */
+export const MATCHMAKING_MAX_RANGE = 600
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** How often a queued client polls (each poll is also its presence heartbeat) */
+export const MATCHMAKING_POLL_INTERVAL_MS = 2000
+
+/** A ticket that has not polled for this long is expired and never paired */
+export const MATCHMAKING_PRESENCE_TIMEOUT_MS = 10000
+
+/** Wait before a bot is matched instead of a human */
+export const MATCHMAKING_BOT_FALLBACK_MS = 30000
+
+/**
+ * Delay between creating a matched room and its start (both clients must poll and load the room)
+ * The room counts down to createdAt + this delay on the server clock
+ */
+export const MATCHMAKING_START_DELAY_MS = 8000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Match settings
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Quick Match always plays a classic duel with the standard rules */
+export const MATCHMAKING_QUESTION_COUNT = 10
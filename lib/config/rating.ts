@@ -0,0 +1,51 @@
+/**
+ * Rating Configuration
+ *
+ * Skill ratings are Glicko-2, kept per user and per TargetLanguage (PlayerRating).
+ * Every finished match is one rating period (see lib/rating).
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Glicko-2
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Starting values for a user's first rated match in a language */
+export const DEFAULT_RATING = 1500
+export const DEFAULT_DEVIATION = 350
+export const DEFAULT_VOLATILITY = 0.06
+
+/** System constant - how much volatility may change per period (Glickman suggests 0.3-1.2) */
+export const RATING_TAU = 0.5
+
+/** Deviation bounds (the lower bound keeps long-time players movable) */
+export const DEVIATION_RANGE = { min: 30, max: DEFAULT_DEVIATION } as const
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Opponents without a PlayerRating
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Fixed ratings for rule bots keyed by botModel (they are never rated, so these never change)
+ * Anchors the scale: beating rule-easy is worth far less than beating a strong player
+ */
+export const RULE_BOT_RATINGS: Record<string, number> = {
+    'rule-easy': 1200,
+    'rule': 1400,
+    'rule-hard': 1700,
+}
+
+/** Rule bots play the same way every time - their rating is treated as nearly certain */
+export const RULE_BOT_DEVIATION = 60
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ranked leaderboard
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Rated matches before a rating is shown on the Ranked leaderboard (before that it is provisional) */
+export const RANKED_MIN_MATCHES = 5
+
+/** Entries on the Ranked leaderboard */
+export const RANKED_LEADERBOARD_SIZE = 20
+
+/** Rating history points returned for profile graphs */
+export const RATING_HISTORY_LIMIT = 30
@@ -0,0 +1,69 @@
+/**
+ * Season Configuration
+ *
+ * Ranked seasons run back to back. Each season keeps its own Glicko-2 ladder rating per
+ * language (SeasonRating), seeded from the all-time rating with a soft reset, and shows it
+ * as a tier once the placement matches are played. When a season ends its standings are
+ * archived and the placed players keep their tier badge (see lib/rating/seasons.ts).
+ */
+
+import type { LadderTier } from '@prisma/client'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Schedule
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Length of a season (the next one starts when the previous one ends) */
+export const SEASON_LENGTH_DAYS = 90
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ladder rating
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Share of the all-time rating's distance from the default kept at the season start */
+export const SEASON_RATING_CARRYOVER = 0.5
+
+/** Deviation at the season start is at least this (ratings move quickly again) */
+export const SEASON_START_DEVIATION = 200
+
+/** Season matches before a tier is shown (and before the player appears on the ladder) */
+export const SEASON_PLACEMENT_MATCHES = 5
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tiers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Tiers from lowest to highest - a rating reaches a tier at its minRating */
+export const LADDER_TIERS: { id: LadderTier; label: string; minRating: number; color: string }[] = [
+    { id: 'bronze', label: '青銅', minRating: 0, color: '#B07A4B' },
+    { id: 'silver', label: '白銀', minRating: 1350, color: '#94A3B8' },
+    { id: 'gold', label: '黃金', minRating: 1500, color: '#F5A623' },
+    { id: 'platinum', label: '白金', minRating: 1650, color: '#2BB5A8' },
+    { id: 'diamond', label: '鑽石', minRating: 1800, color: '#5B8BD4' },
+]
+
+export function getLadderTier(rating: number): LadderTier {
+    return [...LADDER_TIERS].reverse().find(tier => rating >= tier.minRating)!.id
+}
+
+export function getLadderTierConfig(tier: LadderTier) {
+    return LADDER_TIERS.find(t => t.id === tier) ?? LADDER_TIERS[0]
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Season-end rewards
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Titles for the top of each language's final standings (on top of the tier badge)
+ * The first entry a rank fits is used
+ */
+export const SEASON_TITLES: { maxRank: number; label: string }[] = [
+    { maxRank: 1, label: '賽季冠軍' },
+    { maxRank: 3, label: '賽季前三' },
+    { maxRank: 10, label: '賽季前十' },
+]
+
+export function getSeasonTitle(rank: number): string | null {
+    return SEASON_TITLES.find(title => rank <= title.maxRank)?.label ?? null
+}
@@ -0,0 +1,58 @@
+/**
+ * Tournament Configuration
+ *
+ * Organizers run a single elimination bracket or a Swiss event for one language and rank.
+ * Every pairing is played as an ordinary duel room (see lib/tournament) - players check in
+ * by opening the room, and a pairing nobody shows up for is decided by forfeit.
+ */
+
+import type { TournamentFormat } from '@prisma/client'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formats
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TOURNAMENT_FORMATS: Record<TournamentFormat, { label: string; description: string }> = {
+    single_elimination: { label: '單淘汰', description: '輸一場就出局，勝者晉級下一輪' },
+    swiss: { label: '瑞士制', description: '固定輪數，每輪與積分相近的對手對戰' },
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Registration
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Fewest registered players a tournament may start with */
+export const TOURNAMENT_MIN_PLAYERS = 4
+
+/** Capacities an organizer can choose from (the largest is the hard limit) */
+export const TOURNAMENT_CAPACITIES = [8, 16, 32, 64] as const
+
+export const TOURNAMENT_NAME_MAX_LENGTH = 40
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Check-in
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Time to open the room once a pairing is ready
+ * A player who has not checked in by then forfeits (neither player: both forfeit)
+ */
+export const TOURNAMENT_CHECK_IN_MS = 5 * 60 * 1000
+
+/**
+ * Once both players checked in, the room must have started within this long after its countdown
+ * Otherwise the pairing is decided as if the match had been abandoned
+ */
+export const TOURNAMENT_START_GRACE_MS = 60 * 1000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scoring
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Swiss match points (a bye counts as a win) */
+export const TOURNAMENT_POINTS = {
+    win: 1,
+    draw: 0.5,
+    loss: 0,
+    bye: 1,
+} as const
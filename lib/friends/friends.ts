@@ -0,0 +1,144 @@
+/**
+ * Friends - Friendship lookups, presence and head-to-head records
+ *
+ * - One Friendship record per pair, whichever side sent the request
+ * - Presence comes from User.lastSeenAt (heartbeats from signed-in pages) and live matches
+ * - Head-to-head records are computed on the fly from finished matches, like the other user stats
+ */
+
+import { prisma } from '@/lib/prisma'
+import { FriendshipStatus, MatchStatus, type Friendship } from '@prisma/client'
+import { PRESENCE_ONLINE_WINDOW_MS, type FriendPresence } from '@/lib/config/friends'
+
+export interface HeadToHead {
+    wins: number
+    losses: number
+    draws: number
+    lastPlayedAt: Date | null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Friendships
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The record between two users in either direction (request or friendship)
+ */
+export async function findFriendship(userId: string, otherUserId: string): Promise<Friendship | null> {
+    return prisma.friendship.findFirst({
+        where: {
+            OR: [
+                { requesterId: userId, addresseeId: otherUserId },
+                { requesterId: otherUserId, addresseeId: userId },
+            ],
+        },
+    })
+}
+
+export async function areFriends(userId: string, otherUserId: string): Promise<boolean> {
+    const friendship = await findFriendship(userId, otherUserId)
+    return friendship?.status === FriendshipStatus.accepted
+}
+
+/**
+ * Accepted friends of a user
+ */
+export async function getFriendIds(userId: string): Promise<string[]> {
+    const friendships = await prisma.friendship.findMany({
+        where: {
+            status: FriendshipStatus.accepted,
+            OR: [{ requesterId: userId }, { addresseeId: userId }],
+        },
+        select: { requesterId: true, addresseeId: true },
+    })
+    return friendships.map(f => f.requesterId === userId ? f.addresseeId : f.requesterId)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Presence
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Record that a signed-in user is in the app
+ */
+export async function touchPresence(userId: string): Promise<void> {
+    await prisma.user.update({ where: { id: userId }, data: { lastSeenAt: new Date() } })
+}
+
+/**
+ * Presence per user - in a live match, recently seen, or offline
+ */
+export async function getPresence(userIds: string[]): Promise<Map<string, FriendPresence>> {
+    const presence = new Map<string, FriendPresence>()
+    if (userIds.length === 0) return presence
+
+    const [users, liveMatches] = await Promise.all([
+        prisma.user.findMany({
+            where: { id: { in: userIds } },
+            select: { id: true, lastSeenAt: true },
+        }),
+        prisma.match.findMany({
+            where: { status: MatchStatus.playing, players: { some: { userId: { in: userIds } } } },
+            select: { players: true },
+        }),
+    ])
+
+    const onlineSince = Date.now() - PRESENCE_ONLINE_WINDOW_MS
+    const playing = new Set(liveMatches.flatMap(m => m.players.flatMap(p => p.userId ? [p.userId] : [])))
+
+    for (const user of users) {
+        presence.set(
+            user.id,
+            playing.has(user.id)
+                ? 'playing'
+                : user.lastSeenAt && user.lastSeenAt.getTime() > onlineSince ? 'online' : 'offline'
+        )
+    }
+    return presence
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Head-to-head
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * A user's record against each of the given users, from finished matches they both placed in
+ * The one placed ahead wins; a shared placement is a draw
+ */
+export async function getHeadToHead(userId: string, opponentIds: string[]): Promise<Map<string, HeadToHead>> {
+    const records = new Map<string, HeadToHead>(
+        opponentIds.map(id => [id, { wins: 0, losses: 0, draws: 0, lastPlayedAt: null }])
+    )
+    if (opponentIds.length === 0) return records
+
+    const matches = await prisma.match.findMany({
+        where: {
+            status: MatchStatus.finished,
+            AND: [
+                { players: { some: { userId } } },
+                { players: { some: { userId: { in: opponentIds } } } },
+            ],
+        },
+        select: { players: true, endedAt: true, createdAt: true },
+        orderBy: { createdAt: 'desc' },
+    })
+
+    for (const match of matches) {
+        const self = match.players.find(p => p.userId === userId)
+        if (!self || self.placement === null) continue
+
+        for (const opponent of match.players) {
+            const record = opponent.userId ? records.get(opponent.userId) : undefined
+            if (!record || opponent.placement === null) continue
+
+            if (self.placement < opponent.placement) record.wins++
+            else if (self.placement > opponent.placement) record.losses++
+            else record.draws++
+
+            // Newest first, so the first match seen is the latest
+            record.lastPlayedAt ??= match.endedAt ?? match.createdAt
+        }
+    }
+
+    return records
+}
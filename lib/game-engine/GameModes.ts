@@ -0,0 +1,190 @@
+/**
+ * GameModes - Mode-specific rules on top of GameRoom
+ *
+ * - classic:      fixed number of rounds, highest score wins
+ * - survival:     every player has lives, a wrong answer or timeout costs one - last one standing wins
+ * - sudden_death: survival with a single life - the first wrong answer is out
+ * - time_attack:  one global clock, every player works through the questions at their own pace
+ *
+ * DESIGN: GameRoom keeps phases, deadlines and compare-and-set writes
+ * - These helpers are pure (no I/O): they decide who still plays, when a match is over and how
+ *   it is ranked - GameRoom and useGameClient share them, so live rankings match the final ones
+ * - Survival and sudden death share the elimination rules (only the number of lives differs)
+ * - Time attack has a single PLAYING phase; each player's progress lives in their PlayerGameState
+ */
+
+import type { GameMode } from '@prisma/client';
+import { GAME_MODES, calculatePlacements } from '@/lib/config/game';
+import type { LiveGameState, PlayerGameState } from './server/GameStore';
+
+// ============================================
+// Mode lookups
+// ============================================
+
+export function getGameMode(state: LiveGameState): GameMode {
+    return state.gameMode ?? 'classic';
+}
+
+/** Survival and sudden death */
+export function isEliminationMode(mode: GameMode): boolean {
+    return GAME_MODES[mode].lives !== null;
+}
+
+export function isTimeAttack(mode: GameMode): boolean {
+    return mode === 'time_attack';
+}
+
+/**
+ * Mode-specific fields of a fresh player state
+ */
+export function createModePlayerState(mode: GameMode): Partial<PlayerGameState> {
+    const { lives } = GAME_MODES[mode];
+    if (lives !== null) {
+        return { lives, eliminatedAtQuestion: null };
+    }
+    if (isTimeAttack(mode)) {
+        return { questionIndex: 0, questionStartedAt: 0, answeredCount: 0, correctCount: 0 };
+    }
+    return {};
+}
+
+// ============================================
+// Players
+// ============================================
+
+/** Still in the game (eliminated players sit out the remaining rounds) */
+export function isPlayerActive(playerState: PlayerGameState): boolean {
+    return playerState.eliminatedAtQuestion === undefined || playerState.eliminatedAtQuestion === null;
+}
+
+/** IDs of players who still answer questions */
+export function getActivePlayerIds(state: LiveGameState): string[] {
+    return Object.entries(state.playerStates)
+        .filter(([, ps]) => isPlayerActive(ps))
+        .map(([playerId]) => playerId);
+}
+
+/**
+ * The question a player is currently on
+ * Time attack tracks it per player; every other mode shares currentQuestionIndex
+ */
+export function getPlayerQuestionIndex(state: LiveGameState, playerId: string): number {
+    if (isTimeAttack(getGameMode(state))) {
+        return state.playerStates[playerId]?.questionIndex ?? 0;
+    }
+    return state.currentQuestionIndex;
+}
+
+/**
+ * Whether a player still has to answer in the current round / at their current question
+ */
+export function isAwaitingAnswer(state: LiveGameState, playerId: string, questionCount: number): boolean {
+    const playerState = state.playerStates[playerId];
+    if (!playerState || !isPlayerActive(playerState) || playerState.answer !== null) return false;
+    return getPlayerQuestionIndex(state, playerId) < questionCount;
+}
+
+// ============================================
+// Round outcome
+// ============================================
+
+/**
+ * Apply the round's result when it resolves
+ * Elimination modes: every active player without a correct answer loses a life
+ * (lives only change here, so they never reveal correctness before RESOLVING)
+ */
+export function applyRoundOutcome(state: LiveGameState): LiveGameState {
+    if (!isEliminationMode(getGameMode(state))) return state;
+
+    const playerStates: { [playerId: string]: PlayerGameState } = {};
+    for (const [playerId, ps] of Object.entries(state.playerStates)) {
+        if (!isPlayerActive(ps) || ps.isCorrect === true) {
+            playerStates[playerId] = ps;
+            continue;
+        }
+
+        const lives = Math.max(0, (ps.lives ?? 1) - 1);
+        playerStates[playerId] = {
+            ...ps,
+            lives,
+            eliminatedAtQuestion: lives === 0 ? state.currentQuestionIndex : null,
+        };
+    }
+
+    return { ...state, playerStates };
+}
+
+/**
+ * Whether the match ends after the round that is resolving
+ * - classic: after the last question
+ * - elimination: one player (or nobody) left standing, or out of questions
+ * - time attack: its only round ends with the clock
+ */
+export function isMatchOver(state: LiveGameState, questionCount: number): boolean {
+    const mode = getGameMode(state);
+    if (isTimeAttack(mode)) return true;
+
+    const isLastQuestion = state.currentQuestionIndex >= questionCount - 1;
+    if (isEliminationMode(mode)) {
+        return isLastQuestion || getActivePlayerIds(state).length <= 1;
+    }
+    return isLastQuestion;
+}
+
+// ============================================
+// Ranking
+// ============================================
+
+/**
+ * Rank players by comparing keys in order (higher is better)
+ * Standard competition ranking: players with identical keys share a placement
+ */
+function placeByKeys(keys: Record<string, number[]>): Record<string, number> {
+    const compare = (a: number[], b: number[]) => {
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] !== b[i]) return b[i] - a[i];
+        }
+        return 0;
+    };
+
+    const sorted = Object.entries(keys).sort(([, a], [, b]) => compare(a, b));
+    const placements: Record<string, number> = {};
+
+    sorted.forEach(([playerId, key], index) => {
+        const previous = sorted[index - 1];
+        placements[playerId] = previous && compare(previous[1], key) === 0
+            ? placements[previous[0]]
+            : index + 1;
+    });
+
+    return placements;
+}
+
+/**
+ * Placements for the current standings (final once FINISHED)
+ * - classic: score
+ * - elimination: survivors first, then whoever was eliminated later, then lives, then score
+ * - time attack: correct answers, then score
+ */
+export function rankPlayers(state: LiveGameState): Record<string, number> {
+    const mode = getGameMode(state);
+    const entries = Object.entries(state.playerStates);
+
+    if (isEliminationMode(mode)) {
+        return placeByKeys(Object.fromEntries(entries.map(([playerId, ps]) => [playerId, [
+            isPlayerActive(ps) ? 1 : 0,
+            ps.eliminatedAtQuestion ?? 0,
+            ps.lives ?? 0,
+            ps.score,
+        ]])));
+    }
+
+    if (isTimeAttack(mode)) {
+        return placeByKeys(Object.fromEntries(entries.map(([playerId, ps]) => [playerId, [
+            ps.correctCount ?? 0,
+            ps.score,
+        ]])));
+    }
+
+    return calculatePlacements(Object.fromEntries(entries.map(([playerId, ps]) => [playerId, ps.score])));
+}
@@ -0,0 +1,91 @@
+/**
+ * PowerUps - One-shot lifelines on top of GameRoom
+ *
+ * - fifty_fifty: two wrong options of the current question are removed
+ * - time_freeze: the player gets TIME_FREEZE_MS past the round deadline (nobody else does)
+ * - double_down: a correct answer scores double, a wrong answer or a timeout also loses the stake (baseScore)
+ *
+ * DESIGN: GameRoom validates and applies every use inside its compare-and-set write
+ * - Each player holds one charge of each type per match (usedPowerUps)
+ * - Uses apply to the question the player is on (activePowerUps) and land in its AnswerRecord
+ * - The server picks the removed options - the client never learns the correct answer early,
+ *   and other players never see which options were removed before RESOLVING
+ * - These helpers are pure (no I/O) - GameRoom and useGameClient share them
+ */
+
+import type { PowerUpType } from '@prisma/client';
+import { POWER_UPS, type MatchRules } from '@/lib/config/game';
+import { getPlayerQuestionIndex, isPlayerActive } from './GameModes';
+import type { LiveGameState, PlayerGameState } from './server/GameStore';
+
+/** Every power-up type, in display order */
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+
+/**
+ * Power-ups a player still holds
+ */
+export function getAvailablePowerUps(playerState: PlayerGameState): PowerUpType[] {
+    const used = playerState.usedPowerUps ?? [];
+    return POWER_UP_TYPES.filter(type => !used.includes(type));
+}
+
+/**
+ * Power-ups a player used on the question they are currently on
+ */
+export function getActivePowerUps(state: LiveGameState, playerId: string): PowerUpType[] {
+    const active = state.playerStates[playerId]?.activePowerUps;
+    if (!active || active.questionIndex !== getPlayerQuestionIndex(state, playerId)) return [];
+    return active.types;
+}
+
+// ============================================
+// Deadlines
+// ============================================
+
+/**
+ * When a player's answer stops being accepted (endTime plus their time freeze)
+ */
+export function getPlayerDeadline(state: LiveGameState, playerId: string): number {
+    return state.endTime + (state.playerStates[playerId]?.bonusTimeMs ?? 0);
+}
+
+/**
+ * When the PLAYING phase times out - the latest deadline of a player who still has to answer
+ */
+export function getRoundDeadline(state: LiveGameState): number {
+    let deadline = state.endTime;
+    for (const [playerId, playerState] of Object.entries(state.playerStates)) {
+        if (!isPlayerActive(playerState) || playerState.answer !== null) continue;
+        deadline = Math.max(deadline, getPlayerDeadline(state, playerId));
+    }
+    return deadline;
+}
+
+// ============================================
+// Effects
+// ============================================
+
+/**
+ * Pick the options a 50:50 removes (two wrong ones, always leaving one wrong option in)
+ */
+export function pickFiftyFiftyOptions(optionKeys: string[], correctAnswer: string): string[] {
+    const wrong = optionKeys.filter(key => key !== correctAnswer);
+    return wrong
+        .sort(() => 0.5 - Math.random())
+        .slice(0, Math.min(2, wrong.length - 1));
+}
+
+/**
+ * Apply double down to an answer's score change
+ * A correct answer scores double; a miss (wrong or timed out) costs the stake on top of its usual change
+ * Callers still keep the total from dropping below 0
+ */
+export function applyDoubleDown(
+    scoreChange: number,
+    isCorrect: boolean,
+    activePowerUps: PowerUpType[],
+    rules: Pick<MatchRules, 'baseScore'>
+): number {
+    if (!activePowerUps.includes('double_down')) return scoreChange;
+    return isCorrect ? scoreChange * 2 : scoreChange - rules.baseScore;
+}
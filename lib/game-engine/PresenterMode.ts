@@ -0,0 +1,66 @@
+/**
+ * PresenterMode - Classroom sessions on top of GameRoom
+ *
+ * - The host creates the session and projects the big screen (question, countdown, answer distribution)
+ * - Students join with the session PIN (the room's join code) and answer on their phones
+ * - The host is not a player: scoring, timeouts and placements are GameRoom's, only pacing is manual
+ *
+ * DESIGN: Pacing lives in LiveGameState.presenter
+ * - READY and RESOLVING have no deadline - GameRoom waits for advancePresenterSession
+ * - A paused round neither accepts answers nor times out
+ * - These helpers are pure (no I/O) - presenter.server.ts and usePresenterClient share them
+ */
+
+import { GamePhase, HIDDEN_ANSWER } from '@/types/game';
+import type { LiveGameState } from './server/GameStore';
+
+/**
+ * Answers to the current question, per option
+ */
+export interface AnswerDistribution {
+    questionIndex: number;
+    counts: Record<string, number>;  // option -> answers (timeouts are not counted)
+    answeredCount: number;           // Students who picked an option
+    playerCount: number;
+}
+
+/**
+ * Count the answers to the current question
+ * Needs unredacted state during PLAYING (broadcasts hide every answer until RESOLVING)
+ */
+export function countAnswers(state: LiveGameState): AnswerDistribution {
+    const counts: Record<string, number> = {};
+    let answeredCount = 0;
+
+    const playerStates = Object.values(state.playerStates);
+    for (const playerState of playerStates) {
+        if (playerState.answer === null || playerState.answer === '') continue;  // '' = timed out
+        answeredCount++;
+        if (playerState.answer === HIDDEN_ANSWER) continue;
+        counts[playerState.answer] = (counts[playerState.answer] ?? 0) + 1;
+    }
+
+    return {
+        questionIndex: state.currentQuestionIndex,
+        counts,
+        answeredCount,
+        playerCount: playerStates.length,
+    };
+}
+
+/**
+ * Whether the round clock is stopped by the host
+ */
+export function isPresenterPaused(state: LiveGameState): boolean {
+    return state.phase === GamePhase.PLAYING && !!state.presenter?.pausedAt;
+}
+
+/**
+ * Time left in the round (ms) - a paused clock stays where it stopped
+ * @param now - Current server time (clients pass serverNow())
+ */
+export function getPresenterTimeLeftMs(state: LiveGameState, now: number): number {
+    if (state.phase !== GamePhase.PLAYING) return 0;
+    const clock = state.presenter?.pausedAt ?? now;
+    return Math.max(0, state.endTime - clock);
+}
@@ -0,0 +1,82 @@
+/**
+ * Clock Sync - Estimates the offset between this device's clock and the server's
+ *
+ * Round deadlines (endTime, resolvingEndTime, countdown start) are absolute server timestamps.
+ * A device whose clock is skewed would count down to the wrong moment, so every client-side
+ * countdown goes through serverNow() instead of Date.now().
+ *
+ * NTP-style handshake: for each round trip
+ *   offset = serverTime - (sentAt + receivedAt) / 2
+ * and the sample with the smallest round-trip time is kept (least queueing noise).
+ */
+
+import { getServerTime } from '@/actions/game.server';
+import { CLOCK_SYNC_SAMPLES } from '@/lib/config/game';
+
+export interface ClockSample {
+    offsetMs: number;  // serverClock - clientClock
+    rttMs: number;     // Round-trip time of the request
+}
+
+// Best estimate so far (0 until the first handshake completes)
+let clockOffsetMs = 0;
+let pendingSync: Promise<number> | null = null;
+
+/**
+ * Compute one offset sample from a request/response round trip
+ */
+export function computeClockSample(sentAt: number, serverTime: number, receivedAt: number): ClockSample {
+    return {
+        offsetMs: serverTime - (sentAt + receivedAt) / 2,
+        rttMs: receivedAt - sentAt,
+    };
+}
+
+/**
+ * Run the handshake and update the cached offset
+ * Concurrent callers share the same handshake
+ * @returns The estimated offset (ms)
+ */
+export function syncServerClock(samples = CLOCK_SYNC_SAMPLES): Promise<number> {
+    if (pendingSync) return pendingSync;
+
+    pendingSync = (async () => {
+        let best: ClockSample | null = null;
+
+        // Sequential round trips - parallel requests would queue behind each other
+        for (let i = 0; i < samples; i++) {
+            try {
+                const sentAt = Date.now();
+                const serverTime = await getServerTime();
+                const sample = computeClockSample(sentAt, serverTime, Date.now());
+                if (!best || sample.rttMs < best.rttMs) best = sample;
+            } catch (error) {
+                console.error('Clock sync sample failed:', error);
+            }
+        }
+
+        if (best) {
+            clockOffsetMs = Math.round(best.offsetMs);
+            console.log(`🕐 [ClockSync] offset=${clockOffsetMs}ms (rtt=${best.rttMs}ms)`);
+        }
+        return clockOffsetMs;
+    })().finally(() => {
+        pendingSync = null;
+    });
+
+    return pendingSync;
+}
+
+/**
+ * Current estimated offset (ms) - positive when the server clock is ahead
+ */
+export function getClockOffset(): number {
+    return clockOffsetMs;
+}
+
+/**
+ * Current time on the server's clock (Unix ms)
+ */
+export function serverNow(): number {
+    return Date.now() + clockOffsetMs;
+}
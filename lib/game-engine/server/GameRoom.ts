@@ -1,90 +1,197 @@
 /**
  * GameRoom - Server-side game logic
- * Handles all game state transitions, validation, and Pusher broadcasting
+ * Handles all game state transitions, validation, and realtime broadcasting
  * 
  * DESIGN: Player-agnostic
  * - Uses playerStates[playerId] not self/opponent
- * - Works for both bot matches and future multiplayer
+ * - Works for duels, bot matches and multiplayer rooms (2-8 players)
+ *
+ * DESIGN: Server-driven rounds
+ * - Every phase has a deadline (READY: now, PLAYING: endTime, RESOLVING: resolvingEndTime)
+ * - RoundScheduler ticks the match when its deadline passes; clients only render state
+ * - Transitions re-check the phase inside a compare-and-set write, so duplicate ticks are no-ops
+ *
+ * DESIGN: Optimistic concurrency (no in-process locks)
+ * - Every write is a compare-and-set on the stored version, so it holds across instances
+ * - submitAnswer / handleTimeout / transitions apply exactly once; losers retry on fresh state
+ *
+ * DESIGN: Server-side bots
+ * - startRound plans when each bot answers (timing profile per bot and rank) in LiveGameState.botPlans
+ * - The answer is prepared right away (lease-guarded, LLM latency is hidden) and submitted by
+ *   the scheduler at the planned moment - no client has to be connected
+ *
+ * DESIGN: Game modes (GameModes.ts)
+ * - Survival / sudden death: eliminated players sit out, lives change when a round resolves
+ * - Time attack: one PLAYING phase for the whole clock, each player answers at their own pace
+ *
+ * DESIGN: Power-ups (PowerUps.ts)
+ * - activatePowerUp validates a use in the same compare-and-set as answers, so a charge is spent once
+ * - A time freeze moves only that player's deadline - the round times out at the latest one
+ *
+ * DESIGN: Presenter sessions (MatchMode.presenter)
+ * - A non-playing host paces the match: READY and RESOLVING wait for advancePresenterSession
+ * - Pausing stops the round clock (no answers, no timeout); resuming moves endTime by the pause
+ *
+ * DESIGN: Storage-agnostic
+ * - All live state goes through GameStore (updateGameState = read-modify-CAS)
+ * - Match is written only at checkpoints (round boundaries) and in finishGame
  */
 
 import { prisma } from '@/lib/prisma';
-import { MatchStatus } from '@prisma/client';
+import { MatchMode, MatchStatus, type MatchPlayer, type PowerUpType } from '@prisma/client';
 import { GamePhase } from '@/types/game';
-import { pusherServer, getMatchChannel, PUSHER_EVENTS } from '@/lib/pusher';
+import { realtimeServer } from '@/lib/realtime/server';
+import { getMatchChannel, GAME_EVENTS } from '@/lib/realtime/channels';
 import {
     getGameState,
-    setGameState,
+    createGameState,
+    updateGameState,
+    checkpointGameState,
     createInitialPlayerState,
+    projectGameState,
     type LiveGameState,
-    type PlayerGameState
+    type PlayerGameState,
+    type BotAnswerPlan
 } from './GameStore';
-import { getBotAnswer } from '@/actions/bot.server';
-import { PrismaClientKnownRequestError } from '@prisma/client/runtime/binary';
-import { calculateScore } from '@/lib/config/game';
+import { roundScheduler } from './RoundScheduler';
+import { getBotAnswer } from '@/lib/bots/answer';
+import { calculateScore, getMatchRules, GAME_MODES, RESOLVING_DURATION_MS, TIME_FREEZE_MS } from '@/lib/config/game';
+import {
+    getGameMode,
+    isTimeAttack,
+    isPlayerActive,
+    getActivePlayerIds,
+    getPlayerQuestionIndex,
+    isAwaitingAnswer,
+    createModePlayerState,
+    applyRoundOutcome,
+    isMatchOver,
+    rankPlayers,
+} from '../GameModes';
+import {
+    getAvailablePowerUps,
+    getActivePowerUps,
+    getPlayerDeadline,
+    getRoundDeadline,
+    pickFiftyFiftyOptions,
+    applyDoubleDown,
+} from '../PowerUps';
+import { getBotTimingProfile, sampleBotResponseMs } from '@/lib/config/bot';
+import { updateMatchRatings } from '@/lib/rating/ratings';
+import { recordTournamentResult } from '@/lib/tournament/tournaments';
+
+// How long a bot answer lease lasts (LLM timeout + store)
+const BOT_LEASE_MS = 10000;
+
+// Bots always answer at least this long before the round ends
+const BOT_DEADLINE_MARGIN_MS = 500;
+
+// ============================================
+// Round Scheduling
+// ============================================
 
-const TIME_PER_QUESTION = 15; // seconds
-const RESOLVING_DURATION = 2000; // ms - time to show correct answer
+/**
+ * When the match next needs a tick (phase deadline or a bot's planned answer)
+ * @returns Unix timestamp (ms), or null if nothing is scheduled (FINISHED, or waiting for a presenter)
+ */
+export function getTransitionDueAt(state: LiveGameState): number | null {
+    // Presenter sessions: only a running round clock moves on by itself
+    if (state.presenter && (state.phase !== GamePhase.PLAYING || state.presenter.pausedAt !== null)) {
+        return null;
+    }
 
-// Simple in-memory lock to prevent duplicate bot triggers
-const botProcessingLocks = new Set<string>();
+    switch (state.phase) {
+        case GamePhase.READY:
+            return 0; // Start immediately
+        case GamePhase.PLAYING:
+            return Math.min(getRoundDeadline(state), getNextBotAnswerAt(state) ?? Infinity);
+        case GamePhase.RESOLVING:
+            return state.resolvingEndTime ?? 0; // Older states without a deadline advance immediately
+        default:
+            return null;
+    }
+}
 
 /**
- * MatchMutex - Ensures sequential processing of answer submissions per match
- * 
- * Why: When player and bot submit answers within milliseconds, both Prisma transactions
- * read the same liveState and try to write simultaneously, causing P2034 conflicts.
- * Database-level retry is insufficient when operations collide repeatedly.
- * 
- * Solution: Serialize all write operations per match using an async mutex.
- * Later submissions wait for earlier ones to complete before acquiring the lock.
+ * Schedule the next tick for a match on this instance
  */
-class MatchMutex {
-    private locks = new Map<string, Promise<void>>();
-
-    /**
-     * Execute a function with exclusive access to a match
-     * @param matchId - The match to lock
-     * @param fn - The async function to execute while holding the lock
-     * @returns The result of fn()
-     */
-    async withLock<T>(matchId: string, fn: () => Promise<T>): Promise<T> {
-        // Wait for any existing operation on this match to complete
-        const existingLock = this.locks.get(matchId);
-
-        // Create a new promise for this operation
-        let releaseLock: () => void;
-        const newLock = new Promise<void>((resolve) => {
-            releaseLock = resolve;
-        });
+function scheduleNextTransition(matchId: string, state: LiveGameState): void {
+    const dueAt = getTransitionDueAt(state);
+    if (dueAt === null) {
+        roundScheduler.cancel(matchId);
+        return;
+    }
+    roundScheduler.schedule(matchId, dueAt, () => tickMatch(matchId));
+}
+
+/**
+ * Advance a match if its current phase (or a planned bot answer) is due
+ * Called by RoundScheduler, the cron sweep and stalled clients
+ * IDEMPOTENT: re-reads state, and each transition re-checks its phase in a transaction
+ */
+export async function tickMatch(matchId: string): Promise<LiveGameState | null> {
+    const state = await getGameState(matchId);
+    if (!state) return null;
 
-        // Set our lock as the current one (others will wait for this)
-        this.locks.set(matchId, newLock);
+    const dueAt = getTransitionDueAt(state);
+    if (dueAt === null) {
+        roundScheduler.cancel(matchId);
+        return state;
+    }
 
+    // Not due yet - make sure this instance will tick it
+    if (Date.now() < dueAt) {
+        scheduleNextTransition(matchId, state);
+        return state;
+    }
+
+    switch (state.phase) {
+        case GamePhase.READY:
+            return startRound(matchId);
+        case GamePhase.PLAYING:
+            return Date.now() >= getRoundDeadline(state)
+                ? handleTimeout(matchId)
+                : answerDueBots(matchId, state);
+        case GamePhase.RESOLVING:
+            return advanceGamePhase(matchId);
+        default:
+            return state;
+    }
+}
+
+/**
+ * Tick every playing match whose phase deadline has passed
+ * Safety net for timers lost with a frozen or recycled instance
+ * @returns IDs of matches that were ticked
+ */
+export async function sweepOverdueMatches(): Promise<string[]> {
+    const matches = await prisma.match.findMany({
+        where: { status: MatchStatus.playing },
+        select: { id: true },
+    });
+
+    const ticked: string[] = [];
+    for (const match of matches) {
         try {
-            // Wait for previous operation if any
-            if (existingLock) {
-                console.log(`🔒 [Mutex] Waiting for lock on match ${matchId.slice(-4)}`);
-                await existingLock;
-            }
-            console.log(`🔓 [Mutex] Acquired lock for match ${matchId.slice(-4)}`);
-
-            // Execute the protected operation
-            return await fn();
-        } finally {
-            // Release the lock
-            console.log(`🔓 [Mutex] Released lock for match ${matchId.slice(-4)}`);
-            releaseLock!();
-
-            // Clean up if no one else is waiting
-            if (this.locks.get(matchId) === newLock) {
-                this.locks.delete(matchId);
-            }
+            const state = await getGameState(match.id);
+            if (!state) continue;
+
+            const dueAt = getTransitionDueAt(state);
+            if (dueAt === null || dueAt > Date.now()) continue;
+
+            await tickMatch(match.id);
+            ticked.push(match.id);
+        } catch (error) {
+            console.error(`⏰ [sweep] Failed to tick match ${match.id}:`, error);
         }
     }
+
+    return ticked;
 }
 
-// Global mutex instance for answer submissions
-const matchMutex = new MatchMutex();
+// ============================================
+// Phase Transitions
+// ============================================
 
 /**
  * Initialize a game room from a match
@@ -98,8 +205,9 @@ export async function initGameRoom(matchId: string): Promise<LiveGameState> {
             players: true,
             questionIds: true,
             timePerQuestion: true,
+            gameMode: true,
             status: true,
-            liveState: true,
+            mode: true,
         },
     });
 
@@ -108,32 +216,46 @@ export async function initGameRoom(matchId: string): Promise<LiveGameState> {
     }
 
     // IDEMPOTENCY: If already playing, return existing state
-    if (match.status === MatchStatus.playing && match.liveState) {
+    const existingState = match.status === MatchStatus.playing ? await getGameState(matchId) : null;
+    if (existingState) {
         console.log(`✅ [initGameRoom] Match ${matchId.slice(-4)} already playing, returning existing state`);
-        return match.liveState as unknown as LiveGameState;
+        return existingState;
     }
 
-    if (match.players.length < 2) {
+    // A presenter session can run for a single student - the host is not a player
+    const isPresenter = match.mode === MatchMode.presenter;
+    if (match.players.length < (isPresenter ? 1 : 2)) {
         throw new Error('Not enough players');
     }
 
     // Create initial state with playerStates for each player
     const playerStates: { [playerId: string]: PlayerGameState } = {};
     for (const player of match.players) {
-        playerStates[player.playerId] = createInitialPlayerState();
+        playerStates[player.playerId] = {
+            ...createInitialPlayerState(),
+            ...createModePlayerState(match.gameMode),
+        };
     }
 
     const state: LiveGameState = {
         phase: GamePhase.READY,
+        gameMode: match.gameMode,
         currentQuestionIndex: 0,
         endTime: 0,
         playerStates,
         correctAnswer: null,
+        resolvingEndTime: 0,
+        botPlans: {},
         winnerId: null,
+        placements: null,
+        ...(isPresenter && { presenter: { pausedAt: null, showLeaderboard: false } }),
     };
 
-    // Save and update match status
-    await setGameState(matchId, state);
+    // Save and update match status (another instance may have initialized first)
+    if (!await createGameState(matchId, state)) {
+        console.log(`✅ [initGameRoom] Match ${matchId.slice(-4)} initialized concurrently, returning existing state`);
+        return (await getGameState(matchId))!;
+    }
     await prisma.match.update({
         where: { id: matchId },
         data: { status: MatchStatus.playing, startedAt: new Date() },
@@ -143,479 +265,634 @@ export async function initGameRoom(matchId: string): Promise<LiveGameState> {
 }
 
 /**
- * Start a round (set endTime and trigger bot if needed)
- * GUARD: If already PLAYING, returns current state
+ * Start a round (set endTime and schedule the timeout)
+ * GUARD: Only starts from READY - PLAYING, RESOLVING or FINISHED return current state
  */
 export async function startRound(matchId: string): Promise<LiveGameState> {
-    const state = await getGameState(matchId);
-    if (!state) throw new Error('Game not found');
+    const match = await prisma.match.findUnique({
+        where: { id: matchId },
+        select: { timePerQuestion: true, rules: true, rank: true, players: true },
+    });
+    if (!match) throw new Error('Match not found');
 
-    // Guard: If already playing, return current state
-    if (state.phase === GamePhase.PLAYING) {
-        console.log(`⚠️ [startRound] Skipped - already in PLAYING phase`);
-        return state;
+    const timePerQ = getMatchRules(match).timePerQuestionSec;
+    const timeAttackSec = GAME_MODES.time_attack.durationSec ?? timePerQ;
+
+    const { state, changed } = await updateGameState(matchId, async (state) => {
+        // Guard: Only start from READY (reconnects call this mid-round)
+        if (state.phase !== GamePhase.READY) {
+            console.log(`⚠️ [startRound] Skipped - not in READY phase (current: ${state.phase})`);
+            return null;
+        }
+
+        const startedAt = Date.now();
+        const timeAttack = isTimeAttack(getGameMode(state));
+
+        // Reset answers for new round (time attack: start everyone's first question)
+        const resetPlayerStates: { [playerId: string]: PlayerGameState } = {};
+        for (const [playerId, playerState] of Object.entries(state.playerStates)) {
+            resetPlayerStates[playerId] = {
+                ...playerState,
+                answer: null,
+                isCorrect: null,
+                activePowerUps: null,
+                bonusTimeMs: 0,
+                roundStart: {
+                    score: playerState.score,
+                    streak: playerState.streak,
+                    maxStreak: playerState.maxStreak,
+                },
+                ...(timeAttack && { questionStartedAt: startedAt }),
+            };
+        }
+
+        // Time attack runs a single round on the match clock
+        const endTime = startedAt + (timeAttack ? timeAttackSec : timePerQ) * 1000;
+
+        const roundState: LiveGameState = {
+            ...state,
+            phase: GamePhase.PLAYING,
+            endTime,
+            playerStates: resetPlayerStates,
+            correctAnswer: null,
+            resolvingEndTime: 0,
+            ...(state.presenter && { presenter: { pausedAt: null, showLeaderboard: false } }),
+        };
+        return {
+            ...roundState,
+            botPlans: planBotAnswers(match.players, roundState, match.rank, startedAt),
+        };
+    });
+
+    if (changed) {
+        await broadcastState(matchId, state);
+
+        // Bots start thinking now; their answers are revealed at the planned moment
+        prepareBotAnswers(matchId, state).catch(error => {
+            console.error('🤖 [Bot] Failed to prepare answers:', error);
+        });
     }
+    scheduleNextTransition(matchId, state);
+
+    return state;
+}
 
-    // Get match to find bot player
+/**
+ * Submit an answer for a player (compare-and-set for concurrency safety)
+ * @param clientResponseTimeMs - Optional response time from client (ms). Validated and used if provided.
+ * @param questionIndex - Question the answer is for; rejected if the player has moved on (double submits in time attack)
+ */
+export async function submitAnswer(
+    matchId: string,
+    playerId: string,
+    answer: string,
+    clientResponseTimeMs?: number,
+    questionIndex?: number
+): Promise<LiveGameState> {
     const match = await prisma.match.findUnique({
         where: { id: matchId },
-        select: { players: true, timePerQuestion: true },
+        select: {
+            questionIds: true,
+            players: true,
+            rank: true,
+            timePerQuestion: true,
+            rules: true,
+        },
     });
     if (!match) throw new Error('Match not found');
 
-    const timePerQ = match.timePerQuestion || TIME_PER_QUESTION;
-    const endTime = Date.now() + (timePerQ * 1000);
+    const rules = getMatchRules(match);
+    const player = match.players.find(p => p.playerId === playerId);
+    const playerName = player?.name || playerId;
+
+    // Filled in by the winning CAS attempt (for the AnswerRecord)
+    type AnswerOutcome = {
+        questionId: string;
+        isCorrect: boolean;
+        responseTimeMs: number;
+        powerUps: PowerUpType[];
+        nextQuestionIndex: number | null;
+    };
+    let record: AnswerOutcome | null = null;
+
+    // Retries must not cost the player their answer: the deadline is checked against when it
+    // arrived, and the answer key is looked up once (a full presenter room retries a lot)
+    const receivedAt = Date.now();
+    const correctAnswers = new Map<string, string | null>();
+
+    // Compare-and-set: if the player and bot submit simultaneously, the loser retries on fresh state
+    const { state: newState, changed } = await updateGameState(matchId, async (state) => {
+        // 1. Validate game state
+        if (state.phase !== GamePhase.PLAYING) {
+            throw new Error('Not in playing phase');
+        }
+
+        if (state.presenter?.pausedAt) {
+            throw new Error('Game paused');
+        }
+
+        const playerState = state.playerStates[playerId];
+        if (!playerState) {
+            throw new Error(`Player ${playerId} not found in game`);
+        }
+
+        if (receivedAt > getPlayerDeadline(state, playerId)) {
+            // Time is up (a time freeze extends it for this player only) - keep current state instead of error
+            // The timeout handler will mark unanswered players
+            console.log(`⏱️ [submitAnswer] Time expired for ${playerId}, ignoring late answer`);
+            return null;
+        }
+
+        if (!isPlayerActive(playerState)) {
+            throw new Error('Player eliminated');
+        }
+
+        if (playerState.answer !== null) {
+            throw new Error('Already answered');
+        }
+
+        const timeAttack = isTimeAttack(getGameMode(state));
+        const playerQuestionIndex = getPlayerQuestionIndex(state, playerId);
+        if (questionIndex !== undefined && questionIndex !== playerQuestionIndex) {
+            throw new Error('Question already answered');
+        }
+        if (playerQuestionIndex >= match.questionIds.length) {
+            throw new Error('No questions left');
+        }
+
+        // 2. Get correct answer
+        const questionId = match.questionIds[playerQuestionIndex];
+        if (!correctAnswers.has(questionId)) {
+            const question = await prisma.question.findUnique({
+                where: { id: questionId },
+                select: { correctAnswer: true },
+            });
+            correctAnswers.set(questionId, question?.correctAnswer ?? null);
+        }
+        const correctAnswer = correctAnswers.get(questionId);
+        if (!correctAnswer) throw new Error('Question not found');
+
+        const isCorrect = answer === correctAnswer;
+
+        // Calculate response time
+        // Use client-provided time if available, with validation bounds
+        // Time attack measures from when the player got their current question
+        const now = Date.now();
+        const timePerQuestionMs = rules.timePerQuestionSec * 1000;
+        const bonusTimeMs = playerState.bonusTimeMs ?? 0;
+        const elapsedMs = timeAttack
+            ? Math.max(0, now - (playerState.questionStartedAt ?? now))
+            : Math.max(0, timePerQuestionMs - (state.endTime - now));
+        const MIN_RESPONSE_TIME = 300;  // Human reaction minimum
+        const MAX_RESPONSE_TIME = (timeAttack ? elapsedMs : timePerQuestionMs + bonusTimeMs) + 1000; // Allow 1s buffer
+
+        let responseTimeMs: number;
+        if (clientResponseTimeMs !== undefined) {
+            // Use client time with bounds validation
+            responseTimeMs = Math.max(MIN_RESPONSE_TIME, Math.min(clientResponseTimeMs, MAX_RESPONSE_TIME));
+        } else {
+            // Fallback to server calculation (for bots or legacy clients)
+            responseTimeMs = elapsedMs;
+        }
 
-    // Reset answers for new round
-    const resetPlayerStates: { [playerId: string]: PlayerGameState } = {};
-    for (const [playerId, playerState] of Object.entries(state.playerStates)) {
-        resetPlayerStates[playerId] = {
+        // Calculate score with the match's rules (speed bonus + combo, double down, penalty never drops below 0)
+        const powerUps = getActivePowerUps(state, playerId);
+        const scoreChange = Math.max(
+            -playerState.score,
+            applyDoubleDown(calculateScore(isCorrect, responseTimeMs, playerState.streak, rules), isCorrect, powerUps, rules)
+        );
+
+        console.log(`📝 [Answer] ${playerName} (${isCorrect ? '✅' : '❌'}): ${answer}, responseTime=${responseTimeMs}ms, streak=${playerState.streak}, score=${scoreChange >= 0 ? '+' : ''}${scoreChange}`);
+
+        // 3. Update player state
+        const newStreak = isCorrect ? playerState.streak + 1 : 0;
+        const scoredPlayerState: PlayerGameState = {
             ...playerState,
-            answer: null,
-            isCorrect: null,
+            score: playerState.score + scoreChange,
+            streak: newStreak,
+            maxStreak: Math.max(playerState.maxStreak, newStreak),
+            answer,
+            isCorrect,
+            lastScoreChange: scoreChange,
         };
-    }
 
-    const newState: LiveGameState = {
-        ...state,
-        phase: GamePhase.PLAYING,
-        endTime,
-        playerStates: resetPlayerStates,
-        correctAnswer: null,
-    };
+        if (timeAttack) {
+            // Straight on to the next question - no RESOLVING per answer
+            const nextQuestionIndex = playerQuestionIndex + 1;
+            let newState: LiveGameState = {
+                ...state,
+                playerStates: {
+                    ...state.playerStates,
+                    [playerId]: {
+                        ...scoredPlayerState,
+                        answer: null,
+                        questionIndex: nextQuestionIndex,
+                        questionStartedAt: now,
+                        answeredCount: (playerState.answeredCount ?? 0) + 1,
+                        correctCount: (playerState.correctCount ?? 0) + (isCorrect ? 1 : 0),
+                        lastAnswer: { questionIndex: playerQuestionIndex, answer, isCorrect },
+                        activePowerUps: null,
+                        // Out of questions - an unused time freeze no longer holds up the clock
+                        ...(nextQuestionIndex >= match.questionIds.length && { bonusTimeMs: 0 }),
+                    },
+                },
+            };
+
+            // Bots plan their next question right away
+            if (player?.isBot && nextQuestionIndex < match.questionIds.length) {
+                newState = withBotPlan(newState, playerId, planBotAnswer(player, nextQuestionIndex, match.rank, now, newState.endTime));
+            }
 
-    await setGameState(matchId, newState);
-    await broadcastState(matchId, newState);
+            // Everyone ran out of questions - end the clock now (the tick finishes the match)
+            const allDone = Object.keys(newState.playerStates)
+                .every(pid => !isAwaitingAnswer(newState, pid, match.questionIds.length));
+            if (allDone) newState = { ...newState, endTime: now };
+
+            record = { questionId, isCorrect, responseTimeMs, powerUps, nextQuestionIndex };
+            return newState;
+        }
+
+        const newPlayerStates = {
+            ...state.playerStates,
+            [playerId]: scoredPlayerState,
+        };
+
+        // Check if all players still in the game answered
+        let newState: LiveGameState = {
+            ...state,
+            playerStates: newPlayerStates,
+        };
+        const allAnswered = getActivePlayerIds(newState).every(pid => newPlayerStates[pid].answer !== null);
 
-    await setGameState(matchId, newState);
+        if (allAnswered) {
+            newState = getResolvingState(newState, correctAnswer);
+        }
+
+        record = { questionId, isCorrect, responseTimeMs, powerUps, nextQuestionIndex: null };
+        return newState;
+    });
+
+    if (!changed) return newState;
+
+    // 4. Write AnswerRecord once the answer is committed
+    const committed = record as AnswerOutcome | null; // Assigned inside the mutate callback
+    if (player && committed) {
+        await prisma.answerRecord.create({
+            data: {
+                matchId,
+                questionId: committed.questionId,
+                userId: player.userId || null, // null for rule bots
+                answer,
+                isCorrect: committed.isCorrect,
+                responseTimeMs: committed.responseTimeMs,
+                powerUps: committed.powerUps,
+            }
+        });
+    }
+
+    // Time attack bots start thinking about their next question
+    if (player?.isBot && committed && committed.nextQuestionIndex !== null && committed.nextQuestionIndex < match.questionIds.length) {
+        prepareBotAnswer(matchId, playerId, committed.nextQuestionIndex).catch(error => {
+            console.error('🤖 [Bot] Failed to prepare answer:', error);
+        });
+    }
+
+    // 5. Broadcast and schedule
     await broadcastState(matchId, newState);
+    scheduleNextTransition(matchId, newState);
+
+    // Simple state logging
+    const logState = {
+        phase: newState.phase,
+        qIndex: newState.currentQuestionIndex,
+        scores: Object.fromEntries(
+            Object.entries(newState.playerStates).map(([pid, ps]) => [
+                // map playerId to simplified string "PlayerName:Score" if possible, otherwise just score
+                match.players.find(p => p.playerId === pid)?.name || pid,
+                ps.score
+            ])
+        )
+    };
+    console.log(`📡 [State] Match ${matchId.slice(-4)}:`, JSON.stringify(logState));
 
     return newState;
 }
 
 /**
- * Submit an answer for a player (with transaction for concurrency safety)
- * @param clientResponseTimeMs - Optional response time from client (ms). Validated and used if provided.
+ * Spend a power-up on the player's current question (compare-and-set, so each charge is spent once)
+ * @param questionIndex - Question the client used it on; rejected if the player has moved on
  */
-export async function submitAnswer(
+export async function activatePowerUp(
     matchId: string,
     playerId: string,
-    answer: string,
-    clientResponseTimeMs?: number
+    powerUp: PowerUpType,
+    questionIndex?: number
 ): Promise<LiveGameState> {
-    // Use mutex to serialize answer submissions per match
-    // This prevents P2034 conflicts when player and bot submit simultaneously
-    return matchMutex.withLock(matchId, async () => {
-        // Use transaction to ensure atomic read-modify-write
-        // MongoDB transactions may face write conflicts. Retry up to 3 times.
-        let attempt = 0;
-        while (attempt < 3) {
-            try {
-                return await prisma.$transaction(async (tx) => {
-                    // 1. Read current state within transaction
-                    const match = await tx.match.findUnique({
-                        where: { id: matchId },
-                        select: {
-                            liveState: true,
-                            questionIds: true,
-                            players: true,
-                            timePerQuestion: true,
-                        },
-                    });
-
-                    if (!match?.liveState) throw new Error('Game not found');
-                    const state = match.liveState as unknown as LiveGameState;
-
-                    // 2. Validate game state
-                    if (state.phase !== GamePhase.PLAYING) {
-                        throw new Error('Not in playing phase');
-                    }
-
-                    if (Date.now() > state.endTime) {
-                        // Time is up - return current state instead of error
-                        // The timeout handler will mark unanswered players
-                        console.log(`⏱️ [submitAnswer] Time expired for ${playerId}, ignoring late answer`);
-                        return state;
-                    }
-
-                    const playerState = state.playerStates[playerId];
-                    if (!playerState) {
-                        throw new Error(`Player ${playerId} not found in game`);
-                    }
-
-                    if (playerState.answer !== null) {
-                        throw new Error('Already answered');
-                    }
-
-                    // 3. Get correct answer
-                    const questionId = match.questionIds[state.currentQuestionIndex];
-                    const question = await tx.question.findUnique({
-                        where: { id: questionId },
-                        select: { correctAnswer: true },
-                    });
-                    if (!question) throw new Error('Question not found');
-
-                    const isCorrect = answer === question.correctAnswer;
-
-                    // Calculate response time
-                    // Use client-provided time if available, with validation bounds
-                    const timePerQuestionMs = (match.timePerQuestion || 20) * 1000;
-                    const MIN_RESPONSE_TIME = 300;  // Human reaction minimum
-                    const MAX_RESPONSE_TIME = timePerQuestionMs + 1000; // Allow 1s buffer
-
-                    let responseTimeMs: number;
-                    if (clientResponseTimeMs !== undefined) {
-                        // Use client time with bounds validation
-                        responseTimeMs = Math.max(MIN_RESPONSE_TIME, Math.min(clientResponseTimeMs, MAX_RESPONSE_TIME));
-                    } else {
-                        // Fallback to server calculation (for bots or legacy clients)
-                        const timeLeftMs = Math.max(0, state.endTime - Date.now());
-                        responseTimeMs = Math.max(0, timePerQuestionMs - timeLeftMs);
-                    }
-
-                    // Calculate score using advanced scoring (speed bonus + combo)
-                    const scoreChange = calculateScore(isCorrect, responseTimeMs, playerState.streak);
-
-                    // Log answer submission with player name
-                    const player = match.players.find(p => p.playerId === playerId);
-                    const playerName = player?.name || playerId;
-                    console.log(`📝 [Answer] ${playerName} (${isCorrect ? '✅' : '❌'}): ${answer}, responseTime=${responseTimeMs}ms, streak=${playerState.streak}, score=+${scoreChange}`);
-
-                    // 4. Update player state
-                    const newStreak = isCorrect ? playerState.streak + 1 : 0;
-                    const updatedPlayerState: PlayerGameState = {
-                        score: playerState.score + scoreChange,
-                        streak: newStreak,
-                        maxStreak: Math.max(playerState.maxStreak, newStreak),
-                        answer,
-                        isCorrect,
-                        lastScoreChange: scoreChange,
-                    };
-
-                    const newPlayerStates = {
-                        ...state.playerStates,
-                        [playerId]: updatedPlayerState,
-                    };
-
-                    // Check if all players answered
-                    const allAnswered = Object.values(newPlayerStates).every(ps => ps.answer !== null);
-
-                    let newState: LiveGameState = {
-                        ...state,
-                        playerStates: newPlayerStates,
-                    };
-
-                    if (allAnswered) {
-                        newState = {
-                            ...newState,
-                            phase: GamePhase.RESOLVING,
-                            correctAnswer: question.correctAnswer,
-                        };
-                    }
-
-                    // 5a. Save state atomically within transaction
-                    await tx.match.update({
-                        where: { id: matchId },
-                        data: { liveState: newState as unknown as object },
-                    });
-
-                    // 5b. Write AnswerRecord if player exists
-                    if (player) {
-                        await tx.answerRecord.create({
-                            data: {
-                                matchId,
-                                questionId,
-                                userId: player.userId || null, // null for rule bots
-                                answer,
-                                isCorrect,
-                                responseTimeMs,
-                            }
-                        });
-                    }
-
-                    // 6. Broadcast and schedule (outside transaction is fine)
-                    await broadcastState(matchId, newState);
-
-                    // Simple state logging
-                    const logState = {
-                        phase: newState.phase,
-                        qIndex: newState.currentQuestionIndex,
-                        scores: Object.fromEntries(
-                            Object.entries(newState.playerStates).map(([pid, ps]) => [
-                                // map playerId to simplified string "PlayerName:Score" if possible, otherwise just score
-                                match.players.find(p => p.playerId === pid)?.name || pid,
-                                ps.score
-                            ])
-                        )
-                    };
-                    console.log(`📡 [State] Match ${matchId.slice(-4)}:`, JSON.stringify(logState));
-
-                    if (allAnswered) {
-                        // In client-driven model, we don't schedule next action here anymore
-                        // The client will see allAnswered (RESOLVING phase) and initiate the next step after animation
-                    }
-
-                    return newState;
-                });
-            } catch (error: unknown) {
-                attempt++;
-                const isConflict = error instanceof PrismaClientKnownRequestError &&
-                    (error.code === 'P2002' || // Unique constraint
-                        error.code === 'P2034' || // Transaction write conflict/deadlock (MongoDB)
-                        error.message?.includes('WriteConflict') ||
-                        error.message?.includes('conflict') ||
-                        error.message?.includes('deadlock'));
-
-                if (isConflict && attempt < 3) {
-                    console.warn(`🔄 [submitAnswer] Retry attempt ${attempt} due to conflict`);
-                    await new Promise(r => setTimeout(r, Math.random() * 100)); // Backoff
-                    continue;
-                }
-                throw error;
-            }
+    const match = await prisma.match.findUnique({
+        where: { id: matchId },
+        select: { questionIds: true },
+    });
+    if (!match) throw new Error('Match not found');
+
+    const { state: newState, changed } = await updateGameState(matchId, async (state) => {
+        // 1. Validate - same rules as answering, plus an unused charge
+        if (state.phase !== GamePhase.PLAYING) {
+            throw new Error('Not in playing phase');
+        }
+
+        if (state.presenter?.pausedAt) {
+            throw new Error('Game paused');
+        }
+
+        const playerState = state.playerStates[playerId];
+        if (!playerState) {
+            throw new Error(`Player ${playerId} not found in game`);
+        }
+        if (!isPlayerActive(playerState)) {
+            throw new Error('Player eliminated');
+        }
+        if (Date.now() > getPlayerDeadline(state, playerId)) {
+            throw new Error('Time is up');
+        }
+        if (playerState.answer !== null) {
+            throw new Error('Already answered');
         }
-        throw new Error('Max retries reached');
+
+        const playerQuestionIndex = getPlayerQuestionIndex(state, playerId);
+        if (questionIndex !== undefined && questionIndex !== playerQuestionIndex) {
+            throw new Error('Question already answered');
+        }
+        if (playerQuestionIndex >= match.questionIds.length) {
+            throw new Error('No questions left');
+        }
+        if (!getAvailablePowerUps(playerState).includes(powerUp)) {
+            throw new Error('Power-up already used');
+        }
+
+        // 2. 50:50 - the server picks the options, the correct answer never leaves
+        let removedOptions: string[] = [];
+        if (powerUp === 'fifty_fifty') {
+            const question = await prisma.question.findUnique({
+                where: { id: match.questionIds[playerQuestionIndex] },
+                select: { interaction: true, correctAnswer: true },
+            });
+            if (!question) throw new Error('Question not found');
+
+            const optionKeys = Object.keys(question.interaction as Record<string, string>);
+            removedOptions = pickFiftyFiftyOptions(optionKeys, question.correctAnswer);
+        }
+
+        console.log(`🎒 [PowerUp] ${playerId} used ${powerUp} on Q${playerQuestionIndex + 1}`);
+
+        // 3. Spend the charge and attach it to the current question
+        const active = playerState.activePowerUps?.questionIndex === playerQuestionIndex
+            ? playerState.activePowerUps
+            : null;
+        return {
+            ...state,
+            playerStates: {
+                ...state.playerStates,
+                [playerId]: {
+                    ...playerState,
+                    usedPowerUps: [...(playerState.usedPowerUps ?? []), powerUp],
+                    activePowerUps: {
+                        questionIndex: playerQuestionIndex,
+                        types: [...(active?.types ?? []), powerUp],
+                        removedOptions: [...(active?.removedOptions ?? []), ...removedOptions],
+                    },
+                    bonusTimeMs: (playerState.bonusTimeMs ?? 0) + (powerUp === 'time_freeze' ? TIME_FREEZE_MS : 0),
+                },
+            },
+        };
     });
+
+    // 4. Broadcast (others see the power-up, not the removed options) and move the deadline
+    if (changed) {
+        await broadcastState(matchId, newState);
+        scheduleNextTransition(matchId, newState);
+    }
+
+    return newState;
 }
 
 /**
- * Handle timeout (called by client when endTime is reached)
- * Uses transaction with retry logic for concurrency safety
+ * Handle timeout (called by tickMatch when the round deadline is reached)
+ * Uses compare-and-set so the timeout applies exactly once
+ * @param options.force - End the round before its deadline (a presenter moving on)
  */
-export async function handleTimeout(matchId: string): Promise<LiveGameState> {
-    // Use mutex to serialize with answer submissions
-    // Prevents race between late answers and timeout handling
-    return matchMutex.withLock(matchId, async () => {
-        let attempt = 0;
-        while (attempt < 3) {
-            try {
-                return await prisma.$transaction(async (tx) => {
-                    // 1. Read current state within transaction
-                    const match = await tx.match.findUnique({
-                        where: { id: matchId },
-                        select: {
-                            liveState: true,
-                            questionIds: true,
-                            players: true,  // Need players to create AnswerRecords
-                        },
-                    });
-
-                    if (!match?.liveState) throw new Error('Game not found');
-                    const state = match.liveState as unknown as LiveGameState;
-
-                    if (state.phase !== GamePhase.PLAYING) {
-                        return state; // Already handled
-                    }
-
-                    // Validate that time is actually up (allow 1s buffer for clock skew)
-                    if (Date.now() < state.endTime - 1000) {
-                        console.warn(`⚠️ [handleTimeout] Rejected premature timeout. EndTime: ${state.endTime}, Now: ${Date.now()}`);
-                        return state;
-                    }
-
-                    // 2. Get correct answer
-                    const questionId = match.questionIds[state.currentQuestionIndex];
-                    const question = await tx.question.findUnique({
-                        where: { id: questionId },
-                        select: { correctAnswer: true },
-                    });
-
-                    // 3. Mark unanswered players as wrong + create AnswerRecords for timeout
-                    const newPlayerStates: { [playerId: string]: PlayerGameState } = {};
-                    for (const [playerId, playerState] of Object.entries(state.playerStates)) {
-                        if (playerState.answer === null) {
-                            // Find the player to get userId
-                            const player = match.players.find(p => p.playerId === playerId);
-
-                            // Create AnswerRecord for timeout (answer: '', responseTimeMs: 0)
-                            if (player?.userId) {
-                                await tx.answerRecord.create({
-                                    data: {
-                                        matchId,
-                                        questionId,
-                                        userId: player.userId,
-                                        answer: '',        // Empty = timeout
-                                        isCorrect: false,
-                                        responseTimeMs: 0, // 0 = no actual response
-                                    }
-                                });
-                                console.log(`⏰ [Timeout] Created AnswerRecord for ${player.name} (timeout)`);
-                            }
-
-                            newPlayerStates[playerId] = {
-                                ...playerState,
-                                answer: '',
-                                isCorrect: false,
-                                streak: 0,
-                                lastScoreChange: 0,
-                            };
-                        } else {
-                            newPlayerStates[playerId] = playerState;
-                        }
-                    }
-
-                    const newState: LiveGameState = {
-                        ...state,
-                        phase: GamePhase.RESOLVING,
-                        playerStates: newPlayerStates,
-                        correctAnswer: question?.correctAnswer || null,
-                    };
-
-                    // 4. Save state atomically within transaction
-                    await tx.match.update({
-                        where: { id: matchId },
-                        data: { liveState: newState as unknown as object },
-                    });
-
-                    // 5. Broadcast (client will trigger next step after seeing RESOLVING phase)
-                    await broadcastState(matchId, newState);
-
-                    return newState;
-                });
-            } catch (error: unknown) {
-                attempt++;
-                const isConflict = error instanceof PrismaClientKnownRequestError &&
-                    (error.code === 'P2002' || // Unique constraint
-                        error.code === 'P2034' || // Transaction write conflict/deadlock (MongoDB)
-                        error.message?.includes('WriteConflict') ||
-                        error.message?.includes('conflict') ||
-                        error.message?.includes('deadlock'));
-
-                if (isConflict && attempt < 3) {
-                    console.warn(`🔄 [handleTimeout] Retry attempt ${attempt} due to conflict`);
-                    await new Promise(r => setTimeout(r, Math.random() * 100)); // Backoff
-                    continue;
-                }
-                throw error;
+export async function handleTimeout(matchId: string, options: { force?: boolean } = {}): Promise<LiveGameState> {
+    const match = await prisma.match.findUnique({
+        where: { id: matchId },
+        select: {
+            questionIds: true,
+            players: true,  // Need players to create AnswerRecords
+            timePerQuestion: true,
+            rules: true,
+        },
+    });
+    if (!match) throw new Error('Match not found');
+
+    const rules = getMatchRules(match);
+
+    // Players marked as timed out by the winning CAS attempt
+    let timedOutPlayerIds: string[] = [];
+    let questionId = '';
+
+    // Compare-and-set: a late answer racing the timeout either lands first or is rejected after
+    const { state: newState, changed } = await updateGameState(matchId, async (state) => {
+        if (state.phase !== GamePhase.PLAYING) {
+            return null; // Already handled
+        }
+
+        // A paused clock never runs out
+        if (state.presenter?.pausedAt && !options.force) {
+            return null;
+        }
+
+        // Validate that time is actually up, time freezes included (allow 1s buffer for clock skew)
+        const deadline = getRoundDeadline(state);
+        if (!options.force && Date.now() < deadline - 1000) {
+            console.warn(`⚠️ [handleTimeout] Rejected premature timeout. Deadline: ${deadline}, Now: ${Date.now()}`);
+            return null;
+        }
+
+        // Time attack: the match clock ran out - nobody was mid-round, nothing to mark
+        if (isTimeAttack(getGameMode(state))) {
+            timedOutPlayerIds = [];
+            return getResolvingState(state, null);
+        }
+
+        // 1. Get correct answer
+        questionId = match.questionIds[state.currentQuestionIndex];
+        const question = await prisma.question.findUnique({
+            where: { id: questionId },
+            select: { correctAnswer: true },
+        });
+
+        // 2. Mark unanswered players as wrong (eliminated players sit out, a double down loses its stake)
+        timedOutPlayerIds = [];
+        const newPlayerStates: { [playerId: string]: PlayerGameState } = {};
+        for (const [playerId, playerState] of Object.entries(state.playerStates)) {
+            if (playerState.answer === null && isPlayerActive(playerState)) {
+                timedOutPlayerIds.push(playerId);
+                const scoreChange = Math.max(
+                    -playerState.score,
+                    applyDoubleDown(0, false, getActivePowerUps(state, playerId), rules)
+                );
+                newPlayerStates[playerId] = {
+                    ...playerState,
+                    score: playerState.score + scoreChange,
+                    answer: '',
+                    isCorrect: false,
+                    streak: 0,
+                    lastScoreChange: scoreChange,
+                };
+            } else {
+                newPlayerStates[playerId] = playerState;
             }
         }
-        throw new Error('Max retries reached');
+
+        return getResolvingState(
+            { ...state, playerStates: newPlayerStates },
+            question?.correctAnswer || null
+        );
     });
+
+    if (changed) {
+        // 3. Create AnswerRecords for timeout (answer: '', responseTimeMs: 0)
+        for (const playerId of timedOutPlayerIds) {
+            const player = match.players.find(p => p.playerId === playerId);
+            if (!player?.userId) continue;
+
+            await prisma.answerRecord.create({
+                data: {
+                    matchId,
+                    questionId,
+                    userId: player.userId,
+                    answer: '',        // Empty = timeout
+                    isCorrect: false,
+                    responseTimeMs: 0, // 0 = no actual response
+                    powerUps: getActivePowerUps(newState, playerId),
+                }
+            });
+            console.log(`⏰ [Timeout] Created AnswerRecord for ${player.name} (timeout)`);
+        }
+
+        // 4. Broadcast (the scheduler advances once resolvingEndTime passes)
+        await broadcastState(matchId, newState);
+    }
+
+    scheduleNextTransition(matchId, newState);
+
+    return newState;
 }
 
 /**
- * Force advance to next phase (triggered by client after RESOLVING duration)
+ * Advance from RESOLVING to the next question or finish the game
+ * Called by tickMatch once resolvingEndTime has passed
+ * GUARD: Only proceeds if in RESOLVING phase - otherwise returns current state
  */
 export async function advanceGamePhase(matchId: string): Promise<LiveGameState> {
-    const state = await getGameState(matchId);
-    if (!state || state.phase !== GamePhase.RESOLVING) {
-        throw new Error('Can only advance from RESOLVING phase');
-    }
-
     const match = await prisma.match.findUnique({
         where: { id: matchId },
-        select: { questionIds: true },
+        select: { questionIds: true, players: true },
     });
     if (!match) throw new Error('Match not found');
 
-    const isLastQuestion = state.currentQuestionIndex >= match.questionIds.length - 1;
+    const { state, changed } = await updateGameState(matchId, async (state) => {
+        // Guard: Only proceed if we're in RESOLVING phase
+        if (state.phase !== GamePhase.RESOLVING) {
+            console.log(`⚠️ [advanceGamePhase] Skipped - not in RESOLVING phase (current: ${state.phase})`);
+            return null;
+        }
+
+        return isMatchOver(state, match.questionIds.length) ? getFinishedState(state) : getNextQuestionState(state);
+    });
 
-    if (isLastQuestion) {
-        await finishGame(matchId);
+    if (!changed) {
+        scheduleNextTransition(matchId, state);
+        return state;
+    }
+
+    if (state.phase === GamePhase.FINISHED) {
+        await finishGame(matchId, match.players, state);
     } else {
-        await nextQuestion(matchId);
+        // Round boundary - persist progress for non-persistent stores
+        await checkpointGameState(matchId, state);
+    }
+
+    await broadcastState(matchId, state);
+
+    // Auto-start next round
+    if (state.phase === GamePhase.READY) {
+        return startRound(matchId);
     }
 
-    const newState = await getGameState(matchId);
-    return newState!;
+    scheduleNextTransition(matchId, state);
+    return state;
 }
 
 /**
- * Move to next question
- * GUARD: Only proceeds if in RESOLVING phase
+ * End the round: reveal the correct answer and apply the mode's outcome (e.g. lost lives)
  */
-async function nextQuestion(matchId: string): Promise<void> {
-    const state = await getGameState(matchId);
-    if (!state) return;
-
-    // Guard: Only proceed if we're in RESOLVING phase
-    if (state.phase !== GamePhase.RESOLVING) {
-        console.log(`⚠️ [nextQuestion] Skipped - not in RESOLVING phase (current: ${state.phase})`);
-        return;
-    }
+function getResolvingState(state: LiveGameState, correctAnswer: string | null): LiveGameState {
+    return applyRoundOutcome({
+        ...state,
+        phase: GamePhase.RESOLVING,
+        correctAnswer,
+        resolvingEndTime: Date.now() + RESOLVING_DURATION_MS,
+        ...(state.presenter && { presenter: { ...state.presenter, pausedAt: null } }),
+    });
+}
 
-    const newState: LiveGameState = {
+/**
+ * Move to next question (READY - startRound begins the round)
+ */
+function getNextQuestionState(state: LiveGameState): LiveGameState {
+    return {
         ...state,
         phase: GamePhase.READY,
         currentQuestionIndex: state.currentQuestionIndex + 1,
         correctAnswer: null,
         endTime: 0,
+        resolvingEndTime: 0,
     };
-
-    await setGameState(matchId, newState);
-    await broadcastState(matchId, newState);
-
-    // Auto-start next round
-    await startRound(matchId);
 }
 
 /**
- * Finish the game - write AnswerRecords and update UserStats
- * GUARD: Only proceeds if in RESOLVING phase
+ * Rank players by the mode's rules - winner is the sole first place (ties share a placement)
  */
-async function finishGame(matchId: string): Promise<void> {
-    const state = await getGameState(matchId);
-    if (!state) return;
-
-    // Guard: Only proceed if we're in RESOLVING phase (not already FINISHED)
-    if (state.phase === GamePhase.FINISHED) {
-        console.log(`⚠️ [finishGame] Skipped - already FINISHED`);
-        return;
-    }
-
-    // Get match with full data for analytics
-    const match = await prisma.match.findUnique({
-        where: { id: matchId },
-        select: {
-            id: true,
-            players: true,
-            questionIds: true,
-            liveState: true,
-            status: true, // Check if already finished
-        },
-    });
-    if (!match) return;
-
-    // Double-check: if match is already finished in DB, skip
-    if (match.status === MatchStatus.finished) {
-        console.log(`⚠️ [finishGame] Skipped - match already finished in DB`);
-        return;
-    }
-
-    // Calculate winner (highest score) - winner is the playerId with highest score
-    let winnerPlayerId: string | null = null;
-    let maxScore = -1;
-    let isTie = false;
-
-    for (const [playerId, playerState] of Object.entries(state.playerStates)) {
-        if (playerState.score > maxScore) {
-            maxScore = playerState.score;
-            winnerPlayerId = playerId;
-            isTie = false;
-        } else if (playerState.score === maxScore) {
-            isTie = true;
-        }
-    }
-
-    if (isTie) winnerPlayerId = null;
-
-    // Convert playerId to userId for database storage
-    const winnerPlayer = match.players.find(p => p.playerId === winnerPlayerId);
-    const winnerUserId = winnerPlayer?.userId || null;
+function getFinishedState(state: LiveGameState): LiveGameState {
+    const placements = rankPlayers(state);
+    const firstPlace = Object.keys(placements).filter(playerId => placements[playerId] === 1);
+    const winnerPlayerId = firstPlace.length === 1 ? firstPlace[0] : null;
 
-    const newState: LiveGameState = {
+    return {
         ...state,
         phase: GamePhase.FINISHED,
         winnerId: winnerPlayerId, // Keep playerId for client display
+        placements,
+        resolvingEndTime: 0,
     };
+}
 
-    await setGameState(matchId, newState);
-    await broadcastState(matchId, newState);
+/**
+ * Finish the game - write final scores and placements to Match, then update skill ratings
+ * Only called by the advanceGamePhase call whose CAS moved the state to FINISHED
+ */
+async function finishGame(matchId: string, players: MatchPlayer[], state: LiveGameState): Promise<void> {
+    const placements = state.placements ?? {};
+    const isTie = Object.values(placements).filter(p => p === 1).length > 1;
 
-    // Update match record with final scores
-    const updatedPlayers = match.players.map(p => ({
+    // Convert playerId to userId for database storage
+    const winnerPlayer = players.find(p => p.playerId === state.winnerId);
+    const winnerUserId = winnerPlayer?.userId || null;
+
+    // Update match record with final scores and placements
+    const updatedPlayers = players.map(p => ({
         ...p,
         finalScore: state.playerStates[p.playerId]?.score || 0,
+        placement: placements[p.playerId] ?? null,
     }));
 
     console.log(`🏁 [finishGame] Updating match ${matchId} to finished (winner: ${winnerUserId || 'TIE'})`);
@@ -623,6 +900,7 @@ async function finishGame(matchId: string): Promise<void> {
     await prisma.match.update({
         where: { id: matchId },
         data: {
+            liveState: state as unknown as object, // Final checkpoint
             status: MatchStatus.finished,
             endedAt: new Date(),
             winnerId: winnerUserId, // Store actual userId
@@ -634,63 +912,287 @@ async function finishGame(matchId: string): Promise<void> {
     // Note: User stats are now calculated on-the-fly from Match/AnswerRecord
     // See: actions/user.server.ts -> getUserDashboardStats()
 
+    // Skill ratings are stored, not derived - a failed update must not undo the finish
+    try {
+        await updateMatchRatings(matchId);
+    } catch (error) {
+        console.error(`📈 [finishGame] Failed to update ratings for match ${matchId}:`, error);
+    }
+
+    // Tournament games advance their bracket (cron catches up on a failure)
+    try {
+        await recordTournamentResult(matchId);
+    } catch (error) {
+        console.error(`🏆 [finishGame] Failed to record tournament result for match ${matchId}:`, error);
+    }
+
     console.log(`✅ [finishGame] Match ${matchId} successfully finished`);
 }
 
+// ============================================
+// Presenter Controls
+// ============================================
 
 /**
- * Trigger bot to answer (fire-and-forget, non-blocking)
+ * Host moves a presenter session on
+ * READY: start the round. PLAYING: end it now. RESOLVING: next question (or the final results)
  */
-export async function triggerBotAnswer(matchId: string, botPlayerId: string, questionIndex: number, botModel?: string): Promise<void> {
-    const lockKey = `${matchId}:${questionIndex}`;
+export async function advancePresenterSession(matchId: string): Promise<LiveGameState> {
+    const state = await getGameState(matchId);
+    if (!state?.presenter) throw new Error('Not a presenter session');
+
+    switch (state.phase) {
+        case GamePhase.READY:
+            return startRound(matchId);
+        case GamePhase.PLAYING:
+            return handleTimeout(matchId, { force: true });
+        case GamePhase.RESOLVING:
+            return advanceGamePhase(matchId);
+        default:
+            return state;
+    }
+}
 
-    // Check if already processing
-    if (botProcessingLocks.has(lockKey)) return;
+/**
+ * Pause or resume the round clock of a presenter session
+ * Resuming moves endTime by the paused time, so nobody loses answer time
+ */
+export async function setPresenterPaused(matchId: string, paused: boolean): Promise<LiveGameState> {
+    const { state: newState, changed } = await updateGameState(matchId, async (state) => {
+        const presenter = state.presenter;
+        if (!presenter) throw new Error('Not a presenter session');
+
+        // Only a running round has a clock; repeated clicks are no-ops
+        if (state.phase !== GamePhase.PLAYING || paused === (presenter.pausedAt !== null)) {
+            return null;
+        }
 
-    const state = await getGameState(matchId);
-    if (!state) return;
-    if (state.phase !== GamePhase.PLAYING) return;
-    if (state.playerStates[botPlayerId]?.answer !== null) return;
+        const now = Date.now();
+        if (paused) {
+            return { ...state, presenter: { ...presenter, pausedAt: now } };
+        }
+        return {
+            ...state,
+            endTime: state.endTime + (now - presenter.pausedAt!),
+            presenter: { ...presenter, pausedAt: null },
+        };
+    });
 
-    // Acquire lock
-    botProcessingLocks.add(lockKey);
+    if (changed) {
+        await broadcastState(matchId, newState);
+    }
+    scheduleNextTransition(matchId, newState);
 
-    // Get current question
-    const match = await prisma.match.findUnique({
-        where: { id: matchId },
-        select: { questionIds: true },
+    return newState;
+}
+
+/**
+ * Show or hide the standings on the big screen
+ */
+export async function setPresenterLeaderboard(matchId: string, show: boolean): Promise<LiveGameState> {
+    const { state: newState, changed } = await updateGameState(matchId, async (state) => {
+        const presenter = state.presenter;
+        if (!presenter) throw new Error('Not a presenter session');
+        if (presenter.showLeaderboard === show) return null;
+
+        return { ...state, presenter: { ...presenter, showLeaderboard: show } };
     });
-    if (!match) {
-        botProcessingLocks.delete(lockKey);
-        return;
+
+    if (changed) {
+        await broadcastState(matchId, newState);
     }
 
-    const questionId = match.questionIds[state.currentQuestionIndex];
+    return newState;
+}
+
 
-    try {
-        // Get LLM answer (already has 5s timeout built-in)
-        const { answer } = await getBotAnswer(matchId, questionId, botModel);
+// ============================================
+// Server-side Bots
+// ============================================
 
-        // Submit immediately without extra delay
-        await submitAnswer(matchId, botPlayerId, answer);
-    } catch (error) {
-        console.error('Bot answer error:', error);
-    } finally {
-        botProcessingLocks.delete(lockKey);
+/**
+ * Plan when each bot still in the game answers this round
+ */
+function planBotAnswers(
+    players: MatchPlayer[],
+    state: LiveGameState,
+    rank: number,
+    startedAt: number
+): { [playerId: string]: BotAnswerPlan } {
+    const plans: { [playerId: string]: BotAnswerPlan } = {};
+    for (const player of players) {
+        const playerState = state.playerStates[player.playerId];
+        if (!player.isBot || !playerState || !isPlayerActive(playerState)) continue;
+
+        const questionIndex = getPlayerQuestionIndex(state, player.playerId);
+        plans[player.playerId] = planBotAnswer(player, questionIndex, rank, startedAt, state.endTime);
     }
+    return plans;
+}
+
+/**
+ * Plan when a bot answers a question (sampled from its timing profile and the match rank)
+ */
+function planBotAnswer(
+    player: MatchPlayer,
+    questionIndex: number,
+    rank: number,
+    startedAt: number,
+    endTime: number
+): BotAnswerPlan {
+    const latestResponseMs = Math.max(0, endTime - startedAt - BOT_DEADLINE_MARGIN_MS);
+    const sampledMs = sampleBotResponseMs(getBotTimingProfile(player.botModel), rank);
+    const responseMs = Math.min(sampledMs, latestResponseMs);
+
+    return {
+        questionIndex,
+        responseMs,
+        answerAt: startedAt + responseMs,
+        answer: null,
+        leaseExpiresAt: 0,
+    };
+}
+
+/**
+ * The plan of a bot that still has to answer the given question (null otherwise)
+ */
+function getPendingBotPlan(state: LiveGameState, botPlayerId: string, questionIndex: number): BotAnswerPlan | null {
+    if (state.phase !== GamePhase.PLAYING || getPlayerQuestionIndex(state, botPlayerId) !== questionIndex) return null;
+    const playerState = state.playerStates[botPlayerId];
+    if (!playerState || playerState.answer !== null || !isPlayerActive(playerState)) return null;
+
+    const plan = state.botPlans?.[botPlayerId];
+    return plan?.questionIndex === questionIndex ? plan : null;
+}
+
+/**
+ * Earliest moment a pending bot answer needs a tick
+ * An answer still being computed elsewhere is retried once that lease expires
+ */
+function getNextBotAnswerAt(state: LiveGameState): number | null {
+    let next: number | null = null;
+    for (const botPlayerId of Object.keys(state.botPlans ?? {})) {
+        const plan = getPendingBotPlan(state, botPlayerId, getPlayerQuestionIndex(state, botPlayerId));
+        if (!plan) continue;
+
+        const at = plan.answer === null ? Math.max(plan.answerAt, plan.leaseExpiresAt) : plan.answerAt;
+        next = next === null ? at : Math.min(next, at);
+    }
+    return next;
+}
+
+/**
+ * Compute and store every bot's answer for the round that just started
+ */
+async function prepareBotAnswers(matchId: string, state: LiveGameState): Promise<void> {
+    await Promise.all(
+        Object.keys(state.botPlans ?? {}).map(botPlayerId =>
+            prepareBotAnswer(matchId, botPlayerId, getPlayerQuestionIndex(state, botPlayerId))
+        )
+    );
+}
+
+/**
+ * Compute one bot's answer and store it in its plan
+ * Claims a lease first, so only one instance calls the model even if several ticks race
+ * @returns The plan with its answer, or null if another instance holds the lease or the round moved on
+ */
+async function prepareBotAnswer(matchId: string, botPlayerId: string, questionIndex: number): Promise<BotAnswerPlan | null> {
+    const match = await prisma.match.findUnique({
+        where: { id: matchId },
+        select: { questionIds: true, players: true },
+    });
+    if (!match) return null;
+
+    // 1. Claim the lease
+    const { changed: claimed } = await updateGameState(matchId, async (state) => {
+        const plan = getPendingBotPlan(state, botPlayerId, questionIndex);
+        if (!plan || plan.answer !== null || plan.leaseExpiresAt > Date.now()) return null;
+
+        return withBotPlan(state, botPlayerId, { ...plan, leaseExpiresAt: Date.now() + BOT_LEASE_MS });
+    }, { silent: true });
+    if (!claimed) return null;
+
+    // 2. Think (LLM bots have their registry timeout, rule bots answer instantly)
+    const bot = match.players.find(p => p.playerId === botPlayerId);
+    const { answer, thinkingMs } = await getBotAnswer(match.questionIds[questionIndex], {
+        userId: bot?.userId ?? null,
+        botModel: bot?.botModel ?? null,
+    });
+    console.log(`🤖 [Bot] ${bot?.name || botPlayerId} prepared Q${questionIndex + 1} in ${thinkingMs}ms`);
+
+    // 3. Store the answer - the scheduler submits it at answerAt
+    const { state, changed } = await updateGameState(matchId, async (state) => {
+        const plan = getPendingBotPlan(state, botPlayerId, questionIndex);
+        if (!plan || plan.answer !== null) return null;
+
+        return withBotPlan(state, botPlayerId, { ...plan, answer, leaseExpiresAt: 0 });
+    }, { silent: true });
+    if (!changed) return null;
+
+    scheduleNextTransition(matchId, state);
+    return state.botPlans?.[botPlayerId] ?? null;
+}
+
+/**
+ * Submit every bot answer whose planned moment has passed
+ * Called by tickMatch during PLAYING
+ */
+async function answerDueBots(matchId: string, state: LiveGameState): Promise<LiveGameState> {
+    const now = Date.now();
+
+    const dueBotIds = Object.keys(state.botPlans ?? {}).filter(botPlayerId => {
+        const plan = getPendingBotPlan(state, botPlayerId, getPlayerQuestionIndex(state, botPlayerId));
+        return plan !== null && plan.answerAt <= now;
+    });
+
+    await Promise.all(dueBotIds.map(async (botPlayerId) => {
+        const questionIndex = getPlayerQuestionIndex(state, botPlayerId);
+
+        // Prepared answers are submitted as-is; otherwise think now (e.g. the preparing instance died)
+        const plan = state.botPlans?.[botPlayerId]?.answer
+            ? state.botPlans[botPlayerId]
+            : await prepareBotAnswer(matchId, botPlayerId, questionIndex);
+        if (!plan?.answer) return;
+
+        try {
+            await submitAnswer(matchId, botPlayerId, plan.answer, plan.responseMs, questionIndex);
+        } catch (error) {
+            // Another tick submitted it first, or the round ended meanwhile
+            console.log(`🤖 [Bot] Skipped ${botPlayerId} answer: ${(error as Error).message}`);
+        }
+    }));
+
+    const latest = (await getGameState(matchId)) ?? state;
+    scheduleNextTransition(matchId, latest);
+    return latest;
+}
+
+/**
+ * Replace one bot's plan
+ */
+function withBotPlan(state: LiveGameState, botPlayerId: string, plan: BotAnswerPlan): LiveGameState {
+    return {
+        ...state,
+        botPlans: {
+            ...state.botPlans,
+            [botPlayerId]: plan,
+        },
+    };
 }
 
 /**
- * Broadcast state to all clients via Pusher
+ * Broadcast state to all clients via the realtime transport
+ * The channel is shared, so every player's answer is redacted during PLAYING
  */
 async function broadcastState(matchId: string, state: LiveGameState): Promise<void> {
     try {
-        await pusherServer.trigger(
+        await realtimeServer.trigger(
             getMatchChannel(matchId),
-            PUSHER_EVENTS.STATE_UPDATE,
-            state
+            GAME_EVENTS.STATE_UPDATE,
+            projectGameState(state, null)
         );
     } catch (error) {
-        console.error('Pusher broadcast error:', error);
+        console.error('Realtime broadcast error:', error);
     }
 }
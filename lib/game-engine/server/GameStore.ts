@@ -1,14 +1,24 @@
 /**
  * GameStore - Abstract storage layer for game state
- * Uses MongoDB (Match.liveState), can migrate to Vercel KV later
+ * Pluggable backends (GAME_STORE_BACKEND): "mongo" (Match.liveState, default) or "memory"
  * 
+ * DESIGN: Compare-and-set
+ * - Every stored state has a version; writes go through createGameState() / updateGameState()
+ * - A write only lands if nobody else wrote since it was read, otherwise it retries on fresh state
+ * - Works across instances as long as the backend is shared (mongo)
+ * - Non-persistent backends write Match.liveState only at checkpoints (round boundaries, finish)
+ *
  * DESIGN: Player-agnostic state
  * - Server stores playerStates keyed by playerId (e.g., "player_1", "bot_1")
  * - Client transforms to self/opponent based on current user
  */
 
 import { prisma } from '@/lib/prisma';
-import type { GamePhase } from '@/types/game';
+import type { GameMode, PowerUpType } from '@prisma/client';
+import { GamePhase, HIDDEN_ANSWER } from '@/types/game';
+import { PRESENCE_TIMEOUT_MS } from '@/lib/config/game';
+import { MongoGameStore } from './stores/MongoGameStore';
+import { MemoryGameStore } from './stores/MemoryGameStore';
 
 // ============================================
 // Server-side game state (stored in Match.liveState)
@@ -16,9 +26,13 @@ import type { GamePhase } from '@/types/game';
 // ============================================
 
 export interface LiveGameState {
+    // Monotonically increasing per broadcast-worthy write (clients detect missed events by gaps)
+    seq?: number;
+
     phase: GamePhase;
-    currentQuestionIndex: number;
-    endTime: number;  // Unix timestamp (ms) when round ends
+    gameMode?: GameMode;  // Missing in states created before game modes (= classic)
+    currentQuestionIndex: number;  // Time attack: unused, every player has their own questionIndex
+    endTime: number;  // Unix timestamp (ms) when round ends (time attack: when the match clock runs out)
 
     // Player states keyed by playerId
     playerStates: {
@@ -28,8 +42,37 @@ export interface LiveGameState {
     // Correct answer (only set during RESOLVING)
     correctAnswer: string | null;
 
-    // Winner playerId (only set when FINISHED)
+    // Unix timestamp (ms) when RESOLVING ends and the scheduler advances (0 outside RESOLVING)
+    resolvingEndTime?: number;
+
+    // Winner playerId (only set when FINISHED, null if first place is shared)
     winnerId: string | null;
+
+    // Server-side bot schedule for the current round, keyed by bot playerId (never sent to clients)
+    botPlans?: {
+        [playerId: string]: BotAnswerPlan;
+    };
+
+    // Final placements keyed by playerId (only set when FINISHED)
+    placements?: {
+        [playerId: string]: number;
+    } | null;
+
+    // Presenter sessions only: the host paces the rounds instead of the scheduler
+    presenter?: PresenterControls;
+}
+
+export interface PresenterControls {
+    pausedAt: number | null;   // Unix timestamp (ms) the round clock was paused at (null = running)
+    showLeaderboard: boolean;  // Big screen shows the standings instead of the question
+}
+
+export interface BotAnswerPlan {
+    questionIndex: number;
+    responseMs: number;       // Sampled from the bot's timing profile
+    answerAt: number;         // Unix timestamp (ms) when the answer is submitted
+    answer: string | null;    // Prepared ahead of answerAt (null until the bot has thought)
+    leaseExpiresAt: number;   // An instance is computing the answer until then (0 = none)
 }
 
 export interface PlayerGameState {
@@ -39,86 +82,315 @@ export interface PlayerGameState {
     answer: string | null;
     isCorrect: boolean | null;
     lastScoreChange: number;  // Score delta from last answer (for animation)
+
+    // Values at the start of the current round (lets projections hide this round's result)
+    roundStart?: {
+        score: number;
+        streak: number;
+        maxStreak: number;
+    };
+
+    // Survival / sudden death (see GameModes)
+    lives?: number;
+    eliminatedAtQuestion?: number | null;  // Question index of the round that took the last life
+
+    // Time attack: own progress through the questions (answer stays null between questions)
+    questionIndex?: number;
+    questionStartedAt?: number;  // Unix timestamp (ms) when the current question was shown
+    answeredCount?: number;
+    correctCount?: number;
+    lastAnswer?: { questionIndex: number; answer: string; isCorrect: boolean };  // Only the player sees it
+
+    // Power-ups (see PowerUps.ts)
+    usedPowerUps?: PowerUpType[];             // Spent this match - one charge of each
+    activePowerUps?: ActivePowerUps | null;   // Used on the current question
+    bonusTimeMs?: number;                     // Time freeze: own answer time past endTime
+}
+
+export interface ActivePowerUps {
+    questionIndex: number;
+    types: PowerUpType[];
+    removedOptions: string[];  // 50:50 - only the player sees them until RESOLVING
+}
+
+// ============================================
+// Per-recipient projection (applied before state leaves the server)
+// ============================================
+
+/**
+ * Project state for one recipient
+ * During PLAYING, other players only show "has answered": their choice, correctness
+ * and this round's score/streak change stay hidden until RESOLVING, and so do the options their
+ * 50:50 removed. Bot plans never leave.
+ *
+ * @param viewerPlayerId - Player allowed to see their own answer (null = redact everyone, e.g. broadcasts)
+ */
+export function projectGameState(state: LiveGameState, viewerPlayerId: string | null): LiveGameState {
+    // Bot plans hold upcoming answers and their timing
+    if (state.botPlans) state = { ...state, botPlans: undefined };
+    if (state.phase !== GamePhase.PLAYING) return state;
+
+    const playerStates: { [playerId: string]: PlayerGameState } = {};
+    for (const [playerId, playerState] of Object.entries(state.playerStates)) {
+        if (playerId === viewerPlayerId) {
+            playerStates[playerId] = playerState;
+            continue;
+        }
+
+        // Options removed by a 50:50 tell others which ones are wrong
+        const ps = playerState.activePowerUps?.removedOptions.length
+            ? { ...playerState, activePowerUps: { ...playerState.activePowerUps, removedOptions: [] } }
+            : playerState;
+
+        if (ps.answer === null) {
+            // Time attack: others may not have reached that question yet
+            playerStates[playerId] = ps.lastAnswer ? { ...ps, lastAnswer: undefined } : ps;
+            continue;
+        }
+
+        playerStates[playerId] = {
+            ...ps,
+            ...ps.roundStart,
+            answer: HIDDEN_ANSWER,
+            isCorrect: null,
+            lastScoreChange: 0,
+        };
+    }
+
+    return { ...state, playerStates };
 }
 
 // ============================================
 // Client-side view (transformed by useGameClient)
-// Perspective-aware: self vs opponent
+// Perspective-aware: self vs everyone else
 // ============================================
 
+export interface ClientPlayerView {
+    playerId: string;
+    name: string;
+    avatar: string | null;
+    isBot: boolean;
+    score: number;
+    streak: number;
+    maxStreak: number;
+    answer: string | null;
+    isCorrect: boolean | null;
+    lastScoreChange: number;
+    placement: number;  // Live ranking (1-indexed, ties share - see GameModes.rankPlayers)
+    isDisconnected: boolean;  // No presence heartbeat within PRESENCE_TIMEOUT_MS
+    lives: number | null;  // Survival / sudden death only
+    isEliminated: boolean;
+    questionIndex: number;  // Time attack: own question; otherwise the shared one
+    usedPowerUps: PowerUpType[];
+    activePowerUps: PowerUpType[];  // Used on the current question
+}
+
 export interface ClientGameView {
     phase: GamePhase;
+    gameMode: GameMode;
     currentQuestionIndex: number;
     timeLeft: number;  // Calculated from endTime
 
     // Self state
-    self: {
-        playerId: string;
-        name: string;
-        avatar: string | null;
-        isBot: boolean;
-        score: number;
-        streak: number;
-        maxStreak: number;
-        answer: string | null;
-        isCorrect: boolean | null;
-        lastScoreChange: number;
-    };
+    self: ClientPlayerView;
 
-    // Opponent state
-    opponent: {
-        playerId: string;
-        name: string;
-        avatar: string | null;
-        isBot: boolean;
-        score: number;
-        streak: number;
-        maxStreak: number;
-        answer: string | null;
-        isCorrect: boolean | null;
-        lastScoreChange: number;
-    };
+    // Leading opponent (the only opponent in a duel)
+    opponent: ClientPlayerView;
+
+    // Every player including self, ordered by placement (for the scoreboard)
+    players: ClientPlayerView[];
 
     correctAnswer: string | null;
     winnerId: string | null;
     endTime: number;
 }
 
+// ============================================
+// Storage backend interface
+// ============================================
+
+export interface VersionedGameState {
+    state: LiveGameState;
+    version: number;  // Incremented on every write
+}
+
+export interface GameStoreBackend {
+    /** Whether writes already land in Match.liveState (checkpoints are then no-ops) */
+    readonly persistsToMatch: boolean;
+
+    /** Read state and its version (null if the match has no live state) */
+    get(matchId: string): Promise<VersionedGameState | null>;
+
+    /**
+     * Write only if the stored version still equals expectedVersion - returns the new version, or null on conflict
+     * A missing state counts as version 0, so compareAndSet(id, 0, state) creates it
+     */
+    compareAndSet(matchId: string, expectedVersion: number, state: LiveGameState): Promise<number | null>;
+
+    /** Remove live state */
+    delete(matchId: string): Promise<void>;
+
+    /** Record a player's presence heartbeat (Unix ms) */
+    touchPresence(matchId: string, playerId: string, at: number): Promise<void>;
+
+    /** Last heartbeat per playerId (players who never reported are absent) */
+    getPresence(matchId: string): Promise<Record<string, number>>;
+
+    /** Record a spectator's heartbeat (Unix ms) - viewerId is a user ID or a per-tab ID */
+    touchSpectator(matchId: string, viewerId: string, at: number): Promise<void>;
+
+    /** Spectators whose last heartbeat is at or after `since` (Unix ms) */
+    countSpectators(matchId: string, since: number): Promise<number>;
+}
+
+// CAS retry budget, sized from the room: when every player answers in the same instant, each
+// winner makes the rest retry once, so a writer can lose once per other player. Presenter sessions
+// seat up to PRESENTER_MAX_PLAYERS students on the same path, so a fixed MAX_PLAYERS budget is not enough.
+const MIN_CAS_ATTEMPTS = 10;
+
+// Jittered backoff grows per attempt up to a cap, spreading a full room's writes without long stalls
+const CAS_BACKOFF_STEP_MS = 25;
+const CAS_BACKOFF_MAX_MS = 400;
+
+function createGameStore(): GameStoreBackend {
+    switch (process.env.GAME_STORE_BACKEND) {
+        case 'memory':
+            return new MemoryGameStore();
+        default:
+            return new MongoGameStore();
+    }
+}
+
+// Global store instance (survives dev hot reloads like the Prisma client)
+const globalForGameStore = globalThis as unknown as { gameStore: GameStoreBackend };
+
+export const gameStore = globalForGameStore.gameStore || createGameStore();
+
+if (process.env.NODE_ENV !== 'production') globalForGameStore.gameStore = gameStore;
+
 // ============================================
 // Storage functions
 // ============================================
 
 /**
- * Get current game state from MongoDB
+ * Get current game state with its version
+ * Non-persistent backends are hydrated from the last Match.liveState checkpoint on a miss
  */
-export async function getGameState(matchId: string): Promise<LiveGameState | null> {
+export async function loadGameState(matchId: string): Promise<VersionedGameState | null> {
+    const stored = await gameStore.get(matchId);
+    if (stored || gameStore.persistsToMatch) return stored;
+
     const match = await prisma.match.findUnique({
         where: { id: matchId },
         select: { liveState: true },
     });
-
     if (!match?.liveState) return null;
-    return match.liveState as unknown as LiveGameState;
+
+    const checkpoint = match.liveState as unknown as LiveGameState;
+    const version = await gameStore.compareAndSet(matchId, 0, checkpoint);
+
+    // Another request hydrated first - use theirs
+    if (version === null) return gameStore.get(matchId);
+    return { state: checkpoint, version };
+}
+
+/**
+ * Get current game state
+ */
+export async function getGameState(matchId: string): Promise<LiveGameState | null> {
+    return (await loadGameState(matchId))?.state ?? null;
+}
+
+/**
+ * Create the initial game state (use updateGameState for transitions)
+ * @returns false if another request created it first
+ */
+export async function createGameState(matchId: string, state: LiveGameState): Promise<boolean> {
+    const version = await gameStore.compareAndSet(matchId, 0, { ...state, seq: 1 });
+    if (version === null) return false;
+
+    await checkpointGameState(matchId, state);
+    return true;
 }
 
 /**
- * Save game state to MongoDB
+ * Read-modify-write with compare-and-set, retrying on fresh state when another writer won
+ * @param mutate - Returns the next state, or null to leave the state unchanged (may throw to abort)
+ * @param options.silent - Internal bookkeeping that is never broadcast (keeps seq unchanged)
+ * @returns The resulting state and whether this call wrote it
  */
-export async function setGameState(matchId: string, state: LiveGameState): Promise<void> {
+export async function updateGameState(
+    matchId: string,
+    mutate: (state: LiveGameState) => Promise<LiveGameState | null>,
+    options: { silent?: boolean } = {}
+): Promise<{ state: LiveGameState; changed: boolean }> {
+    let maxAttempts = MIN_CAS_ATTEMPTS;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const current = await loadGameState(matchId);
+        if (!current) throw new Error('Game not found');
+        maxAttempts = Math.max(maxAttempts, Object.keys(current.state.playerStates).length + MIN_CAS_ATTEMPTS);
+
+        const mutated = await mutate(current.state);
+        if (!mutated) return { state: current.state, changed: false };
+
+        const seq = current.state.seq ?? 0;
+        const next: LiveGameState = { ...mutated, seq: options.silent ? seq : seq + 1 };
+
+        const version = await gameStore.compareAndSet(matchId, current.version, next);
+        if (version !== null) return { state: next, changed: true };
+
+        console.warn(`🔄 [GameStore] CAS conflict on match ${matchId.slice(-4)}, retry attempt ${attempt}`);
+        await new Promise(r => setTimeout(r, Math.random() * Math.min(CAS_BACKOFF_STEP_MS * attempt, CAS_BACKOFF_MAX_MS)));
+    }
+    throw new Error('Max retries reached');
+}
+
+/**
+ * Persist state to Match.liveState (no-op when the backend already writes there)
+ * Called at round boundaries so a restarted instance can resume the match
+ */
+export async function checkpointGameState(matchId: string, state: LiveGameState): Promise<void> {
+    if (gameStore.persistsToMatch) return;
+
     await prisma.match.update({
         where: { id: matchId },
         data: { liveState: state as unknown as object },
     });
 }
 
+/**
+ * Record a presence heartbeat for a player
+ */
+export async function touchPlayerPresence(matchId: string, playerId: string): Promise<void> {
+    await gameStore.touchPresence(matchId, playerId, Date.now());
+}
+
+/**
+ * Last heartbeat per playerId
+ */
+export async function getPlayerPresence(matchId: string): Promise<Record<string, number>> {
+    return gameStore.getPresence(matchId);
+}
+
+/**
+ * Record a presence heartbeat for a spectator
+ */
+export async function touchSpectatorPresence(matchId: string, viewerId: string): Promise<void> {
+    await gameStore.touchSpectator(matchId, viewerId, Date.now());
+}
+
+/**
+ * Spectators who sent a heartbeat within PRESENCE_TIMEOUT_MS
+ */
+export async function getSpectatorCount(matchId: string): Promise<number> {
+    return gameStore.countSpectators(matchId, Date.now() - PRESENCE_TIMEOUT_MS);
+}
+
 /**
  * Clear game state (after game ends)
  */
 export async function clearGameState(matchId: string): Promise<void> {
-    await prisma.match.update({
-        where: { id: matchId },
-        data: { liveState: null },
-    });
+    await gameStore.delete(matchId);
 }
 
 // ============================================
@@ -0,0 +1,76 @@
+/**
+ * RoundScheduler - Server-side timers for match phase transitions
+ *
+ * Each match has at most one pending timer on this instance. When it fires,
+ * GameRoom.tickMatch() re-reads the state and applies the transition if it is due.
+ *
+ * Timers are best-effort: instances can be frozen or recycled (serverless), and several
+ * instances may hold timers for the same match. Correctness comes from the transitions
+ * themselves being idempotent. Anything missed is caught by clients calling syncMatchPhase
+ * when a deadline passes, or by the round sweep (/api/cron/rounds) where it is scheduled.
+ *
+ * DEPLOYMENT: On serverless (Vercel) a match nobody is watching only moves forward if
+ * /api/cron/rounds is called every minute - not possible on the Hobby plan, so it is not in
+ * vercel.json. Set ROUND_SWEEP_SCHEDULED=true once a Pro cron or an external scheduler calls it.
+ */
+
+class RoundScheduler {
+    private timers = new Map<string, { at: number; timer: NodeJS.Timeout }>();
+    private warnedUnattended = false;
+
+    /**
+     * Schedule a tick for a match (replaces any pending tick)
+     * @param matchId - The match to tick
+     * @param at - Unix timestamp (ms) to run at (past timestamps run immediately)
+     * @param tick - Called when the timer fires
+     */
+    schedule(matchId: string, at: number, tick: () => Promise<unknown>): void {
+        const existing = this.timers.get(matchId);
+        if (existing?.at === at) return;
+
+        // Once per instance: say plainly that these timers are not enough on this deployment
+        if (!this.warnedUnattended && !canAdvanceUnattendedMatches()) {
+            this.warnedUnattended = true;
+            console.warn('⏰ [RoundScheduler] Serverless without a scheduled round sweep: matches nobody is watching will not advance (see README, ROUND_SWEEP_SCHEDULED)');
+        }
+        if (existing) clearTimeout(existing.timer);
+
+        const timer = setTimeout(() => {
+            // Only clear our own entry (a newer schedule may have replaced it)
+            if (this.timers.get(matchId)?.timer === timer) {
+                this.timers.delete(matchId);
+            }
+            tick().catch(error => {
+                console.error(`⏰ [RoundScheduler] Tick failed for match ${matchId.slice(-4)}:`, error);
+            });
+        }, Math.max(0, at - Date.now()));
+
+        this.timers.set(matchId, { at, timer });
+    }
+
+    /**
+     * Cancel the pending tick for a match (e.g. after FINISHED)
+     */
+    cancel(matchId: string): void {
+        const existing = this.timers.get(matchId);
+        if (!existing) return;
+
+        clearTimeout(existing.timer);
+        this.timers.delete(matchId);
+    }
+}
+
+/**
+ * Whether matches nobody is watching (bot exhibitions) keep moving on this deployment
+ * Long-running servers keep their timers; serverless needs the scheduled round sweep
+ */
+export function canAdvanceUnattendedMatches(): boolean {
+    return !process.env.VERCEL || process.env.ROUND_SWEEP_SCHEDULED === 'true';
+}
+
+// Global scheduler instance (survives dev hot reloads like the Prisma client)
+const globalForScheduler = globalThis as unknown as { roundScheduler: RoundScheduler };
+
+export const roundScheduler = globalForScheduler.roundScheduler || new RoundScheduler();
+
+if (process.env.NODE_ENV !== 'production') globalForScheduler.roundScheduler = roundScheduler;
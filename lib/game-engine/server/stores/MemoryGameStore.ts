@@ -0,0 +1,67 @@
+/**
+ * MemoryGameStore - Hot state kept in process memory
+ *
+ * Mirrors a Redis layout (one serialized value + version per match, CAS via
+ * WATCH/MULTI or a Lua script), so a Redis backend can implement the same interface.
+ *
+ * NOTE: Only safe for a single long-running instance. Match.liveState is written
+ * at checkpoints only (see checkpointGameState), so a restarted instance resumes
+ * from the last checkpoint.
+ */
+
+import type { GameStoreBackend, LiveGameState, VersionedGameState } from '../GameStore';
+
+interface MemoryEntry {
+    value: string;  // JSON-serialized LiveGameState (never share references with callers)
+    version: number;
+}
+
+export class MemoryGameStore implements GameStoreBackend {
+    readonly persistsToMatch = false;
+
+    private entries = new Map<string, MemoryEntry>();
+    private presence = new Map<string, Record<string, number>>();
+    private spectators = new Map<string, Record<string, number>>();
+
+    async get(matchId: string): Promise<VersionedGameState | null> {
+        const entry = this.entries.get(matchId);
+        if (!entry) return null;
+
+        return {
+            state: JSON.parse(entry.value) as LiveGameState,
+            version: entry.version,
+        };
+    }
+
+    async compareAndSet(matchId: string, expectedVersion: number, state: LiveGameState): Promise<number | null> {
+        // Missing entries count as version 0 (so hydration can CAS against 0)
+        const currentVersion = this.entries.get(matchId)?.version ?? 0;
+        if (currentVersion !== expectedVersion) return null;
+
+        const version = expectedVersion + 1;
+        this.entries.set(matchId, { value: JSON.stringify(state), version });
+        return version;
+    }
+
+    async delete(matchId: string): Promise<void> {
+        this.entries.delete(matchId);
+        this.presence.delete(matchId);
+        this.spectators.delete(matchId);
+    }
+
+    async touchPresence(matchId: string, playerId: string, at: number): Promise<void> {
+        this.presence.set(matchId, { ...this.presence.get(matchId), [playerId]: at });
+    }
+
+    async getPresence(matchId: string): Promise<Record<string, number>> {
+        return { ...this.presence.get(matchId) };
+    }
+
+    async touchSpectator(matchId: string, viewerId: string, at: number): Promise<void> {
+        this.spectators.set(matchId, { ...this.spectators.get(matchId), [viewerId]: at });
+    }
+
+    async countSpectators(matchId: string, since: number): Promise<number> {
+        return Object.values(this.spectators.get(matchId) ?? {}).filter(at => at >= since).length;
+    }
+}
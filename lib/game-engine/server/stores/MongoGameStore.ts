@@ -0,0 +1,91 @@
+/**
+ * MongoGameStore - Hot state stored directly in Match.liveState
+ *
+ * Compare-and-set uses Match.liveVersion: a single-document updateMany
+ * that only matches the expected version, so concurrent writers can't both win.
+ */
+
+import { prisma } from '@/lib/prisma';
+import type { GameStoreBackend, LiveGameState, VersionedGameState } from '../GameStore';
+
+export class MongoGameStore implements GameStoreBackend {
+    readonly persistsToMatch = true;
+
+    async get(matchId: string): Promise<VersionedGameState | null> {
+        const match = await prisma.match.findUnique({
+            where: { id: matchId },
+            select: { liveState: true, liveVersion: true },
+        });
+
+        if (!match?.liveState) return null;
+        return {
+            state: match.liveState as unknown as LiveGameState,
+            version: match.liveVersion ?? 0,
+        };
+    }
+
+    async compareAndSet(matchId: string, expectedVersion: number, state: LiveGameState): Promise<number | null> {
+        // Matches created before liveVersion existed have no value yet (treated as version 0)
+        const versionFilter = expectedVersion === 0
+            ? { OR: [{ liveVersion: 0 }, { liveVersion: { isSet: false } }, { liveVersion: null }] }
+            : { liveVersion: expectedVersion };
+
+        const result = await prisma.match.updateMany({
+            where: { id: matchId, ...versionFilter },
+            data: {
+                liveState: state as unknown as object,
+                liveVersion: expectedVersion + 1,
+            },
+        });
+
+        return result.count === 1 ? expectedVersion + 1 : null;
+    }
+
+    async delete(matchId: string): Promise<void> {
+        await prisma.match.update({
+            where: { id: matchId },
+            data: { liveState: null },
+        });
+    }
+
+    async touchPresence(matchId: string, playerId: string, at: number): Promise<void> {
+        await prisma.match.update({
+            where: { id: matchId },
+            data: {
+                players: {
+                    updateMany: {
+                        where: { playerId },
+                        data: { lastSeenAt: new Date(at) },
+                    },
+                },
+            },
+        });
+    }
+
+    async getPresence(matchId: string): Promise<Record<string, number>> {
+        const match = await prisma.match.findUnique({
+            where: { id: matchId },
+            select: { players: true },
+        });
+
+        const presence: Record<string, number> = {};
+        for (const player of match?.players ?? []) {
+            if (player.lastSeenAt) presence[player.playerId] = player.lastSeenAt.getTime();
+        }
+        return presence;
+    }
+
+    async touchSpectator(matchId: string, viewerId: string, at: number): Promise<void> {
+        await prisma.matchSpectator.upsert({
+            where: { matchId_viewerId: { matchId, viewerId } },
+            create: { matchId, viewerId, lastSeenAt: new Date(at) },
+            update: { lastSeenAt: new Date(at) },
+        });
+    }
+
+    async countSpectators(matchId: string, since: number): Promise<number> {
+        return prisma.matchSpectator.count({
+            where: { matchId, lastSeenAt: { gte: new Date(since) } },
+        });
+    }
+}
@@ -1,38 +1,44 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { useSession } from 'next-auth/react';
-import { GamePhase } from '@/types/game';
-import { getPusherClient, getMatchChannel, PUSHER_EVENTS } from '@/lib/pusher';
+import { GamePhase, HIDDEN_ANSWER } from '@/types/game';
+import { getRealtimeClient } from '@/lib/realtime/client';
+import { getMatchChannel, GAME_EVENTS } from '@/lib/realtime/channels';
+import { serverNow, syncServerClock } from '@/lib/game-engine/clockSync';
 import {
     initAndStartGameRoom,
     submitServerAnswer,
-    reportTimeout,
+    activateServerPowerUp,
+    syncMatchPhase,
+    resyncGameState,
+    reportPresence,
     getMatch,
-    performBotMove,
-    proceedToNextPhase,
 } from '@/actions/game.server';
-import type { LiveGameState, ClientGameView } from '@/lib/game-engine/server/GameStore';
+import type { LiveGameState, ClientGameView, ClientPlayerView } from '@/lib/game-engine/server/GameStore';
+import { PRESENCE_HEARTBEAT_MS } from '@/lib/config/game';
+import { getGameMode, getPlayerQuestionIndex, isPlayerActive, isTimeAttack, rankPlayers } from '@/lib/game-engine/GameModes';
+import { getActivePowerUps, getAvailablePowerUps, getPlayerDeadline, getRoundDeadline } from '@/lib/game-engine/PowerUps';
+import type { PowerUpType } from '@prisma/client';
 import type { ClientQuestion, GameSession } from '@/types/game';
 
-/** Client-side hash function (must match server) */
-function hashAnswer(answer: string): string {
-    let hash = 0;
-    for (let i = 0; i < answer.length; i++) {
-        const char = answer.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash;
-    }
-    return hash.toString(36);
-}
-
 /** Optimistic answer state for instant feedback */
 interface OptimisticAnswer {
     answer: string;
-    isCorrect: boolean;
+    isCorrect: boolean | null; // null until the server acknowledges the submission
     questionIndex: number;
 }
 
+/** Our power-ups (empty for spectators) */
+export interface PowerUpStatus {
+    available: PowerUpType[];
+    active: PowerUpType[];       // Used on the current question
+    removedOptions: string[];    // Options our 50:50 removed from the current question
+}
+
+interface UseGameClientOptions {
+    spectator?: boolean; // Watch only: never starts the room or submits answers, never sees answers early
+}
+
 interface UseGameClientReturn {
     // Transformed view (self/opponent perspective)
     view: ClientGameView | null;
@@ -43,16 +49,29 @@ interface UseGameClientReturn {
     currentQuestion: ClientQuestion | undefined;
     selfAnswered: boolean;
     opponentAnswered: boolean;
+    answeredCount: number; // Players (including self) who answered this round
+    isConnected: boolean; // Realtime connection is up
+    justReconnected: boolean; // Briefly true after recovering from a dropped connection
+    isSpectator: boolean;
+    spectatorCount: number; // Viewers with a recent heartbeat (excluding players)
+    powerUps: PowerUpStatus;
     handleAnswer: (answer: string) => Promise<void>;
-    handleTimeout: () => Promise<void>;
+    handlePowerUp: (powerUp: PowerUpType) => Promise<void>;
 }
 
+/** How long past a phase deadline before the client nudges the server scheduler */
+const STALL_GRACE_MS = 2000;
+
+/** How long the "reconnected" notice stays up */
+const RECONNECT_NOTICE_MS = 3000;
+
 /**
  * Game client hook with perspective transformation
- * Automatically detects selfPlayerId from auth session
+ * The server tells us which seat we hold (viewerPlayerId); non-players get NOT_A_PLAYER
+ * Spectators see the match from the first seat's side (left) without acting for it
  */
-export function useGameClient(matchId: string): UseGameClientReturn {
-    const { data: authSession } = useSession();
+export function useGameClient(matchId: string, options: UseGameClientOptions = {}): UseGameClientReturn {
+    const { spectator = false } = options;
     const [liveState, setLiveState] = useState<LiveGameState | null>(null);
     const [session, setSession] = useState<GameSession | null>(null);
     const [isLoading, setIsLoading] = useState(true);
@@ -61,86 +80,152 @@ export function useGameClient(matchId: string): UseGameClientReturn {
 
     const timerRef = useRef<NodeJS.Timeout | null>(null);
     const initializedRef = useRef(false);
-    const timeoutReportedRef = useRef(false);
+
+    // Highest state seq applied - older snapshots are dropped, gaps trigger a resync
+    const lastSeqRef = useRef(0);
+
+    // Connection tracking
+    const [isConnected, setIsConnected] = useState(true);
+    const [justReconnected, setJustReconnected] = useState(false);
+    const [disconnectedPlayerIds, setDisconnectedPlayerIds] = useState<string[]>([]);
+    const [spectatorCount, setSpectatorCount] = useState(0);
+
+    // Seat assigned by the server (null for spectators)
+    const [viewerPlayerId, setViewerPlayerId] = useState<string | null>(null);
+
+    // Counts this tab once among spectators (logged-in viewers are counted by user ID)
+    const [spectatorId] = useState(() =>
+        typeof crypto !== 'undefined' && 'randomUUID' in crypto
+            ? crypto.randomUUID()
+            : Math.random().toString(36).slice(2)
+    );
 
     // Optimistic answer for instant feedback
     const [optimisticAnswer, setOptimisticAnswer] = useState<OptimisticAnswer | null>(null);
 
-    // Determine selfPlayerId from session + game data
-    const selfPlayerId = useMemo(() => {
-        if (!authSession?.user?.id || !session?.players) return 'player_1'; // fallback
-        const myPlayer = session.players.find(p => p.userId === authSession.user.id);
-        return myPlayer?.playerId || 'player_1';
-    }, [authSession?.user?.id, session?.players]);
-
-    // Find opponent playerId from session
-    const opponentPlayerId = useMemo(() => {
-        if (!session) return null;
-        const opponent = session.players?.find(p => p.playerId !== selfPlayerId);
-        return opponent?.playerId || null;
-    }, [session, selfPlayerId]);
-
-    // Transform LiveGameState to ClientGameView (self/opponent perspective)
-    const view = useMemo((): ClientGameView | null => {
-        if (!liveState || !session || !opponentPlayerId) return null;
+    // Options our 50:50 removed (broadcasts redact them, only per-player responses carry them)
+    const [removedOptions, setRemovedOptions] = useState<{ questionIndex: number; options: string[] } | null>(null);
 
-        const selfPlayer = session.players?.find(p => p.playerId === selfPlayerId);
-        const opponentPlayer = session.players?.find(p => p.playerId === opponentPlayerId);
+    // Our seat, or the first seat's perspective for spectators
+    const selfPlayerId = useMemo(() => {
+        if (spectator) return session?.players[0]?.playerId ?? null;
+        return viewerPlayerId;
+    }, [spectator, viewerPlayerId, session?.players]);
 
-        if (!selfPlayer || !opponentPlayer) return null;
+    // Transform LiveGameState to ClientGameView (self vs everyone else)
+    const view = useMemo((): ClientGameView | null => {
+        if (!liveState || !session || session.players.length < 2) return null;
+
+        const gameMode = getGameMode(liveState);
+        const selfQuestionIndex = selfPlayerId
+            ? getPlayerQuestionIndex(liveState, selfPlayerId)
+            : liveState.currentQuestionIndex;
+        const isOptimistic = optimisticAnswer?.questionIndex === selfQuestionIndex;
+
+        // Live ranking by the mode's rules (final placements once FINISHED)
+        const placements = liveState.placements ?? rankPlayers(liveState);
+
+        const players: ClientPlayerView[] = [];
+        for (const player of session.players) {
+            const playerState = liveState.playerStates[player.playerId];
+            if (!playerState) return null;
+
+            const isSelf = player.playerId === selfPlayerId;
+            players.push({
+                playerId: player.playerId,
+                name: player.name,
+                avatar: player.avatar || null,
+                isBot: player.isBot,
+                score: playerState.score,
+                streak: playerState.streak,
+                maxStreak: playerState.maxStreak,
+                // Use optimistic answer for self if it matches current question
+                answer: isSelf && isOptimistic ? optimisticAnswer.answer : playerState.answer,
+                isCorrect: isSelf && isOptimistic ? optimisticAnswer.isCorrect ?? playerState.isCorrect : playerState.isCorrect,
+                lastScoreChange: playerState.lastScoreChange ?? 0,
+                placement: placements[player.playerId] ?? players.length + 1,
+                isDisconnected: disconnectedPlayerIds.includes(player.playerId),
+                lives: playerState.lives ?? null,
+                isEliminated: !isPlayerActive(playerState),
+                questionIndex: getPlayerQuestionIndex(liveState, player.playerId),
+                usedPowerUps: playerState.usedPowerUps ?? [],
+                activePowerUps: getActivePowerUps(liveState, player.playerId),
+            });
+        }
 
-        const selfState = liveState.playerStates[selfPlayerId];
-        const opponentState = liveState.playerStates[opponentPlayerId];
+        players.sort((a, b) => a.placement - b.placement);
 
-        if (!selfState || !opponentState) return null;
+        const self = players.find(p => p.playerId === selfPlayerId);
+        const opponent = players.find(p => p.playerId !== selfPlayerId);
+        if (!self || !opponent) return null;
 
         return {
             phase: liveState.phase,
-            currentQuestionIndex: liveState.currentQuestionIndex,
+            gameMode,
+            currentQuestionIndex: selfQuestionIndex,
             timeLeft,
-            self: {
-                playerId: selfPlayerId,
-                name: selfPlayer.name,
-                avatar: selfPlayer.avatar || null,
-                isBot: selfPlayer.isBot,
-                score: selfState.score,
-                streak: selfState.streak,
-                maxStreak: selfState.maxStreak,
-                // Use optimistic answer if available and matches current question
-                answer: (optimisticAnswer?.questionIndex === liveState.currentQuestionIndex)
-                    ? optimisticAnswer.answer
-                    : selfState.answer,
-                isCorrect: (optimisticAnswer?.questionIndex === liveState.currentQuestionIndex)
-                    ? optimisticAnswer.isCorrect
-                    : selfState.isCorrect,
-                lastScoreChange: selfState.lastScoreChange ?? 0,
-            },
-            opponent: {
-                playerId: opponentPlayerId,
-                name: opponentPlayer.name,
-                avatar: opponentPlayer.avatar || null,
-                isBot: opponentPlayer.isBot,
-                score: opponentState.score,
-                streak: opponentState.streak,
-                maxStreak: opponentState.maxStreak,
-                answer: opponentState.answer,
-                isCorrect: opponentState.isCorrect,
-                lastScoreChange: opponentState.lastScoreChange ?? 0,
-            },
+            self,
+            opponent,
+            players,
             correctAnswer: liveState.correctAnswer,
             winnerId: liveState.winnerId,
             endTime: liveState.endTime,
         };
-    }, [liveState, session, selfPlayerId, opponentPlayerId, timeLeft]);
+    }, [liveState, session, selfPlayerId, timeLeft, optimisticAnswer, disconnectedPlayerIds]);
 
-    // Calculate timeLeft from endTime
+    // Broadcasts redact every answer during PLAYING (including ours) -
+    // keep our own committed answer and 50:50 removals from a per-player response (e.g. after a reconnect)
+    const restoreOwnAnswer = useCallback((state: LiveGameState, viewerPlayerId?: string | null) => {
+        const own = viewerPlayerId ? state.playerStates[viewerPlayerId] : undefined;
+        if (state.phase !== GamePhase.PLAYING || !own) return;
+
+        const active = own.activePowerUps;
+        if (active && active.removedOptions.length > 0) {
+            setRemovedOptions({ questionIndex: active.questionIndex, options: active.removedOptions });
+        }
+
+        if (!own.answer || own.answer === HIDDEN_ANSWER) return;
+
+        setOptimisticAnswer({
+            answer: own.answer,
+            isCorrect: own.isCorrect,
+            questionIndex: state.currentQuestionIndex,
+        });
+    }, []);
+
+    // Apply a server state unless it is older than what we already show
+    // Returns false for stale snapshots (e.g. a slow response overtaken by a broadcast)
+    const applyState = useCallback((state: LiveGameState, viewerPlayerId?: string | null) => {
+        const seq = state.seq ?? 0;
+        if (seq < lastSeqRef.current) return false;
+
+        lastSeqRef.current = seq;
+        setLiveState(state);
+        if (viewerPlayerId !== undefined) restoreOwnAnswer(state, viewerPlayerId);
+        return true;
+    }, [restoreOwnAnswer]);
+
+    // Fetch a full snapshot after missed events (seq gap, reconnect, tab wake-up)
+    const resync = useCallback(async (reason: string) => {
+        console.log(`🔄 [Resync] ${reason}, fetching latest state...`);
+        try {
+            const result = await resyncGameState(matchId, { spectator });
+            if (result.success && result.state) {
+                applyState(result.state as LiveGameState, result.viewerPlayerId);
+            }
+        } catch (err) {
+            console.error('Resync error:', err);
+        }
+    }, [matchId, spectator, applyState]);
+
+    // Calculate timeLeft from endTime (server clock)
     const updateTimeLeft = useCallback((endTime: number) => {
-        const remaining = Math.max(0, Math.ceil((endTime - Date.now()) / 1000));
+        const remaining = Math.max(0, Math.ceil((endTime - serverNow()) / 1000));
         setTimeLeft(remaining);
         return remaining;
     }, []);
 
-    // Initialize game and subscribe to Pusher
+    // Initialize game and subscribe to the realtime channel
     useEffect(() => {
         if (!matchId || initializedRef.current) return;
         initializedRef.current = true;
@@ -148,7 +233,8 @@ export function useGameClient(matchId: string): UseGameClientReturn {
         const init = async () => {
             try {
                 // 1. Load match data for questions and player info
-                const matchResult = await getMatch(matchId);
+                // (clock sync runs alongside so the first countdown is already corrected)
+                const [matchResult] = await Promise.all([getMatch(matchId), syncServerClock()]);
                 if ('error' in matchResult) {
                     setError(matchResult.error);
                     setIsLoading(false);
@@ -156,24 +242,32 @@ export function useGameClient(matchId: string): UseGameClientReturn {
                 }
                 setSession(matchResult);
 
-                // 2. Start game room
-                const result = await initAndStartGameRoom(matchId);
+                // 2. Start game room (spectators only read - the server runs the match)
+                const result = spectator
+                    ? await resyncGameState(matchId, { spectator })
+                    : await initAndStartGameRoom(matchId);
                 if (!result.success) {
                     setError(result.error || 'Failed to start game');
                     setIsLoading(false);
                     return;
                 }
 
-                setLiveState(result.state as LiveGameState);
+                if (!spectator) setViewerPlayerId(result.viewerPlayerId ?? null);
+                applyState(result.state as LiveGameState, result.viewerPlayerId);
                 setIsLoading(false);
 
-                // 3. Subscribe to Pusher
-                const pusher = getPusherClient();
-                const channel = pusher.subscribe(getMatchChannel(matchId));
+                // 3. Subscribe to realtime updates
+                const realtime = getRealtimeClient();
+                const channel = realtime.subscribe(getMatchChannel(matchId));
+
+                channel.bind(GAME_EVENTS.STATE_UPDATE, (newState: LiveGameState) => {
+                    const seq = newState.seq ?? 0;
+                    const missed = lastSeqRef.current > 0 ? seq - lastSeqRef.current - 1 : 0;
+                    if (!applyState(newState)) return;
 
-                channel.bind(PUSHER_EVENTS.STATE_UPDATE, (newState: LiveGameState) => {
-                    setLiveState(newState);
-                    timeoutReportedRef.current = false; // Reset on new round
+                    // Broadcasts are full snapshots, but a gap means we also missed our own
+                    // per-player data (e.g. our answer acknowledged while disconnected)
+                    if (missed > 0) resync(`Missed ${missed} event(s)`);
                 });
 
             } catch (err) {
@@ -185,24 +279,91 @@ export function useGameClient(matchId: string): UseGameClientReturn {
         init();
 
         return () => {
-            const pusher = getPusherClient();
-            pusher.unsubscribe(getMatchChannel(matchId));
+            const realtime = getRealtimeClient();
+            realtime.unsubscribe(getMatchChannel(matchId));
+        };
+    }, [matchId, spectator, applyState, resync]);
+
+    // Connection tracking - resync once the realtime connection comes back
+    useEffect(() => {
+        if (!matchId) return;
+
+        let wasDisconnected = false;
+        let noticeTimer: NodeJS.Timeout | null = null;
+
+        const unsubscribe = getRealtimeClient().onConnectionChange((connected) => {
+            if (!connected) {
+                if (!wasDisconnected) console.log('📡 [Connection] Lost realtime connection');
+                wasDisconnected = true;
+                setIsConnected(false);
+                return;
+            }
+
+            setIsConnected(true);
+            if (!wasDisconnected) return;
+            wasDisconnected = false;
+
+            // The network path may have changed - re-estimate the clock offset as well
+            syncServerClock().then(() => resync('Reconnected'));
+            setJustReconnected(true);
+            if (noticeTimer) clearTimeout(noticeTimer);
+            noticeTimer = setTimeout(() => setJustReconnected(false), RECONNECT_NOTICE_MS);
+        });
+
+        return () => {
+            unsubscribe();
+            if (noticeTimer) clearTimeout(noticeTimer);
+        };
+    }, [matchId, resync]);
+
+    // Presence heartbeat - tells the server we are here, learns who went quiet,
+    // and catches missed events even when the realtime connection looks healthy
+    const isFinished = liveState?.phase === GamePhase.FINISHED;
+    useEffect(() => {
+        if (!matchId || isLoading || isFinished) return;
+
+        const heartbeat = async () => {
+            try {
+                const result = await reportPresence(matchId, spectator ? spectatorId : undefined);
+                if (!result.success) return;
+
+                setSpectatorCount(result.spectatorCount ?? 0);
+                setDisconnectedPlayerIds(prev => {
+                    const next = result.disconnectedPlayerIds ?? [];
+                    return prev.join(',') === next.join(',') ? prev : next;
+                });
+                if ((result.seq ?? 0) > lastSeqRef.current) {
+                    resync(`Server is at seq ${result.seq}, we have ${lastSeqRef.current}`);
+                }
+            } catch (err) {
+                console.error('Presence heartbeat error:', err);
+            }
         };
-    }, [matchId]);
 
-    // Timer effect - update timeLeft from endTime
+        heartbeat();
+        const interval = setInterval(heartbeat, PRESENCE_HEARTBEAT_MS);
+        return () => clearInterval(interval);
+    }, [matchId, spectator, spectatorId, isLoading, isFinished, resync]);
+
+    // Our own deadline (a time freeze extends it), the round's end for spectators
+    const phase = liveState?.phase;
+    const deadline = liveState
+        ? (!spectator && selfPlayerId ? getPlayerDeadline(liveState, selfPlayerId) : liveState.endTime)
+        : 0;
+
+    // Timer effect - update timeLeft from the deadline
     useEffect(() => {
-        if (!liveState || liveState.phase !== GamePhase.PLAYING || !liveState.endTime) {
+        if (phase !== GamePhase.PLAYING || !deadline) {
             if (timerRef.current) clearInterval(timerRef.current);
             return;
         }
 
         // Initial update
-        updateTimeLeft(liveState.endTime);
+        updateTimeLeft(deadline);
 
         // Update every 100ms for smooth countdown
         timerRef.current = setInterval(() => {
-            const remaining = updateTimeLeft(liveState.endTime);
+            const remaining = updateTimeLeft(deadline);
             if (remaining <= 0) {
                 if (timerRef.current) clearInterval(timerRef.current);
             }
@@ -211,28 +372,16 @@ export function useGameClient(matchId: string): UseGameClientReturn {
         return () => {
             if (timerRef.current) clearInterval(timerRef.current);
         };
-    }, [liveState?.phase, liveState?.endTime, updateTimeLeft]);
+    }, [phase, deadline, updateTimeLeft]);
 
     // Visibility change detection - sync state when tab becomes visible
+    // (background tabs throttle timers and may have dropped realtime events)
     useEffect(() => {
         if (!matchId) return;
 
-        const handleVisibilityChange = async () => {
+        const handleVisibilityChange = () => {
             if (document.visibilityState === 'visible') {
-                console.log('👁️ [Visibility] Tab became visible, syncing state...');
-                try {
-                    // Re-fetch latest state when tab becomes visible
-                    const result = await initAndStartGameRoom(matchId);
-                    if (result.success && result.state) {
-                        setLiveState(result.state as LiveGameState);
-                        // Also update timeLeft immediately
-                        if (result.state.endTime) {
-                            updateTimeLeft(result.state.endTime);
-                        }
-                    }
-                } catch (err) {
-                    console.error('Visibility sync error:', err);
-                }
+                resync('Tab became visible');
             }
         };
 
@@ -241,114 +390,104 @@ export function useGameClient(matchId: string): UseGameClientReturn {
         return () => {
             document.removeEventListener('visibilitychange', handleVisibilityChange);
         };
-    }, [matchId, updateTimeLeft]);
-
-    // Handle timeout
-    const handleTimeout = useCallback(async () => {
-        if (timeoutReportedRef.current) return;
-        timeoutReportedRef.current = true;
-
-        try {
-            await reportTimeout(matchId);
-        } catch (err) {
-            console.error('Timeout report error:', err);
-        }
-    }, [matchId]);
-
-    // Auto-report timeout when timeLeft reaches 0
-    // player_1 reports immediately, player_2 waits 1.5s as fallback (in case player_1 is offline)
+    }, [matchId, resync]);
+
+    // Stall detection - the server scheduler drives every phase transition.
+    // If no update arrives shortly after a deadline (e.g. the serverless instance holding
+    // the timer was frozen), ask the server to tick. The server re-checks the deadline itself.
+    const roundDeadline = liveState ? getRoundDeadline(liveState) : 0;
+    const currentQuestionIndex = liveState?.currentQuestionIndex;
+    const resolvingEndTime = liveState?.resolvingEndTime;
     useEffect(() => {
-        if (timeLeft <= 0 && liveState?.phase === GamePhase.PLAYING) {
-            if (selfPlayerId === 'player_1') {
-                // Leader: report immediately
-                handleTimeout();
-            } else {
-                // Fallback: wait 1.5 seconds before reporting (gives player_1 time to report first)
-                const fallbackTimer = setTimeout(() => {
-                    // Only report if still in PLAYING phase (player_1 didn't report)
-                    if (liveState?.phase === GamePhase.PLAYING) {
-                        console.log('⏰ [Fallback] Player2 reporting timeout (player_1 may be offline)');
-                        handleTimeout();
-                    }
-                }, 1500);
-                return () => clearTimeout(fallbackTimer);
+        const dueAt = phase === GamePhase.PLAYING
+            ? roundDeadline
+            : phase === GamePhase.RESOLVING
+                ? resolvingEndTime ?? 0
+                : null;
+        if (dueAt === null) return;
+
+        const stallTimer = setTimeout(async () => {
+            console.log(`⏰ [Stall] No update after ${phase} deadline (question ${currentQuestionIndex}), syncing...`);
+            try {
+                const result = await syncMatchPhase(matchId, { spectator });
+                if (result.success && result.state) {
+                    applyState(result.state as LiveGameState);
+                }
+            } catch (err) {
+                console.error('Phase sync error:', err);
             }
-        }
-    }, [timeLeft, liveState?.phase, handleTimeout, selfPlayerId]);
+        }, Math.max(0, dueAt - serverNow()) + STALL_GRACE_MS);
 
-    // Submit answer with instant feedback via hash comparison
+        return () => clearTimeout(stallTimer);
+    }, [phase, currentQuestionIndex, roundDeadline, resolvingEndTime, matchId, spectator, applyState]);
+
+    // Submit answer - the selection shows right away, correctness only once the server has committed it
     const handleAnswer = useCallback(async (answer: string) => {
-        if (!liveState || liveState.phase !== GamePhase.PLAYING || !session) return;
+        if (spectator || !selfPlayerId || !liveState || liveState.phase !== GamePhase.PLAYING || !session) return;
 
-        // Get current question
-        const currentQ = session.questions[liveState.currentQuestionIndex];
+        // Get current question (time attack: our own, everyone else shares one)
+        const questionIndex = getPlayerQuestionIndex(liveState, selfPlayerId);
+        const currentQ = session.questions[questionIndex];
         if (!currentQ) return;
 
-        // 1. Calculate response time locally (immune to network latency)
-        const responseTimeMs = liveState.endTime - Date.now();
-        const actualResponseTime = Math.max(0, 15000 - responseTimeMs); // 15s - remaining time
-
-        // 2. Instant verification using hash (0ms delay!)
-        const answerHash = hashAnswer(answer);
-        const correctHash = session.correctAnswerHashes[currentQ.id];
-        const isCorrect = answerHash === correctHash;
-
-        // 3. Optimistic update for instant UI feedback
-        setOptimisticAnswer({
-            answer,
-            isCorrect,
-            questionIndex: liveState.currentQuestionIndex,
-        });
+        // 1. Calculate response time locally on the server clock (immune to network latency)
+        // Time attack counts from when we got this question, other modes from the round start
+        const selfState = liveState.playerStates[selfPlayerId];
+        const actualResponseTime = isTimeAttack(getGameMode(liveState))
+            ? Math.max(0, serverNow() - (selfState?.questionStartedAt ?? serverNow()))
+            : Math.max(0, session.rules.timePerQuestionSec * 1000 - (liveState.endTime - serverNow())); // time limit - remaining time
 
-        console.log(`⚡ [Instant] Answer ${answer} is ${isCorrect ? 'correct ✓' : 'wrong ✗'}, responseTime=${actualResponseTime}ms`);
+        // 2. Optimistic update - show the selection instantly, correctness comes with the ack
+        setOptimisticAnswer({ answer, isCorrect: null, questionIndex });
 
-        // 4. Submit to server in background (with client-calculated response time)
-        submitServerAnswer(matchId, selfPlayerId, answer, actualResponseTime).catch(err => {
+        // 3. Submit to server (with client-calculated response time)
+        // The ack reveals correctness only after the answer is committed
+        try {
+            const result = await submitServerAnswer(matchId, selfPlayerId, answer, actualResponseTime, questionIndex);
+            if (result.success && typeof result.isCorrect === 'boolean') {
+                const isCorrect = result.isCorrect;
+                console.log(`⚡ [Ack] Answer ${answer} is ${isCorrect ? 'correct ✓' : 'wrong ✗'}, responseTime=${actualResponseTime}ms`);
+                setOptimisticAnswer(prev =>
+                    prev?.questionIndex === questionIndex ? { ...prev, isCorrect } : prev
+                );
+            }
+        } catch (err) {
             console.error('Submit answer error:', err);
-        });
-    }, [matchId, selfPlayerId, liveState?.phase, liveState?.currentQuestionIndex, liveState?.endTime, session]);
-
-    // NEW: Client-driven bot triggering
-    const opponentState = liveState?.playerStates[opponentPlayerId || ''];
-
-    useEffect(() => {
-        if (!liveState || liveState.phase !== GamePhase.PLAYING || !session) return;
-
-        const opponent = session.players.find(p => p.playerId === opponentPlayerId);
-        if (opponent?.isBot && opponentState?.answer === null) {
-            // It's a bot's turn and it hasn't answered yet
-            console.log('🤖 [Client] Triggering bot move for', opponent.playerId);
-            performBotMove(
-                matchId,
-                opponent.playerId,
-                liveState.currentQuestionIndex,
-                opponent.botModel || undefined
-            ).catch(err => console.error('Bot trigger error:', err));
         }
-    }, [liveState?.phase, liveState?.currentQuestionIndex, session, opponentPlayerId, opponentState?.answer, matchId]);
+    }, [matchId, spectator, selfPlayerId, liveState, session]);
 
-    // NEW: Client-driven phase transition (RESOLVING -> PLAYING/FINISHED)
-    useEffect(() => {
-        if (!liveState || liveState.phase !== GamePhase.RESOLVING) return;
+    // Spend a power-up on our current question - the server validates it and answers with our own view
+    const handlePowerUp = useCallback(async (powerUp: PowerUpType) => {
+        if (spectator || !selfPlayerId || !liveState || liveState.phase !== GamePhase.PLAYING) return;
 
-        // Advance after 2 seconds (matching RESOLVING_DURATION)
-        const advanceTimer = setTimeout(async () => {
-            console.log('➡️ [Client] Advancing to next phase...');
-            try {
-                await proceedToNextPhase(matchId);
-            } catch (err) {
-                console.error('Phase advance error:', err);
+        const questionIndex = getPlayerQuestionIndex(liveState, selfPlayerId);
+        try {
+            const result = await activateServerPowerUp(matchId, selfPlayerId, powerUp, questionIndex);
+            if (result.success && result.state) {
+                applyState(result.state as LiveGameState, selfPlayerId);
+            } else {
+                console.warn(`🎒 [PowerUp] ${powerUp} rejected: ${result.error}`);
             }
-        }, 2000);
-
-        return () => clearTimeout(advanceTimer);
-    }, [liveState?.phase, liveState?.currentQuestionIndex, matchId]);
+        } catch (err) {
+            console.error('Power-up error:', err);
+        }
+    }, [matchId, spectator, selfPlayerId, liveState, applyState]);
 
-    // Derived values
-    const currentQuestion = session?.questions[liveState?.currentQuestionIndex ?? 0];
+    // Derived values (undefined once a time attack player has answered every question)
+    const currentQuestion = session?.questions[view?.currentQuestionIndex ?? liveState?.currentQuestionIndex ?? 0];
     // Check for explicit answer (not null, not undefined, and NOT empty string which means timeout)
     const selfAnswered = !!view?.self?.answer;
     const opponentAnswered = !!view?.opponent?.answer;
+    const answeredCount = view?.players.filter(p => !!p.answer && !p.isEliminated).length ?? 0;
+
+    const selfState = !spectator && selfPlayerId ? liveState?.playerStates[selfPlayerId] : undefined;
+    const powerUps: PowerUpStatus = {
+        available: selfState ? getAvailablePowerUps(selfState) : [],
+        active: selfState ? view?.self.activePowerUps ?? [] : [],
+        removedOptions: removedOptions && removedOptions.questionIndex === view?.currentQuestionIndex
+            ? removedOptions.options
+            : [],
+    };
 
     return {
         view,
@@ -359,7 +498,13 @@ export function useGameClient(matchId: string): UseGameClientReturn {
         currentQuestion,
         selfAnswered,
         opponentAnswered,
+        answeredCount,
+        isConnected,
+        justReconnected,
+        isSpectator: spectator,
+        spectatorCount,
+        powerUps,
         handleAnswer,
-        handleTimeout,
+        handlePowerUp,
     };
 }
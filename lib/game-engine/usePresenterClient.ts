@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { GamePhase, HIDDEN_ANSWER } from '@/types/game';
+import { getRealtimeClient } from '@/lib/realtime/client';
+import { getMatchChannel, getRoomChannel, GAME_EVENTS, ROOM_EVENTS } from '@/lib/realtime/channels';
+import { serverNow, syncServerClock } from '@/lib/game-engine/clockSync';
+import { resyncGameState, reportPresence, submitServerAnswer } from '@/actions/game.server';
+import { getPresenterSession, getPresenterAnswers, type PresenterSession } from '@/actions/presenter.server';
+import { countAnswers, getPresenterTimeLeftMs, type AnswerDistribution } from '@/lib/game-engine/PresenterMode';
+import type { LiveGameState } from '@/lib/game-engine/server/GameStore';
+import { PRESENCE_HEARTBEAT_MS } from '@/lib/config/game';
+import type { MatchPlayer } from '@prisma/client';
+
+interface UsePresenterClientReturn {
+    session: PresenterSession | null;
+    state: LiveGameState | null;   // Null while the session is still waiting for students
+    players: MatchPlayer[];        // Live roster (students joining and leaving before the start)
+    isLoading: boolean;
+    error: string | null;          // SESSION_NOT_FOUND, SESSION_CANCELLED, NOT_IN_SESSION, KICKED ...
+    timeLeftMs: number;
+    distribution: AnswerDistribution | null;  // Current question (live for the host, from RESOLVING for students)
+    ownAnswer: string | null;      // Student's answer to the current question
+    applyState: (state: LiveGameState) => void;
+    submitAnswer: (answer: string) => Promise<void>;
+}
+
+/**
+ * Client for both sides of a presenter session
+ * - Host (big screen): roster, unredacted answer counts while a round runs
+ * - Student (answer pad): own answer to the current question
+ * Pacing comes from the host's actions; everyone follows the match channel's state broadcasts
+ */
+export function usePresenterClient(matchId: string, userId?: string): UsePresenterClientReturn {
+    const [session, setSession] = useState<PresenterSession | null>(null);
+    const [state, setState] = useState<LiveGameState | null>(null);
+    const [players, setPlayers] = useState<MatchPlayer[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [timeLeftMs, setTimeLeftMs] = useState(0);
+    const [liveDistribution, setLiveDistribution] = useState<AnswerDistribution | null>(null);
+    const [submitted, setSubmitted] = useState<{ questionIndex: number; answer: string } | null>(null);
+
+    // Highest state seq applied - older snapshots are dropped, gaps trigger a resync
+    const lastSeqRef = useRef(0);
+
+    const isHost = session?.role === 'host';
+    const viewerPlayerId = session?.viewerPlayerId ?? null;
+
+    const applyState = useCallback((next: LiveGameState) => {
+        const seq = next.seq ?? 0;
+        if (seq < lastSeqRef.current) return;
+        lastSeqRef.current = seq;
+        setState(next);
+    }, []);
+
+    const resync = useCallback(async (reason: string) => {
+        console.log(`🔄 [Presenter] ${reason}, fetching latest state...`);
+        try {
+            const result = await resyncGameState(matchId);
+            if (result.success && result.state) applyState(result.state as LiveGameState);
+        } catch (err) {
+            console.error('Resync error:', err);
+        }
+    }, [matchId, applyState]);
+
+    // (Re)load the session - on mount and once the host starts
+    const load = useCallback(async () => {
+        try {
+            const [result] = await Promise.all([getPresenterSession(matchId), syncServerClock()]);
+            if ('error' in result) {
+                setError(result.error);
+                return;
+            }
+            setSession(result);
+            setPlayers(result.players);
+            if (result.state) applyState(result.state);
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [matchId, applyState]);
+
+    // Subscribe to the room (roster, start) and match (state) channels
+    useEffect(() => {
+        if (!matchId) return;
+        load();
+
+        const realtime = getRealtimeClient();
+        const room = realtime.subscribe(getRoomChannel(matchId));
+        const game = realtime.subscribe(getMatchChannel(matchId));
+
+        room.bind(ROOM_EVENTS.PLAYER_JOINED, (data: { player: MatchPlayer }) => {
+            setPlayers(prev => prev.some(p => p.playerId === data.player.playerId) ? prev : [...prev, data.player]);
+        });
+        room.bind(ROOM_EVENTS.GUEST_LEFT, (data: { playerId?: string }) => {
+            setPlayers(prev => prev.filter(p => p.playerId !== data.playerId));
+        });
+        room.bind(ROOM_EVENTS.PLAYER_KICKED, (data: { playerId: string; userId: string | null }) => {
+            setPlayers(prev => prev.filter(p => p.playerId !== data.playerId));
+            if (userId && data.userId === userId) setError('KICKED');
+        });
+        room.bind(ROOM_EVENTS.HOST_LEFT, () => setError('SESSION_CANCELLED'));
+        room.bind(ROOM_EVENTS.GAME_STARTED, () => load());
+
+        game.bind(GAME_EVENTS.STATE_UPDATE, (next: LiveGameState) => {
+            const seq = next.seq ?? 0;
+            const missed = lastSeqRef.current > 0 ? seq - lastSeqRef.current - 1 : 0;
+            applyState(next);
+            if (missed > 0) resync(`Missed ${missed} event(s)`);
+        });
+
+        return () => {
+            realtime.unsubscribe(getRoomChannel(matchId));
+            realtime.unsubscribe(getMatchChannel(matchId));
+        };
+    }, [matchId, userId, load, applyState, resync]);
+
+    // Presence heartbeat - catches missed broadcasts even when the connection looks healthy
+    const isRunning = !!state && state.phase !== GamePhase.FINISHED;
+    useEffect(() => {
+        if (!isRunning) return;
+
+        const heartbeat = async () => {
+            try {
+                const result = await reportPresence(matchId);
+                if (result.success && (result.seq ?? 0) > lastSeqRef.current) {
+                    resync(`Server is at seq ${result.seq}, we have ${lastSeqRef.current}`);
+                }
+            } catch (err) {
+                console.error('Presence heartbeat error:', err);
+            }
+        };
+
+        const interval = setInterval(heartbeat, PRESENCE_HEARTBEAT_MS);
+        return () => clearInterval(interval);
+    }, [matchId, isRunning, resync]);
+
+    // Countdown (stands still while the host has paused)
+    useEffect(() => {
+        if (!state || state.phase !== GamePhase.PLAYING) {
+            setTimeLeftMs(0);
+            return;
+        }
+
+        const update = () => setTimeLeftMs(getPresenterTimeLeftMs(state, serverNow()));
+        update();
+        const interval = setInterval(update, 100);
+        return () => clearInterval(interval);
+    }, [state]);
+
+    // Host: broadcasts hide answers during PLAYING - fetch the live counts on every update
+    useEffect(() => {
+        if (!isHost || state?.phase !== GamePhase.PLAYING) return;
+
+        let cancelled = false;
+        getPresenterAnswers(matchId).then(result => {
+            if (!cancelled) setLiveDistribution(result);
+        });
+        return () => { cancelled = true; };
+    }, [matchId, isHost, state]);
+
+    const distribution = useMemo(() => {
+        if (!state || state.phase === GamePhase.READY) return null;
+        if (state.phase !== GamePhase.PLAYING) return countAnswers(state);
+        return isHost && liveDistribution?.questionIndex === state.currentQuestionIndex ? liveDistribution : null;
+    }, [state, isHost, liveDistribution]);
+
+    // Broadcasts redact our own answer too - keep what we submitted for this question
+    const ownAnswer = useMemo(() => {
+        if (!state || !viewerPlayerId) return null;
+        const answer = state.playerStates[viewerPlayerId]?.answer ?? null;
+        if (answer && answer !== HIDDEN_ANSWER) return answer;
+        return submitted?.questionIndex === state.currentQuestionIndex ? submitted.answer : null;
+    }, [state, viewerPlayerId, submitted]);
+
+    const submitAnswer = useCallback(async (answer: string) => {
+        if (!session || !viewerPlayerId || !state || state.phase !== GamePhase.PLAYING || ownAnswer) return;
+
+        const questionIndex = state.currentQuestionIndex;
+        const responseTimeMs = Math.max(0, session.rules.timePerQuestionSec * 1000 - getPresenterTimeLeftMs(state, serverNow()));
+        setSubmitted({ questionIndex, answer });
+
+        try {
+            const result = await submitServerAnswer(matchId, viewerPlayerId, answer, responseTimeMs, questionIndex);
+            if (!result.success) {
+                // e.g. the host paused or ended the round first - let the student try again
+                console.warn(`📝 [Presenter] Answer rejected: ${result.error}`);
+                setSubmitted(prev => prev?.questionIndex === questionIndex ? null : prev);
+            }
+        } catch (err) {
+            console.error('Submit answer error:', err);
+            setSubmitted(prev => prev?.questionIndex === questionIndex ? null : prev);
+        }
+    }, [matchId, session, viewerPlayerId, state, ownAnswer]);
+
+    return {
+        session,
+        state,
+        players,
+        isLoading,
+        error,
+        timeLeftMs,
+        distribution,
+        ownAnswer,
+        applyState,
+        submitAnswer,
+    };
+}
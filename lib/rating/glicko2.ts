@@ -0,0 +1,126 @@
+/**
+ * Glicko-2 rating update (Glickman, "Example of the Glicko-2 system")
+ *
+ * Pure math, no I/O. A rating period is a list of game results against opponents whose
+ * ratings are taken from before the period - ratings.ts runs one period per match.
+ */
+
+import { DEFAULT_RATING, DEVIATION_RANGE, RATING_TAU } from '@/lib/config/rating'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface Glicko2Rating {
+    rating: number
+    deviation: number
+    volatility: number
+}
+
+export interface Glicko2Result {
+    opponent: Pick<Glicko2Rating, 'rating' | 'deviation'>
+    score: number  // 1 = win, 0.5 = draw, 0 = loss
+}
+
+/** Conversion between the Glicko and Glicko-2 scales */
+const SCALE = 173.7178
+
+/** Convergence tolerance for the volatility iteration */
+const EPSILON = 0.000001
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Update
+// ─────────────────────────────────────────────────────────────────────────────
+
+function g(phi: number): number {
+    return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI))
+}
+
+function expectedScore(mu: number, opponentMu: number, opponentPhi: number): number {
+    return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)))
+}
+
+/**
+ * New volatility (step 5, Illinois algorithm)
+ */
+function updateVolatility(phi: number, sigma: number, delta: number, v: number): number {
+    const a = Math.log(sigma * sigma)
+    const f = (x: number) => {
+        const ex = Math.exp(x)
+        const denominator = phi * phi + v + ex
+        return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denominator * denominator) - (x - a) / (RATING_TAU * RATING_TAU)
+    }
+
+    let A = a
+    let B: number
+    if (delta * delta > phi * phi + v) {
+        B = Math.log(delta * delta - phi * phi - v)
+    } else {
+        let k = 1
+        while (f(a - k * RATING_TAU) < 0) k++
+        B = a - k * RATING_TAU
+    }
+
+    let fA = f(A)
+    let fB = f(B)
+    while (Math.abs(B - A) > EPSILON) {
+        const C = A + ((A - B) * fA) / (fB - fA)
+        const fC = f(C)
+        if (fC * fB <= 0) {
+            A = B
+            fA = fB
+        } else {
+            fA = fA / 2
+        }
+        B = C
+        fB = fC
+    }
+
+    return Math.exp(A / 2)
+}
+
+/**
+ * Rate one period
+ * @returns The new rating (only the deviation grows when there are no results)
+ */
+export function updateGlicko2(player: Glicko2Rating, results: Glicko2Result[]): Glicko2Rating {
+    const mu = (player.rating - DEFAULT_RATING) / SCALE
+    const phi = player.deviation / SCALE
+    const sigma = player.volatility
+
+    const clampDeviation = (deviation: number) =>
+        Math.min(DEVIATION_RANGE.max, Math.max(DEVIATION_RANGE.min, deviation))
+
+    if (results.length === 0) {
+        return {
+            ...player,
+            deviation: clampDeviation(Math.sqrt(phi * phi + sigma * sigma) * SCALE),
+        }
+    }
+
+    // Steps 3-4: estimated variance and improvement
+    let varianceSum = 0
+    let improvementSum = 0
+    for (const { opponent, score } of results) {
+        const opponentMu = (opponent.rating - DEFAULT_RATING) / SCALE
+        const opponentPhi = opponent.deviation / SCALE
+        const expected = expectedScore(mu, opponentMu, opponentPhi)
+
+        varianceSum += g(opponentPhi) ** 2 * expected * (1 - expected)
+        improvementSum += g(opponentPhi) * (score - expected)
+    }
+    const v = 1 / varianceSum
+    const delta = v * improvementSum
+
+    // Steps 5-7: volatility, pre-period deviation, new deviation and rating
+    const newSigma = updateVolatility(phi, sigma, delta, v)
+    const phiStar = Math.sqrt(phi * phi + newSigma * newSigma)
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v)
+    const newMu = mu + newPhi * newPhi * improvementSum
+
+    return {
+        rating: newMu * SCALE + DEFAULT_RATING,
+        deviation: clampDeviation(newPhi * SCALE),
+        volatility: newSigma,
+    }
+}
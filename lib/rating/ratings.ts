@@ -0,0 +1,197 @@
+/**
+ * Ratings - Per-language Glicko-2 skill ratings, updated when a match finishes
+ *
+ * Every finished match is one rating period for each player with a User (humans and LLM bots):
+ * - Every other player is an opponent - placements decide the pairwise results (ahead = win, shared = draw)
+ * - Opponent ratings are read before the match, so the order players are updated in does not matter
+ * - Rule bots are never rated (their User included) - they count as opponents at a fixed rating (RULE_BOT_RATINGS)
+ * - Logged-out guests are neither rated nor counted as opponents (their strength is unknown)
+ * - Presenter sessions (classroom quizzes) are not rated
+ * - RatingHistory is unique per match and player, so a match is never rated twice
+ * - The same results also update the current season's ladder rating (SeasonRating, see ./seasons)
+ */
+
+import { prisma } from '@/lib/prisma'
+import { MatchMode, MatchStatus, type MatchPlayer, type PlayerRating, type SeasonRating } from '@prisma/client'
+import {
+    DEFAULT_RATING,
+    DEFAULT_DEVIATION,
+    DEFAULT_VOLATILITY,
+    RULE_BOT_RATINGS,
+    RULE_BOT_DEVIATION,
+} from '@/lib/config/rating'
+import { DEFAULT_RULE_BOT_MODEL, isRuleBotModel } from '@/lib/config/bot'
+import { updateGlicko2, type Glicko2Rating, type Glicko2Result } from './glicko2'
+import { ensureCurrentSeason, getSeasonSeed } from './seasons'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toGlicko2(rating: PlayerRating | SeasonRating | null): Glicko2Rating {
+    return rating
+        ? { rating: rating.rating, deviation: rating.deviation, volatility: rating.volatility }
+        : { rating: DEFAULT_RATING, deviation: DEFAULT_DEVIATION, volatility: DEFAULT_VOLATILITY }
+}
+
+/**
+ * Rule bots are anchors - their strength is fixed, so they never get a rating of their own
+ */
+function isRuleBot(player: MatchPlayer): boolean {
+    return player.isBot && (isRuleBotModel(player.botModel) || !player.userId)
+}
+
+/**
+ * Rating an opponent is played against (null = not counted)
+ * getRating looks up the pre-match rating of a user (all-time or season ladder)
+ */
+function getOpponentRating(
+    opponent: MatchPlayer,
+    getRating: (userId: string) => Glicko2Rating
+): Pick<Glicko2Rating, 'rating' | 'deviation'> | null {
+    if (isRuleBot(opponent)) {
+        const rating = RULE_BOT_RATINGS[opponent.botModel ?? DEFAULT_RULE_BOT_MODEL] ?? RULE_BOT_RATINGS[DEFAULT_RULE_BOT_MODEL]
+        return { rating, deviation: RULE_BOT_DEVIATION }
+    }
+    if (opponent.userId) {
+        return getRating(opponent.userId)
+    }
+    return null
+}
+
+/**
+ * One result per opponent, from the final placements
+ */
+function getMatchResults(
+    player: MatchPlayer,
+    players: MatchPlayer[],
+    getRating: (userId: string) => Glicko2Rating
+): Glicko2Result[] {
+    const results: Glicko2Result[] = []
+    for (const opponent of players) {
+        if (opponent.playerId === player.playerId || opponent.placement === null || player.placement === null) continue
+
+        const rating = getOpponentRating(opponent, getRating)
+        if (!rating) continue
+
+        const score = player.placement < opponent.placement ? 1 : player.placement === opponent.placement ? 0.5 : 0
+        results.push({ opponent: rating, score })
+    }
+    return results
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Update
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Rate a finished match for every player with a User (rule bots excepted)
+ * Called by finishGame; safe to call again (already rated players are skipped)
+ */
+export async function updateMatchRatings(matchId: string): Promise<void> {
+    const match = await prisma.match.findUnique({
+        where: { id: matchId },
+        select: { status: true, mode: true, targetLanguage: true, players: true, winnerId: true, endedAt: true },
+    })
+    if (!match || match.status !== MatchStatus.finished || match.mode === MatchMode.presenter) return
+
+    const targetLanguage = match.targetLanguage
+    const ratedUserIds = match.players.flatMap(p => p.userId && p.placement !== null && !isRuleBot(p) ? [p.userId] : [])
+    if (ratedUserIds.length === 0) return
+
+    // Ratings before the match (players without one start at the defaults)
+    const ratings = await prisma.playerRating.findMany({
+        where: { targetLanguage, userId: { in: ratedUserIds } },
+    })
+    const getRating = (userId: string) => toGlicko2(ratings.find(r => r.userId === userId) ?? null)
+
+    // Season ladder ratings before the match (first season match = soft reset of the all-time rating)
+    const season = await ensureCurrentSeason()
+    const seasonRatings = await prisma.seasonRating.findMany({
+        where: { seasonId: season.id, targetLanguage, userId: { in: ratedUserIds } },
+    })
+    const getSeasonRating = (userId: string) => {
+        const seasonRating = seasonRatings.find(r => r.userId === userId)
+        return seasonRating
+            ? toGlicko2(seasonRating)
+            : getSeasonSeed(ratings.find(r => r.userId === userId) ?? null)
+    }
+
+    for (const player of match.players) {
+        const userId = player.userId
+        if (!userId || !ratedUserIds.includes(userId)) continue
+
+        const results = getMatchResults(player, match.players, getRating)
+        if (results.length === 0) continue
+
+        // Already rated (e.g. a retried finish)
+        const rated = await prisma.ratingHistory.findUnique({
+            where: { matchId_userId: { matchId, userId } },
+            select: { id: true },
+        })
+        if (rated) continue
+
+        const current = ratings.find(r => r.userId === userId) ?? null
+        const before = toGlicko2(current)
+        const after = updateGlicko2(before, results)
+        const isWin = match.winnerId === userId
+
+        await prisma.ratingHistory.create({
+            data: {
+                userId,
+                targetLanguage,
+                matchId,
+                rating: after.rating,
+                deviation: after.deviation,
+                delta: after.rating - before.rating,
+            },
+        })
+
+        await prisma.playerRating.upsert({
+            where: { userId_targetLanguage: { userId, targetLanguage } },
+            create: {
+                userId,
+                targetLanguage,
+                ...after,
+                peakRating: Math.max(DEFAULT_RATING, after.rating),
+                matchesPlayed: 1,
+                wins: isWin ? 1 : 0,
+                lastMatchAt: match.endedAt,
+            },
+            update: {
+                ...after,
+                peakRating: Math.max(current?.peakRating ?? DEFAULT_RATING, after.rating),
+                matchesPlayed: { increment: 1 },
+                wins: { increment: isWin ? 1 : 0 },
+                lastMatchAt: match.endedAt,
+            },
+        })
+
+        const seasonBefore = getSeasonRating(userId)
+        const seasonAfter = updateGlicko2(seasonBefore, getMatchResults(player, match.players, getSeasonRating))
+        const seasonCurrent = seasonRatings.find(r => r.userId === userId)
+
+        await prisma.seasonRating.upsert({
+            where: { seasonId_userId_targetLanguage: { seasonId: season.id, userId, targetLanguage } },
+            create: {
+                seasonId: season.id,
+                userId,
+                targetLanguage,
+                ...seasonAfter,
+                peakRating: Math.max(seasonBefore.rating, seasonAfter.rating),
+                matchesPlayed: 1,
+                wins: isWin ? 1 : 0,
+                lastMatchAt: match.endedAt,
+            },
+            update: {
+                ...seasonAfter,
+                peakRating: Math.max(seasonCurrent?.peakRating ?? seasonBefore.rating, seasonAfter.rating),
+                matchesPlayed: { increment: 1 },
+                wins: { increment: isWin ? 1 : 0 },
+                lastMatchAt: match.endedAt,
+            },
+        })
+
+        console.log(`📈 [Rating] ${player.name} (${targetLanguage}): ${Math.round(before.rating)} → ${Math.round(after.rating)}, season ${season.number}: ${Math.round(seasonAfter.rating)}`)
+    }
+}
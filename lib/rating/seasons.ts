@@ -0,0 +1,158 @@
+/**
+ * Seasons - Ranked seasons with a per-language ladder rating, tiers and archived standings
+ *
+ * - Seasons run back to back for SEASON_LENGTH_DAYS; the current one is created on demand
+ * - A player's first season match seeds their SeasonRating from PlayerRating by a soft reset
+ *   (halfway back to the default, with the deviation raised so it moves quickly again)
+ * - SeasonRating is updated next to PlayerRating by updateMatchRatings (lib/rating/ratings.ts)
+ * - When a season ends the placed players are ranked per language into SeasonStanding,
+ *   which keeps their final tier and title as the season-end reward
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { PlayerRating, Season } from '@prisma/client'
+import { DEFAULT_RATING, DEFAULT_DEVIATION, DEFAULT_VOLATILITY } from '@/lib/config/rating'
+import {
+    SEASON_LENGTH_DAYS,
+    SEASON_RATING_CARRYOVER,
+    SEASON_START_DEVIATION,
+    SEASON_PLACEMENT_MATCHES,
+    getLadderTier,
+    getSeasonTitle,
+} from '@/lib/config/season'
+import type { Glicko2Rating } from './glicko2'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Schedule
+// ─────────────────────────────────────────────────────────────────────────────
+
+function startOfUtcDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+async function findSeasonAt(date: Date): Promise<Season | null> {
+    return prisma.season.findFirst({
+        where: { startsAt: { lte: date }, endsAt: { gt: date } },
+        orderBy: { startsAt: 'desc' },
+    })
+}
+
+/**
+ * Season running now - starts the next one when the last has ended
+ * A new season starts where the last one ended, or today (UTC) after a gap without matches
+ */
+export async function ensureCurrentSeason(): Promise<Season> {
+    const now = new Date()
+    const current = await findSeasonAt(now)
+    if (current) return current
+
+    const latest = await prisma.season.findFirst({ orderBy: { number: 'desc' } })
+    const today = startOfUtcDay(now)
+    const startsAt = latest && latest.endsAt > today ? latest.endsAt : today
+
+    try {
+        return await prisma.season.create({
+            data: {
+                number: (latest?.number ?? 0) + 1,
+                startsAt,
+                endsAt: new Date(startsAt.getTime() + SEASON_LENGTH_DAYS * DAY_MS),
+                finalizedAt: null, // Set explicitly - the finalize claim filters on null
+            },
+        })
+    } catch (error) {
+        // Another request created it first (number is unique)
+        const created = await findSeasonAt(now)
+        if (created) return created
+        throw error
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ladder rating
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Season starting rating from the all-time rating (soft reset)
+ */
+export function getSeasonSeed(rating: PlayerRating | null): Glicko2Rating {
+    if (!rating) {
+        return { rating: DEFAULT_RATING, deviation: DEFAULT_DEVIATION, volatility: DEFAULT_VOLATILITY }
+    }
+    return {
+        rating: DEFAULT_RATING + (rating.rating - DEFAULT_RATING) * SEASON_RATING_CARRYOVER,
+        deviation: Math.max(rating.deviation, SEASON_START_DEVIATION),
+        volatility: rating.volatility,
+    }
+}
+
+export function isPlaced(matchesPlayed: number): boolean {
+    return matchesPlayed >= SEASON_PLACEMENT_MATCHES
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Season end
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Archive the final standings of every season that has ended (called by the cleanup cron)
+ * Each season is claimed by setting finalizedAt, so concurrent runs never archive it twice
+ */
+export async function finalizeEndedSeasons(): Promise<number> {
+    const ended = await prisma.season.findMany({
+        where: { endsAt: { lte: new Date() }, finalizedAt: null },
+        orderBy: { number: 'asc' },
+    })
+
+    let finalized = 0
+    for (const season of ended) {
+        const { count } = await prisma.season.updateMany({
+            where: { id: season.id, finalizedAt: null },
+            data: { finalizedAt: new Date() },
+        })
+        if (count === 0) continue
+
+        try {
+            // Leftovers of a failed attempt
+            await prisma.seasonStanding.deleteMany({ where: { seasonId: season.id } })
+
+            const ratings = await prisma.seasonRating.findMany({
+                where: { seasonId: season.id, matchesPlayed: { gte: SEASON_PLACEMENT_MATCHES } },
+                orderBy: [{ rating: 'desc' }, { matchesPlayed: 'desc' }],
+            })
+
+            const ranks = new Map<string, number>()
+            const standings = ratings.map(rating => {
+                const rank = (ranks.get(rating.targetLanguage) ?? 0) + 1
+                ranks.set(rating.targetLanguage, rank)
+                return {
+                    seasonId: season.id,
+                    userId: rating.userId,
+                    targetLanguage: rating.targetLanguage,
+                    rank,
+                    rating: rating.rating,
+                    deviation: rating.deviation,
+                    peakRating: rating.peakRating,
+                    matchesPlayed: rating.matchesPlayed,
+                    wins: rating.wins,
+                    tier: getLadderTier(rating.rating),
+                    title: getSeasonTitle(rank),
+                }
+            })
+
+            if (standings.length > 0) {
+                await prisma.seasonStanding.createMany({ data: standings })
+            }
+
+            finalized++
+            console.log(`🏅 [Season] Season ${season.number} finalized (${standings.length} standings)`)
+        } catch (error) {
+            // Release the claim so the next run retries
+            await prisma.season.update({ where: { id: season.id }, data: { finalizedAt: null } })
+            console.error(`❌ [Season] Failed to finalize season ${season.number}:`, error)
+        }
+    }
+
+    return finalized
+}
@@ -0,0 +1,56 @@
+/**
+ * LocalHub - In-process pub/sub behind the local realtime transport
+ *
+ * RealtimeServer publishes here; the SSE endpoint (/api/realtime/[channel]) subscribes
+ * and streams events to browsers. Only spans one Node process, so it suits local
+ * development, CI and single-instance deployments.
+ */
+
+export interface HubMessage {
+    event: string;
+    data: unknown;
+}
+
+type HubListener = (message: HubMessage) => void;
+
+class LocalHub {
+    private listeners = new Map<string, Set<HubListener>>();
+
+    /**
+     * Subscribe to a channel
+     * @returns Unsubscribe function
+     */
+    subscribe(channel: string, listener: HubListener): () => void {
+        const channelListeners = this.listeners.get(channel) ?? new Set<HubListener>();
+        channelListeners.add(listener);
+        this.listeners.set(channel, channelListeners);
+
+        return () => {
+            channelListeners.delete(listener);
+            if (channelListeners.size === 0 && this.listeners.get(channel) === channelListeners) {
+                this.listeners.delete(channel);
+            }
+        };
+    }
+
+    publish(channel: string, event: string, data: unknown): void {
+        const channelListeners = this.listeners.get(channel);
+        if (!channelListeners) return;
+
+        for (const listener of channelListeners) {
+            try {
+                listener({ event, data });
+            } catch (error) {
+                console.error(`📡 [LocalHub] Listener error on ${channel}:`, error);
+            }
+        }
+    }
+}
+
+// Global hub instance - always kept on globalThis so server actions and route handlers
+// (which may be bundled separately) publish and subscribe on the same hub
+const globalForHub = globalThis as unknown as { localHub?: LocalHub };
+
+if (!globalForHub.localHub) globalForHub.localHub = new LocalHub();
+
+export const localHub = globalForHub.localHub;
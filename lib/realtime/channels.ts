@@ -0,0 +1,55 @@
+/**
+ * Realtime channels and events
+ * Shared by the server (RealtimeServer) and the browser (RealtimeClient) regardless of transport
+ */
+
+/** Which transport to use: "pusher" or "local" (built-in SSE endpoint, no external service) */
+export type RealtimeTransport = 'pusher' | 'local';
+
+/**
+ * Resolve the configured transport (same value on server and client)
+ * Defaults to Pusher when a key is configured, otherwise the local transport
+ */
+export function getRealtimeTransport(): RealtimeTransport {
+    const configured = process.env.NEXT_PUBLIC_REALTIME_TRANSPORT;
+    if (configured === 'pusher' || configured === 'local') return configured;
+    return process.env.NEXT_PUBLIC_PUSHER_KEY ? 'pusher' : 'local';
+}
+
+// Match channel for battle state
+export function getMatchChannel(matchId: string): string {
+    return `match-${matchId}`;
+}
+
+// Room channel for waiting room
+export function getRoomChannel(matchId: string): string {
+    return `room-${matchId}`;
+}
+
+// Personal channel for in-app notifications (friend challenges)
+export function getUserChannel(userId: string): string {
+    return `user-${userId}`;
+}
+
+// Game event types (during battle)
+export const GAME_EVENTS = {
+    STATE_UPDATE: 'state:update',
+} as const;
+
+// Room event types (waiting room)
+export const ROOM_EVENTS = {
+    PLAYER_JOINED: 'room:player-joined',
+    START_COUNTDOWN: 'room:start-countdown', // Host initiates countdown
+    GAME_STARTING: 'room:game-starting',
+    GAME_STARTED: 'room:game-started',
+    HOST_LEFT: 'room:host-left',
+    GUEST_LEFT: 'room:guest-left', // Player2 left the room
+    PLAYER_KICKED: 'room:player-kicked', // Host removed a player (they may not rejoin)
+    TOURNAMENT_DECIDED: 'room:tournament-decided', // Tournament room decided without a game (forfeit, no-show)
+} as const;
+
+// User event types (personal notifications)
+export const USER_EVENTS = {
+    CHALLENGE_RECEIVED: 'user:challenge-received', // A friend challenged this user
+    CHALLENGE_ANSWERED: 'user:challenge-answered', // The challenged friend accepted or declined
+} as const;
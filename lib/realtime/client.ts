@@ -0,0 +1,97 @@
+/**
+ * RealtimeClient - Browser-side channel subscriptions
+ * Used by useGameClient and the waiting room
+ *
+ * Adapters:
+ * - Pusher: pusher-js
+ * - Local: EventSource on /api/realtime/[channel] (Server-Sent Events)
+ */
+
+import PusherClient from 'pusher-js';
+import { getRealtimeTransport } from './channels';
+
+export interface RealtimeChannel {
+    bind<T = unknown>(event: string, callback: (data: T) => void): void;
+}
+
+export interface RealtimeClient {
+    subscribe(channel: string): RealtimeChannel;
+    unsubscribe(channel: string): void;
+    /** Notified when the underlying connection drops or comes back; returns an unsubscribe function */
+    onConnectionChange(callback: (connected: boolean) => void): () => void;
+}
+
+class PusherRealtimeClient implements RealtimeClient {
+    private pusher = new PusherClient(
+        process.env.NEXT_PUBLIC_PUSHER_KEY!,
+        { cluster: process.env.NEXT_PUBLIC_PUSHER_CLUSTER! }
+    );
+
+    subscribe(channel: string): RealtimeChannel {
+        return this.pusher.subscribe(channel);
+    }
+
+    unsubscribe(channel: string): void {
+        this.pusher.unsubscribe(channel);
+    }
+
+    onConnectionChange(callback: (connected: boolean) => void): () => void {
+        const handler = ({ current }: { current: string }) => {
+            if (current === 'connected') callback(true);
+            else if (current === 'unavailable' || current === 'failed' || current === 'disconnected') callback(false);
+        };
+        this.pusher.connection.bind('state_change', handler);
+        return () => this.pusher.connection.unbind('state_change', handler);
+    }
+}
+
+class LocalRealtimeClient implements RealtimeClient {
+    private sources = new Map<string, EventSource>();
+    private connectionListeners = new Set<(connected: boolean) => void>();
+
+    subscribe(channel: string): RealtimeChannel {
+        let source = this.sources.get(channel);
+        if (!source) {
+            // EventSource reconnects on its own if the stream drops
+            source = new EventSource(`/api/realtime/${encodeURIComponent(channel)}`);
+            source.addEventListener('open', () => this.notifyConnection(true));
+            source.addEventListener('error', () => this.notifyConnection(false));
+            this.sources.set(channel, source);
+        }
+
+        const eventSource = source;
+        return {
+            bind<T = unknown>(event: string, callback: (data: T) => void) {
+                eventSource.addEventListener(event, (message) => {
+                    callback(JSON.parse((message as MessageEvent<string>).data) as T);
+                });
+            },
+        };
+    }
+
+    unsubscribe(channel: string): void {
+        this.sources.get(channel)?.close();
+        this.sources.delete(channel);
+    }
+
+    onConnectionChange(callback: (connected: boolean) => void): () => void {
+        this.connectionListeners.add(callback);
+        return () => this.connectionListeners.delete(callback);
+    }
+
+    private notifyConnection(connected: boolean): void {
+        this.connectionListeners.forEach(listener => listener(connected));
+    }
+}
+
+// Client-side instance (lazy initialized)
+let realtimeClientInstance: RealtimeClient | null = null;
+
+export function getRealtimeClient(): RealtimeClient {
+    if (!realtimeClientInstance) {
+        realtimeClientInstance = getRealtimeTransport() === 'pusher'
+            ? new PusherRealtimeClient()
+            : new LocalRealtimeClient();
+    }
+    return realtimeClientInstance;
+}
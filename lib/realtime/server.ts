@@ -0,0 +1,41 @@
+/**
+ * RealtimeServer - Server-side event publishing
+ * Used by GameRoom.broadcastState and the waiting-room actions
+ *
+ * Adapters:
+ * - PusherRealtimeServer: Pusher Channels (multi-instance, needs a Pusher account)
+ * - LocalRealtimeServer: in-process LocalHub streamed over SSE (no external service)
+ */
+
+import Pusher from 'pusher';
+import { getRealtimeTransport } from './channels';
+import { localHub } from './LocalHub';
+
+export interface RealtimeServer {
+    /** Publish an event to every subscriber of a channel */
+    trigger(channel: string, event: string, data: unknown): Promise<void>;
+}
+
+class PusherRealtimeServer implements RealtimeServer {
+    private pusher = new Pusher({
+        appId: process.env.PUSHER_APP_ID!,
+        key: process.env.PUSHER_KEY!,
+        secret: process.env.PUSHER_SECRET!,
+        cluster: process.env.PUSHER_CLUSTER!,
+        useTLS: true,
+    });
+
+    async trigger(channel: string, event: string, data: unknown): Promise<void> {
+        await this.pusher.trigger(channel, event, data);
+    }
+}
+
+class LocalRealtimeServer implements RealtimeServer {
+    async trigger(channel: string, event: string, data: unknown): Promise<void> {
+        localHub.publish(channel, event, data);
+    }
+}
+
+export const realtimeServer: RealtimeServer = getRealtimeTransport() === 'pusher'
+    ? new PusherRealtimeServer()
+    : new LocalRealtimeServer();
@@ -0,0 +1,192 @@
+/**
+ * Tournament pairing - bracket seeding, Swiss pairing and standings
+ *
+ * Pure logic, no I/O. tournaments.ts stores the pairings and feeds the decided ones back in
+ * as PairingOutcome to pair the next Swiss round and to compute the final standings.
+ */
+
+import { TOURNAMENT_POINTS } from '@/lib/config/tournament'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A decided pairing (winnerId null and no draw: both players lost, e.g. a double no-show) */
+export interface PairingOutcome {
+    round: number
+    player1Id: string | null
+    player2Id: string | null
+    winnerId: string | null
+    isDraw: boolean
+}
+
+export interface SeededEntrant {
+    userId: string
+    seed: number  // 1 = strongest
+}
+
+export interface TournamentStanding {
+    userId: string
+    seed: number
+    points: number     // Swiss: match points, single elimination: wins
+    buchholz: number   // Sum of the opponents' points (Swiss tie-break)
+    placement: number  // Shared when the standings cannot separate players
+}
+
+/** Exactly one player - a bye (in single elimination also a walkover from an empty feeder) */
+function isBye(outcome: PairingOutcome): boolean {
+    return !outcome.player1Id !== !outcome.player2Id
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Single elimination
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Smallest power of two that fits every player */
+export function getBracketSize(playerCount: number): number {
+    let size = 2
+    while (size < playerCount) size *= 2
+    return size
+}
+
+export function getEliminationRounds(playerCount: number): number {
+    return Math.log2(getBracketSize(playerCount))
+}
+
+/**
+ * Seeds in bracket order (8: 1 8 4 5 2 7 3 6) - the top seeds only meet in the late rounds
+ */
+function getSeedOrder(size: number): number[] {
+    let order = [1]
+    while (order.length < size) {
+        const next = order.length * 2 + 1
+        order = order.flatMap(seed => [seed, next - seed])
+    }
+    return order
+}
+
+/**
+ * First round seats for entrants sorted by seed
+ * Missing seeds are byes, so the strongest players get them
+ */
+export function getBracketSeats<T>(entrantsBySeed: T[]): [T | null, T | null][] {
+    const order = getSeedOrder(getBracketSize(entrantsBySeed.length))
+    const seats: [T | null, T | null][] = []
+    for (let i = 0; i < order.length; i += 2) {
+        seats.push([entrantsBySeed[order[i] - 1] ?? null, entrantsBySeed[order[i + 1] - 1] ?? null])
+    }
+    return seats
+}
+
+/**
+ * Where the winner of a slot plays next round
+ */
+export function getNextBracketSlot(slot: number): { slot: number; side: 'player1Id' | 'player2Id' } {
+    return { slot: Math.floor(slot / 2), side: slot % 2 === 0 ? 'player1Id' : 'player2Id' }
+}
+
+/**
+ * Final standings: the later a player was knocked out, the better
+ * Players knocked out in the same round share the placement (two 3rd, four 5th, ...)
+ */
+export function getEliminationStandings(
+    entrants: SeededEntrant[],
+    outcomes: PairingOutcome[]
+): TournamentStanding[] {
+    const knockedOutIn = (userId: string) => outcomes
+        .filter(o => (o.player1Id === userId || o.player2Id === userId) && o.winnerId !== userId)
+        .reduce((round, o) => Math.min(round, o.round), Infinity)
+    const wins = (userId: string) => outcomes.filter(o => o.winnerId === userId && !isBye(o)).length
+
+    const rows = entrants.map(e => ({ ...e, round: knockedOutIn(e.userId) }))
+    return rows
+        .map(row => ({
+            userId: row.userId,
+            seed: row.seed,
+            points: wins(row.userId),
+            buchholz: 0,
+            placement: 1 + rows.filter(other => other.round > row.round).length,
+        }))
+        .sort((a, b) => a.placement - b.placement || a.seed - b.seed)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Swiss
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Enough rounds to separate a single unbeaten player */
+export function getSwissRounds(playerCount: number): number {
+    return Math.max(1, Math.ceil(Math.log2(playerCount)))
+}
+
+function getOpponentId(outcome: PairingOutcome, userId: string): string | null {
+    return outcome.player1Id === userId ? outcome.player2Id : outcome.player1Id
+}
+
+/**
+ * Standings by points, then Buchholz, then seed
+ * Players level on points and Buchholz share the placement
+ */
+export function getSwissStandings(
+    entrants: SeededEntrant[],
+    outcomes: PairingOutcome[]
+): TournamentStanding[] {
+    const points = new Map(entrants.map(e => [e.userId, 0]))
+    for (const outcome of outcomes) {
+        for (const userId of [outcome.player1Id, outcome.player2Id]) {
+            if (!userId || !points.has(userId)) continue
+            const earned = isBye(outcome)
+                ? TOURNAMENT_POINTS.bye
+                : outcome.isDraw
+                    ? TOURNAMENT_POINTS.draw
+                    : outcome.winnerId === userId ? TOURNAMENT_POINTS.win : TOURNAMENT_POINTS.loss
+            points.set(userId, points.get(userId)! + earned)
+        }
+    }
+
+    const rows = entrants.map(e => {
+        const buchholz = outcomes
+            .filter(o => !isBye(o) && (o.player1Id === e.userId || o.player2Id === e.userId))
+            .reduce((sum, o) => sum + (points.get(getOpponentId(o, e.userId) ?? '') ?? 0), 0)
+        return { userId: e.userId, seed: e.seed, points: points.get(e.userId)!, buchholz }
+    })
+
+    const isAhead = (a: typeof rows[number], b: typeof rows[number]) =>
+        a.points > b.points || (a.points === b.points && a.buchholz > b.buchholz)
+
+    return rows
+        .map(row => ({ ...row, placement: 1 + rows.filter(other => isAhead(other, row)).length }))
+        .sort((a, b) => a.placement - b.placement || a.seed - b.seed)
+}
+
+/**
+ * Pair the next Swiss round from the current standings (active players only, best first)
+ * - Odd count: the lowest-ranked player without a bye yet sits out
+ * - Each player, best first, meets the next best they have not played (a rematch only if unavoidable)
+ */
+export function pairSwissRound(
+    standings: TournamentStanding[],
+    outcomes: PairingOutcome[]
+): { pairs: [string, string][]; byeId: string | null } {
+    const playedAgainst = (a: string, b: string) => outcomes.some(o =>
+        (o.player1Id === a && o.player2Id === b) || (o.player1Id === b && o.player2Id === a)
+    )
+    const hadBye = (userId: string) => outcomes.some(o => isBye(o) && (o.player1Id === userId || o.player2Id === userId))
+
+    const unpaired = standings.map(s => s.userId)
+    let byeId: string | null = null
+    if (unpaired.length % 2 === 1) {
+        byeId = [...unpaired].reverse().find(userId => !hadBye(userId)) ?? unpaired[unpaired.length - 1]
+        unpaired.splice(unpaired.indexOf(byeId), 1)
+    }
+
+    const pairs: [string, string][] = []
+    while (unpaired.length >= 2) {
+        const player = unpaired.shift()!
+        const index = unpaired.findIndex(other => !playedAgainst(player, other))
+        const [opponent] = unpaired.splice(Math.max(0, index), 1)
+        pairs.push([player, opponent])
+    }
+
+    return { pairs, byeId }
+}
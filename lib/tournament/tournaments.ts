@@ -0,0 +1,608 @@
+/**
+ * Tournaments - bracket progression for single elimination and Swiss events
+ *
+ * Every pairing with two players is played as an ordinary duel room seated for both of them:
+ * - The room opens as soon as both players are known; they check in by opening it, and it
+ *   starts on its own once both did (Match.startsAt, same countdown as Quick Match)
+ * - finishGame reports the result (recordTournamentResult) - a tie or an abandoned match goes to
+ *   the higher seed in single elimination and is a draw in Swiss
+ * - A room still waiting at its deadline is decided by forfeit: the player who checked in wins,
+ *   neither player means both lose (resolveTournamentDeadlines, run by the tournament page and cron)
+ * - Leaving the room or withdrawing forfeits the open pairing
+ * - Pairings and rounds only move forward through compare-and-set updates, so results arriving
+ *   together (both players' finishGame, cron, page loads) never decide or advance anything twice
+ *
+ * Single elimination creates the whole bracket at the start. A decided pairing moves its winner
+ * into the next round and bumps filledSlots there - at 2 that pairing is played, a walkover or empty.
+ * Swiss creates one round at a time, once every pairing of the current round is decided.
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+    MatchStatus,
+    TournamentFormat,
+    TournamentPairingStatus,
+    TournamentStatus,
+    type Tournament,
+    type TournamentEntrant,
+    type TournamentPairing,
+} from '@prisma/client'
+import { createWaitingMatch, joinWaitingMatch } from '@/actions/game.server'
+import { realtimeServer } from '@/lib/realtime/server'
+import { getRoomChannel, ROOM_EVENTS } from '@/lib/realtime/channels'
+import { START_COUNTDOWN_MS, type MatchRulePreset } from '@/lib/config/game'
+import { DEFAULT_RATING } from '@/lib/config/rating'
+import { TOURNAMENT_CHECK_IN_MS, TOURNAMENT_START_GRACE_MS } from '@/lib/config/tournament'
+import {
+    getBracketSeats,
+    getBracketSize,
+    getEliminationRounds,
+    getEliminationStandings,
+    getNextBracketSlot,
+    getSwissRounds,
+    getSwissStandings,
+    pairSwissRound,
+    type PairingOutcome,
+    type SeededEntrant,
+    type TournamentStanding,
+} from './pairing'
+
+/** Pairings that may still be decided */
+const OPEN_PAIRING_STATUSES = [TournamentPairingStatus.pending, TournamentPairingStatus.ready]
+
+interface PairingDecision {
+    status: TournamentPairingStatus
+    winnerId: string | null
+    isDraw: boolean
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function getSeededEntrants(tournament: Tournament): SeededEntrant[] {
+    return tournament.entrants.flatMap(e => e.seed === null ? [] : [{ userId: e.userId, seed: e.seed }])
+}
+
+function toOutcome(pairing: TournamentPairing): PairingOutcome {
+    return {
+        round: pairing.round,
+        player1Id: pairing.player1Id,
+        player2Id: pairing.player2Id,
+        winnerId: pairing.winnerId,
+        isDraw: pairing.isDraw,
+    }
+}
+
+async function getDecidedOutcomes(tournamentId: string): Promise<PairingOutcome[]> {
+    const pairings = await prisma.tournamentPairing.findMany({
+        where: { tournamentId, status: { notIn: OPEN_PAIRING_STATUSES } },
+    })
+    return pairings.map(toOutcome)
+}
+
+/**
+ * Standings from the decided pairings (live for Swiss, final once finished)
+ */
+export async function getTournamentStandings(tournament: Tournament): Promise<TournamentStanding[]> {
+    const outcomes = await getDecidedOutcomes(tournament.id)
+    return tournament.format === TournamentFormat.single_elimination
+        ? getEliminationStandings(getSeededEntrants(tournament), outcomes)
+        : getSwissStandings(getSeededEntrants(tournament), outcomes)
+}
+
+/**
+ * Result when a match could not separate the players (tie, abandoned, never started)
+ */
+function getDrawDecision(
+    tournament: Tournament,
+    pairing: TournamentPairing,
+    status: TournamentPairingStatus
+): PairingDecision {
+    if (tournament.format === TournamentFormat.swiss) {
+        return { status, winnerId: null, isDraw: true }
+    }
+
+    // Somebody has to advance - the higher seed does
+    const seedOf = (userId: string | null) =>
+        tournament.entrants.find(e => e.userId === userId)?.seed ?? Infinity
+    const winnerId = seedOf(pairing.player1Id) <= seedOf(pairing.player2Id) ? pairing.player1Id : pairing.player2Id
+    return { status, winnerId, isDraw: true }
+}
+
+async function notifyRoomDecided(pairing: TournamentPairing, winnerId: string | null): Promise<void> {
+    if (!pairing.matchId) return
+    await realtimeServer.trigger(
+        getRoomChannel(pairing.matchId),
+        ROOM_EVENTS.TOURNAMENT_DECIDED,
+        { winnerId }
+    )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rooms
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Open a pending pairing with two players: start the check-in clock and seat both in a room
+ * A room that cannot be created is left to the deadline (decided as never started)
+ */
+async function openPairing(tournament: Tournament, pairing: TournamentPairing): Promise<void> {
+    const { count } = await prisma.tournamentPairing.updateMany({
+        where: { id: pairing.id, status: TournamentPairingStatus.pending },
+        data: {
+            status: TournamentPairingStatus.ready,
+            deadlineAt: new Date(Date.now() + TOURNAMENT_CHECK_IN_MS),
+        },
+    })
+    if (count === 0) return
+
+    await prisma.tournament.updateMany({
+        where: { id: tournament.id, currentRound: { lt: pairing.round } },
+        data: { currentRound: pairing.round },
+    })
+
+    try {
+        const { matchId } = await createWaitingMatch(pairing.player1Id!, {
+            targetLanguage: tournament.targetLanguage,
+            rank: tournament.rank,
+            questionCount: tournament.questionCount,
+            isBot: false,
+            rulesPreset: tournament.rulesPreset as MatchRulePreset,
+            tournamentId: tournament.id,
+        })
+
+        const joined = await joinWaitingMatch(matchId, pairing.player2Id!)
+        if (!joined.success) throw new Error(joined.error)
+
+        await prisma.tournamentPairing.update({
+            where: { id: pairing.id },
+            data: { matchId },
+        })
+    } catch (error) {
+        console.error(`🏆 [Tournament] Failed to open a room for pairing ${pairing.id}:`, error)
+    }
+}
+
+/**
+ * Check a player in to their tournament room
+ * Once both players are in, the room gets a start time and counts down on its own
+ * @returns null if the match is not an open tournament pairing of this player
+ */
+export async function checkInPairing(
+    matchId: string,
+    userId: string
+): Promise<{ startsAt: number | null; deadlineAt: number | null } | null> {
+    const pairing = await prisma.tournamentPairing.findFirst({
+        where: { matchId, status: TournamentPairingStatus.ready },
+    })
+    if (!pairing || (pairing.player1Id !== userId && pairing.player2Id !== userId)) return null
+
+    if (!pairing.checkedInUserIds.includes(userId)) {
+        await prisma.tournamentPairing.updateMany({
+            where: { id: pairing.id, status: TournamentPairingStatus.ready, NOT: { checkedInUserIds: { has: userId } } },
+            data: { checkedInUserIds: { push: userId } },
+        })
+    }
+
+    const current = await prisma.tournamentPairing.findUnique({ where: { id: pairing.id } })
+    if (!current) return null
+
+    const bothIn = [current.player1Id, current.player2Id].every(id => !!id && current.checkedInUserIds.includes(id))
+    if (bothIn) {
+        // First of the two requests to get here schedules the start
+        const startsAt = Date.now() + START_COUNTDOWN_MS
+        const { count } = await prisma.match.updateMany({
+            where: { id: matchId, status: MatchStatus.waiting, startsAt: null },
+            data: { startsAt: new Date(startsAt) },
+        })
+        if (count === 1) {
+            const deadlineAt = new Date(startsAt + TOURNAMENT_START_GRACE_MS)
+            await prisma.tournamentPairing.update({
+                where: { id: pairing.id },
+                data: { deadlineAt },
+            })
+            await realtimeServer.trigger(
+                getRoomChannel(matchId),
+                ROOM_EVENTS.START_COUNTDOWN,
+                { matchId, startsAt }
+            )
+            return { startsAt, deadlineAt: deadlineAt.getTime() }
+        }
+    }
+
+    const match = await prisma.match.findUnique({
+        where: { id: matchId },
+        select: { startsAt: true },
+    })
+    return {
+        startsAt: match?.startsAt?.getTime() ?? null,
+        deadlineAt: current.deadlineAt?.getTime() ?? null,
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Progression
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decide an open pairing and move the tournament on
+ * No effect if the pairing was already decided
+ */
+async function decidePairing(
+    tournament: Tournament,
+    pairing: TournamentPairing,
+    decision: PairingDecision
+): Promise<boolean> {
+    const { count } = await prisma.tournamentPairing.updateMany({
+        where: { id: pairing.id, status: { in: OPEN_PAIRING_STATUSES } },
+        data: decision,
+    })
+    if (count === 0) return false
+
+    console.log(`🏆 [Tournament] ${tournament.name} round ${pairing.round} slot ${pairing.slot}: ${decision.status}, winner ${decision.winnerId ?? 'none'}`)
+
+    if (tournament.format === TournamentFormat.single_elimination) {
+        await advanceBracket(tournament, pairing, decision.winnerId)
+    } else {
+        await advanceSwiss(tournament, pairing.round)
+    }
+    return true
+}
+
+/**
+ * Single elimination: move the winner into the next round (or finish after the final)
+ */
+async function advanceBracket(
+    tournament: Tournament,
+    pairing: TournamentPairing,
+    winnerId: string | null
+): Promise<void> {
+    if (pairing.round >= tournament.totalRounds) {
+        await finishTournament(tournament.id)
+        return
+    }
+
+    const next = getNextBracketSlot(pairing.slot)
+    const updated = await prisma.tournamentPairing.update({
+        where: { tournamentId_round_slot: { tournamentId: tournament.id, round: pairing.round + 1, slot: next.slot } },
+        data: {
+            ...(winnerId && { [next.side]: winnerId }),
+            filledSlots: { increment: 1 },
+        },
+    })
+
+    if (updated.filledSlots >= 2) {
+        await fillBracketPairing(tournament, updated)
+    }
+}
+
+/**
+ * Single elimination pairing whose feeders are decided: play it, or walk over
+ * Withdrawn players are skipped - their opponent advances, and nobody does if both are gone
+ */
+async function fillBracketPairing(tournament: Tournament, pairing: TournamentPairing): Promise<void> {
+    const fresh = await prisma.tournament.findUnique({ where: { id: tournament.id } })
+    const withdrawn = new Set((fresh ?? tournament).entrants.filter(e => e.withdrawn).map(e => e.userId))
+    const seated = [pairing.player1Id, pairing.player2Id].filter((id): id is string => !!id)
+    const present = seated.filter(id => !withdrawn.has(id))
+
+    if (present.length === 2) {
+        await openPairing(tournament, pairing)
+        return
+    }
+
+    await decidePairing(tournament, pairing, {
+        status: seated.length === 2 ? TournamentPairingStatus.forfeit : TournamentPairingStatus.bye,
+        winnerId: present[0] ?? null,
+        isDraw: false,
+    })
+}
+
+/**
+ * Swiss: once every pairing of the round is decided, pair the next round (or finish)
+ */
+async function advanceSwiss(tournament: Tournament, round: number): Promise<void> {
+    const open = await prisma.tournamentPairing.count({
+        where: { tournamentId: tournament.id, round, status: { in: OPEN_PAIRING_STATUSES } },
+    })
+    if (open > 0) return
+
+    if (round >= tournament.totalRounds) {
+        await finishTournament(tournament.id)
+        return
+    }
+
+    const { count } = await prisma.tournament.updateMany({
+        where: { id: tournament.id, status: TournamentStatus.running, currentRound: round },
+        data: { currentRound: round + 1 },
+    })
+    if (count === 0) return
+
+    const fresh = await prisma.tournament.findUnique({ where: { id: tournament.id } })
+    if (fresh) await createSwissRound(fresh, round + 1)
+}
+
+/**
+ * Pair a Swiss round among the players who have not withdrawn
+ */
+async function createSwissRound(tournament: Tournament, round: number): Promise<void> {
+    const outcomes = await getDecidedOutcomes(tournament.id)
+    const active = new Set(tournament.entrants.filter(e => !e.withdrawn).map(e => e.userId))
+    const standings = getSwissStandings(getSeededEntrants(tournament), outcomes).filter(s => active.has(s.userId))
+    const { pairs, byeId } = pairSwissRound(standings, outcomes)
+
+    await prisma.tournamentPairing.createMany({
+        data: [
+            ...pairs.map(([player1Id, player2Id], slot) => ({
+                tournamentId: tournament.id,
+                round,
+                slot,
+                player1Id,
+                player2Id,
+                filledSlots: 2,
+                checkedInUserIds: [],
+            })),
+            ...(byeId ? [{
+                tournamentId: tournament.id,
+                round,
+                slot: pairs.length,
+                player1Id: byeId,
+                player2Id: null,
+                filledSlots: 1,
+                status: TournamentPairingStatus.bye,
+                winnerId: byeId,
+                checkedInUserIds: [],
+            }] : []),
+        ],
+    })
+
+    const pending = await prisma.tournamentPairing.findMany({
+        where: { tournamentId: tournament.id, round, status: TournamentPairingStatus.pending },
+        orderBy: { slot: 'asc' },
+    })
+    for (const pairing of pending) {
+        await openPairing(tournament, pairing)
+    }
+
+    // Only a bye (or nobody) left to play
+    if (pending.length === 0) {
+        await advanceSwiss(tournament, round)
+    }
+}
+
+/**
+ * Record the final standings on the entrants
+ */
+async function finishTournament(tournamentId: string): Promise<void> {
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } })
+    if (!tournament || tournament.status !== TournamentStatus.running) return
+
+    const standings = await getTournamentStandings(tournament)
+    const entrants: TournamentEntrant[] = tournament.entrants.map(entrant => {
+        const standing = standings.find(s => s.userId === entrant.userId)
+        return { ...entrant, placement: standing?.placement ?? null, points: standing?.points ?? null }
+    })
+
+    const { count } = await prisma.tournament.updateMany({
+        where: { id: tournamentId, status: TournamentStatus.running },
+        data: { status: TournamentStatus.finished, entrants, endedAt: new Date() },
+    })
+    if (count === 1) {
+        console.log(`🏆 [Tournament] ${tournament.name} finished, winner ${standings[0]?.userId ?? 'none'}`)
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Start
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Close registration, seed the players by rating and open the first round
+ * @returns false if the tournament was not open for registration (e.g. started concurrently)
+ */
+export async function startTournament(tournamentId: string): Promise<boolean> {
+    const tournament = await prisma.tournament.findUnique({ where: { id: tournamentId } })
+    if (!tournament || tournament.status !== TournamentStatus.registration) return false
+
+    // Seed by the current rating in the language, earlier registration first on equal ratings
+    const ratings = await prisma.playerRating.findMany({
+        where: { targetLanguage: tournament.targetLanguage, userId: { in: tournament.entrants.map(e => e.userId) } },
+        select: { userId: true, rating: true },
+    })
+    const entrants = tournament.entrants
+        .map(e => ({ ...e, rating: ratings.find(r => r.userId === e.userId)?.rating ?? DEFAULT_RATING }))
+        .sort((a, b) => b.rating - a.rating || a.registeredAt.getTime() - b.registeredAt.getTime())
+        .map((e, index) => ({ ...e, seed: index + 1 }))
+
+    const totalRounds = tournament.format === TournamentFormat.single_elimination
+        ? getEliminationRounds(entrants.length)
+        : getSwissRounds(entrants.length)
+
+    const { count } = await prisma.tournament.updateMany({
+        where: { id: tournamentId, status: TournamentStatus.registration },
+        data: { status: TournamentStatus.running, entrants, totalRounds, currentRound: 1, startedAt: new Date() },
+    })
+    if (count === 0) return false
+
+    const started: Tournament = { ...tournament, status: TournamentStatus.running, entrants, totalRounds, currentRound: 1 }
+    if (started.format === TournamentFormat.single_elimination) {
+        await createBracket(started)
+    } else {
+        await createSwissRound(started, 1)
+    }
+
+    console.log(`🏆 [Tournament] ${started.name} started with ${entrants.length} players, ${totalRounds} rounds`)
+    return true
+}
+
+/**
+ * Single elimination: every round up front, then the first round is played (or walked over)
+ */
+async function createBracket(tournament: Tournament): Promise<void> {
+    const bySeed = [...tournament.entrants].sort((a, b) => (a.seed ?? 0) - (b.seed ?? 0)).map(e => e.userId)
+    const seats = getBracketSeats(bySeed)
+    const size = getBracketSize(bySeed.length)
+
+    const data = [
+        ...seats.map(([player1Id, player2Id], slot) => ({
+            tournamentId: tournament.id,
+            round: 1,
+            slot,
+            player1Id,
+            player2Id,
+            filledSlots: 2,
+            checkedInUserIds: [],
+        })),
+    ]
+    for (let round = 2; round <= tournament.totalRounds; round++) {
+        for (let slot = 0; slot < size / 2 ** round; slot++) {
+            data.push({ tournamentId: tournament.id, round, slot, player1Id: null, player2Id: null, filledSlots: 0, checkedInUserIds: [] })
+        }
+    }
+    await prisma.tournamentPairing.createMany({ data })
+
+    const firstRound = await prisma.tournamentPairing.findMany({
+        where: { tournamentId: tournament.id, round: 1 },
+        orderBy: { slot: 'asc' },
+    })
+    for (const pairing of firstRound) {
+        await fillBracketPairing(tournament, pairing)
+    }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Results
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Decide the pairing a match was played for
+ * Called by finishGame and for abandoned matches; no effect for other matches or if already decided
+ */
+export async function recordTournamentResult(matchId: string): Promise<void> {
+    const pairing = await prisma.tournamentPairing.findFirst({
+        where: { matchId, status: TournamentPairingStatus.ready },
+    })
+    if (!pairing) return
+
+    const match = await prisma.match.findUnique({
+        where: { id: matchId },
+        select: { status: true, winnerId: true },
+    })
+    if (!match || (match.status !== MatchStatus.finished && match.status !== MatchStatus.abandoned)) return
+
+    const tournament = await prisma.tournament.findUnique({ where: { id: pairing.tournamentId } })
+    if (!tournament) return
+
+    const winnerId = match.status === MatchStatus.finished ? match.winnerId : null
+    const decision = winnerId && (winnerId === pairing.player1Id || winnerId === pairing.player2Id)
+        ? { status: TournamentPairingStatus.finished, winnerId, isDraw: false }
+        : getDrawDecision(tournament, pairing, TournamentPairingStatus.finished)
+
+    await decidePairing(tournament, pairing, decision)
+}
+
+/**
+ * Decide pairings whose room is still waiting past the deadline
+ * Rooms that already started are left to the game (cron abandons them if they get stuck)
+ */
+export async function resolveTournamentDeadlines(tournamentId?: string): Promise<number> {
+    const overdue = await prisma.tournamentPairing.findMany({
+        where: {
+            status: TournamentPairingStatus.ready,
+            deadlineAt: { lt: new Date() },
+            ...(tournamentId && { tournamentId }),
+        },
+        take: 50,
+    })
+
+    let resolved = 0
+    for (const pairing of overdue) {
+        const match = pairing.matchId
+            ? await prisma.match.findUnique({ where: { id: pairing.matchId }, select: { status: true } })
+            : null
+
+        if (match?.status === MatchStatus.playing) continue
+        if (match?.status === MatchStatus.finished || match?.status === MatchStatus.abandoned) {
+            await recordTournamentResult(pairing.matchId!)
+            continue
+        }
+        if (match?.status === MatchStatus.waiting) {
+            const { count } = await prisma.match.updateMany({
+                where: { id: pairing.matchId!, status: MatchStatus.waiting },
+                data: { status: MatchStatus.cancelled },
+            })
+            if (count === 0) continue // Started just now
+        }
+
+        const tournament = await prisma.tournament.findUnique({ where: { id: pairing.tournamentId } })
+        if (!tournament) continue
+
+        const present = [pairing.player1Id, pairing.player2Id]
+            .filter((id): id is string => !!id && pairing.checkedInUserIds.includes(id))
+        const decision: PairingDecision = present.length === 1
+            ? { status: TournamentPairingStatus.forfeit, winnerId: present[0], isDraw: false }
+            : present.length === 2 || !pairing.matchId
+                // Both came (or the room never opened) but nothing was played
+                ? getDrawDecision(tournament, pairing, TournamentPairingStatus.forfeit)
+                : { status: TournamentPairingStatus.forfeit, winnerId: null, isDraw: false }
+
+        if (await decidePairing(tournament, pairing, decision)) {
+            await notifyRoomDecided(pairing, decision.winnerId)
+            resolved++
+        }
+    }
+    return resolved
+}
+
+/**
+ * Forfeit a player's open pairing (left the room or withdrew)
+ * @returns false if there is nothing to forfeit - or the room already started, then the game decides
+ */
+export async function forfeitPairing(pairing: TournamentPairing, userId: string): Promise<boolean> {
+    if (pairing.status !== TournamentPairingStatus.ready) return false
+
+    if (pairing.matchId) {
+        const { count } = await prisma.match.updateMany({
+            where: { id: pairing.matchId, status: MatchStatus.waiting },
+            data: { status: MatchStatus.cancelled },
+        })
+        if (count === 0) return false
+    }
+
+    const tournament = await prisma.tournament.findUnique({ where: { id: pairing.tournamentId } })
+    if (!tournament) return false
+
+    const winnerId = pairing.player1Id === userId ? pairing.player2Id : pairing.player1Id
+    const decided = await decidePairing(tournament, pairing, {
+        status: TournamentPairingStatus.forfeit,
+        winnerId,
+        isDraw: false,
+    })
+    if (decided) {
+        await notifyRoomDecided(pairing, winnerId)
+    }
+    return decided
+}
+
+/**
+ * Withdraw a player from a running tournament
+ * Their open pairing is forfeited and they are left out of every later pairing
+ */
+export async function withdrawEntrant(tournamentId: string, userId: string): Promise<void> {
+    await prisma.tournament.update({
+        where: { id: tournamentId },
+        data: { entrants: { updateMany: { where: { userId }, data: { withdrawn: true } } } },
+    })
+
+    const open = await prisma.tournamentPairing.findFirst({
+        where: {
+            tournamentId,
+            status: TournamentPairingStatus.ready,
+            OR: [{ player1Id: userId }, { player2Id: userId }],
+        },
+    })
+    if (open) {
+        await forfeitPairing(open, userId)
+    }
+}
@@ -17,7 +17,7 @@ export async function middleware(request: NextRequest) {
     // Just skip admin routes here
 
     // Protect game routes - require login
-    const gameRoutes = ["/lobby", "/room", "/battle", "/profile", "/history", "/settings"];
+    const gameRoutes = ["/lobby", "/quick-match", "/classroom", "/screen", "/answer", "/tournaments", "/friends", "/room", "/battle", "/profile", "/history", "/settings"];
     const isGameRoute = gameRoutes.some(route => pathname.startsWith(route));
 
     if (isGameRoute && !isLoggedIn) {
@@ -40,6 +40,12 @@ export const config = {
         "/",
         "/login",
         "/lobby/:path*",
+        "/quick-match/:path*",
+        "/classroom/:path*",
+        "/screen/:path*",
+        "/answer/:path*",
+        "/tournaments/:path*",
+        "/friends/:path*",
         "/room/:path*",
         "/battle/:path*",
         "/profile/:path*",
@@ -1,9 +1,11 @@
 /**
- * Seed script: Create Bot Users for LLM models
+ * Seed script: Create Bot Users for LLM models and rule bots
+ * Existing bots without a registry entry (User.botConfig) get one backfilled.
+ * More bots (e.g. a local Ollama model) can be added from /admin/bots.
  * Run: npx tsx prisma/seed-bots.ts
  */
 
-import { PrismaClient, UserRole } from '@prisma/client';
+import { PrismaClient, UserRole, BotProvider, BotPromptStyle } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -13,6 +15,14 @@ const BOT_USERS = [
         email: 'bot-gemma@duo-nan-guo.local',
         isBot: true,
         botModel: 'gemma-3-27b-it',
+        botConfig: {
+            provider: BotProvider.google,
+            modelId: 'gemma-3-27b-it',
+            apiKeyEnv: 'GEMINI_API_KEY',
+            temperature: 0.2,
+            promptStyle: BotPromptStyle.terse,
+            timeoutMs: 5000,
+        },
         role: UserRole.user,
         image: '/gemma.png',
         // Note: stats are now calculated on-the-fly from Match/AnswerRecord
@@ -22,6 +32,15 @@ const BOT_USERS = [
         email: 'bot-llama@duo-nan-guo.local',
         isBot: true,
         botModel: 'llama-3.3-70b-versatile',
+        botConfig: {
+            provider: BotProvider.openai_compatible,
+            modelId: 'llama-3.3-70b-versatile',
+            baseUrl: 'https://api.groq.com/openai/v1',
+            apiKeyEnv: 'GROQ_API_KEY',
+            temperature: 0.2,
+            promptStyle: BotPromptStyle.terse,
+            timeoutMs: 5000,
+        },
         role: UserRole.user,
         image: '/llama.png',
     },
@@ -30,9 +49,46 @@ const BOT_USERS = [
         email: 'bot-gpt4o-mini@duo-nan-guo.local',
         isBot: true,
         botModel: 'gpt-4o-mini',
+        botConfig: {
+            provider: BotProvider.openai_compatible,
+            modelId: 'gpt-4o-mini',
+            apiKeyEnv: 'OPENAI_API_KEY',
+            temperature: 0.2,
+            promptStyle: BotPromptStyle.terse,
+            timeoutMs: 5000,
+        },
         role: UserRole.user,
         image: '/gpt.png',
     },
+    // Rule bots: answer from Question.correctAnswer (no API keys needed)
+    // Profiles live in lib/config/bot.ts
+    {
+        name: 'RiceBot (簡單)',
+        email: 'bot-rule-easy@duo-nan-guo.local',
+        isBot: true,
+        botModel: 'rule-easy',
+        botConfig: { provider: BotProvider.rule, modelId: 'rule-easy' },
+        role: UserRole.user,
+        image: '/mascot-robot.jpg',
+    },
+    {
+        name: 'RiceBot',
+        email: 'bot-rule@duo-nan-guo.local',
+        isBot: true,
+        botModel: 'rule',
+        botConfig: { provider: BotProvider.rule, modelId: 'rule' },
+        role: UserRole.user,
+        image: '/mascot-robot.jpg',
+    },
+    {
+        name: 'RiceBot (困難)',
+        email: 'bot-rule-hard@duo-nan-guo.local',
+        isBot: true,
+        botModel: 'rule-hard',
+        botConfig: { provider: BotProvider.rule, modelId: 'rule-hard' },
+        role: UserRole.user,
+        image: '/mascot-robot.jpg',
+    },
 ];
 
 async function main() {
@@ -44,6 +100,14 @@ async function main() {
         });
 
         if (existing) {
+            if (!existing.botConfig) {
+                await prisma.user.update({
+                    where: { id: existing.id },
+                    data: { botConfig: bot.botConfig },
+                });
+                console.log(`  🔧 ${bot.name} already exists, backfilled registry entry (id: ${existing.id})`);
+                continue;
+            }
             console.log(`  ⏭️  ${bot.name} already exists (id: ${existing.id})`);
             continue;
         }
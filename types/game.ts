@@ -1,4 +1,4 @@
-import type { TargetLanguage, MatchPlayer } from '@prisma/client';
+import type { TargetLanguage, MatchPlayer, MatchMode, MatchRules, GameMode, PowerUpType } from '@prisma/client';
 
 export enum GamePhase {
   IDLE = 'IDLE',
@@ -8,6 +8,9 @@ export enum GamePhase {
   FINISHED = 'FINISHED',
 }
 
+/** Another player's answer during PLAYING - only "has answered" is revealed until RESOLVING */
+export const HIDDEN_ANSWER = '*';
+
 export interface ClientQuestion {
   id: string;
   stimulus: string;
@@ -17,10 +20,10 @@ export interface ClientQuestion {
 export interface GameSession {
   matchId: string;
   questions: ClientQuestion[];
-  correctAnswerHashes: Record<string, string>; // questionId -> hash for frontend validation
   players: MatchPlayer[];
   targetLanguage: TargetLanguage;
   rank: number;
+  rules: MatchRules; // Timing and scoring of this match
 }
 
 
@@ -69,18 +72,31 @@ export interface PlayerResult {
   accuracy: number;
   maxStreak: number;
   avgResponseTime: number; // Average response time in seconds
+  placement: number;       // Final ranking (1 = first, ties share a placement)
+  // Game mode summary
+  answeredCount: number;           // Questions answered (timeouts excluded)
+  livesLeft: number | null;        // Survival / sudden death
+  eliminatedAt: number | null;     // Question number (1-indexed) that took the last life, null = survived
+  // Power-ups
+  powerUpsUsed: PowerUpType[];
+  assistedAnswers: number;         // Answers given with a power-up active
 }
 
 export interface GameResult {
   matchId: string;
   outcome: 'win' | 'lose' | 'tie';
-  // Symmetric player data
+  // Symmetric player data (opponent = best-placed other player, null for a presenter session with one student)
   self: PlayerResult;
-  opponent: PlayerResult;
+  opponent: PlayerResult | null;
+  // Every player ordered by placement (multiplayer standings)
+  standings: PlayerResult[];
   // Match metadata
   match: {
     totalQuestions: number;
     language: string;
     level: string;
+    mode: MatchMode;
+    gameMode: GameMode;
+    rules: MatchRules;
   };
 }